@@ -0,0 +1,144 @@
+import { HttpAgentAdapter } from '../HttpAgentAdapter';
+import { CommandExecutionError, SandboxException } from '@/errors';
+import type { SandboxInfo } from '@/types';
+
+const DEFAULT_WORKSPACE_ROOT = '/mnt/nas/workspaces';
+
+/**
+ * Configuration for AliyunFCAdapter.
+ */
+export interface AliyunFCConfig {
+  /** HTTP trigger URL of the function running the sandbox agent */
+  endpoint: string;
+  /** Sandbox identifier, used as the workspace name */
+  sandboxId: string;
+  /** Token the agent expects as `Authorization: Bearer <token>` */
+  token?: string;
+  /**
+   * Directory holding the workspaces inside the function, i.e. the agent's
+   * `rootDir`. Point it at a NAS mount so workspaces survive instance
+   * recycling.
+   * @default '/mnt/nas/workspaces'
+   */
+  workspaceRoot?: string;
+}
+
+/**
+ * Aliyun Function Compute provider adapter.
+ *
+ * The FC custom container runs the sandbox agent (see
+ * `docs/HTTP_AGENT_PROTOCOL.md`, or `createSandboxAgent`) with `rootDir` set
+ * to `workspaceRoot`, so everything except the lifecycle is inherited from
+ * HttpAgentAdapter. FC starts and recycles instances on its own; a sandbox is
+ * the workspace directory `<workspaceRoot>/<sandboxId>`, which `create()` and
+ * `delete()` add and remove. `stop()` only records the state.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new AliyunFCAdapter({
+ *   endpoint: 'https://sandbox-executor.cn-hangzhou.fcapp.run',
+ *   sandboxId: 'user-project-123',
+ *   token: process.env.FC_AGENT_TOKEN
+ * });
+ *
+ * await adapter.ensureRunning();
+ * const result = await adapter.execute('node --version');
+ * ```
+ */
+export class AliyunFCAdapter extends HttpAgentAdapter {
+  readonly provider = 'aliyunfc';
+
+  private workspaceRoot: string;
+
+  constructor(config: AliyunFCConfig) {
+    const workspaceRoot = (config.workspaceRoot ?? DEFAULT_WORKSPACE_ROOT).replace(/\/+$/, '');
+    super({
+      sandboxId: config.sandboxId,
+      endpoint: config.endpoint,
+      token: config.token,
+      rootPath: `${workspaceRoot}/${config.sandboxId}`
+    });
+    if (!AliyunFCAdapter.isValidId(config.sandboxId)) {
+      throw new SandboxException(`Invalid sandbox ID: ${config.sandboxId}`, 'INVALID_ARGUMENT');
+    }
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /** Sandbox IDs name a directory, so they must not contain path separators. */
+  private static isValidId(sandboxId: string): boolean {
+    return sandboxId !== '' && !/[/\\]/.test(sandboxId) && !sandboxId.includes('..');
+  }
+
+  // ==================== Lifecycle Methods ====================
+
+  /** Running while the agent answers and the workspace exists. */
+  async getInfo(): Promise<SandboxInfo | null> {
+    const info = await super.getInfo();
+    if (!info) return null;
+
+    let workspace;
+    try {
+      workspace = (await this.getFileInfo([this.rootPath])).get(this.rootPath);
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to get sandbox info',
+        'getInfo',
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (!workspace?.isDirectory) {
+      this._status = { state: 'UnExist' };
+      return null;
+    }
+
+    return {
+      ...info,
+      image: { repository: 'custom-container' },
+      createdAt: workspace.createdAt ?? info.createdAt
+    };
+  }
+
+  /** Wait for the agent, which also wakes up a cold instance, then add the workspace. */
+  async create(): Promise<void> {
+    await super.create();
+    try {
+      await this.runInWorkspaceRoot(`mkdir -p ${this.escapeShellArg(this.rootPath)}`);
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw error;
+    }
+  }
+
+  /** FC scales idle instances to zero by itself; the workspace is kept. */
+  async stop(): Promise<void> {
+    this._status = { state: 'Stopped' };
+  }
+
+  async delete(): Promise<void> {
+    try {
+      this._status = { state: 'Deleting' };
+      await this.runInWorkspaceRoot(`rm -rf ${this.escapeShellArg(this.rootPath)}`);
+      this._status = { state: 'UnExist' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to delete sandbox',
+        'delete',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /** Commands default to the workspace, which may not exist yet. */
+  private async runInWorkspaceRoot(command: string): Promise<void> {
+    const result = await this.execute(command, { workingDirectory: this.workspaceRoot });
+    if (result.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Command failed: ${result.stderr}`,
+        command,
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+  }
+}
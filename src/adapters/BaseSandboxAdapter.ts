@@ -1,26 +1,62 @@
-import { FeatureNotSupportedError, SandboxReadyTimeoutError } from '../errors';
+import {
+  CommandExecutionError,
+  FeatureNotSupportedError,
+  SandboxException,
+  SandboxNotFoundError,
+  SandboxReadyTimeoutError,
+  TimeoutError
+} from '../errors';
 import type { ISandbox } from '../interfaces/ISandbox';
-import { CommandPolyfillService } from '../polyfill/CommandPolyfillService';
+import { type BackgroundOutput, CommandPolyfillService } from '../polyfill/CommandPolyfillService';
+import { JupyterGatewayService } from '../polyfill/JupyterGatewayService';
 import type {
+  ArchiveFormat,
+  ArchiveOptions,
+  CodeContext,
+  CodeContextOptions,
+  CodeExecution,
   ContentReplaceEntry,
   DirectoryEntry,
   ExecuteOptions,
   ExecuteResult,
   FileDeleteResult,
+  FileHashResult,
   FileInfo,
   FileReadResult,
   FileWriteEntry,
   FileWriteResult,
+  HashFilesOptions,
   MoveEntry,
   PermissionEntry,
+  ProcessInfo,
+  ProcessSignal,
+  PtyHandle,
+  PtyOptions,
   ReadFileOptions,
+  RestoreSnapshotOptions,
+  RunCodeOptions,
   SandboxId,
   SandboxInfo,
   SandboxMetrics,
   SandboxStatus,
   SearchResult,
+  SnapshotInfo,
+  SnapshotOptions,
   StreamHandlers
 } from '../types';
+import { randomSuffix } from '../utils/id';
+import { BoundedOutputBuffer } from '../utils/outputBuffer';
+import { shellQuote } from '../utils/shell';
+import { asyncIterableToReadableStream } from '../utils/streams';
+
+/** Bytes of each stream kept for the result of waitForBackground. */
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Delay between reads of a background session's output once caught up. */
+const BACKGROUND_POLL_INTERVAL_MS = 500;
+
+/** Marker variable set on every command so its processes can be killed later. */
+export const EXEC_ID_ENV = 'SANDBOX_EXEC_ID';
 
 /**
  * Abstract base class for all sandbox adapters.
@@ -35,6 +71,7 @@ export abstract class BaseSandboxAdapter implements ISandbox {
 
   protected _status: SandboxStatus = { state: 'Creating' };
   protected polyfillService?: CommandPolyfillService;
+  private jupyterGateway?: JupyterGatewayService;
 
   constructor() {}
 
@@ -74,6 +111,26 @@ export abstract class BaseSandboxAdapter implements ISandbox {
   abstract delete(): Promise<void>;
   abstract getInfo(): Promise<SandboxInfo | null>;
 
+  /**
+   * Attach through {@link getInfo}. Adapters identified by the sandbox ID in
+   * their config only accept that ID.
+   */
+  async connect(sandboxId?: SandboxId): Promise<void> {
+    if (sandboxId !== undefined && sandboxId !== this.id) {
+      throw new SandboxException(
+        `Cannot connect to sandbox ${sandboxId}: this ${this.provider} adapter is bound to ${this.id}`,
+        'INVALID_ARGUMENT'
+      );
+    }
+
+    const info = await this.getInfo();
+    if (!info || info.status.state === 'UnExist') {
+      this._status = { state: 'UnExist' };
+      throw new SandboxNotFoundError(this.id ?? 'Unknown', this.provider);
+    }
+    this._status = info.status;
+  }
+
   async waitUntilReady(timeoutMs: number = 120000): Promise<void> {
     const startTime = Date.now();
     const checkInterval = 1000;
@@ -111,6 +168,127 @@ export abstract class BaseSandboxAdapter implements ISandbox {
     );
   }
 
+  // ==================== Snapshots ====================
+
+  /**
+   * Archive `rootPath` with `tar` inside the sandbox and put the archive in
+   * `options.store`. Providers with native snapshots override this and only
+   * fall back here when a store is given.
+   *
+   * @throws SandboxException with code INVALID_ARGUMENT if `rootPath` is `/`
+   */
+  async createSnapshot(options?: SnapshotOptions): Promise<SnapshotInfo> {
+    const store = options?.store;
+    if (!store) {
+      throw new FeatureNotSupportedError(
+        'Native snapshots not supported by this provider; pass a snapshot store',
+        'createSnapshot',
+        this.provider
+      );
+    }
+
+    const rootPath = this.snapshotRoot('archive');
+    const prefix = (this.id ?? 'sandbox').replace(/[^\w.-]/g, '-').replace(/^\.+/, '');
+    const snapshotId = `${prefix}-${randomSuffix()}`;
+    const archivePath = this.snapshotArchivePath(snapshotId);
+    const root = this.escapeShellArg(rootPath);
+    const archive = this.escapeShellArg(archivePath);
+
+    try {
+      const result = await this.execute(`tar -czf ${archive} -C ${root} .`);
+      if (result.exitCode !== 0) {
+        throw new CommandExecutionError(
+          `Failed to archive ${rootPath}`,
+          'createSnapshot',
+          result.exitCode ?? undefined,
+          result.stdout,
+          result.stderr
+        );
+      }
+
+      const [file] = await this.readFiles([archivePath]);
+      if (!file || file.error) {
+        throw file?.error ?? new Error(`No file result returned for ${archivePath}`);
+      }
+      await store.put(snapshotId, file.content);
+
+      return {
+        id: snapshotId,
+        sandboxId: this.id ?? 'Unknown',
+        name: options.name,
+        createdAt: new Date(),
+        sizeBytes: file.content.length
+      };
+    } finally {
+      await this.execute(`rm -f ${archive}`).catch(() => {});
+    }
+  }
+
+  /**
+   * Replace the contents of `rootPath` with an archive from `options.store`.
+   * Files created after the snapshot are removed.
+   *
+   * The archive is extracted into a staging directory next to `rootPath`
+   * first, so a failed extraction leaves `rootPath` untouched. Only then are
+   * the old contents replaced; `rootPath` itself is kept, as it may be a mount
+   * point or the working directory of running processes.
+   *
+   * @throws SandboxException with code SNAPSHOT_NOT_FOUND if the store has no
+   * archive for `snapshotId`
+   * @throws SandboxException with code INVALID_ARGUMENT if `snapshotId` is not
+   * a valid snapshot ID or `rootPath` is `/`
+   */
+  async restoreSnapshot(snapshotId: string, options?: RestoreSnapshotOptions): Promise<void> {
+    const store = options?.store;
+    if (!store) {
+      throw new FeatureNotSupportedError(
+        'Native snapshots not supported by this provider; pass a snapshot store',
+        'restoreSnapshot',
+        this.provider
+      );
+    }
+
+    const archivePath = this.snapshotArchivePath(snapshotId);
+    const rootPath = this.snapshotRoot('restore');
+
+    const data = await store.get(snapshotId);
+    if (!data) {
+      throw new SandboxException(`Snapshot not found: ${snapshotId}`, 'SNAPSHOT_NOT_FOUND');
+    }
+
+    const suffix = randomSuffix();
+    const root = this.escapeShellArg(rootPath);
+    const staging = this.escapeShellArg(`${rootPath}.restore-${suffix}`);
+    const archive = this.escapeShellArg(archivePath);
+
+    try {
+      const [written] = await this.writeFiles([{ path: archivePath, data }]);
+      if (!written || written.error) {
+        throw written?.error ?? new Error(`No write result returned for ${archivePath}`);
+      }
+
+      const result = await this.execute(
+        [
+          `mkdir -p ${staging} && tar -xzf ${archive} -C ${staging} || { rm -rf ${staging}; exit 1; }`,
+          `mkdir -p ${root} && find ${root} -mindepth 1 -maxdepth 1 -exec rm -rf {} + && find ${staging} -mindepth 1 -maxdepth 1 -exec sh -c 'mv "$@" "$0"/' ${root} {} +`,
+          `status=$?; rm -rf ${staging}; exit $status`
+        ].join('\n'),
+        { workingDirectory: '/' }
+      );
+      if (result.exitCode !== 0) {
+        throw new CommandExecutionError(
+          `Failed to restore snapshot ${snapshotId}`,
+          'restoreSnapshot',
+          result.exitCode ?? undefined,
+          result.stdout,
+          result.stderr
+        );
+      }
+    } finally {
+      await this.execute(`rm -f ${archive}`).catch(() => {});
+    }
+  }
+
   // ==================== ICommandExecution Implementation ====================
 
   abstract execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult>;
@@ -152,6 +330,219 @@ export abstract class BaseSandboxAdapter implements ISandbox {
     );
   }
 
+  // ==================== Exec Markers ====================
+
+  /**
+   * Start a command detached from the connection that launches it. The
+   * session ID is the execution marker, so `interrupt` can kill it through
+   * {@link killMarkedScript} without pid bookkeeping; the polyfill wrapper
+   * still records the session for the process manager.
+   *
+   * @param run - Runs a shell script through the adapter's transport
+   */
+  protected async launchMarkedBackground(
+    command: string,
+    options: ExecuteOptions | undefined,
+    run: (script: string) => Promise<{ stderr: string; exitCode: number | null }>
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    const execId = randomSuffix();
+    const launched = this.markedCommand(this.buildEnvScript(command, options), execId)
+      .map((arg) => this.escapeShellArg(arg))
+      .join(' ');
+
+    const wrapper = this.requirePolyfillService(
+      'executeBackground',
+      'Background execution not supported by this provider'
+    ).backgroundScript(execId, command, launched);
+
+    const result = await run(`nohup sh -c ${this.escapeShellArg(wrapper)} > /dev/null 2>&1 &`);
+    if (result.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Background command execution failed: ${result.stderr}`,
+        command,
+        result.exitCode ?? undefined
+      );
+    }
+
+    return {
+      sessionId: execId,
+      kill: () => this.interrupt(execId)
+    };
+  }
+
+  /**
+   * Build the shell script for `command`: exports the caller's env, then
+   * changes into the working directory. For transports without an env
+   * parameter; values are single-quoted so they are never expanded, and
+   * exporting after the login profile lets them win.
+   */
+  protected buildEnvScript(command: string, options?: ExecuteOptions): string {
+    const exports = Object.entries(options?.env ?? {}).map(([key, value]) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new CommandExecutionError(`Invalid environment variable name: ${key}`, command);
+      }
+      return `export ${key}=${this.escapeShellArg(value)}; `;
+    });
+    const [, , script] = this.buildCommand(command, this.normalizePath(options?.workingDirectory));
+    return `${exports.join('')}${script}`;
+  }
+
+  /**
+   * Command line running `script` in a login shell whose environment carries
+   * a marker identifying the execution for {@link killMarkedScript}.
+   */
+  protected markedCommand(script: string, execId: string): string[] {
+    return ['env', `${EXEC_ID_ENV}=${execId}`, 'sh', '-lc', script];
+  }
+
+  /**
+   * Script killing every process of an execution, found through the marker
+   * variable in their environment (inherited by descendants).
+   */
+  protected killMarkedScript(execId: string, signal: 'KILL' | 'TERM' = 'KILL'): string {
+    const marker = `${EXEC_ID_ENV}=${execId}`;
+    return `for f in $(grep -l -s -a '${marker}' /proc/[0-9]*/environ); do p=\${f#/proc/}; kill -${signal} \${p%/environ} 2>/dev/null; done; true`;
+  }
+
+  // ==================== IProcessManager Implementation (Polyfill) ====================
+
+  async listProcesses(): Promise<ProcessInfo[]> {
+    const polyfillService = this.requirePolyfillService(
+      'listProcesses',
+      'Process listing not supported by this provider'
+    );
+
+    return polyfillService.listProcesses();
+  }
+
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    const polyfillService = this.requirePolyfillService(
+      'getProcess',
+      'Process inspection not supported by this provider'
+    );
+
+    return polyfillService.getProcess(sessionId);
+  }
+
+  async signal(sessionId: string, signal?: ProcessSignal): Promise<void> {
+    const polyfillService = this.requirePolyfillService(
+      'signal',
+      'Process signals not supported by this provider'
+    );
+
+    await polyfillService.signalProcess(sessionId, signal);
+  }
+
+  async attachBackground(sessionId: string, handlers: StreamHandlers): Promise<void> {
+    const result = await this.followBackground(sessionId, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async waitForBackground(sessionId: string, timeoutMs?: number): Promise<ExecuteResult> {
+    return this.followBackground(sessionId, {}, timeoutMs);
+  }
+
+  /**
+   * Read a background session's output from the given positions, starting
+   * at 0. attachBackground and waitForBackground poll this until the session
+   * is done, so adapters with native access to background output only need
+   * to override it.
+   */
+  protected async readBackgroundOutput(
+    sessionId: string,
+    stdoutOffset: number,
+    stderrOffset: number
+  ): Promise<BackgroundOutput> {
+    const polyfillService = this.requirePolyfillService(
+      'attachBackground',
+      'Background output not supported by this provider'
+    );
+
+    return polyfillService.readBackgroundOutput(sessionId, stdoutOffset, stderrOffset);
+  }
+
+  private async followBackground(
+    sessionId: string,
+    handlers: StreamHandlers,
+    timeoutMs?: number
+  ): Promise<ExecuteResult> {
+    const deadline = timeoutMs === undefined ? Number.POSITIVE_INFINITY : Date.now() + timeoutMs;
+    const stdout = new BoundedOutputBuffer(DEFAULT_MAX_OUTPUT_BYTES);
+    const stderr = new BoundedOutputBuffer(DEFAULT_MAX_OUTPUT_BYTES);
+    // Chunks may split multi-byte characters, so decode in streaming mode.
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+    let stdoutOffset = 0;
+    let stderrOffset = 0;
+
+    for (;;) {
+      const output = await this.readBackgroundOutput(sessionId, stdoutOffset, stderrOffset);
+      stdoutOffset = output.stdoutOffset;
+      stderrOffset = output.stderrOffset;
+
+      const stdoutText = stdoutDecoder.decode(output.stdout, { stream: !output.done });
+      if (stdoutText) {
+        stdout.append(stdoutText);
+        await handlers.onStdout?.({ text: stdoutText, timestamp: Date.now() });
+      }
+      const stderrText = stderrDecoder.decode(output.stderr, { stream: !output.done });
+      if (stderrText) {
+        stderr.append(stderrText);
+        await handlers.onStderr?.({ text: stderrText, timestamp: Date.now() });
+      }
+
+      if (output.done) {
+        return {
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          exitCode: output.exitCode,
+          truncated: stdout.truncated || stderr.truncated
+        };
+      }
+      if (Date.now() >= deadline) {
+        throw new TimeoutError(
+          `Session ${sessionId} still running after ${timeoutMs}ms`,
+          timeoutMs ?? 0,
+          'waitForBackground'
+        );
+      }
+      if (output.stdout.length === 0 && output.stderr.length === 0) {
+        await this.sleep(Math.min(BACKGROUND_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())));
+      }
+    }
+  }
+
+  // ==================== IPty Implementation ====================
+
+  async openPty(_options?: PtyOptions): Promise<PtyHandle> {
+    throw new FeatureNotSupportedError(
+      'Interactive terminals not supported by this provider',
+      'openPty',
+      this.provider
+    );
+  }
+
+  // ==================== ICodeInterpreter Implementation (Jupyter Gateway) ====================
+
+  async runCode(code: string, options?: RunCodeOptions): Promise<CodeExecution> {
+    return this.getJupyterGateway().runCode(code, options);
+  }
+
+  async createCodeContext(options: CodeContextOptions = {}): Promise<CodeContext> {
+    const cwd = options.cwd === undefined ? undefined : this.normalizePath(options.cwd);
+    return this.getJupyterGateway().createCodeContext({ ...options, cwd });
+  }
+
+  async removeCodeContext(contextId: string): Promise<void> {
+    await this.getJupyterGateway().removeCodeContext(contextId);
+  }
+
+  /** The kernel gateway is only needed, and only started, once code runs. */
+  private getJupyterGateway(): JupyterGatewayService {
+    this.jupyterGateway ??= new JupyterGatewayService(this, this.provider);
+    return this.jupyterGateway;
+  }
+
   // ==================== IFileSystem Implementation (Polyfill) ====================
 
   async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
@@ -354,6 +745,89 @@ export abstract class BaseSandboxAdapter implements ISandbox {
     await this.writeStreamToFile(polyfillService, this.normalizePath(path), stream);
   }
 
+  // ==================== Archive Operations ====================
+
+  /**
+   * Pack the directory with `tar` inside the sandbox, then stream the archive
+   * out through {@link readFileStream}.
+   */
+  exportDirectory(path: string, options?: ArchiveOptions): ReadableStream<Uint8Array> {
+    const polyfillService = this.requirePolyfillService(
+      'exportDirectory',
+      'Directory export not supported by this provider'
+    );
+    return asyncIterableToReadableStream(
+      this.exportArchiveChunks(polyfillService, this.normalizePath(path), options?.format ?? 'tar')
+    );
+  }
+
+  private async *exportArchiveChunks(
+    polyfillService: CommandPolyfillService,
+    directory: string,
+    format: ArchiveFormat
+  ): AsyncGenerator<Uint8Array> {
+    const archivePath = this.tempArchivePath(format);
+    try {
+      await polyfillService.createArchive(directory, archivePath, format);
+      yield* this.readFileStream(archivePath);
+    } finally {
+      await polyfillService.deleteFiles([archivePath]).catch(() => {});
+    }
+  }
+
+  /**
+   * Upload the archive through {@link writeFileStream}, then extract it with
+   * `tar` (or `unzip`) inside the sandbox.
+   */
+  async importArchive(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: ArchiveOptions
+  ): Promise<void> {
+    const polyfillService = this.requirePolyfillService(
+      'importArchive',
+      'Archive import not supported by this provider'
+    );
+    const format = options?.format ?? 'tar';
+    const archivePath = this.tempArchivePath(format);
+
+    try {
+      await this.writeFileStream(archivePath, stream);
+      await polyfillService.extractArchive(archivePath, this.normalizePath(path), format);
+    } finally {
+      await polyfillService.deleteFiles([archivePath]).catch(() => {});
+    }
+  }
+
+  /**
+   * `rootPath` without a trailing slash. Archiving `/` would walk /proc and
+   * the archive being written, and restoring would replace the whole system.
+   */
+  private snapshotRoot(action: 'archive' | 'restore'): string {
+    const rootPath = this.rootPath.replace(/\/+$/, '');
+    if (!rootPath) {
+      throw new SandboxException(
+        `Refusing to ${action} / as a snapshot; configure a working directory`,
+        'INVALID_ARGUMENT'
+      );
+    }
+    return rootPath;
+  }
+
+  /** Scratch path of a snapshot archive; IDs follow the FileSnapshotStore key rules. */
+  private snapshotArchivePath(snapshotId: string): string {
+    if (!/^[\w.-]+$/.test(snapshotId) || snapshotId.startsWith('.')) {
+      throw new SandboxException(`Invalid snapshot ID: ${snapshotId}`, 'INVALID_ARGUMENT');
+    }
+    return `/tmp/.sandbox-snapshot-${snapshotId}.tar.gz`;
+  }
+
+  /** Unique scratch path for an archive in transit. */
+  private tempArchivePath(format: ArchiveFormat): string {
+    const suffix = randomSuffix();
+    return `/tmp/.sandbox-archive-${suffix}.${format}`;
+  }
+
   /**
    * Stream a ReadableStream into a file via a temporary file that is
    * atomically renamed on success. If the stream fails mid-write, the
@@ -364,7 +838,7 @@ export abstract class BaseSandboxAdapter implements ISandbox {
     path: string,
     stream: ReadableStream<Uint8Array>
   ): Promise<number> {
-    const tmpPath = `${path}.tmp.${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const tmpPath = `${path}.tmp.${randomSuffix()}`;
     const reader = stream.getReader();
     let totalBytes = 0;
     let first = true;
@@ -407,6 +881,22 @@ export abstract class BaseSandboxAdapter implements ISandbox {
     return polyfillService.getFileInfo(paths.map((p) => this.normalizePath(p)));
   }
 
+  async hashFiles(paths: string[], options?: HashFilesOptions): Promise<FileHashResult[]> {
+    const polyfillService = this.requirePolyfillService(
+      'hashFiles',
+      'File hashing not supported by this provider'
+    );
+
+    const normalized = paths.map((p) => this.normalizePath(p));
+    const hashes = await polyfillService.hashFiles(normalized, options?.algorithm);
+    return normalized.map((path, index) => {
+      const hash = hashes[index];
+      return typeof hash === 'string'
+        ? { path, hash, error: null }
+        : { path, hash: '', error: hash };
+    });
+  }
+
   async setPermissions(entries: PermissionEntry[]): Promise<void> {
     const polyfillService = this.requirePolyfillService(
       'setPermissions',
@@ -461,8 +951,7 @@ export abstract class BaseSandboxAdapter implements ISandbox {
   }
 
   protected escapeShellArg(arg: string): string {
-    // Replace single quotes with '\'' (end quote, escaped quote, start quote)
-    return `'${arg.replace(/'/g, "'\\''")}'`;
+    return shellQuote(arg);
   }
   protected buildCommand(command: string, workingDirectory?: string): string[] {
     if (workingDirectory) {
@@ -0,0 +1,425 @@
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { ConnectionError, SandboxException } from '@/errors';
+import type {
+  DockerApiConfig,
+  DockerApiResponse,
+  DockerContainerInspect,
+  DockerContainerStats,
+  DockerContainerSummary,
+  DockerCreateContainerRequest,
+  DockerExecCreateRequest,
+  DockerExecInspect,
+  DockerPathStat
+} from './type';
+
+interface RequestOptions {
+  query?: Record<string, string | undefined>;
+  /** JSON-serializable body, or raw bytes sent as-is */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Docker multiplexed stream identifiers (first byte of each frame header).
+ */
+export const DOCKER_STREAM_STDOUT = 1;
+export const DOCKER_STREAM_STDERR = 2;
+
+/**
+ * Demultiplex a Docker attach/exec stream.
+ *
+ * Each frame is prefixed with an 8-byte header: `[stream, 0, 0, 0, size(uint32 BE)]`.
+ * Frames may be split across or packed into arbitrary socket chunks, so bytes
+ * are buffered until a full frame is available.
+ */
+export async function* demuxDockerStream(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<{ stream: number; data: Uint8Array }> {
+  let pending: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of source) {
+    pending = pending.length === 0 ? Buffer.from(chunk) : Buffer.concat([pending, chunk]);
+
+    while (pending.length >= 8) {
+      const size = pending.readUInt32BE(4);
+      if (pending.length < 8 + size) break;
+      yield { stream: pending[0], data: pending.subarray(8, 8 + size) };
+      pending = pending.subarray(8 + size);
+    }
+  }
+}
+
+/**
+ * HTTP client for the Docker Engine API over its Unix socket.
+ *
+ * @see https://docs.docker.com/engine/api/
+ */
+export class DockerApi {
+  constructor(private config: DockerApiConfig) {}
+
+  private path(path: string, query?: Record<string, string | undefined>): string {
+    const params = new URLSearchParams();
+    for (const [k, v] of Object.entries(query ?? {})) {
+      if (v !== undefined) params.set(k, v);
+    }
+    const qs = params.toString();
+    return `/${this.config.apiVersion}${path}${qs ? `?${qs}` : ''}`;
+  }
+
+  private open(method: string, path: string, options?: RequestOptions): Promise<IncomingMessage> {
+    const headers: Record<string, string> = { ...options?.headers };
+    let payload: Uint8Array | undefined;
+
+    if (options?.body instanceof Uint8Array) {
+      payload = options.body;
+      headers['Content-Type'] ??= 'application/x-tar';
+    } else if (options?.body !== undefined) {
+      payload = Buffer.from(JSON.stringify(options.body));
+      headers['Content-Type'] ??= 'application/json';
+    }
+    if (payload) {
+      headers['Content-Length'] = String(payload.length);
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = httpRequest(
+        {
+          socketPath: this.config.socketPath,
+          path: this.path(path, options?.query),
+          method,
+          headers,
+          signal: options?.signal,
+          // Exec/attach responses hijack the connection; never reuse sockets.
+          agent: false
+        },
+        resolve
+      );
+      req.on('error', (error) => {
+        if (error.name === 'AbortError') {
+          reject(error);
+          return;
+        }
+        reject(
+          new ConnectionError(
+            `Docker Engine request failed: ${method} ${path}`,
+            this.config.socketPath,
+            error
+          )
+        );
+      });
+      req.end(payload);
+    });
+  }
+
+  /** Send a request and buffer the whole response body. */
+  async request(
+    method: string,
+    path: string,
+    options?: RequestOptions
+  ): Promise<DockerApiResponse> {
+    const res = await this.open(method, path, options);
+    const chunks: Buffer[] = [];
+    for await (const chunk of res) {
+      chunks.push(chunk as Buffer);
+    }
+    return {
+      statusCode: res.statusCode ?? 0,
+      headers: res.headers,
+      body: Buffer.concat(chunks)
+    };
+  }
+
+  /**
+   * Throw a SandboxException for non-2xx responses, using the engine's
+   * `{ message }` error body when present.
+   */
+  private ensureOk(res: DockerApiResponse, operation: string): DockerApiResponse {
+    if (res.statusCode >= 200 && res.statusCode < 300) return res;
+
+    let message = `HTTP ${res.statusCode}`;
+    try {
+      const parsed = JSON.parse(Buffer.from(res.body).toString('utf8')) as { message?: string };
+      if (parsed.message) message = parsed.message;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new SandboxException(
+      `Docker ${operation} failed: ${message}`,
+      res.statusCode === 404 ? 'SANDBOX_NOT_FOUND' : 'UNEXPECTED_RESPONSE'
+    );
+  }
+
+  private json<T>(res: DockerApiResponse): T {
+    return JSON.parse(Buffer.from(res.body).toString('utf8')) as T;
+  }
+
+  // ==================== Images ====================
+
+  /** GET /images/{name}/json — true if the image exists locally */
+  async hasImage(image: string): Promise<boolean> {
+    const res = await this.request('GET', `/images/${encodeURIComponent(image)}/json`);
+    if (res.statusCode === 404) return false;
+    this.ensureOk(res, 'image inspect');
+    return true;
+  }
+
+  /** POST /images/create — pull an image and wait for the pull to finish */
+  async pullImage(fromImage: string, tag?: string): Promise<void> {
+    const res = await this.request('POST', '/images/create', { query: { fromImage, tag } });
+    this.ensureOk(res, 'image pull');
+
+    // Pull progress is streamed as JSON lines; errors are reported inline.
+    const lines = Buffer.from(res.body).toString('utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const progress = JSON.parse(line) as { error?: string };
+      if (progress.error) {
+        throw new SandboxException(
+          `Docker image pull failed: ${progress.error}`,
+          'UNEXPECTED_RESPONSE'
+        );
+      }
+    }
+  }
+
+  /**
+   * POST /commit — snapshot a container's filesystem as a new image.
+   * Returns the image ID.
+   */
+  async commitContainer(
+    id: string,
+    image: { repo: string; tag: string; comment?: string }
+  ): Promise<string> {
+    const res = this.ensureOk(
+      await this.request('POST', '/commit', {
+        query: { container: id, repo: image.repo, tag: image.tag, comment: image.comment }
+      }),
+      'container commit'
+    );
+    return this.json<{ Id: string }>(res).Id;
+  }
+
+  // ==================== Containers ====================
+
+  /** POST /containers/create */
+  async createContainer(name: string, body: DockerCreateContainerRequest): Promise<string> {
+    const res = this.ensureOk(
+      await this.request('POST', '/containers/create', { query: { name }, body }),
+      'container create'
+    );
+    return this.json<{ Id: string }>(res).Id;
+  }
+
+  /** GET /containers/json — all containers (stopped included) carrying a label */
+  async listContainers(label: string): Promise<DockerContainerSummary[]> {
+    const res = await this.request('GET', '/containers/json', {
+      query: { all: 'true', filters: JSON.stringify({ label: [label] }) }
+    });
+    return this.json<DockerContainerSummary[]>(this.ensureOk(res, 'container list'));
+  }
+
+  /** GET /containers/{id}/json — null if the container does not exist */
+  async inspectContainer(id: string): Promise<DockerContainerInspect | null> {
+    const res = await this.request('GET', `/containers/${encodeURIComponent(id)}/json`);
+    if (res.statusCode === 404) return null;
+    return this.json<DockerContainerInspect>(this.ensureOk(res, 'container inspect'));
+  }
+
+  /** POST /containers/{id}/start (304 = already running) */
+  async startContainer(id: string): Promise<void> {
+    const res = await this.request('POST', `/containers/${encodeURIComponent(id)}/start`);
+    if (res.statusCode !== 304) this.ensureOk(res, 'container start');
+  }
+
+  /** POST /containers/{id}/stop (304 = already stopped) */
+  async stopContainer(id: string, timeoutSeconds?: number): Promise<void> {
+    const res = await this.request('POST', `/containers/${encodeURIComponent(id)}/stop`, {
+      query: { t: timeoutSeconds !== undefined ? String(timeoutSeconds) : undefined }
+    });
+    if (res.statusCode !== 304) this.ensureOk(res, 'container stop');
+  }
+
+  /** POST /containers/{id}/unpause */
+  async unpauseContainer(id: string): Promise<void> {
+    this.ensureOk(
+      await this.request('POST', `/containers/${encodeURIComponent(id)}/unpause`),
+      'container unpause'
+    );
+  }
+
+  /** DELETE /containers/{id} (404 = already gone) */
+  async removeContainer(id: string): Promise<void> {
+    const res = await this.request('DELETE', `/containers/${encodeURIComponent(id)}`, {
+      query: { force: 'true', v: 'true' }
+    });
+    if (res.statusCode !== 404) this.ensureOk(res, 'container remove');
+  }
+
+  /** GET /containers/{id}/stats?stream=false */
+  async stats(id: string): Promise<DockerContainerStats> {
+    const res = await this.request('GET', `/containers/${encodeURIComponent(id)}/stats`, {
+      query: { stream: 'false' }
+    });
+    return this.json<DockerContainerStats>(this.ensureOk(res, 'container stats'));
+  }
+
+  // ==================== Exec ====================
+
+  /** POST /containers/{id}/exec */
+  async createExec(id: string, body: DockerExecCreateRequest): Promise<string> {
+    const res = this.ensureOk(
+      await this.request('POST', `/containers/${encodeURIComponent(id)}/exec`, { body }),
+      'exec create'
+    );
+    return this.json<{ Id: string }>(res).Id;
+  }
+
+  /**
+   * POST /exec/{id}/start (attached). Returns the raw multiplexed response
+   * stream; use {@link demuxDockerStream} to split stdout and stderr.
+   */
+  async startExec(execId: string, signal?: AbortSignal): Promise<IncomingMessage> {
+    const res = await this.open('POST', `/exec/${encodeURIComponent(execId)}/start`, {
+      body: { Detach: false, Tty: false },
+      signal
+    });
+    if ((res.statusCode ?? 0) >= 300) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of res) chunks.push(chunk as Buffer);
+      this.ensureOk(
+        { statusCode: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) },
+        'exec start'
+      );
+    }
+    return res;
+  }
+
+  /** POST /exec/{id}/start (detached) — returns once the process is spawned */
+  async startExecDetached(execId: string): Promise<void> {
+    this.ensureOk(
+      await this.request('POST', `/exec/${encodeURIComponent(execId)}/start`, {
+        body: { Detach: true, Tty: false }
+      }),
+      'exec start'
+    );
+  }
+
+  /**
+   * POST /exec/{id}/start, hijacking the connection. The returned socket
+   * carries the exec's stdin and its output (raw terminal bytes with `tty`,
+   * otherwise multiplexed like {@link startExec}), and ends when the process
+   * exits. Ending the socket's write side closes the process's stdin.
+   */
+  startExecHijacked(execId: string, tty: boolean): Promise<Duplex> {
+    const payload = Buffer.from(JSON.stringify({ Detach: false, Tty: tty }));
+    const path = `/exec/${encodeURIComponent(execId)}/start`;
+
+    return new Promise((resolve, reject) => {
+      const req = httpRequest({
+        socketPath: this.config.socketPath,
+        path: this.path(path),
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': String(payload.length),
+          Connection: 'Upgrade',
+          Upgrade: 'tcp'
+        },
+        agent: false
+      });
+      req.on('upgrade', (_res, socket, head) => {
+        if (head.length > 0) socket.unshift(head);
+        resolve(socket);
+      });
+      // Any response other than 101 means the exec did not start.
+      req.on('response', (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          try {
+            this.ensureOk(
+              {
+                statusCode: res.statusCode ?? 0,
+                headers: res.headers,
+                body: Buffer.concat(chunks)
+              },
+              'exec start'
+            );
+            reject(
+              new ConnectionError('Docker Engine did not hijack the exec', this.config.socketPath)
+            );
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+      req.on('error', (error) => {
+        reject(
+          new ConnectionError(
+            `Docker Engine request failed: POST ${path}`,
+            this.config.socketPath,
+            error
+          )
+        );
+      });
+      req.end(payload);
+    });
+  }
+
+  /** POST /exec/{id}/resize — the exec must have been created with `Tty: true` */
+  async resizeExec(execId: string, cols: number, rows: number): Promise<void> {
+    this.ensureOk(
+      await this.request('POST', `/exec/${encodeURIComponent(execId)}/resize`, {
+        query: { h: String(rows), w: String(cols) }
+      }),
+      'exec resize'
+    );
+  }
+
+  /** GET /exec/{id}/json */
+  async inspectExec(execId: string): Promise<DockerExecInspect> {
+    const res = await this.request('GET', `/exec/${encodeURIComponent(execId)}/json`);
+    return this.json<DockerExecInspect>(this.ensureOk(res, 'exec inspect'));
+  }
+
+  // ==================== Archive ====================
+
+  /** HEAD /containers/{id}/archive — null if the path does not exist */
+  async statPath(id: string, path: string): Promise<DockerPathStat | null> {
+    const res = await this.request('HEAD', `/containers/${encodeURIComponent(id)}/archive`, {
+      query: { path }
+    });
+    if (res.statusCode === 404) return null;
+    this.ensureOk(res, 'path stat');
+
+    const header = res.headers['x-docker-container-path-stat'];
+    const raw = Array.isArray(header) ? header[0] : header;
+    if (!raw) return null;
+    return JSON.parse(Buffer.from(raw, 'base64').toString('utf8')) as DockerPathStat;
+  }
+
+  /** GET /containers/{id}/archive — tar of the path, or null if it does not exist */
+  async getArchive(id: string, path: string): Promise<Uint8Array | null> {
+    const res = await this.request('GET', `/containers/${encodeURIComponent(id)}/archive`, {
+      query: { path }
+    });
+    if (res.statusCode === 404) return null;
+    return this.ensureOk(res, 'archive download').body;
+  }
+
+  /**
+   * PUT /containers/{id}/archive — extract a tar into an existing directory.
+   * Returns false if the target directory does not exist.
+   */
+  async putArchive(id: string, path: string, tar: Uint8Array): Promise<boolean> {
+    const res = await this.request('PUT', `/containers/${encodeURIComponent(id)}/archive`, {
+      query: { path },
+      body: tar
+    });
+    if (res.statusCode === 404) return false;
+    this.ensureOk(res, 'archive upload');
+    return true;
+  }
+}
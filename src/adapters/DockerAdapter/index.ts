@@ -0,0 +1,926 @@
+import type { Duplex } from 'node:stream';
+import { gzipSync } from 'node:zlib';
+import { BaseSandboxAdapter, EXEC_ID_ENV } from '../BaseSandboxAdapter';
+import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FileOperationError,
+  SandboxException,
+  TimeoutError
+} from '@/errors';
+import type {
+  ArchiveFormat,
+  ArchiveOptions,
+  ExecuteOptions,
+  ExecuteResult,
+  ExecuteStdin,
+  FileInfo,
+  FileReadResult,
+  FileWriteEntry,
+  FileWriteResult,
+  ImageSpec,
+  PtyHandle,
+  PtyOptions,
+  ReadFileOptions,
+  RestoreSnapshotOptions,
+  SandboxId,
+  SandboxInfo,
+  SandboxListFilter,
+  SandboxMetrics,
+  SandboxState,
+  SnapshotInfo,
+  SnapshotOptions,
+  StreamHandlers
+} from '@/types';
+import { randomSuffix } from '@/utils/id';
+import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { PtyOutput } from '@/utils/pty';
+import { matchesSandboxFilter } from '@/utils/sandboxFilter';
+import {
+  asyncIterableToReadableStream,
+  dataToBytes,
+  readableStreamToAsyncIterable
+} from '@/utils/streams';
+import { createTarArchive, parseTarArchive } from '@/utils/tar';
+import { DOCKER_STREAM_STDERR, DockerApi, demuxDockerStream } from './api';
+import type { DockerConfigType, DockerContainerInspect } from './type';
+
+export type { DockerConfigType } from './type';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Label attached to every container created by this adapter. */
+const SANDBOX_ID_LABEL = 'fastgpt.sandbox/id';
+
+/** Image repository that container snapshots are committed to. */
+const SNAPSHOT_REPOSITORY = 'fastgpt-sandbox-snapshot';
+
+/** Go `os.FileMode` type bits reported by the archive stat header. */
+const GO_MODE_DIR = 0x80000000;
+const GO_MODE_SYMLINK = 0x08000000;
+
+/**
+ * Connection configuration options for DockerAdapter.
+ */
+export interface DockerConnectionConfig {
+  /** Sandbox identifier, used as the container name */
+  sandboxId: string;
+  /**
+   * Path to the Docker Engine Unix socket.
+   * @default '/var/run/docker.sock'
+   */
+  socketPath?: string;
+  /**
+   * Docker Engine API version.
+   * @default 'v1.41'
+   */
+  apiVersion?: string;
+}
+
+/**
+ * Local Docker Engine provider adapter.
+ *
+ * Drives containers through the Engine HTTP API on its Unix socket:
+ * lifecycle via the containers endpoints, commands via exec, and file
+ * transfer via tar archive upload/download. Everything else falls back to
+ * the CommandPolyfillService.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new DockerAdapter(
+ *   { sandboxId: 'my-sandbox' },
+ *   { image: { repository: 'node', tag: '20-alpine' } }
+ * );
+ *
+ * await adapter.ensureRunning();
+ * const result = await adapter.execute('node --version');
+ * ```
+ */
+export class DockerAdapter extends BaseSandboxAdapter {
+  readonly provider = 'docker' as const;
+
+  private api: DockerApi;
+  private _id: SandboxId;
+
+  constructor(
+    private connectionConfig: DockerConnectionConfig,
+    private createConfig?: DockerConfigType
+  ) {
+    super();
+    this._id = connectionConfig.sandboxId;
+    this.api = new DockerApi({
+      socketPath: connectionConfig.socketPath ?? '/var/run/docker.sock',
+      apiVersion: connectionConfig.apiVersion ?? 'v1.41'
+    });
+    this.polyfillService = new CommandPolyfillService(this);
+  }
+
+  get rootPath(): string {
+    return (this.createConfig?.workingDir ?? '/workspace').replace(/\/+$/, '') || '/';
+  }
+
+  get id(): SandboxId {
+    return this._id;
+  }
+
+  private get socketPath(): string {
+    return this.connectionConfig.socketPath ?? '/var/run/docker.sock';
+  }
+
+  // ==================== Status Mapping ====================
+
+  private static readonly STATE_MAP: Record<
+    DockerContainerInspect['State']['Status'],
+    SandboxState
+  > = {
+    created: 'Stopped',
+    running: 'Running',
+    paused: 'Stopped',
+    restarting: 'Starting',
+    removing: 'Deleting',
+    exited: 'Stopped',
+    dead: 'Error'
+  };
+
+  private parseImageSpec(image: string): ImageSpec {
+    const atIndex = image.indexOf('@');
+    if (atIndex > -1) {
+      return { repository: image.slice(0, atIndex), digest: image.slice(atIndex + 1) };
+    }
+
+    // Only treat the last colon as a tag separator when it comes after the
+    // last slash, so registry ports ("host:5000/repo") are kept intact.
+    const colonIndex = image.lastIndexOf(':');
+    if (colonIndex > image.lastIndexOf('/')) {
+      return { repository: image.slice(0, colonIndex), tag: image.slice(colonIndex + 1) };
+    }
+
+    return { repository: image };
+  }
+
+  // ==================== Provider-wide Management ====================
+
+  /** List the sandbox containers created by this adapter on a Docker Engine. */
+  static async listSandboxes(
+    connectionConfig: Omit<DockerConnectionConfig, 'sandboxId'>,
+    filter: SandboxListFilter = {}
+  ): Promise<SandboxInfo[]> {
+    const api = new DockerApi({
+      socketPath: connectionConfig.socketPath ?? '/var/run/docker.sock',
+      apiVersion: connectionConfig.apiVersion ?? 'v1.41'
+    });
+    let containers;
+    try {
+      containers = await api.listContainers(SANDBOX_ID_LABEL);
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to list sandboxes',
+        'listSandboxes',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const sandboxes: SandboxInfo[] = [];
+    for (const container of containers) {
+      const sandboxId = container.Labels?.[SANDBOX_ID_LABEL];
+      if (!sandboxId) continue;
+      const info = await new DockerAdapter({ ...connectionConfig, sandboxId }).getInfo();
+      if (info && matchesSandboxFilter(info, filter)) sandboxes.push(info);
+    }
+    return sandboxes;
+  }
+
+  /** Remove a sandbox container; missing containers are ignored. */
+  static async deleteSandbox(
+    connectionConfig: Omit<DockerConnectionConfig, 'sandboxId'>,
+    sandboxId: SandboxId
+  ): Promise<void> {
+    await new DockerAdapter({ ...connectionConfig, sandboxId }).delete();
+  }
+
+  // ==================== Lifecycle Methods ====================
+
+  async getInfo(): Promise<SandboxInfo | null> {
+    try {
+      const container = await this.api.inspectContainer(this._id);
+      if (!container) {
+        this._status = { state: 'UnExist' };
+        return null;
+      }
+
+      this._status = {
+        state: DockerAdapter.STATE_MAP[container.State.Status] ?? 'Error',
+        reason: container.State.Status,
+        message: container.State.Error || undefined
+      };
+
+      const { [SANDBOX_ID_LABEL]: _internal, ...metadata } = container.Config.Labels ?? {};
+      return {
+        id: this._id,
+        image: this.parseImageSpec(container.Config.Image),
+        entrypoint: container.Config.Entrypoint ?? container.Config.Cmd ?? [],
+        metadata,
+        status: this._status,
+        createdAt: new Date(container.Created),
+        resourceLimits: {
+          cpuCount: container.HostConfig.NanoCpus ? container.HostConfig.NanoCpus / 1e9 : undefined,
+          memoryMiB: container.HostConfig.Memory
+            ? Math.floor(container.HostConfig.Memory / (1024 * 1024))
+            : undefined
+        }
+      };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to get sandbox info',
+        'getInfo',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async ensureRunning(): Promise<void> {
+    try {
+      const sandbox = await this.getInfo();
+      if (!sandbox) {
+        await this.create();
+        return;
+      }
+
+      switch (sandbox.status.state) {
+        case 'Running':
+          return;
+        case 'Creating':
+        case 'Starting':
+          await this.waitUntilReady();
+          this._status = { state: 'Running' };
+          return;
+        case 'Stopping':
+        case 'Stopped':
+          await this.start();
+          return;
+        case 'Deleting':
+          await this.waitUntilDeleted();
+          await this.create();
+          return;
+        default:
+          throw new ConnectionError(`Sandbox error: ${sandbox.status.message ?? 'unknown'}`);
+      }
+    } catch (error) {
+      throw new ConnectionError('Failed to ensure sandbox running', this.socketPath, error);
+    }
+  }
+
+  async create(): Promise<void> {
+    const cfg = this.createConfig;
+    if (!cfg) {
+      throw new ConnectionError(
+        'Cannot create sandbox: createConfig is required but was not provided',
+        this.socketPath
+      );
+    }
+
+    try {
+      this._status = { state: 'Creating' };
+
+      const image = [
+        cfg.image.repository,
+        cfg.image.tag ? `:${cfg.image.tag}` : '',
+        cfg.image.digest ? `@${cfg.image.digest}` : ''
+      ].join('');
+
+      if (cfg.pullImage !== false && !(await this.api.hasImage(image))) {
+        await this.api.pullImage(
+          cfg.image.digest ? `${cfg.image.repository}@${cfg.image.digest}` : cfg.image.repository,
+          cfg.image.digest ? undefined : (cfg.image.tag ?? 'latest')
+        );
+      }
+
+      await this.createContainerFrom(image, cfg);
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw new ConnectionError('Failed to create sandbox', this.socketPath, error);
+    }
+  }
+
+  /**
+   * Create and start the sandbox container from a local image. A container
+   * that fails to start is removed again, so a retry can reuse the name.
+   */
+  private async createContainerFrom(image: string, cfg: DockerConfigType): Promise<void> {
+    await this.api.createContainer(this._id, {
+      Image: image,
+      Entrypoint: cfg.entrypoint ?? ['tail', '-f', '/dev/null'],
+      Env: Object.entries(cfg.env ?? {}).map(([k, v]) => `${k}=${v}`),
+      Labels: { ...cfg.metadata, [SANDBOX_ID_LABEL]: this._id },
+      WorkingDir: this.rootPath,
+      HostConfig: {
+        NanoCpus: cfg.resourceLimits?.cpuCount
+          ? Math.round(cfg.resourceLimits.cpuCount * 1e9)
+          : undefined,
+        Memory: cfg.resourceLimits?.memoryMiB
+          ? cfg.resourceLimits.memoryMiB * 1024 * 1024
+          : undefined,
+        NetworkMode: cfg.networkPolicy?.allowEgress === false ? 'none' : undefined
+      }
+    });
+
+    try {
+      await this.api.startContainer(this._id);
+      await this.waitUntilReady();
+    } catch (error) {
+      await this.api.removeContainer(this._id).catch(() => {});
+      throw error;
+    }
+    this._status = { state: 'Running' };
+  }
+
+  async start(): Promise<void> {
+    try {
+      this._status = { state: 'Starting' };
+      const container = await this.api.inspectContainer(this._id);
+      if (container?.State.Paused) {
+        await this.api.unpauseContainer(this._id);
+      } else {
+        await this.api.startContainer(this._id);
+      }
+      await this.waitUntilReady();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to start sandbox',
+        'start',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    try {
+      this._status = { state: 'Stopping' };
+      await this.api.stopContainer(this._id);
+      this._status = { state: 'Stopped' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to stop sandbox',
+        'stop',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async delete(): Promise<void> {
+    try {
+      this._status = { state: 'Deleting' };
+      await this.api.removeContainer(this._id);
+      this._status = { state: 'UnExist' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to delete sandbox',
+        'delete',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  // ==================== Snapshots ====================
+
+  /**
+   * Commit the container filesystem to a local image; the snapshot ID is the
+   * image reference. With `options.store`, archive `rootPath` instead.
+   */
+  async createSnapshot(options?: SnapshotOptions): Promise<SnapshotInfo> {
+    if (options?.store) {
+      return super.createSnapshot(options);
+    }
+
+    const tag = randomSuffix();
+    try {
+      await this.api.commitContainer(this._id, {
+        repo: SNAPSHOT_REPOSITORY,
+        tag,
+        comment: options?.name
+      });
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to commit sandbox container',
+        'createSnapshot',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return {
+      id: `${SNAPSHOT_REPOSITORY}:${tag}`,
+      sandboxId: this._id,
+      name: options?.name,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Recreate the container from a committed snapshot image, keeping the
+   * createConfig settings. With `options.store`, restore an archive into
+   * `rootPath` instead.
+   */
+  async restoreSnapshot(snapshotId: string, options?: RestoreSnapshotOptions): Promise<void> {
+    if (options?.store) {
+      return super.restoreSnapshot(snapshotId, options);
+    }
+
+    const cfg = this.createConfig;
+    if (!cfg) {
+      throw new ConnectionError(
+        'Cannot restore snapshot: createConfig is required but was not provided',
+        this.socketPath
+      );
+    }
+    if (!(await this.api.hasImage(snapshotId))) {
+      throw new SandboxException(`Snapshot not found: ${snapshotId}`, 'SNAPSHOT_NOT_FOUND');
+    }
+
+    await this.delete();
+    try {
+      this._status = { state: 'Creating' };
+      await this.createContainerFrom(snapshotId, cfg);
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw new ConnectionError('Failed to restore snapshot', this.socketPath, error);
+    }
+  }
+
+  // ==================== Command Execution ====================
+
+  /**
+   * Run a command through an attached exec and collect its output, forwarding
+   * each demultiplexed chunk to the optional stream handlers as it arrives.
+   * With stdin, the exec connection is hijacked so input can be written to it.
+   *
+   * Closing the exec connection does not stop the process, so on timeout or
+   * abort it is killed through its marker variable.
+   */
+  private async runExec(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+
+    const marker = `exec-${randomSuffix()}`;
+    const controller = new AbortController();
+    let timedOut = false;
+    let socket: Duplex | undefined;
+    const cancel = () => {
+      controller.abort();
+      socket?.destroy();
+    };
+    const timer = options?.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          cancel();
+        }, options.timeoutMs)
+      : undefined;
+    options?.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      if (options?.signal?.aborted) throw options.signal.reason;
+
+      const stdin = options?.stdin;
+      const execId = await this.api.createExec(this._id, {
+        Cmd: this.buildCommand(command, this.normalizePath(options?.workingDirectory)),
+        AttachStdin: stdin !== undefined,
+        AttachStdout: true,
+        AttachStderr: true,
+        Env: [
+          `${EXEC_ID_ENV}=${marker}`,
+          ...Object.entries(options?.env ?? {}).map(([k, v]) => `${k}=${v}`)
+        ]
+      });
+
+      let output: AsyncIterable<Uint8Array>;
+      if (stdin !== undefined) {
+        const hijacked = await this.api.startExecHijacked(execId, false);
+        socket = hijacked;
+        if (controller.signal.aborted) hijacked.destroy();
+        hijacked.on('error', () => {});
+        // Write concurrently so output is drained while stdin is sent.
+        this.writeStdin(hijacked, stdin).catch(() => hijacked.destroy());
+        output = hijacked;
+      } else {
+        output = await this.api.startExec(execId, controller.signal);
+      }
+
+      for await (const frame of demuxDockerStream(output)) {
+        if (frame.stream === DOCKER_STREAM_STDERR) {
+          const text = stderrDecoder.decode(frame.data, { stream: true });
+          stderrBuf.append(text);
+          if (text) await handlers?.onStderr?.({ text, timestamp: Date.now() });
+        } else {
+          const text = stdoutDecoder.decode(frame.data, { stream: true });
+          stdoutBuf.append(text);
+          if (text) await handlers?.onStdout?.({ text, timestamp: Date.now() });
+        }
+      }
+      if (controller.signal.aborted) throw new Error('Exec connection closed');
+      stdoutBuf.append(stdoutDecoder.decode());
+      stderrBuf.append(stderrDecoder.decode());
+
+      const inspect = await this.api.inspectExec(execId);
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode: inspect.ExitCode,
+        truncated: stdoutBuf.truncated || stderrBuf.truncated,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.killExec(marker);
+      }
+      if (timedOut) {
+        throw new TimeoutError(
+          `Command timed out after ${options?.timeoutMs}ms: ${command}`,
+          options!.timeoutMs!,
+          'execute'
+        );
+      }
+      throw new CommandExecutionError(
+        `Command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /** Write stdin to a hijacked exec connection, then close its write side. */
+  private async writeStdin(socket: Duplex, stdin: ExecuteStdin): Promise<void> {
+    const write = (chunk: Uint8Array) =>
+      new Promise<void>((resolve, reject) => {
+        socket.write(chunk, (error) => (error ? reject(error) : resolve()));
+      });
+
+    if (stdin instanceof ReadableStream) {
+      for await (const chunk of readableStreamToAsyncIterable(stdin)) {
+        await write(chunk);
+      }
+    } else if (stdin.length > 0) {
+      await write(typeof stdin === 'string' ? new TextEncoder().encode(stdin) : stdin);
+    }
+    socket.end();
+  }
+
+  /**
+   * Kill every process of an attached exec, found through the marker
+   * variable in their environment (inherited by descendants).
+   */
+  private async killExec(marker: string): Promise<void> {
+    await this.runExec(this.killMarkedScript(marker)).catch(() => {});
+  }
+
+  async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
+    return this.runExec(command, options);
+  }
+
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    const result = await this.runExec(command, options, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    const sessionId = `bg-${randomSuffix()}`;
+    const [, , script] = this.buildCommand(command, this.normalizePath(options?.workingDirectory));
+
+    // The wrapper records the session's pid and exit code for interrupt()
+    // and the process manager.
+    const wrapper = this.requirePolyfillService(
+      'executeBackground',
+      'Background execution not supported by this provider'
+    ).backgroundScript(sessionId, command, `sh -lc ${this.escapeShellArg(script)}`);
+
+    try {
+      const execId = await this.api.createExec(this._id, {
+        Cmd: ['sh', '-c', wrapper],
+        AttachStdout: false,
+        AttachStderr: false,
+        Env: options?.env ? Object.entries(options.env).map(([k, v]) => `${k}=${v}`) : undefined
+      });
+      await this.api.startExecDetached(execId);
+    } catch (error) {
+      throw new CommandExecutionError(
+        `Background command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return {
+      sessionId,
+      kill: () => this.interrupt(sessionId)
+    };
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    await this.signal(sessionId, 'SIGTERM');
+  }
+
+  // ==================== PTY ====================
+
+  /**
+   * Open a terminal through a hijacked `Tty` exec. The engine cannot signal
+   * an exec, so close() hangs up the shell from inside the container.
+   */
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    const polyfillService = this.requirePolyfillService(
+      'openPty',
+      'Interactive terminals not supported by this provider'
+    );
+    const ptyId = `pty-${randomSuffix()}`;
+    const script = polyfillService.ptyScript(ptyId, {
+      ...options,
+      cwd: this.normalizePath(options.cwd)
+    });
+
+    let execId: string;
+    let socket: Duplex;
+    try {
+      execId = await this.api.createExec(this._id, {
+        Cmd: ['sh', '-c', script],
+        AttachStdin: true,
+        AttachStdout: true,
+        AttachStderr: true,
+        Tty: true
+      });
+      socket = await this.api.startExecHijacked(execId, true);
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to open PTY',
+        'openPty',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const output = new PtyOutput();
+    socket.on('data', (chunk: Buffer) => output.push(chunk));
+    socket.on('error', () => {});
+    const exited = new Promise<number | null>((resolve) => {
+      socket.once('close', () => {
+        void polyfillService.removePty(ptyId);
+        this.api.inspectExec(execId).then(
+          (inspect) => resolve(inspect.ExitCode),
+          () => resolve(null)
+        );
+      });
+    });
+
+    return output.handle({
+      id: ptyId,
+      exited,
+      write: (data) =>
+        new Promise((resolve, reject) => {
+          socket.write(data, (error) => (error ? reject(error) : resolve()));
+        }),
+      resize: (cols, rows) => this.api.resizeExec(execId, cols, rows),
+      close: async () => {
+        await polyfillService.hangUpPty(ptyId);
+        await exited;
+      }
+    });
+  }
+
+  // ==================== File System ====================
+
+  /** Download a single file via the archive endpoint. */
+  private async downloadFile(path: string): Promise<Uint8Array> {
+    const archive = await this.api.getArchive(this._id, path);
+    if (!archive) {
+      throw new FileOperationError(`File not found: ${path}`, path, 'FILE_NOT_FOUND');
+    }
+
+    const [entry] = parseTarArchive(archive);
+    if (!entry) {
+      throw new FileOperationError(`Empty archive for ${path}`, path, 'TRANSFER_ERROR');
+    }
+    if (entry.type === 'directory') {
+      throw new FileOperationError(`Path is a directory: ${path}`, path, 'PATH_IS_DIRECTORY');
+    }
+    if (entry.type === 'symlink') {
+      // The archive endpoint returns the link itself; read through it instead.
+      return this.requirePolyfillService('readFiles', 'File read not supported').readFile(path);
+    }
+    return entry.data ?? new Uint8Array();
+  }
+
+  /** Upload a single file via the archive endpoint, creating parents as needed. */
+  private async uploadFile(path: string, data: Uint8Array, mode?: number): Promise<void> {
+    const slash = path.lastIndexOf('/');
+    const dir = slash > 0 ? path.slice(0, slash) : '/';
+    const tar = createTarArchive([{ name: path.slice(slash + 1), type: 'file', data, mode }]);
+
+    if (await this.api.putArchive(this._id, dir, tar)) return;
+
+    await this.createDirectories([dir]);
+    if (!(await this.api.putArchive(this._id, dir, tar))) {
+      throw new FileOperationError(`Directory not found: ${dir}`, path, 'PATH_NOT_DIRECTORY');
+    }
+  }
+
+  async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
+    const results: FileReadResult[] = [];
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        let content = await this.downloadFile(path);
+        if (options?.range) {
+          const [startValue, endValue] = options.range.split('-');
+          const start = Number.parseInt(startValue, 10);
+          const end = endValue ? Number.parseInt(endValue, 10) : undefined;
+          if (Number.isNaN(start) || (endValue && Number.isNaN(end as number))) {
+            throw new Error(`Invalid range: ${options.range}`);
+          }
+          content = content.slice(start, end);
+        }
+        results.push({ path, content, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          content: new Uint8Array(),
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async writeFiles(entries: FileWriteEntry[]): Promise<FileWriteResult[]> {
+    const results: FileWriteResult[] = [];
+
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        const data = await dataToBytes(entry.data);
+        await this.uploadFile(path, data, entry.mode);
+        if (entry.owner || entry.group) {
+          await this.setPermissions([{ path, owner: entry.owner, group: entry.group }]);
+        }
+        results.push({ path, bytesWritten: data.length, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          bytesWritten: 0,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    // The archive endpoint always returns the whole file, so download once
+    // and slice rather than issuing one request per range.
+    const content = await this.downloadFile(this.normalizePath(path));
+    const chunkSize = 64 * 1024;
+    for (let offset = 0; offset < content.length; offset += chunkSize) {
+      yield content.subarray(offset, offset + chunkSize);
+    }
+  }
+
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+    const [result] = await this.writeFiles([{ path, data: stream }]);
+    if (result?.error) throw result.error;
+  }
+
+  async getFileInfo(paths: string[]): Promise<Map<string, FileInfo>> {
+    const infoMap = new Map<string, FileInfo>();
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      const stat = await this.api.statPath(this._id, path).catch(() => null);
+      if (!stat) continue;
+
+      const isDirectory = (stat.mode & GO_MODE_DIR) !== 0;
+      const isSymlink = (stat.mode & GO_MODE_SYMLINK) !== 0;
+      infoMap.set(path, {
+        path,
+        size: stat.size,
+        modifiedAt: new Date(stat.mtime),
+        mode: stat.mode & 0o7777,
+        isDirectory,
+        isSymlink,
+        isFile: !isDirectory && !isSymlink
+      });
+    }
+
+    return infoMap;
+  }
+
+  // ==================== Archive Operations ====================
+
+  exportDirectory(path: string, options?: ArchiveOptions): ReadableStream<Uint8Array> {
+    const format = options?.format ?? 'tar';
+    if (format === 'zip') return super.exportDirectory(path, options);
+    return asyncIterableToReadableStream(this.exportTarChunks(this.normalizePath(path), format));
+  }
+
+  /**
+   * Download a directory through the archive endpoint and re-root it.
+   * Docker prefixes every entry with the directory's basename, which is
+   * stripped so the archive extracts into any target directory.
+   */
+  private async *exportTarChunks(
+    directory: string,
+    format: Exclude<ArchiveFormat, 'zip'>
+  ): AsyncGenerator<Uint8Array> {
+    const archive = await this.api.getArchive(this._id, directory);
+    if (!archive) {
+      throw new FileOperationError(
+        `Directory not found: ${directory}`,
+        directory,
+        'FILE_NOT_FOUND'
+      );
+    }
+
+    const base = directory.replace(/\/+$/, '').split('/').pop() ?? '';
+    const entries = parseTarArchive(archive).flatMap((entry) => {
+      if (!base) return [entry];
+      const name = entry.name.replace(/\/$/, '');
+      if (name === base) return [];
+      return name.startsWith(`${base}/`) ? [{ ...entry, name: name.slice(base.length + 1) }] : [];
+    });
+
+    const tar = createTarArchive(entries);
+    yield format === 'tar.gz' ? new Uint8Array(gzipSync(tar)) : tar;
+  }
+
+  async importArchive(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: ArchiveOptions
+  ): Promise<void> {
+    if (options?.format === 'zip') return super.importArchive(path, stream, options);
+
+    // The archive endpoint accepts both plain and gzip-compressed tarballs.
+    const directory = this.normalizePath(path);
+    const archive = await dataToBytes(stream);
+    if (await this.api.putArchive(this._id, directory, archive)) return;
+
+    await this.createDirectories([directory]);
+    if (!(await this.api.putArchive(this._id, directory, archive))) {
+      throw new FileOperationError(
+        `Directory not found: ${directory}`,
+        directory,
+        'PATH_NOT_DIRECTORY'
+      );
+    }
+  }
+
+  // ==================== Health Check ====================
+
+  async ping(): Promise<boolean> {
+    try {
+      const container = await this.api.inspectContainer(this._id);
+      return Boolean(container?.State.Running && !container.State.Paused);
+    } catch {
+      return false;
+    }
+  }
+
+  async getMetrics(): Promise<SandboxMetrics> {
+    const stats = await this.api.stats(this._id);
+
+    const cpuCount = stats.cpu_stats.online_cpus ?? 1;
+    const cpuDelta =
+      stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta =
+      (stats.cpu_stats.system_cpu_usage ?? 0) - (stats.precpu_stats.system_cpu_usage ?? 0);
+    const cpuUsedPercentage =
+      cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * cpuCount * 100 : 0;
+
+    // Match `docker stats`: page cache is not counted as used memory.
+    const cache =
+      stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.total_inactive_file ?? 0;
+    const used = Math.max(0, (stats.memory_stats.usage ?? 0) - cache);
+
+    return {
+      cpuCount,
+      cpuUsedPercentage,
+      memoryTotalMiB: Math.floor((stats.memory_stats.limit ?? 0) / (1024 * 1024)),
+      memoryUsedMiB: Math.floor(used / (1024 * 1024)),
+      timestamp: Date.now()
+    };
+  }
+}
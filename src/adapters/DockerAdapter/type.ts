@@ -0,0 +1,147 @@
+import type { ImageSpec, NetworkPolicy, ResourceLimits } from '@/types';
+
+/**
+ * Configuration for creating the sandbox container.
+ */
+export interface DockerConfigType {
+  /** Container image specification */
+  image: ImageSpec;
+
+  /**
+   * Entrypoint command. Defaults to a long-running no-op so the container
+   * stays up between exec calls.
+   */
+  entrypoint?: string[];
+
+  /** Environment variables */
+  env?: Record<string, string>;
+
+  /** Resource limits (mapped to NanoCpus / Memory) */
+  resourceLimits?: ResourceLimits;
+
+  /** Metadata for the sandbox (stored as container labels) */
+  metadata?: Record<string, string>;
+
+  /** Network access policy. `allowEgress: false` disables networking entirely. */
+  networkPolicy?: NetworkPolicy;
+
+  /**
+   * Working directory inside the container, also used as rootPath.
+   * @default '/workspace'
+   */
+  workingDir?: string;
+
+  /**
+   * Pull the image before creating the container when it is missing locally.
+   * @default true
+   */
+  pullImage?: boolean;
+}
+
+/** Configuration for the Docker Engine API client. */
+export interface DockerApiConfig {
+  /** Path to the Docker Engine Unix socket */
+  socketPath: string;
+  /** Engine API version prefix, e.g. "v1.41" */
+  apiVersion: string;
+}
+
+/** Raw HTTP response returned by the Docker Engine API client. */
+export interface DockerApiResponse {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: Uint8Array;
+}
+
+/** Request body for POST /containers/create. */
+export interface DockerCreateContainerRequest {
+  Image: string;
+  Entrypoint?: string[];
+  Cmd?: string[];
+  Env?: string[];
+  Labels?: Record<string, string>;
+  WorkingDir?: string;
+  Tty?: boolean;
+  HostConfig?: {
+    NanoCpus?: number;
+    Memory?: number;
+    NetworkMode?: string;
+  };
+}
+
+/** Subset of GET /containers/{id}/json used by the adapter. */
+export interface DockerContainerInspect {
+  Id: string;
+  Name: string;
+  Created: string;
+  Config: {
+    Image: string;
+    Entrypoint: string[] | null;
+    Cmd: string[] | null;
+    Labels: Record<string, string> | null;
+  };
+  State: {
+    Status: 'created' | 'running' | 'paused' | 'restarting' | 'removing' | 'exited' | 'dead';
+    Running: boolean;
+    Paused: boolean;
+    ExitCode: number;
+    Error: string;
+  };
+  HostConfig: {
+    NanoCpus?: number;
+    Memory?: number;
+  };
+}
+
+/** Subset of one GET /containers/json entry used by the adapter. */
+export interface DockerContainerSummary {
+  Id: string;
+  Names: string[];
+  Labels: Record<string, string> | null;
+}
+
+/** Request body for POST /containers/{id}/exec. */
+export interface DockerExecCreateRequest {
+  Cmd: string[];
+  AttachStdin?: boolean;
+  AttachStdout?: boolean;
+  AttachStderr?: boolean;
+  Env?: string[];
+  WorkingDir?: string;
+  Tty?: boolean;
+}
+
+/** Subset of GET /exec/{id}/json used by the adapter. */
+export interface DockerExecInspect {
+  ID: string;
+  Running: boolean;
+  ExitCode: number | null;
+  Pid: number;
+}
+
+/** Decoded `X-Docker-Container-Path-Stat` header from HEAD /containers/{id}/archive. */
+export interface DockerPathStat {
+  name: string;
+  size: number;
+  mode: number;
+  mtime: string;
+  linkTarget: string;
+}
+
+/** Subset of GET /containers/{id}/stats?stream=false used by the adapter. */
+export interface DockerContainerStats {
+  cpu_stats: {
+    cpu_usage: { total_usage: number };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  precpu_stats: {
+    cpu_usage: { total_usage: number };
+    system_cpu_usage?: number;
+  };
+  memory_stats: {
+    usage?: number;
+    limit?: number;
+    stats?: Record<string, number>;
+  };
+}
@@ -1,21 +1,66 @@
-import { Sandbox, CommandExitError, FileType } from '@e2b/code-interpreter';
+import {
+  Sandbox,
+  CommandExitError,
+  FileNotFoundError,
+  FileType,
+  NotFoundError,
+  TimeoutError as E2BTimeoutError,
+  type CommandHandle,
+  type Result as E2BResult,
+  type SandboxInfo as E2BSandboxInfo
+} from '@e2b/code-interpreter';
 import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
 import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
-import { CommandExecutionError, ConnectionError } from '@/errors';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FileOperationError,
+  SandboxException,
+  SandboxNotFoundError,
+  TimeoutError
+} from '@/errors';
+import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { DEFAULT_PTY_COLS, DEFAULT_PTY_ROWS, PtyOutput } from '@/utils/pty';
+import { matchesSandboxFilter } from '@/utils/sandboxFilter';
+import { readableStreamToAsyncIterable } from '@/utils/streams';
 import type {
+  CodeContext,
+  CodeContextOptions,
+  CodeExecution,
+  CodeResult,
   ExecuteOptions,
   ExecuteResult,
+  ExecuteStdin,
+  StreamHandlers,
   SandboxId,
   SandboxInfo,
+  SandboxListFilter,
   FileWriteEntry,
   FileWriteResult,
   FileDeleteResult,
   FileReadResult,
   MoveEntry,
-  DirectoryEntry
+  DirectoryEntry,
+  ContentReplaceEntry,
+  FileInfo,
+  PermissionEntry,
+  ProcessInfo,
+  ProcessSignal,
+  PtyHandle,
+  PtyOptions,
+  ReadFileOptions,
+  RestoreSnapshotOptions,
+  RunCodeOptions,
+  SandboxMetrics,
+  SnapshotInfo,
+  SnapshotOptions
 } from '@/types';
 import type { E2BConfig } from './type';
 
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+/** E2B SDK 命令的默认超时时间 */
+const E2B_DEFAULT_COMMAND_TIMEOUT_MS = 60_000;
+
 /**
  * E2B 沙盒适配器 - 使用官方 SDK
  *
@@ -44,36 +89,113 @@ export class E2BAdapter extends BaseSandboxAdapter {
   }
 
   /**
-   * 通过 metadata 查找 E2B 沙盒实例
-   * @returns E2B Sandbox 实例，如果未找到则返回 null
+   * 通过 metadata 查找 E2B 沙盒信息（包括运行中和已暂停的沙盒），不会触发恢复
+   * @returns E2B 沙盒信息，如果未找到则返回 null
    */
-  private async findSandbox(): Promise<Sandbox | null> {
+  private async findSandboxInfo(): Promise<E2BSandboxInfo | null> {
     try {
       const paginator = Sandbox.list({
         apiKey: this.config.apiKey,
         query: {
-          metadata: { upstreamId: this._id }
+          metadata: { upstreamId: this._id },
+          state: ['running', 'paused']
         },
         limit: 1
       });
 
       const sandboxes = await paginator.nextItems();
-      if (sandboxes.length > 0) {
-        const sandboxInfo = sandboxes[0];
-        // 连接到找到的沙盒
-        const sandbox = await Sandbox.connect(sandboxInfo.sandboxId, {
-          apiKey: this.config.apiKey
-        });
-        return sandbox;
-      }
-
-      return null;
+      return sandboxes[0] ?? null;
     } catch (error) {
       console.error('Failed to find sandbox by metadata:', error);
       return Promise.reject(new Error('Failed to find sandbox by metadata'));
     }
   }
 
+  /**
+   * 通过 metadata 查找并连接 E2B 沙盒实例，已暂停的沙盒会在连接时从内存快照恢复
+   * @returns E2B Sandbox 实例，如果未找到则返回 null
+   */
+  private async findSandbox(): Promise<Sandbox | null> {
+    const sandboxInfo = await this.findSandboxInfo();
+    if (!sandboxInfo) {
+      return null;
+    }
+    return this.connectSandbox(sandboxInfo.sandboxId);
+  }
+
+  private connectSandbox(sandboxId: string): Promise<Sandbox> {
+    return Sandbox.connect(sandboxId, {
+      apiKey: this.config.apiKey,
+      timeoutMs: this.timeoutMs
+    });
+  }
+
+  /** 配置中的超时时间（秒）转换为 SDK 使用的毫秒 */
+  private get timeoutMs(): number | undefined {
+    return this.config.timeout !== undefined ? this.config.timeout * 1000 : undefined;
+  }
+
+  // ==================== 全局管理 ====================
+
+  /**
+   * 列出账号下的沙盒（运行中和已暂停），不会恢复已暂停的沙盒。
+   * 由本适配器创建的沙盒使用上游 ID，其余沙盒使用 E2B 实际 ID
+   */
+  static async listSandboxes(
+    config: Pick<E2BConfig, 'apiKey'>,
+    filter: SandboxListFilter = {}
+  ): Promise<SandboxInfo[]> {
+    const sandboxes: SandboxInfo[] = [];
+    try {
+      const paginator = Sandbox.list({
+        apiKey: config.apiKey,
+        query: { metadata: filter.metadata, state: ['running', 'paused'] },
+        limit: 100
+      });
+      while (paginator.hasNext) {
+        for (const info of await paginator.nextItems()) {
+          const sandbox: SandboxInfo = {
+            id: info.metadata?.upstreamId ?? info.sandboxId,
+            image: { repository: info.templateId },
+            entrypoint: [],
+            metadata: info.metadata,
+            status: { state: info.state === 'paused' ? 'Stopped' : 'Running' },
+            createdAt: info.startedAt,
+            expiresAt: info.endAt,
+            resourceLimits: { cpuCount: info.cpuCount, memoryMiB: info.memoryMB }
+          };
+          if (matchesSandboxFilter(sandbox, filter)) sandboxes.push(sandbox);
+        }
+      }
+    } catch (error) {
+      throw new ConnectionError('Failed to list E2B sandboxes', 'e2b', error);
+    }
+    return sandboxes;
+  }
+
+  /**
+   * 删除沙盒：先按上游 ID 查找，找不到时按 E2B 实际 ID 删除；沙盒不存在时忽略
+   */
+  static async deleteSandbox(
+    config: Pick<E2BConfig, 'apiKey'>,
+    sandboxId: SandboxId
+  ): Promise<void> {
+    try {
+      const [info] = await Sandbox.list({
+        apiKey: config.apiKey,
+        query: { metadata: { upstreamId: sandboxId }, state: ['running', 'paused'] },
+        limit: 1
+      }).nextItems();
+      await Sandbox.kill(info?.sandboxId ?? sandboxId, { apiKey: config.apiKey });
+    } catch (error) {
+      throw new CommandExecutionError(
+        `Failed to kill E2B sandbox ${sandboxId}`,
+        'deleteSandbox',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   // ==================== 生命周期方法 ====================
 
   private async ensureSandbox(): Promise<Sandbox> {
@@ -82,7 +204,7 @@ export class E2BAdapter extends BaseSandboxAdapter {
   }
   async ensureRunning(): Promise<void> {
     try {
-      // 1. 如果没有沙盒实例，先通过 metadata 查找
+      // 1. 如果没有沙盒实例，先通过 metadata 查找（已暂停的沙盒会被恢复）
       if (!this.sandbox) {
         this.sandbox = await this.findSandbox();
       }
@@ -94,10 +216,8 @@ export class E2BAdapter extends BaseSandboxAdapter {
           this._status = { state: 'Running' };
           return;
         }
-        // 暂停状态，需要重新连接
-        await Sandbox.connect(this.sandbox.sandboxId, {
-          apiKey: this.config.apiKey
-        });
+        // 暂停状态，重新连接以恢复沙盒
+        this.sandbox = await this.connectSandbox(this.sandbox.sandboxId);
         await this.waitUntilReady();
         this._status = { state: 'Running' };
         return;
@@ -111,13 +231,18 @@ export class E2BAdapter extends BaseSandboxAdapter {
   }
 
   async create(): Promise<void> {
+    await this.createFrom(this.config.template);
+  }
+
+  /** 从模板或快照创建沙盒，并绑定上游 ID */
+  private async createFrom(template: string | undefined): Promise<void> {
     try {
       this._status = { state: 'Creating' };
 
       const options = {
         apiKey: this.config.apiKey,
-        template: this.config.template,
-        timeout: this.config.timeout,
+        template,
+        timeoutMs: this.timeoutMs,
         envs: this.config.envs,
         metadata: {
           ...this.config.metadata,
@@ -135,23 +260,33 @@ export class E2BAdapter extends BaseSandboxAdapter {
   }
 
   async start(): Promise<void> {
-    // E2B 沙盒创建后即为运行状态
-    // 如果是暂停状态，通过 connect 恢复
+    // 通过 upstreamId 找到已暂停的沙盒并从内存快照恢复，找不到时创建新沙盒
+    this._status = { state: 'Starting' };
     await this.ensureSandbox();
   }
 
   async stop(): Promise<void> {
-    const sandbox = await this.ensureSandbox();
-
     try {
       this._status = { state: 'Stopping' };
 
-      // E2B 使用 pause 暂停沙盒
-      await sandbox.pause({
-        apiKey: this.config.apiKey
-      });
+      // 直接查询沙盒状态，避免连接时把已暂停的沙盒恢复
+      const sandboxInfo = await this.findSandboxInfo();
+      if (!sandboxInfo) {
+        throw new Error(`E2B sandbox not found for upstreamId ${this._id}`);
+      }
+
+      // E2B 使用 pause 暂停沙盒，并保留内存快照以便恢复后继续运行中的进程
+      if (sandboxInfo.state !== 'paused') {
+        await Sandbox.pause(sandboxInfo.sandboxId, {
+          apiKey: this.config.apiKey,
+          keepMemory: true
+        });
+      }
+      // 丢弃旧的连接，下次使用时重新查找并恢复
+      this.sandbox = null;
       this._status = { state: 'Stopped' };
     } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
       throw new CommandExecutionError(
         'Failed to pause E2B sandbox',
         'stop',
@@ -179,60 +314,634 @@ export class E2BAdapter extends BaseSandboxAdapter {
 
   async getInfo(): Promise<SandboxInfo | null> {
     try {
-      const sandbox = await this.ensureSandbox();
-
-      const isRunning = await sandbox.isRunning();
+      // 只查询信息，不恢复已暂停的沙盒
+      const sandboxInfo = await this.findSandboxInfo();
+      if (!sandboxInfo) {
+        return null;
+      }
 
       return {
         id: this._id,
         image: { repository: this.config.template || 'default' },
         entrypoint: [],
+        metadata: sandboxInfo.metadata,
         status: {
-          state: isRunning ? 'Running' : 'Stopped'
+          state: sandboxInfo.state === 'paused' ? 'Stopped' : 'Running'
         },
-        createdAt: new Date()
+        createdAt: sandboxInfo.startedAt,
+        expiresAt: sandboxInfo.endAt
       };
     } catch {
       return null;
     }
   }
 
+  /**
+   * 通过 metadata 附加到已有沙盒：不会创建沙盒，也不会恢复已暂停的沙盒，只刷新状态
+   */
+  async connect(sandboxId?: SandboxId): Promise<void> {
+    if (sandboxId !== undefined && sandboxId !== this._id) {
+      return super.connect(sandboxId);
+    }
+
+    let sandboxInfo: E2BSandboxInfo | null;
+    try {
+      sandboxInfo = await this.findSandboxInfo();
+    } catch (error) {
+      throw new ConnectionError(`Failed to connect to sandbox ${this._id}`, 'e2b', error);
+    }
+    if (!sandboxInfo) {
+      this._status = { state: 'UnExist' };
+      throw new SandboxNotFoundError(this._id, this.provider);
+    }
+    this._status = { state: sandboxInfo.state === 'paused' ? 'Stopped' : 'Running' };
+  }
+
+  async renewExpiration(additionalSeconds: number): Promise<void> {
+    try {
+      const sandboxInfo = await this.findSandboxInfo();
+      if (!sandboxInfo) {
+        throw new Error(`E2B sandbox not found for upstreamId ${this._id}`);
+      }
+
+      // E2B 的 setTimeout 从当前时刻重新计时，需要在剩余时间基础上延长
+      const remainingMs = Math.max(0, sandboxInfo.endAt.getTime() - Date.now());
+      await Sandbox.setTimeout(sandboxInfo.sandboxId, remainingMs + additionalSeconds * 1000, {
+        apiKey: this.config.apiKey
+      });
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to renew E2B sandbox expiration',
+        'renewExpiration',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  // ==================== 快照 ====================
+
+  /**
+   * 使用 E2B 原生快照（包含文件系统和内存状态）；传入 store 时改用归档快照
+   */
+  async createSnapshot(options?: SnapshotOptions): Promise<SnapshotInfo> {
+    if (options?.store) {
+      return super.createSnapshot(options);
+    }
+
+    const sandbox = await this.ensureSandbox();
+    try {
+      const snapshot = await sandbox.createSnapshot({ name: options?.name });
+      return {
+        id: snapshot.snapshotId,
+        sandboxId: this._id,
+        name: options?.name,
+        createdAt: new Date()
+      };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to create E2B snapshot',
+        'createSnapshot',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * E2B 快照无法原地恢复：先以快照为模板创建新沙盒并绑定同一个上游 ID，成功后再销毁原沙盒。
+   * 快照不存在时原沙盒保持不变
+   *
+   * @throws SandboxException with code SNAPSHOT_NOT_FOUND if E2B has no
+   * template for `snapshotId`
+   */
+  async restoreSnapshot(snapshotId: string, options?: RestoreSnapshotOptions): Promise<void> {
+    if (options?.store) {
+      return super.restoreSnapshot(snapshotId, options);
+    }
+
+    let previous: E2BSandboxInfo | null;
+    try {
+      previous = await this.findSandboxInfo();
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to find E2B sandbox before restoring snapshot',
+        'restoreSnapshot',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const current = { sandbox: this.sandbox, status: this._status };
+    try {
+      await this.createFrom(snapshotId);
+    } catch (error) {
+      // 新沙盒未就绪时将其销毁，继续使用原沙盒
+      if (this.sandbox && this.sandbox !== current.sandbox) {
+        await Sandbox.kill(this.sandbox.sandboxId, { apiKey: this.config.apiKey }).catch(
+          () => undefined
+        );
+      }
+      this.sandbox = current.sandbox;
+      this._status = current.status;
+
+      const cause = (error as ConnectionError).cause;
+      if (
+        cause instanceof NotFoundError ||
+        (cause as { statusCode?: number })?.statusCode === 404
+      ) {
+        throw new SandboxException(
+          `Snapshot not found: ${snapshotId}`,
+          'SNAPSHOT_NOT_FOUND',
+          cause
+        );
+      }
+      throw error;
+    }
+
+    if (previous) {
+      try {
+        await Sandbox.kill(previous.sandboxId, { apiKey: this.config.apiKey });
+      } catch (error) {
+        throw new CommandExecutionError(
+          'Failed to kill the E2B sandbox replaced by the snapshot',
+          'restoreSnapshot',
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+
   // ==================== 命令执行 ====================
 
   async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
+    return this.runCommand(command, options);
+  }
+
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    const result = await this.runCommand(command, options, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
     try {
       const sandbox = await this.ensureSandbox();
-      const result = await sandbox.commands.run(command, {
+      // timeoutMs 为 0 表示不限制时长，避免后台命令被 SDK 默认的 60 秒超时断开
+      const handle = await sandbox.commands.run(command, {
+        background: true,
         cwd: this.normalizePath(options?.workingDirectory),
-        timeoutMs: options?.timeoutMs
+        envs: options?.env,
+        timeoutMs: 0
       });
+      // 断开输出流，命令本身继续在沙盒内运行
+      await handle.disconnect();
 
+      const sessionId = String(handle.pid);
       return {
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.exitCode
+        sessionId,
+        kill: () => this.interrupt(sessionId)
       };
     } catch (error) {
-      // E2B SDK 在非零退出码时抛出 CommandExitError，需要提取结果而非抛出异常
-      if (error instanceof CommandExitError) {
+      throw new CommandExecutionError(
+        `Background command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    let killed: boolean;
+    try {
+      const sandbox = await this.ensureSandbox();
+      killed = await sandbox.commands.kill(Number(sessionId));
+    } catch (error) {
+      throw new CommandExecutionError(
+        `Failed to interrupt session ${sessionId}`,
+        'interrupt',
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (!killed) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'interrupt');
+    }
+  }
+
+  // ==================== Process Management ====================
+
+  /**
+   * E2B 只返回仍在运行的进程，已退出的会话无法查询
+   */
+  async listProcesses(): Promise<ProcessInfo[]> {
+    try {
+      const sandbox = await this.ensureSandbox();
+      const processes = await sandbox.commands.list();
+      return processes.map((p) => {
+        // 命令通过 `bash -l -c <command>` 启动，取 -c 之后的参数作为原始命令
+        const index = p.args.indexOf('-c');
         return {
-          stdout: error.stdout ?? '',
-          stderr: error.stderr ?? '',
-          exitCode: error.exitCode ?? 1
+          sessionId: String(p.pid),
+          pid: p.pid,
+          command: index >= 0 ? p.args[index + 1] : [p.cmd, ...p.args].join(' '),
+          status: 'running',
+          exitCode: null
         };
+      });
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to list processes',
+        'listProcesses',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    const processes = await this.listProcesses();
+    return processes.find((p) => p.sessionId === sessionId) ?? null;
+  }
+
+  async signal(sessionId: string, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    if (signal === 'SIGKILL') return this.interrupt(sessionId);
+
+    if (!(await this.getProcess(sessionId))) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    // SDK 只支持 SIGKILL，其余信号通过 kill 命令发送给进程组
+    const pid = Number(sessionId);
+    const name = signal.replace(/^SIG/, '');
+    const result = await this.execute(
+      `kill -s ${name} -- -${pid} 2>/dev/null || kill -s ${name} ${pid}`
+    );
+    if (result.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Failed to send ${signal} to session ${sessionId}`,
+        'signal',
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+  }
+
+  /**
+   * E2B 不保留后台命令已经产生的输出，重新连接后只能收到之后的输出（见 IProcessManager.attachBackground）
+   */
+  async attachBackground(sessionId: string, handlers: StreamHandlers): Promise<void> {
+    const result = await this.connectBackground(sessionId, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async waitForBackground(sessionId: string, timeoutMs?: number): Promise<ExecuteResult> {
+    return this.connectBackground(sessionId, {}, timeoutMs);
+  }
+
+  /**
+   * 通过 commands.connect 重新连接后台命令并等待其结束
+   */
+  private async connectBackground(
+    sessionId: string,
+    handlers: StreamHandlers,
+    timeoutMs?: number
+  ): Promise<ExecuteResult> {
+    const stdoutBuf = new BoundedOutputBuffer(DEFAULT_MAX_OUTPUT_BYTES);
+    const stderrBuf = new BoundedOutputBuffer(DEFAULT_MAX_OUTPUT_BYTES);
+    let handle: CommandHandle | undefined;
+
+    try {
+      const sandbox = await this.ensureSandbox();
+      // timeoutMs 为 0 表示不限制连接时长
+      handle = await sandbox.commands.connect(Number(sessionId), {
+        timeoutMs: timeoutMs ?? 0,
+        onStdout: async (data) => {
+          stdoutBuf.append(data);
+          await handlers.onStdout?.({ text: data, timestamp: Date.now() });
+        },
+        onStderr: async (data) => {
+          stderrBuf.append(data);
+          await handlers.onStderr?.({ text: data, timestamp: Date.now() });
+        }
+      });
+
+      let exitCode: number;
+      try {
+        exitCode = (await handle.wait()).exitCode;
+      } catch (error) {
+        if (!(error instanceof CommandExitError)) throw error;
+        exitCode = error.exitCode ?? 1;
       }
 
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode,
+        truncated: stdoutBuf.truncated || stderrBuf.truncated
+      };
+    } catch (error) {
+      // 已退出的进程不会出现在 E2B 中，同样视为会话不存在
+      if (error instanceof NotFoundError) {
+        throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+      }
+      if (error instanceof E2BTimeoutError) {
+        // 只断开连接，命令继续运行
+        await handle?.disconnect().catch(() => undefined);
+        throw new TimeoutError(
+          `Session ${sessionId} still running after ${timeoutMs}ms`,
+          timeoutMs ?? 0,
+          'waitForBackground'
+        );
+      }
+      throw new CommandExecutionError(
+        `Failed to attach to session ${sessionId}`,
+        'attachBackground',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * 以后台模式启动命令并等待结束，这样可以写入 stdin、响应 abort 信号并实时转发输出
+   */
+  private async runCommand(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: StreamHandlers
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    let handle: CommandHandle | undefined;
+    let aborted = false;
+    const onAbort = () => {
+      aborted = true;
+      handle?.kill().catch(() => undefined);
+    };
+
+    try {
+      if (options?.signal?.aborted) {
+        throw new CommandExecutionError(`Command aborted: ${command}`, command);
+      }
+      const sandbox = await this.ensureSandbox();
+
+      handle = await sandbox.commands.run(command, {
+        background: true,
+        cwd: this.normalizePath(options?.workingDirectory),
+        envs: options?.env,
+        timeoutMs: options?.timeoutMs,
+        stdin: options?.stdin !== undefined,
+        onStdout: async (data) => {
+          stdoutBuf.append(data);
+          await handlers?.onStdout?.({ text: data, timestamp: Date.now() });
+        },
+        onStderr: async (data) => {
+          stderrBuf.append(data);
+          await handlers?.onStderr?.({ text: data, timestamp: Date.now() });
+        }
+      });
+      options?.signal?.addEventListener('abort', onAbort, { once: true });
+      if (options?.signal?.aborted) onAbort();
+
+      if (options?.stdin !== undefined) {
+        await this.writeStdin(handle, options.stdin);
+      }
+
+      let exitCode: number;
+      try {
+        exitCode = (await handle.wait()).exitCode;
+      } catch (error) {
+        // E2B SDK 在非零退出码时抛出 CommandExitError，需要提取结果而非抛出异常
+        if (!(error instanceof CommandExitError)) throw error;
+        exitCode = error.exitCode ?? 1;
+      }
+
+      if (aborted) {
+        throw new CommandExecutionError(`Command aborted: ${command}`, command);
+      }
+
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode,
+        truncated: stdoutBuf.truncated || stderrBuf.truncated,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      if (error instanceof CommandExecutionError) throw error;
+      if (aborted) {
+        throw new CommandExecutionError(`Command aborted: ${command}`, command);
+      }
+      if (error instanceof E2BTimeoutError) {
+        // 超时只会断开输出流，需要主动结束进程
+        await handle?.kill().catch(() => undefined);
+        const timeoutMs = options?.timeoutMs ?? E2B_DEFAULT_COMMAND_TIMEOUT_MS;
+        throw new TimeoutError(
+          `Command timed out after ${timeoutMs}ms: ${command}`,
+          timeoutMs,
+          'execute'
+        );
+      }
       throw new CommandExecutionError(
         `Command execution failed: ${error}`,
         command,
         error instanceof Error ? error : undefined
       );
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async writeStdin(handle: CommandHandle, stdin: ExecuteStdin): Promise<void> {
+    if (typeof stdin === 'string' || stdin instanceof Uint8Array) {
+      if (stdin.length > 0) await handle.sendStdin(stdin);
+    } else {
+      for await (const chunk of readableStreamToAsyncIterable(stdin)) {
+        await handle.sendStdin(chunk);
+      }
+    }
+    await handle.closeStdin();
+  }
+
+  // ==================== 交互式终端 ====================
+
+  /**
+   * 使用 E2B 原生 PTY。E2B 固定启动 bash，指定 shell 时通过 exec 替换
+   */
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    const output = new PtyOutput();
+    let sandbox: Sandbox;
+    let handle: CommandHandle;
+    try {
+      sandbox = await this.ensureSandbox();
+      // timeoutMs 为 0 表示不限制终端时长
+      handle = await sandbox.pty.create({
+        cols: options.cols ?? DEFAULT_PTY_COLS,
+        rows: options.rows ?? DEFAULT_PTY_ROWS,
+        envs: { TERM: 'xterm-256color', ...options.env },
+        cwd: this.normalizePath(options.cwd),
+        timeoutMs: 0,
+        onData: (data) => output.push(data)
+      });
+      if (options.shell) {
+        await sandbox.pty.sendInput(
+          handle.pid,
+          new TextEncoder().encode(`exec ${options.shell}\n`)
+        );
+      }
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to open PTY',
+        'openPty',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const { pid } = handle;
+    // 非零退出码同样以 CommandExitError 的形式抛出
+    const exited = handle.wait().then(
+      (result) => result.exitCode,
+      (error: unknown) => (error instanceof CommandExitError ? error.exitCode : null)
+    );
+    const request = async (operation: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          throw new CommandExecutionError(`PTY ${pid} not found`, operation);
+        }
+        throw new CommandExecutionError(
+          `Failed to ${operation} PTY ${pid}`,
+          operation,
+          error instanceof Error ? error : undefined
+        );
+      }
+    };
+
+    return output.handle({
+      id: String(pid),
+      exited,
+      write: (data) => request('write', () => sandbox.pty.sendInput(pid, data)),
+      resize: (cols, rows) => request('resize', () => sandbox.pty.resize(pid, { cols, rows })),
+      close: async () => {
+        await request('close', () => sandbox.pty.kill(pid));
+        await exited;
+      }
+    });
+  }
+
+  // ==================== 代码解释器 ====================
+
+  /**
+   * 使用 @e2b/code-interpreter 原生的 Jupyter 执行接口，不经过沙盒内的 kernel gateway
+   */
+  async runCode(code: string, options: RunCodeOptions = {}): Promise<CodeExecution> {
+    const sandbox = await this.ensureSandbox();
+
+    try {
+      // SDK 只使用 context 的 id
+      const execution = options.contextId
+        ? await sandbox.runCode(code, {
+            context: { id: options.contextId, language: '', cwd: '' },
+            timeoutMs: options.timeoutMs
+          })
+        : await sandbox.runCode(code, {
+            language: options.language,
+            timeoutMs: options.timeoutMs
+          });
+
+      return {
+        results: execution.results.map((result) => this.toCodeResult(result)),
+        stdout: execution.logs.stdout.join(''),
+        stderr: execution.logs.stderr.join(''),
+        error: execution.error && {
+          name: execution.error.name,
+          value: execution.error.value,
+          traceback: execution.error.traceback
+        },
+        executionCount: execution.executionCount
+      };
+    } catch (error) {
+      if (error instanceof E2BTimeoutError) {
+        throw new TimeoutError(
+          `Code execution timed out after ${options.timeoutMs}ms`,
+          options.timeoutMs ?? E2B_DEFAULT_COMMAND_TIMEOUT_MS,
+          'runCode'
+        );
+      }
+      throw new CommandExecutionError(
+        'Code execution failed',
+        'runCode',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async createCodeContext(options: CodeContextOptions = {}): Promise<CodeContext> {
+    const sandbox = await this.ensureSandbox();
+
+    try {
+      const context = await sandbox.createCodeContext({
+        language: options.language,
+        cwd: options.cwd === undefined ? undefined : this.normalizePath(options.cwd)
+      });
+      return { id: context.id, language: context.language, cwd: context.cwd };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to create code context',
+        'createCodeContext',
+        error instanceof Error ? error : undefined
+      );
     }
   }
 
+  async removeCodeContext(contextId: string): Promise<void> {
+    const sandbox = await this.ensureSandbox();
+
+    try {
+      await sandbox.removeCodeContext(contextId);
+    } catch (error) {
+      throw new CommandExecutionError(
+        `Failed to remove code context ${contextId}`,
+        'removeCodeContext',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * 只保留 E2B 结果中存在的表示形式；DataFrame 位于 data
+   */
+  private toCodeResult(result: E2BResult): CodeResult {
+    const codeResult: CodeResult = {
+      isMainResult: result.isMainResult,
+      text: result.text,
+      html: result.html,
+      markdown: result.markdown,
+      latex: result.latex,
+      svg: result.svg,
+      png: result.png,
+      jpeg: result.jpeg,
+      json: result.json,
+      data: result.data
+    };
+    for (const key of Object.keys(codeResult) as Array<keyof CodeResult>) {
+      if (codeResult[key] === undefined) delete codeResult[key];
+    }
+    return codeResult;
+  }
+
   // ==================== 文件系统操作（原生实现）====================
 
-  async readFiles(paths: string[]): Promise<FileReadResult[]> {
+  async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
+    // E2B SDK 不支持按范围读取，交给 polyfill 处理
+    if (options?.range) {
+      return super.readFiles(paths, options);
+    }
+
     const sandbox = await this.ensureSandbox();
 
     try {
@@ -240,17 +949,17 @@ export class E2BAdapter extends BaseSandboxAdapter {
 
       for (const path of paths.map((p) => this.normalizePath(p))) {
         try {
-          const content = await sandbox.files.read(path);
+          const content = await sandbox.files.read(path, { format: 'bytes' });
           results.push({
             path,
-            content: Buffer.from(content),
+            content,
             error: null
           });
         } catch (error) {
           results.push({
             path,
             content: new Uint8Array(),
-            error: error instanceof Error ? error : new Error(String(error))
+            error: this.toFileError(error, path)
           });
         }
       }
@@ -270,19 +979,33 @@ export class E2BAdapter extends BaseSandboxAdapter {
 
     try {
       const results: FileWriteResult[] = [];
+      const sizes = files.map(() => 0);
 
-      // E2B 支持批量写入
-      const writeData = files.map((f) => {
-        let data: string | ArrayBuffer;
+      // E2B 支持批量写入，Blob 和 ReadableStream 由 SDK 直接上传
+      const writeData = files.map((f, index) => {
+        let data: string | ArrayBuffer | Blob | ReadableStream;
         if (typeof f.data === 'string') {
           data = f.data;
+          sizes[index] = Buffer.byteLength(f.data);
         } else if (f.data instanceof Uint8Array) {
-          data = f.data.buffer as ArrayBuffer;
+          data = f.data.slice().buffer as ArrayBuffer;
+          sizes[index] = f.data.byteLength;
         } else if (f.data instanceof ArrayBuffer) {
           data = f.data;
+          sizes[index] = f.data.byteLength;
+        } else if (f.data instanceof Blob) {
+          data = f.data;
+          sizes[index] = f.data.size;
         } else {
-          // Blob or ReadableStream - convert to string for now
-          data = '';
+          // 流式数据在上传过程中统计字节数
+          data = f.data.pipeThrough(
+            new TransformStream<Uint8Array, Uint8Array>({
+              transform(chunk, controller) {
+                sizes[index] += chunk.byteLength;
+                controller.enqueue(chunk);
+              }
+            })
+          );
         }
 
         return {
@@ -294,23 +1017,21 @@ export class E2BAdapter extends BaseSandboxAdapter {
       try {
         await sandbox.files.write(writeData);
 
-        // 所有写入成功
-        for (const file of files) {
-          let size = 0;
-          if (typeof file.data === 'string') {
-            size = Buffer.byteLength(file.data);
-          } else if (file.data instanceof ArrayBuffer) {
-            size = file.data.byteLength;
-          } else if (file.data instanceof Uint8Array) {
-            size = file.data.byteLength;
-          }
+        const permissions = files
+          .filter((f) => f.mode !== undefined || f.owner || f.group)
+          .map(({ path, mode, owner, group }) => ({ path, mode, owner, group }));
+        if (permissions.length > 0) {
+          await this.setPermissions(permissions);
+        }
 
+        // 所有写入成功
+        files.forEach((file, index) => {
           results.push({
             path: file.path,
-            bytesWritten: size,
+            bytesWritten: sizes[index],
             error: null
           });
-        }
+        });
       } catch (error) {
         // 批量写入失败，返回错误
         for (const file of files) {
@@ -439,6 +1160,95 @@ export class E2BAdapter extends BaseSandboxAdapter {
     }
   }
 
+  async replaceContent(entries: ContentReplaceEntry[]): Promise<void> {
+    const sandbox = await this.ensureSandbox();
+
+    for (const { path, oldContent, newContent } of entries) {
+      const target = this.normalizePath(path);
+      try {
+        // 按字面量替换，避免 sed 将 oldContent 当作正则表达式
+        const content = await sandbox.files.read(target);
+        await sandbox.files.write(target, content.split(oldContent).join(newContent));
+      } catch (error) {
+        throw this.toFileError(error, target);
+      }
+    }
+  }
+
+  // ==================== 流式读写 ====================
+
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    const sandbox = await this.ensureSandbox();
+    const target = this.normalizePath(path);
+
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await sandbox.files.read(target, { format: 'stream' });
+    } catch (error) {
+      throw this.toFileError(error, target);
+    }
+    yield* readableStreamToAsyncIterable(stream);
+  }
+
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+    const sandbox = await this.ensureSandbox();
+    const target = this.normalizePath(path);
+
+    try {
+      await sandbox.files.write(target, stream);
+    } catch (error) {
+      throw this.toFileError(error, target);
+    }
+  }
+
+  // ==================== 元数据 ====================
+
+  async getFileInfo(paths: string[]): Promise<Map<string, FileInfo>> {
+    const sandbox = await this.ensureSandbox();
+    const infoMap = new Map<string, FileInfo>();
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        const entry = await sandbox.files.getInfo(path);
+        infoMap.set(path, {
+          path,
+          size: entry.size,
+          modifiedAt: entry.modifiedTime,
+          mode: entry.mode & 0o777,
+          owner: entry.owner || undefined,
+          group: entry.group || undefined,
+          isDirectory: entry.type === FileType.DIR,
+          isFile: entry.type === FileType.FILE,
+          isSymlink: entry.type === FileType.SYMLINK
+        });
+      } catch (error) {
+        // 与 polyfill 行为一致：不存在的文件直接跳过
+        if (error instanceof FileNotFoundError) continue;
+        throw this.toFileError(error, path);
+      }
+    }
+
+    return infoMap;
+  }
+
+  async setPermissions(entries: PermissionEntry[]): Promise<void> {
+    // E2B SDK 没有 chmod/chown 接口，交给 polyfill 处理
+    await super.setPermissions(entries.map((e) => ({ ...e, path: this.normalizePath(e.path) })));
+  }
+
+  /**
+   * 将 SDK 错误转换为 FileOperationError
+   */
+  private toFileError(error: unknown, path: string): FileOperationError {
+    if (error instanceof FileOperationError) return error;
+    return new FileOperationError(
+      error instanceof Error ? error.message : String(error),
+      path,
+      error instanceof FileNotFoundError ? 'FILE_NOT_FOUND' : 'TRANSFER_ERROR',
+      error
+    );
+  }
+
   // ==================== 健康检查 ====================
 
   async ping(): Promise<boolean> {
@@ -449,6 +1259,25 @@ export class E2BAdapter extends BaseSandboxAdapter {
       return false;
     }
   }
+
+  async getMetrics(): Promise<SandboxMetrics> {
+    const sandbox = await this.ensureSandbox();
+    const metrics = await sandbox.getMetrics();
+    const latest = metrics.at(-1);
+
+    // 刚创建的沙盒可能还没有采集到指标，回退到 polyfill
+    if (!latest) {
+      return super.getMetrics();
+    }
+
+    return {
+      cpuCount: latest.cpuCount,
+      cpuUsedPercentage: latest.cpuUsedPct,
+      memoryTotalMiB: Math.floor(latest.memTotal / 1024 / 1024),
+      memoryUsedMiB: Math.floor(latest.memUsed / 1024 / 1024),
+      timestamp: latest.timestamp.getTime()
+    };
+  }
 }
 
 export type { E2BConfig } from './type';
@@ -8,7 +8,7 @@ export interface E2BConfig {
   sandboxId: string;
   /** 可选的模板 ID，用于创建新沙盒 */
   template?: string;
-  /** 可选的超时时间（秒） */
+  /** 可选的超时时间（秒），到期后沙盒会被销毁，可通过 renewExpiration 延长 */
   timeout?: number;
   /** 可选的环境变量 */
   envs?: Record<string, string>;
@@ -0,0 +1,284 @@
+import {
+  ConnectionError,
+  FileOperationError,
+  SandboxException,
+  type FileErrorCode
+} from '@/errors';
+import {
+  AGENT_API_PREFIX,
+  AGENT_EXEC_PROTOCOL,
+  type AgentDirectoryEntry,
+  type AgentErrorBody,
+  type AgentExecStart,
+  type AgentFileInfo,
+  type AgentHealth,
+  type AgentMetrics,
+  type AgentProcessInfo,
+  type AgentProcessOutput,
+  type AgentStartProcessRequest,
+  type AgentWriteFileResponse
+} from '@/agent/protocol';
+import { connectWebSocket, type WebSocketConnection } from '@/utils/websocket';
+import type { HttpAgentApiConfig } from './type';
+
+/** File error codes the agent reports for the `/files` endpoints. */
+const FILE_ERROR_CODES = new Set<string>([
+  'FILE_NOT_FOUND',
+  'FILE_ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'PATH_IS_DIRECTORY',
+  'PATH_NOT_DIRECTORY',
+  'INVALID_PATH',
+  'QUOTA_EXCEEDED',
+  'TRANSFER_ERROR'
+]);
+
+/** Thrown for non-2xx agent responses; carries the parsed error body. */
+class HttpAgentResponseError extends SandboxException {
+  constructor(
+    readonly status: number,
+    readonly body: AgentErrorBody
+  ) {
+    super(
+      `Sandbox agent request failed: ${body.message}`,
+      status === 401 || status === 403
+        ? 'PERMISSION_DENIED'
+        : status === 404
+          ? 'SANDBOX_NOT_FOUND'
+          : 'UNEXPECTED_RESPONSE'
+    );
+    this.name = 'HttpAgentResponseError';
+    Object.setPrototypeOf(this, HttpAgentResponseError.prototype);
+  }
+}
+
+/**
+ * HTTP/WebSocket client for the sandbox agent protocol.
+ *
+ * @see docs/HTTP_AGENT_PROTOCOL.md
+ */
+export class HttpAgentApi {
+  private endpoint: string;
+  private token?: string;
+
+  constructor(config: HttpAgentApiConfig) {
+    this.endpoint = config.endpoint.replace(/\/+$/, '');
+    this.token = config.token;
+  }
+
+  private headers(extra?: Record<string, string>): Record<string, string> {
+    return {
+      ...extra,
+      ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+    };
+  }
+
+  private async fetch(
+    method: string,
+    path: string,
+    init: {
+      headers?: Record<string, string>;
+      body?: BodyInit;
+      signal?: AbortSignal;
+      /** Required by fetch for streamed request bodies */
+      duplex?: 'half';
+    } = {}
+  ): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.endpoint}${AGENT_API_PREFIX}${path}`, {
+        ...init,
+        method,
+        headers: this.headers(init.headers)
+      } as RequestInit);
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new ConnectionError(
+        `Sandbox agent request failed: ${method} ${path}`,
+        this.endpoint,
+        error
+      );
+    }
+
+    if (!res.ok) {
+      const error = (await res.json().catch(() => null)) as AgentErrorBody | null;
+      throw new HttpAgentResponseError(
+        res.status,
+        error ?? { message: `HTTP ${res.status}`, code: 'UNEXPECTED_RESPONSE' }
+      );
+    }
+    return res;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const res = await this.fetch(method, path, {
+      headers:
+        body === undefined
+          ? { Accept: 'application/json' }
+          : { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal
+    });
+    return (await res.json()) as T;
+  }
+
+  /** Convert agent errors of the `/files` endpoints into FileOperationError. */
+  private async fileRequest<T>(path: string, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      if (error instanceof HttpAgentResponseError && FILE_ERROR_CODES.has(error.body.code)) {
+        throw new FileOperationError(
+          error.body.message,
+          path,
+          error.body.code as FileErrorCode,
+          error
+        );
+      }
+      throw new FileOperationError(`File transfer failed: ${path}`, path, 'TRANSFER_ERROR', error);
+    }
+  }
+
+  private static query(params: Record<string, string | undefined>): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) search.set(key, value);
+    }
+    return search.toString();
+  }
+
+  /** GET /v1/health */
+  async health(signal?: AbortSignal): Promise<AgentHealth> {
+    return this.request<AgentHealth>('GET', '/health', undefined, signal);
+  }
+
+  /** GET /v1/metrics */
+  async metrics(): Promise<AgentMetrics> {
+    return this.request<AgentMetrics>('GET', '/metrics');
+  }
+
+  /**
+   * Open an exec stream and send its start message. Closing the connection
+   * before the `exit` message makes the agent kill the command.
+   */
+  async exec(start: AgentExecStart, signal?: AbortSignal): Promise<WebSocketConnection> {
+    let ws: WebSocketConnection;
+    try {
+      ws = await connectWebSocket(`${this.endpoint}${AGENT_API_PREFIX}/exec`, {
+        protocols: [AGENT_EXEC_PROTOCOL],
+        headers: this.headers(),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ConnectionError('Failed to open sandbox agent exec stream', this.endpoint, error);
+    }
+    await ws.send(JSON.stringify(start));
+    return ws;
+  }
+
+  /** GET /v1/files — whole file, or `range` (`start-end`, end exclusive) */
+  async readFile(path: string, range?: string): Promise<Uint8Array> {
+    return this.fileRequest(path, async () => {
+      const res = await this.fetch('GET', `/files?${HttpAgentApi.query({ path, range })}`);
+      return new Uint8Array(await res.arrayBuffer());
+    });
+  }
+
+  /** GET /v1/files, streamed */
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    const res = await this.fileRequest(path, () =>
+      this.fetch('GET', `/files?${HttpAgentApi.query({ path })}`)
+    );
+    if (!res.body) return;
+    for await (const chunk of res.body) yield chunk;
+  }
+
+  /** PUT /v1/files — raw body, parent directories are created */
+  async writeFile(
+    path: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+    mode?: number
+  ): Promise<AgentWriteFileResponse> {
+    const query = HttpAgentApi.query({ path, mode: mode?.toString(8) });
+    return this.fileRequest(path, async () => {
+      const res = await this.fetch('PUT', `/files?${query}`, {
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: data as BodyInit,
+        duplex: 'half'
+      });
+      return (await res.json()) as AgentWriteFileResponse;
+    });
+  }
+
+  /** POST /v1/files/stat — missing paths are left out */
+  async statFiles(paths: string[]): Promise<AgentFileInfo[]> {
+    const res = await this.request<{ files: AgentFileInfo[] }>('POST', '/files/stat', { paths });
+    return res.files;
+  }
+
+  /** GET /v1/files/list */
+  async listDirectory(path: string): Promise<AgentDirectoryEntry[]> {
+    return this.fileRequest(path, async () => {
+      const res = await this.request<{ entries: AgentDirectoryEntry[] }>(
+        'GET',
+        `/files/list?${HttpAgentApi.query({ path })}`
+      );
+      return res.entries;
+    });
+  }
+
+  /** GET /v1/processes */
+  async listProcesses(): Promise<AgentProcessInfo[]> {
+    const res = await this.request<{ processes: AgentProcessInfo[] }>('GET', '/processes');
+    return res.processes;
+  }
+
+  /** POST /v1/processes — start a detached background process */
+  async startProcess(body: AgentStartProcessRequest): Promise<AgentProcessInfo> {
+    return this.request<AgentProcessInfo>('POST', '/processes', body);
+  }
+
+  /** GET /v1/processes/{id} — null if the agent does not know the process */
+  async getProcess(id: string): Promise<AgentProcessInfo | null> {
+    try {
+      return await this.request<AgentProcessInfo>('GET', `/processes/${encodeURIComponent(id)}`);
+    } catch (error) {
+      if (error instanceof HttpAgentResponseError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /** GET /v1/processes/{id}/output — null if the agent has no output for the process */
+  async readProcessOutput(
+    id: string,
+    stdoutOffset: number,
+    stderrOffset: number
+  ): Promise<AgentProcessOutput | null> {
+    const query = HttpAgentApi.query({
+      stdout: String(stdoutOffset),
+      stderr: String(stderrOffset)
+    });
+    try {
+      return await this.request<AgentProcessOutput>(
+        'GET',
+        `/processes/${encodeURIComponent(id)}/output?${query}`
+      );
+    } catch (error) {
+      if (error instanceof HttpAgentResponseError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /** POST /v1/processes/{id}/signal — signal the process group */
+  async signalProcess(id: string, signal: NodeJS.Signals = 'SIGTERM'): Promise<AgentProcessInfo> {
+    return this.request<AgentProcessInfo>('POST', `/processes/${encodeURIComponent(id)}/signal`, {
+      signal
+    });
+  }
+}
@@ -0,0 +1,586 @@
+import { randomUUID } from 'node:crypto';
+import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
+import { type BackgroundOutput, CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import { CommandExecutionError, ConnectionError, TimeoutError } from '@/errors';
+import {
+  AGENT_CHANNEL_STDERR,
+  AGENT_CHANNEL_STDIN,
+  AGENT_CHANNEL_STDOUT,
+  type AgentExecServerMessage,
+  type AgentProcessInfo
+} from '@/agent/protocol';
+import type {
+  DirectoryEntry,
+  ExecuteOptions,
+  ExecuteResult,
+  ExecuteStdin,
+  FileInfo,
+  FileReadResult,
+  FileWriteEntry,
+  FileWriteResult,
+  ProcessInfo,
+  ProcessSignal,
+  PtyHandle,
+  PtyOptions,
+  ReadFileOptions,
+  SandboxId,
+  SandboxInfo,
+  SandboxMetrics,
+  StreamHandlers
+} from '@/types';
+import { base64ToBytes } from '@/utils/base64';
+import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { PtyOutput } from '@/utils/pty';
+import { dataToBytes, readableStreamToAsyncIterable } from '@/utils/streams';
+import type { WebSocketConnection } from '@/utils/websocket';
+import { HttpAgentApi } from './api';
+import type { HttpAgentLifecycleHooks } from './type';
+
+export type { HttpAgentLifecycleHooks } from './type';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Prefix a chunk of input with the stdin channel byte. */
+function toStdinFrame(chunk: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(chunk.length + 1);
+  frame[0] = AGENT_CHANNEL_STDIN;
+  frame.set(chunk, 1);
+  return frame;
+}
+
+/** Map an agent process record to the process manager shape. */
+function toProcessInfo(process: AgentProcessInfo): ProcessInfo {
+  return {
+    sessionId: process.id,
+    pid: process.pid,
+    command: process.command,
+    status: process.running ? 'running' : 'exited',
+    exitCode: process.exitCode,
+    startedAt: new Date(process.startedAt)
+  };
+}
+
+/**
+ * Configuration for HttpAgentAdapter.
+ */
+export interface HttpAgentConfig {
+  /** Sandbox identifier, passed to the lifecycle hooks */
+  sandboxId: string;
+  /** Base URL of the sandbox agent, e.g. `http://10.0.0.5:8080` */
+  endpoint: string;
+  /** Token the agent expects as `Authorization: Bearer <token>` */
+  token?: string;
+  /**
+   * Directory relative paths resolve against. Should match the agent's
+   * `rootDir`.
+   * @default '/workspace'
+   */
+  rootPath?: string;
+  /** Hooks managing the machine the agent runs on */
+  lifecycle?: HttpAgentLifecycleHooks;
+}
+
+/**
+ * Adapter for any machine running the sandbox agent (see
+ * `docs/HTTP_AGENT_PROTOCOL.md`, or `createSandboxAgent` for the reference
+ * server).
+ *
+ * Commands run over the agent's WebSocket exec stream; background commands,
+ * whole-file and ranged transfers, stat, listing and metrics use its HTTP
+ * endpoints. The remaining file operations go through the
+ * CommandPolyfillService.
+ *
+ * The agent does not own the machine it runs on, so lifecycle calls are
+ * delegated to the optional `lifecycle` hooks; without them `create()` and
+ * `start()` wait for the agent and `stop()`/`delete()` only record the state.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new HttpAgentAdapter({
+ *   sandboxId: 'vm-42',
+ *   endpoint: 'http://10.0.0.5:8080',
+ *   token: process.env.AGENT_TOKEN
+ * });
+ *
+ * await adapter.ensureRunning();
+ * const result = await adapter.execute('uname -a');
+ * ```
+ */
+export class HttpAgentAdapter extends BaseSandboxAdapter {
+  readonly provider: string = 'httpagent';
+
+  private api: HttpAgentApi;
+  private _id: SandboxId;
+
+  constructor(private config: HttpAgentConfig) {
+    super();
+    this._id = config.sandboxId;
+    this.api = new HttpAgentApi({ endpoint: config.endpoint, token: config.token });
+    this.polyfillService = new CommandPolyfillService(this);
+  }
+
+  get id(): SandboxId {
+    return this._id;
+  }
+
+  get rootPath(): string {
+    return this.config.rootPath ?? '/workspace';
+  }
+
+  // ==================== Lifecycle Methods ====================
+
+  /** Running while the agent answers; null when it cannot be reached. */
+  async getInfo(): Promise<SandboxInfo | null> {
+    let health;
+    try {
+      health = await this.api.health(AbortSignal.timeout(5000));
+    } catch (error) {
+      if (error instanceof ConnectionError || (error as Error).name === 'TimeoutError') {
+        if (this._status.state !== 'Stopped') this._status = { state: 'UnExist' };
+        return null;
+      }
+      throw new CommandExecutionError(
+        'Failed to get sandbox info',
+        'getInfo',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (this._status.state !== 'Stopped') {
+      this._status = { state: 'Running' };
+    }
+    return {
+      id: this._id,
+      image: { repository: 'http-agent' },
+      entrypoint: [],
+      status: this._status,
+      createdAt: new Date(health.startedAt)
+    };
+  }
+
+  async ensureRunning(): Promise<void> {
+    try {
+      const sandbox = await this.getInfo();
+      if (!sandbox && this._status.state !== 'Stopped') {
+        await this.create();
+        return;
+      }
+      if (this._status.state !== 'Running') {
+        await this.start();
+      }
+    } catch (error) {
+      throw new ConnectionError('Failed to ensure sandbox running', this.config.endpoint, error);
+    }
+  }
+
+  async create(): Promise<void> {
+    try {
+      this._status = { state: 'Creating' };
+      await this.config.lifecycle?.create?.(this._id);
+      await this.waitUntilReady();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw new ConnectionError('Failed to create sandbox', this.config.endpoint, error);
+    }
+  }
+
+  async start(): Promise<void> {
+    try {
+      this._status = { state: 'Starting' };
+      await this.config.lifecycle?.start?.(this._id);
+      await this.waitUntilReady();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to start sandbox',
+        'start',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    try {
+      this._status = { state: 'Stopping' };
+      await this.config.lifecycle?.stop?.(this._id);
+      this._status = { state: 'Stopped' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to stop sandbox',
+        'stop',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async delete(): Promise<void> {
+    try {
+      this._status = { state: 'Deleting' };
+      await this.config.lifecycle?.delete?.(this._id);
+      this._status = { state: 'UnExist' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to delete sandbox',
+        'delete',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  // ==================== Command Execution ====================
+
+  /**
+   * Run a command over an exec stream, forwarding output to `handlers` as it
+   * arrives. Closing the stream early makes the agent kill the command.
+   */
+  private async runExec(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+
+    const controller = new AbortController();
+    let connection: WebSocketConnection | undefined;
+    const cancel = () => {
+      controller.abort();
+      connection?.terminate();
+    };
+    options?.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      if (options?.signal?.aborted) throw options.signal.reason;
+
+      const hasStdin = options?.stdin !== undefined;
+      const ws = await this.api.exec(
+        {
+          type: 'start',
+          command,
+          cwd: this.normalizePath(options?.workingDirectory),
+          env: options?.env,
+          stdin: hasStdin,
+          timeoutMs: options?.timeoutMs
+        },
+        controller.signal
+      );
+      connection = ws;
+      if (controller.signal.aborted) ws.terminate();
+
+      if (hasStdin) {
+        // Write concurrently so output is drained while stdin is sent.
+        this.writeStdin(ws, options!.stdin!).catch(() => ws.terminate());
+      }
+
+      let exit: Extract<AgentExecServerMessage, { type: 'exit' }> | undefined;
+      for await (const message of ws) {
+        if (!message.binary) {
+          const event = JSON.parse(
+            Buffer.from(message.data).toString('utf8')
+          ) as AgentExecServerMessage;
+          if (event.type === 'exit') exit = event;
+          if (event.type === 'error') throw new Error(event.message);
+          continue;
+        }
+
+        const channel = message.data[0];
+        const payload = message.data.subarray(1);
+        if (channel === AGENT_CHANNEL_STDOUT) {
+          const text = stdoutDecoder.decode(payload, { stream: true });
+          stdoutBuf.append(text);
+          if (text) await handlers?.onStdout?.({ text, timestamp: Date.now() });
+        } else if (channel === AGENT_CHANNEL_STDERR) {
+          const text = stderrDecoder.decode(payload, { stream: true });
+          stderrBuf.append(text);
+          if (text) await handlers?.onStderr?.({ text, timestamp: Date.now() });
+        }
+      }
+      if (controller.signal.aborted || !exit) throw new Error('Exec connection closed');
+
+      if (exit.timedOut) {
+        throw new TimeoutError(
+          `Command timed out after ${options?.timeoutMs}ms: ${command}`,
+          options!.timeoutMs!,
+          'execute'
+        );
+      }
+
+      stdoutBuf.append(stdoutDecoder.decode());
+      stderrBuf.append(stderrDecoder.decode());
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode: exit.exitCode,
+        truncated: stdoutBuf.truncated || stderrBuf.truncated,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      if (error instanceof TimeoutError) throw error;
+      throw new CommandExecutionError(
+        options?.signal?.aborted
+          ? `Command aborted: ${command}`
+          : `Command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async writeStdin(ws: WebSocketConnection, stdin: ExecuteStdin): Promise<void> {
+    const send = (chunk: Uint8Array) => ws.send(toStdinFrame(chunk));
+
+    if (typeof stdin === 'string') {
+      if (stdin.length > 0) await send(new TextEncoder().encode(stdin));
+    } else if (stdin instanceof Uint8Array) {
+      if (stdin.length > 0) await send(stdin);
+    } else {
+      for await (const chunk of readableStreamToAsyncIterable(stdin)) {
+        await send(chunk);
+      }
+    }
+    await ws.send(JSON.stringify({ type: 'stdin_close' }));
+  }
+
+  async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
+    return this.runExec(command, options);
+  }
+
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    const result = await this.runExec(command, options, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  /** Start a detached process; the session ID is the agent's process ID. */
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    try {
+      const process = await this.api.startProcess({
+        command,
+        cwd: this.normalizePath(options?.workingDirectory),
+        env: options?.env
+      });
+      return {
+        sessionId: process.id,
+        kill: () => this.interrupt(process.id)
+      };
+    } catch (error) {
+      throw new CommandExecutionError(
+        `Background command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    const process = await this.api.getProcess(sessionId);
+    if (!process) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'interrupt');
+    }
+    await this.api.signalProcess(sessionId, 'SIGTERM');
+  }
+
+  // ==================== Process Management ====================
+
+  async listProcesses(): Promise<ProcessInfo[]> {
+    const processes = await this.api.listProcesses();
+    return processes.filter((p) => p.background).map(toProcessInfo);
+  }
+
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    const process = await this.api.getProcess(sessionId);
+    return process ? toProcessInfo(process) : null;
+  }
+
+  async signal(sessionId: string, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    const process = await this.api.getProcess(sessionId);
+    if (!process) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    if (process.running) await this.api.signalProcess(sessionId, signal);
+  }
+
+  /** Read background output the agent keeps for each detached process. */
+  protected async readBackgroundOutput(
+    sessionId: string,
+    stdoutOffset: number,
+    stderrOffset: number
+  ): Promise<BackgroundOutput> {
+    const output = await this.api.readProcessOutput(sessionId, stdoutOffset, stderrOffset);
+    if (!output) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+    }
+    return {
+      stdout: base64ToBytes(output.stdout),
+      stderr: base64ToBytes(output.stderr),
+      stdoutOffset: output.stdoutOffset,
+      stderrOffset: output.stderrOffset,
+      done: output.done,
+      exitCode: output.exitCode
+    };
+  }
+
+  // ==================== PTY ====================
+
+  /**
+   * Emulate a terminal by running the shell under `script` on an exec
+   * stream: stdin frames carry keystrokes, stdout frames the terminal output.
+   */
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    const polyfillService = this.requirePolyfillService(
+      'openPty',
+      'Interactive terminals not supported by this provider'
+    );
+    const id = `pty-${randomUUID()}`;
+    const command = polyfillService.ptyCommand(id, {
+      ...options,
+      cwd: options.cwd && this.normalizePath(options.cwd)
+    });
+
+    let ws: WebSocketConnection;
+    try {
+      ws = await this.api.exec({ type: 'start', command, stdin: true });
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to open PTY',
+        'openPty',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const output = new PtyOutput();
+    const exited = (async () => {
+      let exitCode: number | null = null;
+      try {
+        for await (const message of ws) {
+          if (message.binary) {
+            const channel = message.data[0];
+            if (channel === AGENT_CHANNEL_STDOUT || channel === AGENT_CHANNEL_STDERR) {
+              output.push(message.data.subarray(1));
+            }
+            continue;
+          }
+          const event = JSON.parse(
+            Buffer.from(message.data).toString('utf8')
+          ) as AgentExecServerMessage;
+          if (event.type === 'exit') exitCode = event.exitCode;
+        }
+      } catch {
+        // Connection lost; the agent kills the terminal.
+      }
+      await polyfillService.removePty(id);
+      return exitCode;
+    })();
+
+    return output.handle({
+      id,
+      exited,
+      write: (data) => ws.send(toStdinFrame(data)),
+      resize: (cols, rows) => polyfillService.resizePty(id, cols, rows),
+      close: async () => {
+        // script ends its session on SIGTERM, which hangs up the shell.
+        await ws
+          .send(JSON.stringify({ type: 'signal', signal: 'SIGTERM' }))
+          .catch(() => ws.terminate());
+        await exited;
+      }
+    });
+  }
+
+  // ==================== File System ====================
+
+  async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
+    const results: FileReadResult[] = [];
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        const content = await this.api.readFile(path, options?.range);
+        results.push({ path, content, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          content: new Uint8Array(),
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+    return results;
+  }
+
+  async writeFiles(entries: FileWriteEntry[]): Promise<FileWriteResult[]> {
+    const results: FileWriteResult[] = [];
+
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        const res = await this.api.writeFile(path, await dataToBytes(entry.data), entry.mode);
+        if (entry.owner || entry.group) {
+          await this.setPermissions([{ path, owner: entry.owner, group: entry.group }]);
+        }
+        results.push({ path, bytesWritten: res.bytesWritten, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          bytesWritten: 0,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    yield* this.api.readFileStream(this.normalizePath(path));
+  }
+
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+    await this.api.writeFile(this.normalizePath(path), stream);
+  }
+
+  async getFileInfo(paths: string[]): Promise<Map<string, FileInfo>> {
+    const files = await this.api.statFiles(paths.map((p) => this.normalizePath(p)));
+    return new Map(
+      files.map((file) => [
+        file.path,
+        {
+          ...file,
+          modifiedAt: new Date(file.modifiedAt),
+          createdAt: new Date(file.createdAt)
+        }
+      ])
+    );
+  }
+
+  async listDirectory(path: string): Promise<DirectoryEntry[]> {
+    const entries = await this.api.listDirectory(this.normalizePath(path));
+    return entries.map((entry) => ({ ...entry, modifiedAt: new Date(entry.modifiedAt) }));
+  }
+
+  // ==================== Health Check ====================
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.api.health(AbortSignal.timeout(5000));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getMetrics(): Promise<SandboxMetrics> {
+    return this.api.metrics();
+  }
+}
@@ -0,0 +1,19 @@
+/** Configuration for the sandbox agent HTTP client. */
+export interface HttpAgentApiConfig {
+  /** Base URL of the agent, e.g. `http://10.0.0.5:8080` */
+  endpoint: string;
+  /** Bearer token checked by the agent */
+  token?: string;
+}
+
+/**
+ * Hooks managing the machine the agent runs on. Each one receives the
+ * sandbox ID; when a hook is missing the adapter only waits for the agent
+ * (create/start) or records the state (stop/delete).
+ */
+export interface HttpAgentLifecycleHooks {
+  create?(sandboxId: string): Promise<void>;
+  start?(sandboxId: string): Promise<void>;
+  stop?(sandboxId: string): Promise<void>;
+  delete?(sandboxId: string): Promise<void>;
+}
@@ -0,0 +1,290 @@
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { ConnectionError, SandboxException } from '@/errors';
+import {
+  connectWebSocket,
+  WebSocketHandshakeError,
+  type WebSocketConnection
+} from '@/utils/websocket';
+import type {
+  KubernetesApiConfig,
+  KubernetesApiResponse,
+  KubernetesNetworkPolicy,
+  KubernetesPod,
+  KubernetesStatefulSet,
+  KubernetesStatus
+} from './type';
+
+interface RequestOptions {
+  query?: Record<string, string | string[] | undefined>;
+  /** JSON-serializable body */
+  body?: unknown;
+  contentType?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Channel identifiers of the `channel.k8s.io` exec subprotocols (first byte of
+ * each WebSocket message).
+ */
+export const EXEC_CHANNEL_STDIN = 0;
+export const EXEC_CHANNEL_STDOUT = 1;
+export const EXEC_CHANNEL_STDERR = 2;
+export const EXEC_CHANNEL_ERROR = 3;
+/** TTY sessions only: `{"Width": cols, "Height": rows}` resizes the terminal. */
+export const EXEC_CHANNEL_RESIZE = 4;
+/** v5 only: `[255, channel]` closes the given stream. */
+export const EXEC_CHANNEL_CLOSE = 255;
+
+/** Exec subprotocols offered to the API server, newest first. */
+export const EXEC_PROTOCOL_V5 = 'v5.channel.k8s.io';
+export const EXEC_PROTOCOL_V4 = 'v4.channel.k8s.io';
+
+/** Options for {@link KubernetesApi.exec}. */
+export interface KubernetesExecOptions {
+  container: string;
+  command: string[];
+  stdin?: boolean;
+  tty?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * HTTP client for the subset of the Kubernetes API used by the adapter.
+ *
+ * @see https://kubernetes.io/docs/reference/kubernetes-api/
+ */
+export class KubernetesApi {
+  constructor(private config: KubernetesApiConfig) {}
+
+  private url(path: string, query?: Record<string, string | string[] | undefined>): URL {
+    // Keep any path prefix of the server URL (e.g. behind a proxy).
+    const url = new URL(this.config.server);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}${path}`;
+    for (const [k, v] of Object.entries(query ?? {})) {
+      if (v === undefined) continue;
+      for (const value of Array.isArray(v) ? v : [v]) url.searchParams.append(k, value);
+    }
+    return url;
+  }
+
+  private get tlsOptions() {
+    return {
+      ca: this.config.caData,
+      rejectUnauthorized: !this.config.insecureSkipTlsVerify
+    };
+  }
+
+  private get authHeaders(): Record<string, string> {
+    return this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {};
+  }
+
+  /** Send a request and buffer the whole response body. */
+  async request(
+    method: string,
+    path: string,
+    options?: RequestOptions
+  ): Promise<KubernetesApiResponse> {
+    const url = this.url(path, options?.query);
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.authHeaders };
+    let payload: Buffer | undefined;
+    if (options?.body !== undefined) {
+      payload = Buffer.from(JSON.stringify(options.body));
+      headers['Content-Type'] = options.contentType ?? 'application/json';
+      headers['Content-Length'] = String(payload.length);
+    }
+
+    const secure = url.protocol === 'https:';
+    const res = await new Promise<IncomingMessage>((resolve, reject) => {
+      const requestOptions = {
+        method,
+        headers,
+        signal: options?.signal,
+        ...(secure ? this.tlsOptions : {})
+      };
+      const req = secure
+        ? httpsRequest(url, requestOptions, resolve)
+        : httpRequest(url, requestOptions, resolve);
+      req.on('error', (error) => {
+        if (error.name === 'AbortError') {
+          reject(error);
+          return;
+        }
+        reject(
+          new ConnectionError(
+            `Kubernetes API request failed: ${method} ${path}`,
+            this.config.server,
+            error
+          )
+        );
+      });
+      req.end(payload);
+    });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of res) {
+      chunks.push(chunk as Buffer);
+    }
+    return { statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks) };
+  }
+
+  /**
+   * Throw a SandboxException for non-2xx responses, using the message of the
+   * returned `Status` object when present.
+   */
+  private ensureOk(res: KubernetesApiResponse, operation: string): KubernetesApiResponse {
+    if (res.statusCode >= 200 && res.statusCode < 300) return res;
+    throw KubernetesApi.toException(
+      res.statusCode,
+      Buffer.from(res.body).toString('utf8'),
+      operation
+    );
+  }
+
+  private static toException(
+    statusCode: number,
+    body: string,
+    operation: string
+  ): SandboxException {
+    let message = `HTTP ${statusCode}`;
+    try {
+      const status = JSON.parse(body) as KubernetesStatus;
+      if (status.message) message = status.message;
+    } catch {
+      // Non-JSON error body
+    }
+    const code =
+      statusCode === 404
+        ? 'SANDBOX_NOT_FOUND'
+        : statusCode === 401 || statusCode === 403
+          ? 'PERMISSION_DENIED'
+          : 'UNEXPECTED_RESPONSE';
+    return new SandboxException(`Kubernetes ${operation} failed: ${message}`, code);
+  }
+
+  private json<T>(res: KubernetesApiResponse): T {
+    return JSON.parse(Buffer.from(res.body).toString('utf8')) as T;
+  }
+
+  private static statefulSetPath(namespace: string, name?: string): string {
+    const base = `/apis/apps/v1/namespaces/${encodeURIComponent(namespace)}/statefulsets`;
+    return name ? `${base}/${encodeURIComponent(name)}` : base;
+  }
+
+  private static networkPolicyPath(namespace: string, name?: string): string {
+    const base = `/apis/networking.k8s.io/v1/namespaces/${encodeURIComponent(namespace)}/networkpolicies`;
+    return name ? `${base}/${encodeURIComponent(name)}` : base;
+  }
+
+  private static podPath(namespace: string, name: string): string {
+    return `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(name)}`;
+  }
+
+  // ==================== StatefulSets ====================
+
+  /** POST /apis/apps/v1/namespaces/{ns}/statefulsets */
+  async createStatefulSet(namespace: string, body: KubernetesStatefulSet): Promise<void> {
+    this.ensureOk(
+      await this.request('POST', KubernetesApi.statefulSetPath(namespace), { body }),
+      'statefulset create'
+    );
+  }
+
+  /** GET /apis/apps/v1/namespaces/{ns}/statefulsets?labelSelector= */
+  async listStatefulSets(
+    namespace: string,
+    labelSelector: string
+  ): Promise<KubernetesStatefulSet[]> {
+    const res = await this.request('GET', KubernetesApi.statefulSetPath(namespace), {
+      query: { labelSelector }
+    });
+    return this.json<{ items: KubernetesStatefulSet[] }>(this.ensureOk(res, 'statefulset list'))
+      .items;
+  }
+
+  /** GET /apis/apps/v1/namespaces/{ns}/statefulsets/{name} — null if it does not exist */
+  async getStatefulSet(namespace: string, name: string): Promise<KubernetesStatefulSet | null> {
+    const res = await this.request('GET', KubernetesApi.statefulSetPath(namespace, name));
+    if (res.statusCode === 404) return null;
+    return this.json<KubernetesStatefulSet>(this.ensureOk(res, 'statefulset get'));
+  }
+
+  /** PATCH spec.replicas of a StatefulSet (JSON merge patch) */
+  async scaleStatefulSet(namespace: string, name: string, replicas: number): Promise<void> {
+    this.ensureOk(
+      await this.request('PATCH', KubernetesApi.statefulSetPath(namespace, name), {
+        body: { spec: { replicas } },
+        contentType: 'application/merge-patch+json'
+      }),
+      'statefulset scale'
+    );
+  }
+
+  /** DELETE a StatefulSet and, in the background, its pods (404 = already gone) */
+  async deleteStatefulSet(namespace: string, name: string): Promise<void> {
+    const res = await this.request('DELETE', KubernetesApi.statefulSetPath(namespace, name), {
+      query: { propagationPolicy: 'Background' }
+    });
+    if (res.statusCode !== 404) this.ensureOk(res, 'statefulset delete');
+  }
+
+  // ==================== Pods ====================
+
+  /** GET /api/v1/namespaces/{ns}/pods/{name} — null if it does not exist */
+  async getPod(namespace: string, name: string): Promise<KubernetesPod | null> {
+    const res = await this.request('GET', KubernetesApi.podPath(namespace, name));
+    if (res.statusCode === 404) return null;
+    return this.json<KubernetesPod>(this.ensureOk(res, 'pod get'));
+  }
+
+  /**
+   * Open an exec session over WebSocket. The negotiated subprotocol is
+   * available as `connection.protocol`.
+   */
+  async exec(
+    namespace: string,
+    pod: string,
+    options: KubernetesExecOptions
+  ): Promise<WebSocketConnection> {
+    const url = this.url(`${KubernetesApi.podPath(namespace, pod)}/exec`, {
+      container: options.container,
+      command: options.command,
+      stdin: options.stdin ? 'true' : undefined,
+      stdout: 'true',
+      // A terminal merges stderr into stdout.
+      stderr: options.tty ? undefined : 'true',
+      tty: options.tty ? 'true' : undefined
+    });
+
+    try {
+      return await connectWebSocket(url.toString(), {
+        protocols: [EXEC_PROTOCOL_V5, EXEC_PROTOCOL_V4],
+        headers: this.authHeaders,
+        signal: options.signal,
+        ...this.tlsOptions
+      });
+    } catch (error) {
+      if (error instanceof WebSocketHandshakeError) {
+        throw KubernetesApi.toException(error.statusCode, error.body, 'exec');
+      }
+      if ((error as Error | undefined)?.name === 'AbortError') throw error;
+      throw new ConnectionError('Kubernetes exec connection failed', this.config.server, error);
+    }
+  }
+
+  // ==================== NetworkPolicies ====================
+
+  /** POST /apis/networking.k8s.io/v1/namespaces/{ns}/networkpolicies */
+  async createNetworkPolicy(namespace: string, body: KubernetesNetworkPolicy): Promise<void> {
+    this.ensureOk(
+      await this.request('POST', KubernetesApi.networkPolicyPath(namespace), { body }),
+      'networkpolicy create'
+    );
+  }
+
+  /** DELETE a NetworkPolicy (404 = already gone) */
+  async deleteNetworkPolicy(namespace: string, name: string): Promise<void> {
+    const res = await this.request('DELETE', KubernetesApi.networkPolicyPath(namespace, name));
+    if (res.statusCode !== 404) this.ensureOk(res, 'networkpolicy delete');
+  }
+}
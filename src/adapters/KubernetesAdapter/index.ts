@@ -0,0 +1,776 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
+import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FeatureNotSupportedError,
+  TimeoutError
+} from '@/errors';
+import type {
+  ExecuteOptions,
+  ExecuteResult,
+  ExecuteStdin,
+  ImageSpec,
+  PtyHandle,
+  PtyOptions,
+  ResourceLimits,
+  SandboxId,
+  SandboxInfo,
+  SandboxListFilter,
+  SandboxState,
+  StreamHandlers
+} from '@/types';
+import { randomSuffix } from '@/utils/id';
+import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { DEFAULT_PTY_COLS, DEFAULT_PTY_ROWS, DEFAULT_PTY_SHELL, PtyOutput } from '@/utils/pty';
+import { matchesSandboxFilter } from '@/utils/sandboxFilter';
+import { readableStreamToAsyncIterable } from '@/utils/streams';
+import type { WebSocketConnection } from '@/utils/websocket';
+import {
+  EXEC_CHANNEL_CLOSE,
+  EXEC_CHANNEL_ERROR,
+  EXEC_CHANNEL_RESIZE,
+  EXEC_CHANNEL_STDERR,
+  EXEC_CHANNEL_STDIN,
+  EXEC_CHANNEL_STDOUT,
+  EXEC_PROTOCOL_V5,
+  KubernetesApi
+} from './api';
+import type {
+  KubernetesConfigType,
+  KubernetesNetworkPolicy,
+  KubernetesNetworkPolicyEgressRule,
+  KubernetesPod,
+  KubernetesStatefulSet,
+  KubernetesStatus
+} from './type';
+
+export type { KubernetesConfigType } from './type';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Label attached to every object created by this adapter. */
+const SANDBOX_ID_LABEL = 'fastgpt.sandbox/id';
+
+/** Name of the sandbox container inside the pod. */
+const CONTAINER_NAME = 'sandbox';
+
+/** Prefix an exec message payload with its channel byte. */
+function execFrame(channel: number, payload: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(payload.length + 1);
+  frame[0] = channel;
+  frame.set(payload, 1);
+  return frame;
+}
+
+/**
+ * Connection configuration options for KubernetesAdapter.
+ */
+export interface KubernetesConnectionConfig {
+  /**
+   * Sandbox identifier, used as the StatefulSet name. Must be a valid
+   * DNS-1123 label.
+   */
+  sandboxId: string;
+  /** API server URL, e.g. "https://10.0.0.1:6443" */
+  server: string;
+  /** Bearer token of a service account allowed to manage the sandbox objects */
+  token?: string;
+  /**
+   * Namespace holding the sandbox objects.
+   * @default 'default'
+   */
+  namespace?: string;
+  /** PEM-encoded CA bundle used to verify the API server */
+  caData?: string;
+  /** Skip API server certificate verification */
+  insecureSkipTlsVerify?: boolean;
+}
+
+/**
+ * Kubernetes provider adapter.
+ *
+ * Each sandbox is a single-replica StatefulSet owning the pod `<id>-0`:
+ * `stop()` scales it to zero and `start()` back to one, so the workload
+ * definition survives while no pod is running. Commands run through the pod
+ * exec subresource over WebSocket (`v5.channel.k8s.io`, falling back to
+ * `v4.channel.k8s.io`). File operations and metrics use the
+ * CommandPolyfillService.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new KubernetesAdapter(
+ *   { sandboxId: 'my-sandbox', server: 'https://10.0.0.1:6443', token, namespace: 'sandboxes' },
+ *   { image: { repository: 'node', tag: '20-alpine' }, resourceLimits: { cpuCount: 1 } }
+ * );
+ *
+ * await adapter.ensureRunning();
+ * const result = await adapter.execute('node --version');
+ * ```
+ */
+export class KubernetesAdapter extends BaseSandboxAdapter {
+  readonly provider = 'kubernetes' as const;
+
+  private api: KubernetesApi;
+  private _id: SandboxId;
+
+  constructor(
+    private connectionConfig: KubernetesConnectionConfig,
+    private createConfig?: KubernetesConfigType
+  ) {
+    super();
+    this._id = connectionConfig.sandboxId;
+    this.api = new KubernetesApi({
+      server: connectionConfig.server,
+      token: connectionConfig.token,
+      caData: connectionConfig.caData,
+      insecureSkipTlsVerify: connectionConfig.insecureSkipTlsVerify
+    });
+    this.polyfillService = new CommandPolyfillService(this);
+  }
+
+  get rootPath(): string {
+    return (this.createConfig?.workingDir ?? '/workspace').replace(/\/+$/, '') || '/';
+  }
+
+  get id(): SandboxId {
+    return this._id;
+  }
+
+  private get namespace(): string {
+    return this.connectionConfig.namespace ?? 'default';
+  }
+
+  /** The StatefulSet controller names its only pod `<name>-0`. */
+  private get podName(): string {
+    return `${this._id}-0`;
+  }
+
+  private get networkPolicyName(): string {
+    return `${this._id}-egress`;
+  }
+
+  // ==================== Status Mapping ====================
+
+  private static isPodReady(pod: KubernetesPod): boolean {
+    return Boolean(pod.status?.conditions?.some((c) => c.type === 'Ready' && c.status === 'True'));
+  }
+
+  private static podState(pod: KubernetesPod): SandboxState {
+    if (pod.metadata.deletionTimestamp) return 'Stopping';
+
+    switch (pod.status?.phase) {
+      case 'Pending':
+        return 'Starting';
+      case 'Running':
+        return KubernetesAdapter.isPodReady(pod) ? 'Running' : 'Starting';
+      case 'Succeeded':
+        return 'Stopped';
+      default:
+        return 'Error';
+    }
+  }
+
+  private parseImageSpec(image: string): ImageSpec {
+    const atIndex = image.indexOf('@');
+    if (atIndex > -1) {
+      return { repository: image.slice(0, atIndex), digest: image.slice(atIndex + 1) };
+    }
+
+    // Only treat the last colon as a tag separator when it comes after the
+    // last slash, so registry ports ("host:5000/repo") are kept intact.
+    const colonIndex = image.lastIndexOf(':');
+    if (colonIndex > image.lastIndexOf('/')) {
+      return { repository: image.slice(0, colonIndex), tag: image.slice(colonIndex + 1) };
+    }
+
+    return { repository: image };
+  }
+
+  /** Map ResourceLimits to container requests/limits (requests = limits). */
+  private static toResources(limits?: ResourceLimits): Record<string, string> | undefined {
+    const resources: Record<string, string> = {};
+    if (limits?.cpuCount) resources.cpu = `${Math.round(limits.cpuCount * 1000)}m`;
+    if (limits?.memoryMiB) resources.memory = `${limits.memoryMiB}Mi`;
+    if (limits?.diskGiB) resources['ephemeral-storage'] = `${limits.diskGiB}Gi`;
+    return Object.keys(resources).length > 0 ? resources : undefined;
+  }
+
+  /** Inverse of {@link toResources} for the quantity formats it produces. */
+  private static fromResources(resources?: Record<string, string>): ResourceLimits {
+    const parse = (value: string | undefined, units: Record<string, number>) => {
+      const match = value?.match(/^([\d.]+)([A-Za-z]*)$/);
+      if (!match || !(match[2] in units)) return undefined;
+      return Number(match[1]) * units[match[2]];
+    };
+    return {
+      cpuCount: parse(resources?.cpu, { '': 1, m: 1 / 1000 }),
+      memoryMiB: parse(resources?.memory, { Mi: 1, Gi: 1024 }),
+      diskGiB: parse(resources?.['ephemeral-storage'], { Mi: 1 / 1024, Gi: 1 })
+    };
+  }
+
+  // ==================== Provider-wide Management ====================
+
+  /**
+   * List the sandbox StatefulSets created by this adapter in a namespace.
+   * Metadata is matched against the StatefulSet annotations.
+   */
+  static async listSandboxes(
+    connectionConfig: Omit<KubernetesConnectionConfig, 'sandboxId'>,
+    filter: SandboxListFilter = {}
+  ): Promise<SandboxInfo[]> {
+    const api = new KubernetesApi({
+      server: connectionConfig.server,
+      token: connectionConfig.token,
+      caData: connectionConfig.caData,
+      insecureSkipTlsVerify: connectionConfig.insecureSkipTlsVerify
+    });
+    let statefulSets;
+    try {
+      statefulSets = await api.listStatefulSets(
+        connectionConfig.namespace ?? 'default',
+        SANDBOX_ID_LABEL
+      );
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to list sandboxes',
+        'listSandboxes',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const sandboxes: SandboxInfo[] = [];
+    for (const statefulSet of statefulSets) {
+      const sandboxId = statefulSet.metadata.name;
+      const info = await new KubernetesAdapter({ ...connectionConfig, sandboxId }).getInfo();
+      if (info && matchesSandboxFilter(info, filter)) sandboxes.push(info);
+    }
+    return sandboxes;
+  }
+
+  /** Delete a sandbox's StatefulSet and network policy; missing objects are ignored. */
+  static async deleteSandbox(
+    connectionConfig: Omit<KubernetesConnectionConfig, 'sandboxId'>,
+    sandboxId: SandboxId
+  ): Promise<void> {
+    await new KubernetesAdapter({ ...connectionConfig, sandboxId }).delete();
+  }
+
+  // ==================== Lifecycle Methods ====================
+
+  async getInfo(): Promise<SandboxInfo | null> {
+    try {
+      const statefulSet = await this.api.getStatefulSet(this.namespace, this._id);
+      if (!statefulSet) {
+        this._status = { state: 'UnExist' };
+        return null;
+      }
+
+      if (statefulSet.metadata.deletionTimestamp) {
+        this._status = { state: 'Deleting' };
+      } else {
+        const pod = await this.api.getPod(this.namespace, this.podName);
+        if (statefulSet.spec.replicas === 0) {
+          this._status = { state: pod ? 'Stopping' : 'Stopped' };
+        } else if (!pod) {
+          this._status = { state: 'Starting' };
+        } else {
+          const waiting = pod.status?.containerStatuses?.find((c) => c.name === CONTAINER_NAME)
+            ?.state?.waiting;
+          this._status = {
+            state: KubernetesAdapter.podState(pod),
+            reason: waiting?.reason ?? pod.status?.phase,
+            message: waiting?.message
+          };
+        }
+      }
+
+      const container = statefulSet.spec.template.spec.containers.find(
+        (c) => c.name === CONTAINER_NAME
+      );
+      return {
+        id: this._id,
+        image: this.parseImageSpec(container?.image ?? ''),
+        entrypoint: container?.command ?? [],
+        metadata: statefulSet.metadata.annotations ?? {},
+        status: this._status,
+        createdAt: new Date(statefulSet.metadata.creationTimestamp ?? Date.now()),
+        resourceLimits: KubernetesAdapter.fromResources(container?.resources?.limits)
+      };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to get sandbox info',
+        'getInfo',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async ensureRunning(): Promise<void> {
+    try {
+      const sandbox = await this.getInfo();
+      if (!sandbox) {
+        await this.create();
+        return;
+      }
+
+      switch (sandbox.status.state) {
+        case 'Running':
+          return;
+        case 'Creating':
+        case 'Starting':
+          await this.waitUntilReady();
+          this._status = { state: 'Running' };
+          return;
+        case 'Stopping':
+        case 'Stopped':
+          await this.start();
+          return;
+        case 'Deleting':
+          await this.waitUntilDeleted();
+          await this.create();
+          return;
+        default:
+          throw new ConnectionError(`Sandbox error: ${sandbox.status.message ?? 'unknown'}`);
+      }
+    } catch (error) {
+      throw new ConnectionError(
+        'Failed to ensure sandbox running',
+        this.connectionConfig.server,
+        error
+      );
+    }
+  }
+
+  async create(): Promise<void> {
+    const cfg = this.createConfig;
+    if (!cfg) {
+      throw new ConnectionError(
+        'Cannot create sandbox: createConfig is required but was not provided',
+        this.connectionConfig.server
+      );
+    }
+
+    try {
+      this._status = { state: 'Creating' };
+
+      const networkPolicy = await this.buildNetworkPolicy();
+      if (networkPolicy) {
+        await this.api.createNetworkPolicy(this.namespace, networkPolicy);
+      }
+      await this.api.createStatefulSet(this.namespace, this.buildStatefulSet(cfg));
+
+      await this.waitUntilReady();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw new ConnectionError('Failed to create sandbox', this.connectionConfig.server, error);
+    }
+  }
+
+  async start(): Promise<void> {
+    try {
+      this._status = { state: 'Starting' };
+      await this.api.scaleStatefulSet(this.namespace, this._id, 1);
+      await this.waitUntilReady();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to start sandbox',
+        'start',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /** Scale to zero and wait for the pod to go away. */
+  async stop(): Promise<void> {
+    try {
+      this._status = { state: 'Stopping' };
+      await this.api.scaleStatefulSet(this.namespace, this._id, 0);
+      await this.waitUntilPodDeleted();
+      this._status = { state: 'Stopped' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to stop sandbox',
+        'stop',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async delete(): Promise<void> {
+    try {
+      this._status = { state: 'Deleting' };
+      await this.api.deleteStatefulSet(this.namespace, this._id);
+      await this.api.deleteNetworkPolicy(this.namespace, this.networkPolicyName);
+      this._status = { state: 'UnExist' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to delete sandbox',
+        'delete',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private async waitUntilPodDeleted(timeoutMs: number = 120000): Promise<void> {
+    const startTime = Date.now();
+    while (await this.api.getPod(this.namespace, this.podName)) {
+      if (Date.now() - startTime >= timeoutMs) {
+        throw new TimeoutError(`Pod ${this.podName} was not deleted`, timeoutMs, 'stop');
+      }
+      await this.sleep(1000);
+    }
+  }
+
+  private buildStatefulSet(cfg: KubernetesConfigType): KubernetesStatefulSet {
+    const labels = { [SANDBOX_ID_LABEL]: this._id };
+    const image = [
+      cfg.image.repository,
+      cfg.image.tag ? `:${cfg.image.tag}` : '',
+      cfg.image.digest ? `@${cfg.image.digest}` : ''
+    ].join('');
+    const resources = KubernetesAdapter.toResources(cfg.resourceLimits);
+
+    return {
+      apiVersion: 'apps/v1',
+      kind: 'StatefulSet',
+      metadata: { name: this._id, labels, annotations: cfg.metadata },
+      spec: {
+        replicas: 1,
+        serviceName: this._id,
+        selector: { matchLabels: labels },
+        template: {
+          metadata: { labels },
+          spec: {
+            containers: [
+              {
+                name: CONTAINER_NAME,
+                image,
+                command: cfg.entrypoint ?? ['tail', '-f', '/dev/null'],
+                env: Object.entries(cfg.env ?? {}).map(([name, value]) => ({ name, value })),
+                workingDir: this.rootPath,
+                resources: resources ? { requests: resources, limits: resources } : undefined
+              }
+            ],
+            serviceAccountName: cfg.serviceAccountName,
+            automountServiceAccountToken: false,
+            terminationGracePeriodSeconds: 1,
+            nodeSelector: cfg.nodeSelector,
+            imagePullSecrets: cfg.imagePullSecrets?.map((name) => ({ name }))
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Translate `networkPolicy` into an egress NetworkPolicy, or undefined when
+   * egress is unrestricted. Allowed hostnames are resolved now, since
+   * NetworkPolicy only matches IP blocks; DNS stays reachable so the sandbox
+   * can still resolve them.
+   */
+  private async buildNetworkPolicy(): Promise<KubernetesNetworkPolicy | undefined> {
+    const policy = this.createConfig?.networkPolicy;
+    const allowedHosts = policy?.allowedHosts ?? [];
+    if (policy?.allowEgress !== false && allowedHosts.length === 0) return undefined;
+
+    const egress: KubernetesNetworkPolicyEgressRule[] = [];
+    if (policy?.allowEgress !== false) {
+      const cidrs = new Set<string>();
+      for (const host of allowedHosts) {
+        if (host.includes('/')) {
+          cidrs.add(host);
+          continue;
+        }
+        const addresses = isIP(host)
+          ? [{ address: host, family: isIP(host) }]
+          : await lookup(host, { all: true });
+        for (const { address, family } of addresses) {
+          cidrs.add(`${address}/${family === 6 ? 128 : 32}`);
+        }
+      }
+      egress.push(
+        {
+          ports: [
+            { protocol: 'UDP', port: 53 },
+            { protocol: 'TCP', port: 53 }
+          ]
+        },
+        { to: [...cidrs].map((cidr) => ({ ipBlock: { cidr } })) }
+      );
+    }
+
+    return {
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'NetworkPolicy',
+      metadata: { name: this.networkPolicyName, labels: { [SANDBOX_ID_LABEL]: this._id } },
+      spec: {
+        podSelector: { matchLabels: { [SANDBOX_ID_LABEL]: this._id } },
+        policyTypes: ['Egress'],
+        egress
+      }
+    };
+  }
+
+  // ==================== Command Execution ====================
+
+  /**
+   * Run a command through the exec subresource and collect its output,
+   * forwarding chunks to the optional stream handlers as they arrive.
+   *
+   * Closing the exec connection does not stop the remote process, so on
+   * timeout or abort it is killed through its marker variable.
+   */
+  private async runExec(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+
+    const execId = randomSuffix();
+    const controller = new AbortController();
+    let timedOut = false;
+    let connection: WebSocketConnection | undefined;
+    const cancel = () => {
+      controller.abort();
+      connection?.terminate();
+    };
+    const timer = options?.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          cancel();
+        }, options.timeoutMs)
+      : undefined;
+    options?.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      if (options?.signal?.aborted) throw options.signal.reason;
+
+      const hasStdin = options?.stdin !== undefined;
+      const ws = await this.api.exec(this.namespace, this.podName, {
+        container: CONTAINER_NAME,
+        command: this.markedCommand(this.buildEnvScript(command, options), execId),
+        stdin: hasStdin,
+        signal: controller.signal
+      });
+      connection = ws;
+      if (controller.signal.aborted) ws.terminate();
+
+      if (hasStdin) {
+        if (ws.protocol !== EXEC_PROTOCOL_V5) {
+          ws.close();
+          throw new FeatureNotSupportedError(
+            'stdin requires the v5.channel.k8s.io exec protocol',
+            'stdin',
+            this.provider
+          );
+        }
+        // Write concurrently so output is drained while stdin is sent.
+        this.writeStdin(ws, options!.stdin!).catch(() => ws.terminate());
+      }
+
+      let status: KubernetesStatus | undefined;
+      for await (const message of ws) {
+        const channel = message.data[0];
+        const payload = message.data.subarray(1);
+        if (channel === EXEC_CHANNEL_STDOUT) {
+          const text = stdoutDecoder.decode(payload, { stream: true });
+          stdoutBuf.append(text);
+          if (text) await handlers?.onStdout?.({ text, timestamp: Date.now() });
+        } else if (channel === EXEC_CHANNEL_STDERR) {
+          const text = stderrDecoder.decode(payload, { stream: true });
+          stderrBuf.append(text);
+          if (text) await handlers?.onStderr?.({ text, timestamp: Date.now() });
+        } else if (channel === EXEC_CHANNEL_ERROR) {
+          status = JSON.parse(Buffer.from(payload).toString('utf8')) as KubernetesStatus;
+        }
+      }
+      if (controller.signal.aborted) throw new Error('Exec connection closed');
+      stdoutBuf.append(stdoutDecoder.decode());
+      stderrBuf.append(stderrDecoder.decode());
+
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode: this.parseExitCode(command, status),
+        truncated: stdoutBuf.truncated || stderrBuf.truncated,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      if (error instanceof FeatureNotSupportedError || error instanceof CommandExecutionError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        await this.killExec(execId);
+      }
+      if (timedOut) {
+        throw new TimeoutError(
+          `Command timed out after ${options?.timeoutMs}ms: ${command}`,
+          options!.timeoutMs!,
+          'execute'
+        );
+      }
+      if (options?.signal?.aborted) {
+        throw new CommandExecutionError(
+          `Command aborted: ${command}`,
+          command,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw new CommandExecutionError(
+        `Command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * The final `Status` on the error channel carries the exit code: `Success`
+   * for 0, otherwise a `NonZeroExitCode` failure with an `ExitCode` cause.
+   */
+  private parseExitCode(command: string, status: KubernetesStatus | undefined): number {
+    if (!status) {
+      throw new CommandExecutionError('Exec stream ended without a status', command);
+    }
+    if (status.status === 'Success') return 0;
+
+    const cause = status.details?.causes?.find((c) => c.reason === 'ExitCode');
+    const exitCode = Number(cause?.message);
+    if (!cause || Number.isNaN(exitCode)) {
+      throw new CommandExecutionError(
+        `Command execution failed: ${status.message ?? 'unknown error'}`,
+        command
+      );
+    }
+    return exitCode;
+  }
+
+  private async writeStdin(ws: WebSocketConnection, stdin: ExecuteStdin): Promise<void> {
+    const send = (chunk: Uint8Array) => ws.send(execFrame(EXEC_CHANNEL_STDIN, chunk));
+
+    if (typeof stdin === 'string') {
+      if (stdin.length > 0) await send(new TextEncoder().encode(stdin));
+    } else if (stdin instanceof Uint8Array) {
+      if (stdin.length > 0) await send(stdin);
+    } else {
+      for await (const chunk of readableStreamToAsyncIterable(stdin)) {
+        await send(chunk);
+      }
+    }
+    await ws.send(new Uint8Array([EXEC_CHANNEL_CLOSE, EXEC_CHANNEL_STDIN]));
+  }
+
+  async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
+    return this.runExec(command, options);
+  }
+
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    const result = await this.runExec(command, options, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    return this.launchMarkedBackground(command, options, (script) => this.runExec(script));
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    await this.killExec(sessionId, 'TERM');
+  }
+
+  private async killExec(execId: string, signal: 'KILL' | 'TERM' = 'KILL'): Promise<void> {
+    await this.runExec(this.killMarkedScript(execId, signal)).catch(() => {});
+  }
+
+  // ==================== PTY ====================
+
+  /**
+   * Open a terminal through the exec subresource with `tty=true`. The
+   * terminal size travels on the resize channel.
+   */
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    const execId = randomSuffix();
+    const script = this.buildEnvScript(`exec ${options.shell ?? DEFAULT_PTY_SHELL}`, {
+      env: { TERM: 'xterm-256color', ...options.env },
+      workingDirectory: options.cwd
+    });
+    const ws = await this.api.exec(this.namespace, this.podName, {
+      container: CONTAINER_NAME,
+      command: this.markedCommand(script, execId),
+      stdin: true,
+      tty: true
+    });
+
+    const resize = (cols: number, rows: number) =>
+      ws.send(
+        execFrame(
+          EXEC_CHANNEL_RESIZE,
+          new TextEncoder().encode(JSON.stringify({ Width: cols, Height: rows }))
+        )
+      );
+    await resize(options.cols ?? DEFAULT_PTY_COLS, options.rows ?? DEFAULT_PTY_ROWS);
+
+    const output = new PtyOutput();
+    const exited = (async () => {
+      let status: KubernetesStatus | undefined;
+      try {
+        for await (const message of ws) {
+          const channel = message.data[0];
+          const payload = message.data.subarray(1);
+          if (channel === EXEC_CHANNEL_STDOUT) {
+            output.push(payload);
+          } else if (channel === EXEC_CHANNEL_ERROR) {
+            status = JSON.parse(Buffer.from(payload).toString('utf8')) as KubernetesStatus;
+          }
+        }
+        return this.parseExitCode('openPty', status);
+      } catch {
+        return null;
+      }
+    })();
+
+    return output.handle({
+      id: execId,
+      exited,
+      write: (data) => ws.send(execFrame(EXEC_CHANNEL_STDIN, data)),
+      resize,
+      close: async () => {
+        // Closing the exec connection does not stop the shell.
+        await this.killExec(execId);
+        await exited;
+      }
+    });
+  }
+
+  // ==================== Health Check ====================
+
+  async ping(): Promise<boolean> {
+    try {
+      const pod = await this.api.getPod(this.namespace, this.podName);
+      return Boolean(pod && !pod.metadata.deletionTimestamp && KubernetesAdapter.isPodReady(pod));
+    } catch {
+      return false;
+    }
+  }
+}
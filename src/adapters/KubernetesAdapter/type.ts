@@ -0,0 +1,161 @@
+import type { ImageSpec, NetworkPolicy, ResourceLimits } from '@/types';
+
+/**
+ * Configuration for creating the sandbox workload.
+ */
+export interface KubernetesConfigType {
+  /** Container image specification */
+  image: ImageSpec;
+
+  /**
+   * Entrypoint command. Defaults to a long-running no-op so the pod stays up
+   * between exec calls.
+   */
+  entrypoint?: string[];
+
+  /** Environment variables */
+  env?: Record<string, string>;
+
+  /** Resource limits (mapped to container requests and limits) */
+  resourceLimits?: ResourceLimits;
+
+  /** Metadata for the sandbox (stored as annotations) */
+  metadata?: Record<string, string>;
+
+  /**
+   * Network access policy, enforced through a generated NetworkPolicy.
+   * `allowEgress: false` blocks all egress; `allowedHosts` restricts egress to
+   * the given IPs, CIDRs or hostnames (resolved once at creation time).
+   */
+  networkPolicy?: NetworkPolicy;
+
+  /**
+   * Working directory inside the container, also used as rootPath.
+   * @default '/workspace'
+   */
+  workingDir?: string;
+
+  /** Service account for the pod. No token is mounted either way. */
+  serviceAccountName?: string;
+
+  /** Node selector for the pod */
+  nodeSelector?: Record<string, string>;
+
+  /** Names of image pull secrets in the sandbox namespace */
+  imagePullSecrets?: string[];
+}
+
+/** Configuration for the Kubernetes API client. */
+export interface KubernetesApiConfig {
+  /** API server URL, e.g. "https://10.0.0.1:6443" */
+  server: string;
+  /** Bearer token */
+  token?: string;
+  /** PEM-encoded CA bundle used to verify the API server */
+  caData?: string;
+  /** Skip API server certificate verification */
+  insecureSkipTlsVerify?: boolean;
+}
+
+/** Raw HTTP response returned by the Kubernetes API client. */
+export interface KubernetesApiResponse {
+  statusCode: number;
+  body: Uint8Array;
+}
+
+/** Common object metadata. */
+export interface KubernetesObjectMeta {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  creationTimestamp?: string;
+  deletionTimestamp?: string;
+}
+
+/** `Status` object returned for errors and on the exec error channel. */
+export interface KubernetesStatus {
+  kind?: 'Status';
+  status?: 'Success' | 'Failure';
+  message?: string;
+  reason?: string;
+  code?: number;
+  details?: {
+    causes?: Array<{ reason?: string; message?: string }>;
+  };
+}
+
+/** Container spec subset used by the adapter. */
+export interface KubernetesContainer {
+  name: string;
+  image: string;
+  command?: string[];
+  env?: Array<{ name: string; value: string }>;
+  workingDir?: string;
+  resources?: {
+    requests?: Record<string, string>;
+    limits?: Record<string, string>;
+  };
+}
+
+/** Pod template / pod spec subset used by the adapter. */
+export interface KubernetesPodSpec {
+  containers: KubernetesContainer[];
+  serviceAccountName?: string;
+  automountServiceAccountToken?: boolean;
+  terminationGracePeriodSeconds?: number;
+  nodeSelector?: Record<string, string>;
+  imagePullSecrets?: Array<{ name: string }>;
+}
+
+/** StatefulSet owning the sandbox pod (apps/v1). */
+export interface KubernetesStatefulSet {
+  apiVersion: 'apps/v1';
+  kind: 'StatefulSet';
+  metadata: KubernetesObjectMeta;
+  spec: {
+    replicas: number;
+    serviceName: string;
+    selector: { matchLabels: Record<string, string> };
+    template: {
+      metadata: { labels: Record<string, string>; annotations?: Record<string, string> };
+      spec: KubernetesPodSpec;
+    };
+  };
+}
+
+/** Pod subset used by the adapter (v1). */
+export interface KubernetesPod {
+  metadata: KubernetesObjectMeta;
+  spec: KubernetesPodSpec;
+  status?: {
+    phase?: 'Pending' | 'Running' | 'Succeeded' | 'Failed' | 'Unknown';
+    conditions?: Array<{ type: string; status: 'True' | 'False' | 'Unknown' }>;
+    containerStatuses?: Array<{
+      name: string;
+      ready: boolean;
+      state?: {
+        waiting?: { reason?: string; message?: string };
+        terminated?: { reason?: string; message?: string; exitCode?: number };
+      };
+    }>;
+  };
+}
+
+/** NetworkPolicy egress rule (networking.k8s.io/v1). */
+export interface KubernetesNetworkPolicyEgressRule {
+  to?: Array<{ ipBlock: { cidr: string } }>;
+  ports?: Array<{ protocol: 'TCP' | 'UDP'; port: number }>;
+}
+
+/** NetworkPolicy restricting sandbox egress (networking.k8s.io/v1). */
+export interface KubernetesNetworkPolicy {
+  apiVersion: 'networking.k8s.io/v1';
+  kind: 'NetworkPolicy';
+  metadata: KubernetesObjectMeta;
+  spec: {
+    podSelector: { matchLabels: Record<string, string> };
+    policyTypes: Array<'Egress'>;
+    egress: KubernetesNetworkPolicyEgressRule[];
+  };
+}
@@ -0,0 +1,1033 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { constants as osConstants, cpus, freemem, loadavg, tmpdir, totalmem } from 'node:os';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
+import type { BackgroundOutput } from '@/polyfill/CommandPolyfillService';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FileOperationError,
+  SandboxException,
+  TimeoutError,
+  type FileErrorCode
+} from '@/errors';
+import type {
+  ArchiveFormat,
+  ArchiveOptions,
+  ContentReplaceEntry,
+  DirectoryEntry,
+  ExecuteOptions,
+  ExecuteResult,
+  FileDeleteResult,
+  FileHashResult,
+  FileInfo,
+  FileReadResult,
+  FileWriteEntry,
+  FileWriteResult,
+  HashFilesOptions,
+  MoveEntry,
+  PermissionEntry,
+  ProcessInfo,
+  ProcessSignal,
+  PtyHandle,
+  PtyOptions,
+  ReadFileOptions,
+  SandboxId,
+  SandboxInfo,
+  SandboxListFilter,
+  SandboxMetrics,
+  SearchResult,
+  StreamHandlers
+} from '@/types';
+import { randomSuffix } from '@/utils/id';
+import { matchesSandboxFilter } from '@/utils/sandboxFilter';
+import { BoundedOutputBuffer, OutputLog } from '@/utils/outputBuffer';
+import { DEFAULT_PTY_COLS, DEFAULT_PTY_ROWS, DEFAULT_PTY_SHELL, PtyOutput } from '@/utils/pty';
+import {
+  asyncIterableToReadableStream,
+  dataToBytes,
+  readableStreamToAsyncIterable
+} from '@/utils/streams';
+import type { LocalProcessConfig } from './type';
+
+export type { LocalProcessConfig } from './type';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Exited background sessions kept for getProcess and attachBackground. */
+const MAX_EXITED_SESSIONS = 32;
+
+/**
+ * Local process provider adapter.
+ *
+ * Runs commands as host child processes inside a per-sandbox directory and
+ * implements every filesystem operation with native `node:fs`. Intended for
+ * unit tests and offline development: it provides no isolation, and
+ * absolute paths resolve against the host filesystem.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new LocalProcessAdapter({ sandboxId: 'dev' });
+ * await adapter.ensureRunning();
+ * await adapter.writeFiles([{ path: 'hello.txt', data: 'hi' }]);
+ * const result = await adapter.execute('cat hello.txt');
+ * ```
+ */
+export class LocalProcessAdapter extends BaseSandboxAdapter {
+  readonly provider = 'local' as const;
+
+  private _id: SandboxId;
+  private createdAt?: Date;
+  private sessions = new Map<string, ChildProcess>();
+  /**
+   * Background sessions, kept after exit so their status stays queryable.
+   * Only the last {@link MAX_EXITED_SESSIONS} exited ones are kept.
+   */
+  private processes = new Map<string, ProcessInfo>();
+  /** Output of background sessions, kept as long as their process info. */
+  private outputs = new Map<string, { stdout: OutputLog; stderr: OutputLog }>();
+
+  /**
+   * @throws {SandboxException} If the sandbox ID could name a directory
+   * outside the base directory
+   */
+  constructor(private config: LocalProcessConfig) {
+    super();
+    if (!LocalProcessAdapter.isValidId(config.sandboxId)) {
+      throw new SandboxException(`Invalid sandbox ID: ${config.sandboxId}`, 'INVALID_ARGUMENT');
+    }
+    this._id = config.sandboxId;
+  }
+
+  /** Sandbox IDs name a directory, so they must not contain path separators. */
+  private static isValidId(sandboxId: string): boolean {
+    return !/[/\\]/.test(sandboxId) && !sandboxId.includes('..');
+  }
+
+  get id(): SandboxId {
+    return this._id;
+  }
+
+  get rootPath(): string {
+    return join(this.config.baseDir ?? tmpdir(), `sandbox-${this._id}`);
+  }
+
+  // ==================== Provider-wide Management ====================
+
+  /**
+   * List the `sandbox-<id>` directories under the base directory. Local
+   * sandboxes carry no metadata, so a metadata filter matches none of them.
+   */
+  static async listSandboxes(
+    config: Omit<LocalProcessConfig, 'sandboxId'>,
+    filter: SandboxListFilter = {}
+  ): Promise<SandboxInfo[]> {
+    const entries = await fs
+      .readdir(config.baseDir ?? tmpdir(), { withFileTypes: true })
+      .catch(() => []);
+    const sandboxes: SandboxInfo[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !entry.name.startsWith('sandbox-')) continue;
+      const sandboxId = entry.name.slice('sandbox-'.length);
+      if (!LocalProcessAdapter.isValidId(sandboxId)) continue;
+      const info = await new LocalProcessAdapter({ ...config, sandboxId }).getInfo();
+      if (info && matchesSandboxFilter(info, filter)) sandboxes.push(info);
+    }
+    return sandboxes;
+  }
+
+  /** Remove a sandbox directory; missing directories are ignored. */
+  static async deleteSandbox(
+    config: Omit<LocalProcessConfig, 'sandboxId'>,
+    sandboxId: SandboxId
+  ): Promise<void> {
+    await new LocalProcessAdapter({ ...config, sandboxId }).delete();
+  }
+
+  // ==================== Lifecycle Methods ====================
+
+  async getInfo(): Promise<SandboxInfo | null> {
+    const stat = await fs.stat(this.rootPath).catch(() => null);
+    if (!stat?.isDirectory()) {
+      this._status = { state: 'UnExist' };
+      return null;
+    }
+    if (this._status.state === 'UnExist' || this._status.state === 'Creating') {
+      // Directory left behind by a previous adapter instance.
+      this._status = { state: 'Running' };
+    }
+
+    return {
+      id: this._id,
+      image: { repository: 'local' },
+      entrypoint: [],
+      status: this._status,
+      createdAt: this.createdAt ?? stat.birthtime
+    };
+  }
+
+  async ensureRunning(): Promise<void> {
+    try {
+      const info = await this.getInfo();
+      if (!info) {
+        await this.create();
+        return;
+      }
+      if (info.status.state !== 'Running') {
+        await this.start();
+      }
+    } catch (error) {
+      throw new ConnectionError('Failed to ensure sandbox running', this.rootPath, error);
+    }
+  }
+
+  async create(): Promise<void> {
+    try {
+      this._status = { state: 'Creating' };
+      await fs.mkdir(this.rootPath, { recursive: true });
+      this.createdAt = new Date();
+      this._status = { state: 'Running' };
+    } catch (error) {
+      this._status = { state: 'Error', message: String(error) };
+      throw new ConnectionError('Failed to create sandbox', this.rootPath, error);
+    }
+  }
+
+  async start(): Promise<void> {
+    await fs.mkdir(this.rootPath, { recursive: true });
+    this._status = { state: 'Running' };
+  }
+
+  async stop(): Promise<void> {
+    this._status = { state: 'Stopping' };
+    this.killAllSessions();
+    this._status = { state: 'Stopped' };
+  }
+
+  async delete(): Promise<void> {
+    try {
+      this._status = { state: 'Deleting' };
+      this.killAllSessions();
+      // Never remove anything but a directory inside the base directory.
+      const base = resolve(this.config.baseDir ?? tmpdir());
+      const path = relative(base, resolve(this.rootPath));
+      if (!path || path.startsWith('..') || isAbsolute(path)) {
+        throw new SandboxException(
+          `Sandbox directory is outside the base directory: ${this.rootPath}`,
+          'INVALID_ARGUMENT'
+        );
+      }
+      await fs.rm(this.rootPath, { recursive: true, force: true });
+      this._status = { state: 'UnExist' };
+    } catch (error) {
+      throw new CommandExecutionError(
+        'Failed to delete sandbox',
+        'delete',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  // ==================== Command Execution ====================
+
+  private buildEnv(extra?: Record<string, string>): NodeJS.ProcessEnv {
+    return {
+      ...(this.config.inheritEnv === false ? {} : process.env),
+      ...this.config.env,
+      ...extra
+    };
+  }
+
+  private spawnCommand(command: string, options?: ExecuteOptions): ChildProcess {
+    const [file, ...args] = this.buildCommand(
+      command,
+      this.normalizePath(options?.workingDirectory)
+    );
+    // Each command gets its own process group so timeouts and interrupts
+    // also reach any children it spawns.
+    const child = spawn(file, args, {
+      cwd: this.rootPath,
+      env: this.buildEnv(options?.env),
+      detached: true,
+      stdio: [options?.stdin === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
+    });
+
+    const stdin = options?.stdin;
+    if (stdin !== undefined && child.stdin) {
+      // The command may exit without reading its input; ignore EPIPE. A
+      // failing stdin stream ends the input early.
+      child.stdin.on('error', () => {});
+      if (stdin instanceof ReadableStream) {
+        pipeline(Readable.from(readableStreamToAsyncIterable(stdin)), child.stdin).catch(() => {});
+      } else {
+        child.stdin.end(stdin);
+      }
+    }
+    return child;
+  }
+
+  private killProcessGroup(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+    if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  }
+
+  private killAllSessions(): void {
+    for (const child of this.sessions.values()) {
+      this.killProcessGroup(child, 'SIGKILL');
+    }
+    this.sessions.clear();
+  }
+
+  private runCommand(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+
+    if (options?.signal?.aborted) {
+      return Promise.reject(new CommandExecutionError(`Command aborted: ${command}`, command));
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = this.spawnCommand(command, options);
+      let timedOut = false;
+      let aborted = false;
+      // Serialize handler calls so chunks are delivered in order.
+      let delivery = Promise.resolve();
+
+      const timer = options?.timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            this.killProcessGroup(child, 'SIGKILL');
+          }, options.timeoutMs)
+        : undefined;
+      const onAbort = () => {
+        aborted = true;
+        this.killProcessGroup(child, 'SIGKILL');
+      };
+      options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const forward = (
+        stream: NodeJS.ReadableStream,
+        buffer: BoundedOutputBuffer,
+        handler?: StreamHandlers['onStdout']
+      ) => {
+        stream.setEncoding('utf8');
+        stream.on('data', (text: string) => {
+          buffer.append(text);
+          if (handler) {
+            delivery = delivery.then(() => handler({ text, timestamp: Date.now() }));
+          }
+        });
+      };
+      forward(child.stdout!, stdoutBuf, handlers?.onStdout);
+      forward(child.stderr!, stderrBuf, handlers?.onStderr);
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        options?.signal?.removeEventListener('abort', onAbort);
+      };
+
+      child.on('error', (error) => {
+        cleanup();
+        reject(new CommandExecutionError(`Command execution failed: ${command}`, command, error));
+      });
+
+      child.on('close', (code, signal) => {
+        cleanup();
+        delivery.then(
+          () => {
+            if (timedOut) {
+              reject(
+                new TimeoutError(
+                  `Command timed out after ${options?.timeoutMs}ms: ${command}`,
+                  options!.timeoutMs!,
+                  'execute'
+                )
+              );
+              return;
+            }
+            if (aborted) {
+              reject(new CommandExecutionError(`Command aborted: ${command}`, command));
+              return;
+            }
+            resolve({
+              stdout: stdoutBuf.toString(),
+              stderr: stderrBuf.toString(),
+              exitCode: code ?? (signal ? 128 + (osConstants.signals[signal] ?? 0) : null),
+              truncated: stdoutBuf.truncated || stderrBuf.truncated,
+              durationMs: Date.now() - startTime
+            });
+          },
+          (error) =>
+            reject(
+              new CommandExecutionError(
+                `Streaming command execution failed: ${command}`,
+                command,
+                error instanceof Error ? error : undefined
+              )
+            )
+        );
+      });
+    });
+  }
+
+  async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
+    return this.runCommand(command, options);
+  }
+
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    const result = await this.runCommand(command, options, handlers);
+    await handlers.onComplete?.(result);
+  }
+
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    const child = this.spawnCommand(command, options);
+    if (child.pid === undefined) {
+      const error = await new Promise<Error>((resolve) => child.once('error', resolve));
+      throw new CommandExecutionError(
+        `Background command execution failed: ${command}`,
+        command,
+        error
+      );
+    }
+
+    const sessionId = String(child.pid);
+    // Keep the tail of the output for attachBackground; reading it also
+    // keeps the child from blocking on a full pipe.
+    const output = {
+      stdout: new OutputLog(DEFAULT_MAX_OUTPUT_BYTES),
+      stderr: new OutputLog(DEFAULT_MAX_OUTPUT_BYTES)
+    };
+    child.stdout?.on('data', (chunk: Buffer) => output.stdout.append(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => output.stderr.append(chunk));
+    this.outputs.set(sessionId, output);
+    child.once('close', (code, signal) => {
+      this.sessions.delete(sessionId);
+      const info = this.processes.get(sessionId);
+      if (!info) return;
+      info.status = 'exited';
+      // Report signal deaths like a shell does: 128 + signal number.
+      info.exitCode = code ?? (signal ? 128 + osConstants.signals[signal] : null);
+      this.pruneExitedSessions();
+    });
+    this.sessions.set(sessionId, child);
+    this.processes.set(sessionId, {
+      sessionId,
+      pid: child.pid,
+      command,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date()
+    });
+
+    return {
+      sessionId,
+      kill: () => this.interrupt(sessionId)
+    };
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    const child = this.sessions.get(sessionId);
+    if (!child) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'interrupt');
+    }
+    // The session stays until the process exits, so it can still be
+    // signalled if it ignores SIGTERM.
+    this.killProcessGroup(child);
+  }
+
+  /** Forget the oldest exited background sessions beyond the limit. */
+  private pruneExitedSessions(): void {
+    const exited = [...this.processes.values()].filter((info) => info.status === 'exited');
+    for (const info of exited.slice(0, -MAX_EXITED_SESSIONS)) {
+      this.processes.delete(info.sessionId);
+      this.outputs.delete(info.sessionId);
+    }
+  }
+
+  // ==================== Process Management ====================
+
+  async listProcesses(): Promise<ProcessInfo[]> {
+    return [...this.processes.values()].map((info) => ({ ...info }));
+  }
+
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    const info = this.processes.get(sessionId);
+    return info ? { ...info } : null;
+  }
+
+  async signal(sessionId: string, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    if (!this.processes.has(sessionId)) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    const child = this.sessions.get(sessionId);
+    if (child) this.killProcessGroup(child, signal);
+  }
+
+  protected async readBackgroundOutput(
+    sessionId: string,
+    stdoutOffset: number,
+    stderrOffset: number
+  ): Promise<BackgroundOutput> {
+    const info = this.processes.get(sessionId);
+    const output = this.outputs.get(sessionId);
+    if (!info || !output) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+    }
+    // Status is set on 'close', after the last output chunk.
+    const done = info.status === 'exited';
+    const stdout = output.stdout.read(stdoutOffset);
+    const stderr = output.stderr.read(stderrOffset);
+    return {
+      stdout: stdout.data,
+      stderr: stderr.data,
+      stdoutOffset: stdout.offset,
+      stderrOffset: stderr.offset,
+      done,
+      exitCode: info.exitCode
+    };
+  }
+
+  // ==================== PTY ====================
+
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    const id = `pty-${randomUUID()}`;
+    const ttyFile = join(tmpdir(), `sandbox-${id}.tty`);
+    const cols = options.cols ?? DEFAULT_PTY_COLS;
+    const rows = options.rows ?? DEFAULT_PTY_ROWS;
+    const shell = options.shell ?? DEFAULT_PTY_SHELL;
+    // node has no terminal of its own, so util-linux `script` allocates one.
+    // The shell records its device so resize() can reach it with `stty -F`.
+    const inner = [
+      `tty > ${this.escapeShellArg(ttyFile)}`,
+      `stty cols ${cols} rows ${rows}`,
+      `exec ${shell}`
+    ].join('; ');
+    const child = spawn('script', ['-qefc', inner, '/dev/null'], {
+      cwd: options.cwd ? this.normalizePath(options.cwd) : this.rootPath,
+      env: this.buildEnv({ TERM: 'xterm-256color', ...options.env }),
+      detached: true,
+      stdio: 'pipe'
+    });
+    if (child.pid === undefined) {
+      const error = await new Promise<Error>((resolve) => child.once('error', resolve));
+      throw new CommandExecutionError('Failed to open PTY', 'openPty', error);
+    }
+
+    const output = new PtyOutput();
+    child.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stdin.on('error', () => {});
+    const exited = new Promise<number | null>((resolve) => {
+      child.once('close', (code, signal) => {
+        this.sessions.delete(id);
+        void fs.rm(ttyFile, { force: true });
+        resolve(code ?? (signal ? 128 + osConstants.signals[signal] : null));
+      });
+    });
+    this.sessions.set(id, child);
+
+    return output.handle({
+      id,
+      exited,
+      write: (data) =>
+        new Promise((resolve, reject) => {
+          child.stdin.write(data, (error) => (error ? reject(error) : resolve()));
+        }),
+      resize: async (newCols, newRows) => {
+        const tty = await fs.readFile(ttyFile, 'utf8').catch(() => undefined);
+        if (!tty) throw new CommandExecutionError(`PTY ${id} not found`, 'resizePty');
+        const result = await this.execute(
+          `stty -F ${this.escapeShellArg(tty.trim())} cols ${newCols} rows ${newRows}`
+        );
+        if (result.exitCode !== 0) {
+          throw new CommandExecutionError(
+            `Failed to resize PTY ${id}`,
+            'resizePty',
+            result.exitCode ?? undefined,
+            result.stdout,
+            result.stderr
+          );
+        }
+      },
+      close: async () => {
+        // script ends its session on SIGTERM, which hangs up the shell.
+        this.killProcessGroup(child);
+        await exited;
+      }
+    });
+  }
+
+  // ==================== File Operations ====================
+
+  private toFileError(error: unknown, path: string): FileOperationError {
+    if (error instanceof FileOperationError) return error;
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    const map: Record<string, FileErrorCode> = {
+      ENOENT: 'FILE_NOT_FOUND',
+      EEXIST: 'FILE_ALREADY_EXISTS',
+      EACCES: 'PERMISSION_DENIED',
+      EPERM: 'PERMISSION_DENIED',
+      EISDIR: 'PATH_IS_DIRECTORY',
+      ENOTDIR: 'PATH_NOT_DIRECTORY',
+      ENOSPC: 'QUOTA_EXCEEDED'
+    };
+    return new FileOperationError(
+      error instanceof Error ? error.message : String(error),
+      path,
+      (code && map[code]) || 'TRANSFER_ERROR',
+      error
+    );
+  }
+
+  /** Apply ownership when given as numeric uid/gid; names are not resolved. */
+  private async applyOwner(path: string, owner?: string, group?: string): Promise<void> {
+    if (!owner && !group) return;
+    const stat = await fs.stat(path);
+    const uid = owner && /^\d+$/.test(owner) ? Number(owner) : stat.uid;
+    const gid = group && /^\d+$/.test(group) ? Number(group) : stat.gid;
+    if (uid !== stat.uid || gid !== stat.gid) {
+      await fs.chown(path, uid, gid);
+    }
+  }
+
+  async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
+    const results: FileReadResult[] = [];
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        let content: Uint8Array = new Uint8Array(await fs.readFile(path));
+        if (options?.range) {
+          const [startValue, endValue] = options.range.split('-');
+          const start = Number.parseInt(startValue, 10);
+          const end = endValue ? Number.parseInt(endValue, 10) : undefined;
+          if (Number.isNaN(start) || (endValue && Number.isNaN(end as number))) {
+            throw new Error(`Invalid range: ${options.range}`);
+          }
+          content = content.slice(start, end);
+        }
+        results.push({ path, content, error: null });
+      } catch (error) {
+        results.push({ path, content: new Uint8Array(), error: this.toFileError(error, path) });
+      }
+    }
+
+    return results;
+  }
+
+  async writeFiles(entries: FileWriteEntry[]): Promise<FileWriteResult[]> {
+    const results: FileWriteResult[] = [];
+
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        const data = await dataToBytes(entry.data);
+        await fs.mkdir(dirname(path), { recursive: true });
+        await fs.writeFile(path, data, entry.mode !== undefined ? { mode: entry.mode } : undefined);
+        if (entry.mode !== undefined) {
+          await fs.chmod(path, entry.mode);
+        }
+        await this.applyOwner(path, entry.owner, entry.group);
+        results.push({ path, bytesWritten: data.length, error: null });
+      } catch (error) {
+        results.push({ path, bytesWritten: 0, error: this.toFileError(error, path) });
+      }
+    }
+
+    return results;
+  }
+
+  async deleteFiles(paths: string[]): Promise<FileDeleteResult[]> {
+    const results: FileDeleteResult[] = [];
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        await fs.rm(path, { force: true });
+        results.push({ path, success: true, error: null });
+      } catch (error) {
+        results.push({ path, success: false, error: this.toFileError(error, path) });
+      }
+    }
+
+    return results;
+  }
+
+  async moveFiles(entries: MoveEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const source = this.normalizePath(entry.source);
+      const destination = this.normalizePath(entry.destination);
+      try {
+        await fs.mkdir(dirname(destination), { recursive: true });
+        await fs.rename(source, destination);
+      } catch (error) {
+        throw this.toFileError(error, source);
+      }
+    }
+  }
+
+  async replaceContent(entries: ContentReplaceEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        const content = await fs.readFile(path, 'utf8');
+        await fs.writeFile(path, content.split(entry.oldContent).join(entry.newContent));
+      } catch (error) {
+        throw this.toFileError(error, path);
+      }
+    }
+  }
+
+  // ==================== Streaming Operations ====================
+
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    const normalized = this.normalizePath(path);
+    try {
+      for await (const chunk of createReadStream(normalized, { highWaterMark: 64 * 1024 })) {
+        yield new Uint8Array(chunk as Buffer);
+      }
+    } catch (error) {
+      throw this.toFileError(error, normalized);
+    }
+  }
+
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+    const normalized = this.normalizePath(path);
+    // Write to a sibling temp file and rename on success so a failed stream
+    // never leaves a partially written target behind.
+    const tmpPath = `${normalized}.tmp.${randomSuffix()}`;
+    const reader = stream.getReader();
+    let handle: fs.FileHandle | undefined;
+    try {
+      await fs.mkdir(dirname(normalized), { recursive: true });
+      handle = await fs.open(tmpPath, 'w');
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value?.length) await handle.write(value);
+      }
+      await handle.close();
+      handle = undefined;
+      await fs.rename(tmpPath, normalized);
+    } catch (error) {
+      await handle?.close().catch(() => {});
+      await fs.rm(tmpPath, { force: true }).catch(() => {});
+      throw this.toFileError(error, normalized);
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  // ==================== Archive Operations ====================
+
+  /** Wait for an archiver process, collecting its stderr. */
+  private archiverExit(child: ChildProcess): Promise<{ exitCode: number | null; stderr: string }> {
+    let stderr = '';
+    child.stderr?.setEncoding('utf8').on('data', (data: string) => (stderr += data));
+    const exited = new Promise<{ exitCode: number | null; stderr: string }>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (exitCode) => resolve({ exitCode, stderr }));
+    });
+    // Observed by the caller later; avoid an unhandled rejection meanwhile.
+    exited.catch(() => {});
+    return exited;
+  }
+
+  /** Stream the directory through the host `tar` (or `zip`). */
+  exportDirectory(path: string, options?: ArchiveOptions): ReadableStream<Uint8Array> {
+    return asyncIterableToReadableStream(
+      this.spawnArchiveExport(this.normalizePath(path), options?.format ?? 'tar')
+    );
+  }
+
+  private async *spawnArchiveExport(
+    directory: string,
+    format: ArchiveFormat
+  ): AsyncGenerator<Uint8Array> {
+    try {
+      await fs.access(directory);
+    } catch (error) {
+      throw this.toFileError(error, directory);
+    }
+
+    const child =
+      format === 'zip'
+        ? spawn('zip', ['-qry', '-', '.'], { cwd: directory })
+        : spawn('tar', [format === 'tar.gz' ? '-czf' : '-cf', '-', '.'], { cwd: directory });
+    const exited = this.archiverExit(child);
+    try {
+      for await (const chunk of child.stdout!) {
+        yield new Uint8Array(chunk as Buffer);
+      }
+      const { exitCode, stderr } = await exited;
+      if (exitCode !== 0) {
+        throw new FileOperationError(
+          `Failed to archive directory: ${stderr}`,
+          directory,
+          'TRANSFER_ERROR'
+        );
+      }
+    } catch (error) {
+      throw this.toFileError(error, directory);
+    } finally {
+      // Stop the archiver when the consumer cancels the stream early.
+      if (child.exitCode === null && child.signalCode === null) child.kill();
+    }
+  }
+
+  /**
+   * Pipe tar archives into the host `tar`; zip archives are staged in a
+   * temporary file for `unzip`, which cannot read from stdin.
+   */
+  async importArchive(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: ArchiveOptions
+  ): Promise<void> {
+    const directory = this.normalizePath(path);
+    const format = options?.format ?? 'tar';
+    let stagedPath: string | undefined;
+
+    try {
+      await fs.mkdir(directory, { recursive: true });
+
+      let child: ChildProcess;
+      let input: Promise<unknown> = Promise.resolve();
+      if (format === 'zip') {
+        stagedPath = join(tmpdir(), `.sandbox-archive-${randomSuffix()}.zip`);
+        await this.writeFileStream(stagedPath, stream);
+        child = spawn('unzip', ['-qo', stagedPath, '-d', directory], {
+          stdio: ['ignore', 'ignore', 'pipe']
+        });
+      } else {
+        child = spawn('tar', [format === 'tar.gz' ? '-xzf' : '-xf', '-', '-C', directory], {
+          stdio: ['pipe', 'ignore', 'pipe']
+        });
+        input = pipeline(Readable.from(readableStreamToAsyncIterable(stream)), child.stdin!).then(
+          () => undefined,
+          (error: unknown) => error
+        );
+      }
+
+      const { exitCode, stderr } = await this.archiverExit(child);
+      if (exitCode !== 0) {
+        throw new FileOperationError(
+          `Failed to extract archive: ${stderr}`,
+          directory,
+          'TRANSFER_ERROR'
+        );
+      }
+      const inputError = await input;
+      if (inputError) throw inputError;
+    } catch (error) {
+      throw this.toFileError(error, directory);
+    } finally {
+      if (stagedPath) await fs.rm(stagedPath, { force: true }).catch(() => {});
+    }
+  }
+
+  // ==================== Directory Operations ====================
+
+  async createDirectories(
+    paths: string[],
+    options?: { mode?: number; owner?: string; group?: string }
+  ): Promise<void> {
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        await fs.mkdir(path, { recursive: true, mode: options?.mode });
+        if (options?.mode !== undefined) {
+          await fs.chmod(path, options.mode);
+        }
+        await this.applyOwner(path, options?.owner, options?.group);
+      } catch (error) {
+        throw this.toFileError(error, path);
+      }
+    }
+  }
+
+  async deleteDirectories(
+    paths: string[],
+    options?: { recursive?: boolean; force?: boolean }
+  ): Promise<void> {
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        if (options?.recursive === false) {
+          await fs.rmdir(path);
+        } else {
+          await fs.rm(path, { recursive: true, force: options?.force !== false });
+        }
+      } catch (error) {
+        throw this.toFileError(error, path);
+      }
+    }
+  }
+
+  async listDirectory(path: string): Promise<DirectoryEntry[]> {
+    const normalized = this.normalizePath(path).replace(/(.)\/+$/, '$1');
+    try {
+      const dirents = await fs.readdir(normalized, { withFileTypes: true });
+      const entries: DirectoryEntry[] = [];
+      for (const dirent of dirents) {
+        const entryPath = `${normalized === '/' ? '' : normalized}/${dirent.name}`;
+        const stat = await fs.stat(entryPath).catch(() => undefined);
+        entries.push({
+          name: dirent.name,
+          path: entryPath,
+          isDirectory: stat?.isDirectory() ?? dirent.isDirectory(),
+          isFile: stat?.isFile() ?? dirent.isFile(),
+          size: stat?.size,
+          modifiedAt: stat?.mtime
+        });
+      }
+      return entries;
+    } catch (error) {
+      throw this.toFileError(error, normalized);
+    }
+  }
+
+  // ==================== Metadata Operations ====================
+
+  async getFileInfo(paths: string[]): Promise<Map<string, FileInfo>> {
+    const infoMap = new Map<string, FileInfo>();
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      const stat = await fs.lstat(path).catch(() => undefined);
+      if (!stat) continue;
+
+      infoMap.set(path, {
+        path,
+        size: stat.size,
+        modifiedAt: stat.mtime,
+        createdAt: stat.birthtime,
+        mode: stat.mode & 0o7777,
+        owner: String(stat.uid),
+        group: String(stat.gid),
+        isDirectory: stat.isDirectory(),
+        isFile: stat.isFile(),
+        isSymlink: stat.isSymbolicLink()
+      });
+    }
+
+    return infoMap;
+  }
+
+  async hashFiles(paths: string[], options?: HashFilesOptions): Promise<FileHashResult[]> {
+    const results: FileHashResult[] = [];
+
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        const hash = createHash(options?.algorithm ?? 'sha256');
+        for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+        results.push({ path, hash: hash.digest('hex'), error: null });
+      } catch (error) {
+        results.push({ path, hash: '', error: this.toFileError(error, path) });
+      }
+    }
+
+    return results;
+  }
+
+  async setPermissions(entries: PermissionEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        if (entry.mode !== undefined) {
+          await fs.chmod(path, entry.mode);
+        }
+        await this.applyOwner(path, entry.owner, entry.group);
+      } catch (error) {
+        throw this.toFileError(error, path);
+      }
+    }
+  }
+
+  // ==================== Search Operations ====================
+
+  /**
+   * Convert a `find -name` style glob (`*`, `?`, `[...]`) to a RegExp.
+   */
+  private globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '*') source += '.*';
+      else if (char === '?') source += '.';
+      else if (char === '[') {
+        const close = pattern.indexOf(']', i + 1);
+        if (close === -1) {
+          source += '\\[';
+        } else {
+          source += `[${pattern.slice(i + 1, close).replace(/^!/, '^')}]`;
+          i = close;
+        }
+      } else source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`);
+  }
+
+  async search(pattern: string, path?: string): Promise<SearchResult[]> {
+    const root = this.normalizePath(path ?? '.').replace(/(.)\/+$/, '$1');
+    const regex = this.globToRegExp(pattern);
+    const results: SearchResult[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const dirents = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const dirent of dirents) {
+        const entryPath = `${dir === '/' ? '' : dir}/${dirent.name}`;
+        if (regex.test(dirent.name)) {
+          results.push({
+            path: entryPath,
+            isDirectory: dirent.isDirectory(),
+            isFile: dirent.isFile()
+          });
+        }
+        if (dirent.isDirectory()) {
+          await walk(entryPath);
+        }
+      }
+    };
+
+    await walk(root);
+    return results;
+  }
+
+  // ==================== Health Check ====================
+
+  async ping(): Promise<boolean> {
+    if (this._status.state !== 'Running') return false;
+    const stat = await fs.stat(this.rootPath).catch(() => undefined);
+    return Boolean(stat?.isDirectory());
+  }
+
+  async getMetrics(): Promise<SandboxMetrics> {
+    const cpuCount = cpus().length || 1;
+    return {
+      cpuCount,
+      // 1-minute load average as an approximation of CPU usage.
+      cpuUsedPercentage: Math.min(100, (loadavg()[0] / cpuCount) * 100),
+      memoryTotalMiB: Math.floor(totalmem() / (1024 * 1024)),
+      memoryUsedMiB: Math.floor((totalmem() - freemem()) / (1024 * 1024)),
+      timestamp: Date.now()
+    };
+  }
+}
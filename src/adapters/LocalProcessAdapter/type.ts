@@ -0,0 +1,19 @@
+/**
+ * Configuration for the local process adapter.
+ */
+export interface LocalProcessConfig {
+  /** Sandbox identifier, used to name the sandbox directory */
+  sandboxId: string;
+  /**
+   * Parent directory for sandbox directories.
+   * @default os.tmpdir()
+   */
+  baseDir?: string;
+  /** Extra environment variables applied to every command */
+  env?: Record<string, string>;
+  /**
+   * Inherit the host process environment in commands.
+   * @default true
+   */
+  inheritEnv?: boolean;
+}
@@ -2,15 +2,19 @@ import {
   ConnectionConfig,
   ExecutionHandlers,
   Sandbox,
+  SandboxApiException,
   SandboxException,
   SandboxManager,
-  type Endpoint as SdkEndpoint
+  type Endpoint as SdkEndpoint,
+  type SandboxInfo as SdkSandboxInfo
 } from '@alibaba-group/opensandbox';
 import {
   CommandExecutionError,
   ConnectionError,
   FeatureNotSupportedError,
-  SandboxStateError
+  SandboxNotFoundError,
+  SandboxStateError,
+  TimeoutError
 } from '../../errors';
 import type {
   Endpoint,
@@ -19,20 +23,33 @@ import type {
   FileWriteEntry,
   FileWriteResult,
   ImageSpec,
+  ProcessInfo,
+  ProcessSignal,
   ResourceLimits,
+  RestoreSnapshotOptions,
   SandboxId,
   SandboxInfo,
+  SandboxListFilter,
   SandboxMetrics,
   SandboxState,
   SandboxStatus,
+  SnapshotInfo,
+  SnapshotOptions,
   StreamHandlers
 } from '@/types';
 import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
-import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import { type BackgroundOutput, CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
 import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { matchesSandboxFilter } from '@/utils/sandboxFilter';
 import type { OpenSandboxConfigType } from './type';
 
 const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+/** How long createSnapshot waits for a native snapshot to become ready. */
+const SNAPSHOT_READY_TIMEOUT_MS = 10 * 60 * 1000;
+/** Suffix of the marker files recording background sessions. */
+const SESSION_MARKER_SUFFIX = '.opensandbox';
+/** Signals that execd's command interrupt can stand in for. */
+const INTERRUPT_SIGNALS = new Set<ProcessSignal>(['SIGTERM', 'SIGINT', 'SIGKILL']);
 
 export type { OpenSandboxConfigType } from './type';
 
@@ -244,6 +261,26 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     return result;
   }
 
+  private toSandboxInfo(info: SdkSandboxInfo): SandboxInfo {
+    return {
+      id: info.id,
+      image:
+        typeof info.image === 'string'
+          ? this.parseImageSpec(info.image)
+          : 'uri' in info.image
+            ? this.parseImageSpec(info.image.uri)
+            : info.image,
+      entrypoint: info.entrypoint,
+      metadata: info.metadata,
+      status: this.mapStatus(info.status as { state: string; reason?: string; message?: string }),
+      createdAt: info.createdAt,
+      expiresAt: info.expiresAt ?? undefined,
+      resourceLimits: this.parseResourceLimits(
+        (info as Record<string, unknown>).resourceLimits as Record<string, string> | undefined
+      )
+    };
+  }
+
   private extractExitCode(execution: {
     error?: {
       value?: string;
@@ -272,6 +309,57 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     return 0;
   }
 
+  // ==================== Provider-wide Management ====================
+
+  /**
+   * List the sandboxes of an OpenSandbox server. Metadata is filtered
+   * server-side, everything else client-side.
+   */
+  static async listSandboxes(
+    connectionConfig: Omit<OpenSandboxConnectionConfig, 'sessionId'>,
+    filter: SandboxListFilter = {}
+  ): Promise<SandboxInfo[]> {
+    const adapter = new OpenSandboxAdapter({ ...connectionConfig, sessionId: '' });
+    const manager = SandboxManager.create({ connectionConfig: adapter._connection });
+    const sandboxes: SandboxInfo[] = [];
+
+    try {
+      for (let page = 1; ; page++) {
+        const result = await manager.listSandboxInfos({
+          metadata: filter.metadata,
+          page,
+          pageSize: 100
+        });
+        for (const info of result.items) {
+          const sandbox = adapter.toSandboxInfo(info);
+          if (matchesSandboxFilter(sandbox, filter)) sandboxes.push(sandbox);
+        }
+        if (!result.pagination?.hasNextPage || result.items.length === 0) break;
+      }
+    } catch (error) {
+      throw new ConnectionError('Failed to list sandboxes', connectionConfig.baseUrl, error);
+    }
+    return sandboxes;
+  }
+
+  /** Delete a sandbox by its OpenSandbox ID; missing sandboxes are ignored. */
+  static async deleteSandbox(
+    connectionConfig: Omit<OpenSandboxConnectionConfig, 'sessionId'>,
+    sandboxId: SandboxId
+  ): Promise<void> {
+    const adapter = new OpenSandboxAdapter({ ...connectionConfig, sessionId: '' });
+    try {
+      await SandboxManager.create({ connectionConfig: adapter._connection }).killSandbox(sandboxId);
+    } catch (error) {
+      if (error instanceof SandboxApiException && error.statusCode === 404) return;
+      throw new CommandExecutionError(
+        `Failed to delete sandbox ${sandboxId}`,
+        'deleteSandbox',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   // ==================== Lifecycle Methods ====================
   private async getSandboxBySessionId(): Promise<
     { id: string; status: SandboxStatus } | undefined
@@ -324,6 +412,16 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     }
   }
   async create(): Promise<void> {
+    await this.createFrom((cfg) => ({ image: this.convertImageSpec(cfg.image) }));
+  }
+
+  /**
+   * Create the sandbox from the createConfig, booting it from the image or
+   * snapshot chosen by `source`.
+   */
+  private async createFrom(
+    source: (cfg: OpenSandboxConfigType) => { image: string } | { snapshotId: string }
+  ): Promise<void> {
     const cfg = this.createConfig;
     if (!cfg) {
       throw new ConnectionError(
@@ -334,12 +432,11 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     try {
       this._status = { state: 'Creating' };
 
-      const image = this.convertImageSpec(cfg.image);
       const resource = this.convertResourceLimits(cfg.resourceLimits);
 
       this.sandbox = await Sandbox.create({
         connectionConfig: this._connection,
-        image,
+        ...source(cfg),
         entrypoint: cfg.entrypoint,
         timeoutSeconds: cfg.timeoutSeconds ?? null,
         resource,
@@ -362,12 +459,50 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     }
   }
 
-  async connect(sandboxId: string): Promise<void> {
+  /**
+   * Attach to an existing sandbox: `sandboxId`, else the one already attached,
+   * else the one tagged with this session ID. Running sandboxes are connected
+   * to; for any other state only the ID and status are recorded.
+   */
+  async connect(sandboxId?: string): Promise<void> {
+    let id = sandboxId ?? this._id;
+    let info;
+    try {
+      id ??= (await this.getSandboxBySessionId())?.id;
+      if (id) {
+        info = await SandboxManager.create({ connectionConfig: this._connection }).getSandboxInfo(
+          id
+        );
+      }
+    } catch (error) {
+      if (!(error instanceof SandboxApiException && error.statusCode === 404)) {
+        this._status = { state: 'Error', message: String(error) };
+        throw new ConnectionError(
+          `Failed to connect to sandbox ${id ?? this.connectionConfig.sessionId}`,
+          this.connectionConfig.baseUrl,
+          error
+        );
+      }
+    }
+
+    if (!id || !info) {
+      this._status = { state: 'UnExist' };
+      throw new SandboxNotFoundError(id ?? this.connectionConfig.sessionId, this.provider);
+    }
+
+    const status = this.mapStatus(info.status);
+    if (status.state !== 'Running') {
+      this._sandbox = undefined;
+      this._id = id;
+      this._status = status;
+      return;
+    }
+
     try {
       this._status = { state: 'Starting' };
 
       this.sandbox = await Sandbox.connect({
-        sandboxId,
+        sandboxId: id,
         connectionConfig: this._connection,
         skipHealthCheck: this.createConfig?.skipHealthCheck,
         readyTimeoutSeconds: this.createConfig?.readyTimeoutSeconds,
@@ -377,7 +512,7 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     } catch (error) {
       this._status = { state: 'Error', message: String(error) };
       throw new ConnectionError(
-        `Failed to connect to sandbox ${sandboxId}`,
+        `Failed to connect to sandbox ${id}`,
         this.connectionConfig.baseUrl,
         error
       );
@@ -525,24 +660,7 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
       return null;
     }
     try {
-      const info = await this.sandbox.getInfo();
-      return {
-        id: info.id,
-        image:
-          typeof info.image === 'string'
-            ? this.parseImageSpec(info.image)
-            : 'uri' in info.image
-              ? this.parseImageSpec(info.image.uri)
-              : info.image,
-        entrypoint: info.entrypoint,
-        metadata: info.metadata,
-        status: this.mapStatus(info.status as { state: string; reason?: string; message?: string }),
-        createdAt: info.createdAt,
-        expiresAt: info.expiresAt ?? undefined,
-        resourceLimits: this.parseResourceLimits(
-          (info as Record<string, unknown>).resourceLimits as Record<string, string> | undefined
-        )
-      };
+      return this.toSandboxInfo(await this.sandbox.getInfo());
     } catch (error: any) {
       throw new CommandExecutionError(
         `Failed to get sandbox info`,
@@ -564,6 +682,69 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     }
   }
 
+  // ==================== Snapshots ====================
+
+  /**
+   * Take a native OpenSandbox snapshot and wait until it is ready. With
+   * `options.store`, archive `rootPath` instead.
+   */
+  async createSnapshot(options?: SnapshotOptions): Promise<SnapshotInfo> {
+    if (options?.store) {
+      return super.createSnapshot(options);
+    }
+
+    const sandboxId = this.sandbox.id;
+    const manager = SandboxManager.create({ connectionConfig: this._connection });
+    try {
+      let snapshot = await manager.createSnapshot(sandboxId, { name: options?.name });
+      const deadline = Date.now() + SNAPSHOT_READY_TIMEOUT_MS;
+      while (snapshot.status.state !== 'Ready') {
+        if (snapshot.status.state === 'Failed') {
+          throw new Error(snapshot.status.message ?? snapshot.status.reason ?? 'Snapshot failed');
+        }
+        if (Date.now() > deadline) {
+          throw new TimeoutError(
+            `Snapshot ${snapshot.id} not ready`,
+            SNAPSHOT_READY_TIMEOUT_MS,
+            'createSnapshot'
+          );
+        }
+        await this.sleep(1000);
+        snapshot = await manager.getSnapshot(snapshot.id);
+      }
+
+      return {
+        id: snapshot.id,
+        sandboxId: snapshot.sandboxId,
+        name: snapshot.name,
+        createdAt: snapshot.createdAt
+      };
+    } catch (error) {
+      if (error instanceof TimeoutError) throw error;
+      throw new CommandExecutionError(
+        'Failed to create snapshot',
+        'createSnapshot',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Replace the sandbox with a new one booted from a native snapshot. The
+   * new sandbox keeps the session ID but gets a new sandbox ID. With
+   * `options.store`, restore an archive into `rootPath` instead.
+   */
+  async restoreSnapshot(snapshotId: string, options?: RestoreSnapshotOptions): Promise<void> {
+    if (options?.store) {
+      return super.restoreSnapshot(snapshotId, options);
+    }
+
+    if (this._sandbox) {
+      await this.delete();
+    }
+    await this.createFrom(() => ({ snapshotId }));
+  }
+
   // ==================== File System ====================
   async writeFiles(entries: FileWriteEntry[]): Promise<FileWriteResult[]> {
     const results: FileWriteResult[] = [];
@@ -737,6 +918,7 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
 
       const sessionId = execution.id;
       const sandbox = this.sandbox;
+      await this.recordSession(sessionId, command);
 
       return {
         sessionId,
@@ -774,6 +956,104 @@ export class OpenSandboxAdapter extends BaseSandboxAdapter {
     }
   }
 
+  // ==================== Process Management ====================
+
+  /**
+   * Leave a marker file for a background session. The execd API can look up
+   * a command by ID but not list them, so listProcesses() reads the markers.
+   * Best effort: the command is already running if this fails.
+   */
+  private async recordSession(sessionId: string, command: string): Promise<void> {
+    const path = `${CommandPolyfillService.SESSION_DIR}/${sessionId}${SESSION_MARKER_SUFFIX}`;
+    await this.sandbox.files.writeFiles([{ path, data: command }]).catch(() => undefined);
+  }
+
+  async listProcesses(): Promise<ProcessInfo[]> {
+    const entries = await this.listDirectory(CommandPolyfillService.SESSION_DIR).catch(() => []);
+    const sessionIds = entries
+      .filter((entry) => entry.name.endsWith(SESSION_MARKER_SUFFIX))
+      .map((entry) => entry.name.slice(0, -SESSION_MARKER_SUFFIX.length));
+
+    const processes = await Promise.all(sessionIds.map((id) => this.getProcess(id)));
+    return processes.filter((process): process is ProcessInfo => process !== null);
+  }
+
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    try {
+      const status = await this.sandbox.commands.getCommandStatus(sessionId);
+      return {
+        sessionId,
+        command: status.content,
+        status: status.running ? 'running' : 'exited',
+        exitCode: status.exitCode ?? null,
+        startedAt: status.startedAt
+      };
+    } catch (error) {
+      if (error instanceof SandboxApiException && error.statusCode === 404) return null;
+      throw new CommandExecutionError(
+        `Failed to get status of session ${sessionId}`,
+        'getProcess',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * execd can only interrupt a command, so SIGTERM, SIGINT and SIGKILL all
+   * map to an interrupt and other signals are not supported.
+   */
+  async signal(sessionId: string, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    if (!INTERRUPT_SIGNALS.has(signal)) {
+      throw new FeatureNotSupportedError(
+        `Sending ${signal} is not supported by OpenSandbox`,
+        'signal',
+        this.provider
+      );
+    }
+
+    const process = await this.getProcess(sessionId);
+    if (!process) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    if (process.status === 'running') await this.interrupt(sessionId);
+  }
+
+  /**
+   * Read background output from execd's command logs. execd merges stdout and
+   * stderr into one log and pages it by line, so the stdout position is a
+   * line cursor and all output is reported as stdout.
+   */
+  protected async readBackgroundOutput(
+    sessionId: string,
+    stdoutOffset: number
+  ): Promise<BackgroundOutput> {
+    try {
+      // Status first: once the command is seen as finished, the log that
+      // follows is complete.
+      const status = await this.sandbox.commands.getCommandStatus(sessionId);
+      const logs = await this.sandbox.commands.getBackgroundCommandLogs(sessionId, stdoutOffset);
+      const stdout = new TextEncoder().encode(logs.content);
+
+      return {
+        stdout,
+        stderr: new Uint8Array(0),
+        stdoutOffset: logs.cursor ?? stdoutOffset,
+        stderrOffset: 0,
+        done: !status.running && stdout.length === 0,
+        exitCode: status.exitCode ?? null
+      };
+    } catch (error) {
+      if (error instanceof SandboxApiException && error.statusCode === 404) {
+        throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+      }
+      throw new CommandExecutionError(
+        `Failed to read output of session ${sessionId}`,
+        'attachBackground',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   // ==================== Health Check ====================
 
   async ping(): Promise<boolean> {
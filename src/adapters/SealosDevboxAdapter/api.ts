@@ -1,3 +1,4 @@
+import { FileOperationError } from '@/errors';
 import {
   type DevboxApiConfig,
   type DevboxApiResponse,
@@ -82,10 +83,15 @@ export class DevboxApi {
   }
 
   /** POST /api/v1/devbox/{name}/exec */
-  async exec(name: string, req: ExecRequest): Promise<DevboxApiResponse<ExecResponseData>> {
+  async exec(
+    name: string,
+    req: ExecRequest,
+    signal?: AbortSignal
+  ): Promise<DevboxApiResponse<ExecResponseData>> {
     return this.request(this.url(`/api/v1/devbox/${name}/exec`), {
       method: 'POST',
-      body: JSON.stringify(req)
+      body: JSON.stringify(req),
+      signal
     });
   }
 
@@ -103,12 +109,28 @@ export class DevboxApi {
     return this.request(this.url(`/api/v1/devbox/${name}/files/upload`, queryParams), {
       method: 'POST',
       headers: { 'Content-Type': 'application/octet-stream' },
-      body: content
-    });
+      body: content,
+      // Node's fetch requires half-duplex mode for streaming request bodies.
+      ...(content instanceof ReadableStream ? { duplex: 'half' } : {})
+    } as RequestInit);
   }
 
   /** GET /api/v1/devbox/{name}/files/download */
   async downloadFile(name: string, params: DownloadFileParams): Promise<ArrayBuffer> {
+    const res = await this.download(name, params);
+    return res.arrayBuffer();
+  }
+
+  /** GET /api/v1/devbox/{name}/files/download — body as a stream */
+  async downloadFileStream(
+    name: string,
+    params: DownloadFileParams
+  ): Promise<ReadableStream<Uint8Array>> {
+    const res = await this.download(name, params);
+    return res.body ?? new ReadableStream({ start: (controller) => controller.close() });
+  }
+
+  private async download(name: string, params: DownloadFileParams): Promise<Response> {
     const queryParams: Record<string, string> = { path: params.path };
     if (params.filename) queryParams.filename = params.filename;
     if (params.timeoutSeconds != null) queryParams.timeoutSeconds = String(params.timeoutSeconds);
@@ -117,6 +139,21 @@ export class DevboxApi {
     const res = await fetch(this.url(`/api/v1/devbox/${name}/files/download`, queryParams), {
       headers: { Authorization: `Bearer ${this.token}` }
     });
-    return res.arrayBuffer();
+    if (!res.ok) {
+      // Errors come back as the JSON envelope instead of file content.
+      const text = await res.text();
+      let message = text || res.statusText;
+      try {
+        message = (JSON.parse(text) as DevboxApiResponse<unknown>).message || message;
+      } catch {
+        // keep raw body
+      }
+      throw new FileOperationError(
+        `Failed to download file: ${message}`,
+        params.path,
+        res.status === 404 ? 'FILE_NOT_FOUND' : 'TRANSFER_ERROR'
+      );
+    }
+    return res;
   }
 }
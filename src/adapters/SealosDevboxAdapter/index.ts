@@ -1,15 +1,38 @@
 import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
-import { CommandExecutionError, ConnectionError } from '../../errors';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FileOperationError,
+  TimeoutError
+} from '../../errors';
 import type {
   ExecuteOptions,
   ExecuteResult,
+  ExecuteStdin,
+  FileReadResult,
+  FileWriteEntry,
+  FileWriteResult,
+  PtyHandle,
+  PtyOptions,
+  ReadFileOptions,
   SandboxId,
   SandboxInfo,
-  SandboxState
+  SandboxState,
+  StreamHandlers
 } from '../../types';
+import { base64ToBytes, bytesToBase64 } from '@/utils/base64';
+import { randomSuffix } from '@/utils/id';
+import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { PtyOutput } from '@/utils/pty';
+import { asyncIterableToBuffer, dataToBytes } from '@/utils/streams';
 import { BaseSandboxAdapter } from '../BaseSandboxAdapter';
 import { DevboxApi } from './api';
-import { DevboxPhaseEnum, type DevboxInfoData } from './type';
+import { DevboxSshClient } from './ssh';
+import { DevboxPhaseEnum, type DevboxInfoData, type DevboxSshOptions } from './type';
+
+export type { DevboxSshOptions } from './type';
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
 
 /**
  * Configuration for Sealos Devbox Adapter.
@@ -20,17 +43,36 @@ export interface SealosDevboxConfig {
   /** JWT authentication token */
   token: string;
   sandboxId: string;
+  /**
+   * Transport for command execution and file transfer. `ssh` connects with
+   * the credentials from the devbox info endpoint and transfers files over
+   * SFTP; lifecycle calls always use the REST API. The endpoint returns no
+   * host key, so pin one with `ssh.hostKey` (see {@link DevboxSshOptions}).
+   * @default 'api'
+   */
+  transport?: 'api' | 'ssh';
+  /** Options for the SSH transport */
+  ssh?: DevboxSshOptions;
 }
 
 export class SealosDevboxAdapter extends BaseSandboxAdapter {
   readonly provider = 'sealosdevbox' as const;
 
+  /** Directory holding output files of detached jobs. */
+  private static readonly JOB_DIR = '/tmp/.sandbox-jobs';
+  /** Maximum bytes fetched per stream in a single job poll. */
+  private static readonly JOB_CHUNK_BYTES = 256 * 1024;
+  private static readonly JOB_POLL_INTERVAL_MS = 500;
+  /** Longest timeout the exec endpoint accepts. */
+  private static readonly MAX_EXEC_TIMEOUT_MS = 600_000;
+
   get rootPath(): string {
     return '/home/devbox/workspace';
   }
 
   private api: DevboxApi;
   private _id: SandboxId;
+  private sshClient?: DevboxSshClient;
 
   constructor(private config: SealosDevboxConfig) {
     super();
@@ -169,6 +211,8 @@ export class SealosDevboxAdapter extends BaseSandboxAdapter {
       this._status = { state: 'Deleting' };
       await this.api.delete(this._id);
       await this.waitUntilDeleted();
+      this.sshClient?.close();
+      this.sshClient = undefined;
       this._status = { state: 'UnExist' };
     } catch (error) {
       throw new CommandExecutionError(
@@ -181,13 +225,40 @@ export class SealosDevboxAdapter extends BaseSandboxAdapter {
 
   // ==================== Command Execution ====================
 
+  /**
+   * Run a command through the exec endpoint.
+   *
+   * The endpoint accepts timeouts of at most 600 s, so commands with a longer
+   * `timeoutMs` run as a detached job that is polled to completion. Without
+   * `timeoutMs` the endpoint maximum applies instead of its 30 s default.
+   */
   async execute(command: string, options?: ExecuteOptions): Promise<ExecuteResult> {
-    const cmd = this.buildCommand(command, this.normalizePath(options?.workingDirectory));
+    if (this.config.transport === 'ssh') {
+      return this.wrapExecError(command, () => this.runSsh(command, options));
+    }
+    if (options?.timeoutMs && options.timeoutMs > SealosDevboxAdapter.MAX_EXEC_TIMEOUT_MS) {
+      return this.wrapExecError(command, () => this.runJob(command, options));
+    }
+
+    const execId = randomSuffix();
     try {
-      const res = await this.api.exec(this._id, {
-        command: cmd,
-        timeoutSeconds: options?.timeoutMs ? Math.ceil(options.timeoutMs / 1000) : undefined
-      });
+      const stdin = await this.encodeStdin(options?.stdin);
+      // Binary stdin travels base64-encoded and is decoded in front of the command.
+      const script = this.buildEnvScript(
+        stdin?.base64 ? `base64 -d | { ${command}\n}` : command,
+        options
+      );
+      const res = await this.api.exec(
+        this._id,
+        {
+          command: this.markedCommand(script, execId),
+          stdin: stdin?.data,
+          timeoutSeconds: Math.ceil(
+            (options?.timeoutMs ?? SealosDevboxAdapter.MAX_EXEC_TIMEOUT_MS) / 1000
+          )
+        },
+        options?.signal
+      );
 
       if (!res.data) {
         throw new CommandExecutionError(`Command execution failed: ${res.message}`, command);
@@ -199,6 +270,15 @@ export class SealosDevboxAdapter extends BaseSandboxAdapter {
         exitCode: res.data.exitCode
       };
     } catch (error: any) {
+      if (options?.signal?.aborted) {
+        // Cancelling the request does not stop the remote process.
+        await this.killExec(execId);
+        throw new CommandExecutionError(
+          `Command aborted: ${command}`,
+          command,
+          error instanceof Error ? error : undefined
+        );
+      }
       throw new CommandExecutionError(
         `Command execution failed: ${error?.message || error?.code}`,
         command,
@@ -207,6 +287,570 @@ export class SealosDevboxAdapter extends BaseSandboxAdapter {
     }
   }
 
+  /**
+   * Stream output while the command runs.
+   *
+   * Over SSH output arrives directly from the connection. The exec endpoint
+   * only returns buffered output, so with the API transport the command runs
+   * as a detached job writing to files that are polled incrementally.
+   */
+  async executeStream(
+    command: string,
+    handlers: StreamHandlers,
+    options?: ExecuteOptions
+  ): Promise<void> {
+    let result: ExecuteResult;
+    try {
+      result =
+        this.config.transport === 'ssh'
+          ? await this.runSsh(command, options, handlers, this.config.ssh?.pty)
+          : await this.runJob(command, options, handlers);
+    } catch (error) {
+      if (error instanceof TimeoutError || options?.signal?.aborted) throw error;
+      throw new CommandExecutionError(
+        `Streaming command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    }
+    await handlers.onComplete?.(result);
+  }
+
+  async executeBackground(
+    command: string,
+    options?: ExecuteOptions
+  ): Promise<{ sessionId: string; kill(): Promise<void> }> {
+    return this.launchMarkedBackground(command, options, (script) =>
+      this.execRaw(['sh', '-c', script])
+    );
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    await this.killExec(sessionId, 'TERM');
+  }
+
+  /** Pass timeouts and command errors through; wrap anything else. */
+  private async wrapExecError<T>(command: string, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      if (error instanceof TimeoutError || error instanceof CommandExecutionError) throw error;
+      throw new CommandExecutionError(
+        `Command execution failed: ${command}`,
+        command,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private async killExec(execId: string, signal: 'KILL' | 'TERM' = 'KILL'): Promise<void> {
+    await this.execRaw(['sh', '-c', this.killMarkedScript(execId, signal)]).catch(() => {});
+  }
+
+  /**
+   * Run a raw command line through the configured transport.
+   */
+  private async execRaw(
+    command: string[],
+    req: { stdin?: string; timeoutSeconds?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
+    if (this.config.transport === 'ssh') {
+      const ssh = await this.getSshClient();
+      return ssh.exec(command.map((arg) => this.escapeShellArg(arg)).join(' '), {
+        stdin: req.stdin,
+        signal
+      });
+    }
+
+    const res = await this.api.exec(this._id, { command, ...req }, signal);
+    if (!res.data) {
+      throw new CommandExecutionError(
+        `Command execution failed: ${res.message}`,
+        command.join(' ')
+      );
+    }
+    return res.data;
+  }
+
+  /**
+   * Convert stdin to the string the exec endpoint accepts. Data that is not
+   * valid UTF-8 is base64-encoded and flagged so the caller can decode it.
+   */
+  private async encodeStdin(
+    stdin?: ExecuteStdin
+  ): Promise<{ data: string; base64: boolean } | undefined> {
+    if (stdin === undefined) return undefined;
+    if (typeof stdin === 'string') return { data: stdin, base64: false };
+
+    const bytes = await dataToBytes(stdin);
+    try {
+      return { data: new TextDecoder('utf-8', { fatal: true }).decode(bytes), base64: false };
+    } catch {
+      return { data: bytesToBase64(bytes), base64: true };
+    }
+  }
+
+  // ==================== Detached Jobs ====================
+
+  /**
+   * Start `command` as a detached job whose stdout, stderr and exit code are
+   * written to files in a fresh directory under {@link JOB_DIR}.
+   *
+   * @returns The job directory
+   */
+  private async startJob(
+    command: string,
+    execId: string,
+    options?: ExecuteOptions
+  ): Promise<string> {
+    const jobDir = `${SealosDevboxAdapter.JOB_DIR}/job-${execId}`;
+    const dir = this.escapeShellArg(jobDir);
+    const script = this.buildEnvScript(command, options);
+    const stdin = await this.encodeStdin(options?.stdin);
+
+    const writeStdin = !stdin
+      ? `: > ${dir}/stdin`
+      : stdin.base64
+        ? `base64 -d > ${dir}/stdin`
+        : `cat > ${dir}/stdin`;
+    // The exit code is renamed into place so pollers never see a partial write.
+    const job = `${this.markedCommand(script, execId)
+      .map((arg) => this.escapeShellArg(arg))
+      .join(
+        ' '
+      )} < ${dir}/stdin > ${dir}/stdout 2> ${dir}/stderr; echo $? > ${dir}/exit.tmp; mv ${dir}/exit.tmp ${dir}/exit`;
+    // nohup keeps the job alive when the exec session's shell hangs up.
+    const launcher = `mkdir -p ${dir} && ${writeStdin} && { nohup sh -c ${this.escapeShellArg(job)} > /dev/null 2>&1 & }`;
+
+    const res = await this.execRaw(['sh', '-c', launcher], { stdin: stdin?.data }, options?.signal);
+    if (res.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Failed to start job: ${res.stderr}`,
+        command,
+        res.exitCode ?? undefined
+      );
+    }
+    return jobDir;
+  }
+
+  /**
+   * Fetch new output past `offsets` and the exit code, if the job finished.
+   * The exit file is read before the output files, so once it is present
+   * the output returned alongside it is complete up to the chunk limit.
+   */
+  private async pollJob(
+    jobDir: string,
+    offsets: { stdout: number; stderr: number },
+    signal?: AbortSignal
+  ): Promise<{ exitCode: number | null; stdout: Uint8Array; stderr: Uint8Array }> {
+    const dir = this.escapeShellArg(jobDir);
+    const max = SealosDevboxAdapter.JOB_CHUNK_BYTES;
+    const tail = (file: string, offset: number) =>
+      `tail -c +${offset + 1} ${dir}/${file} 2>/dev/null | head -c ${max} | base64 | tr -d '\\n'`;
+    const script = [
+      `printf '%s\\n' "$(cat ${dir}/exit 2>/dev/null)"`,
+      tail('stdout', offsets.stdout),
+      'echo',
+      tail('stderr', offsets.stderr)
+    ].join('; ');
+
+    const res = await this.execRaw(['sh', '-c', script], {}, signal);
+    const [exitLine = '', stdout = '', stderr = ''] = res.stdout.split('\n');
+    return {
+      exitCode: exitLine.trim() === '' ? null : Number.parseInt(exitLine, 10),
+      stdout: base64ToBytes(stdout),
+      stderr: base64ToBytes(stderr)
+    };
+  }
+
+  /**
+   * Run `command` as a detached job and poll it to completion, forwarding
+   * output to `handlers` as it arrives. `timeoutMs` and `signal` are
+   * enforced client-side and kill the remote process.
+   */
+  private async runJob(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>
+  ): Promise<ExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+
+    const execId = randomSuffix();
+    const deadline = options?.timeoutMs ? startTime + options.timeoutMs : undefined;
+    let jobDir: string | undefined;
+    const offsets = { stdout: 0, stderr: 0 };
+    try {
+      jobDir = await this.startJob(command, execId, options);
+      while (true) {
+        if (deadline !== undefined && Date.now() >= deadline) {
+          await this.killExec(execId);
+          throw new TimeoutError(
+            `Command timed out after ${options!.timeoutMs}ms: ${command}`,
+            options!.timeoutMs!,
+            'execute'
+          );
+        }
+        options?.signal?.throwIfAborted();
+
+        const poll = await this.pollJob(jobDir, offsets, options?.signal);
+        offsets.stdout += poll.stdout.length;
+        offsets.stderr += poll.stderr.length;
+        await this.emitOutput(
+          stdoutDecoder.decode(poll.stdout, { stream: true }),
+          stdoutBuf,
+          handlers?.onStdout
+        );
+        await this.emitOutput(
+          stderrDecoder.decode(poll.stderr, { stream: true }),
+          stderrBuf,
+          handlers?.onStderr
+        );
+
+        const drained =
+          poll.stdout.length < SealosDevboxAdapter.JOB_CHUNK_BYTES &&
+          poll.stderr.length < SealosDevboxAdapter.JOB_CHUNK_BYTES;
+        if (poll.exitCode !== null && drained) {
+          await this.emitOutput(stdoutDecoder.decode(), stdoutBuf, handlers?.onStdout);
+          await this.emitOutput(stderrDecoder.decode(), stderrBuf, handlers?.onStderr);
+          return {
+            stdout: stdoutBuf.toString(),
+            stderr: stderrBuf.toString(),
+            exitCode: poll.exitCode,
+            truncated: stdoutBuf.truncated || stderrBuf.truncated,
+            durationMs: Date.now() - startTime
+          };
+        }
+        if (drained) {
+          const interval = SealosDevboxAdapter.JOB_POLL_INTERVAL_MS;
+          await this.sleep(
+            deadline ? Math.max(0, Math.min(interval, deadline - Date.now())) : interval
+          );
+        }
+      }
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        await this.killExec(execId);
+        throw new CommandExecutionError(
+          `Command aborted: ${command}`,
+          command,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    } finally {
+      if (jobDir) {
+        await this.execRaw(['rm', '-rf', jobDir]).catch(() => {});
+      }
+    }
+  }
+
+  private async emitOutput(
+    text: string,
+    buffer: BoundedOutputBuffer,
+    handler?: StreamHandlers['onStdout']
+  ): Promise<void> {
+    if (!text) return;
+    buffer.append(text);
+    await handler?.({ text, timestamp: Date.now() });
+  }
+
+  // ==================== SSH Transport ====================
+
+  private async getSshClient(): Promise<DevboxSshClient> {
+    if (!this.sshClient) {
+      const res = await this.api.info(this._id);
+      if (res.code !== 200 || !res.data?.ssh) {
+        throw new ConnectionError(
+          `Failed to get SSH credentials: ${res.message}`,
+          this.config.baseUrl
+        );
+      }
+      this.sshClient = new DevboxSshClient(res.data.ssh, this.config.ssh);
+    }
+    return this.sshClient;
+  }
+
+  /**
+   * Run a command over SSH, forwarding output as it arrives. `timeoutMs`
+   * and `signal` close the connection and kill the remote process.
+   */
+  private async runSsh(
+    command: string,
+    options?: ExecuteOptions,
+    handlers?: Pick<StreamHandlers, 'onStdout' | 'onStderr'>,
+    tty = false
+  ): Promise<ExecuteResult> {
+    const ssh = await this.getSshClient();
+    const startTime = Date.now();
+    const maxBytes = options?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    const stdoutBuf = new BoundedOutputBuffer(maxBytes);
+    const stderrBuf = new BoundedOutputBuffer(maxBytes);
+    const stdoutDecoder = new TextDecoder();
+    const stderrDecoder = new TextDecoder();
+
+    const execId = randomSuffix();
+    const remote = this.markedCommand(this.buildEnvScript(command, options), execId)
+      .map((arg) => this.escapeShellArg(arg))
+      .join(' ');
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = options?.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeoutMs)
+      : undefined;
+    const onAbort = () => controller.abort();
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const exitCode = await ssh.run(remote, {
+        stdin: options?.stdin,
+        tty,
+        signal: controller.signal,
+        onStdout: (chunk) =>
+          this.emitOutput(
+            stdoutDecoder.decode(chunk, { stream: true }),
+            stdoutBuf,
+            handlers?.onStdout
+          ),
+        onStderr: (chunk) =>
+          this.emitOutput(
+            stderrDecoder.decode(chunk, { stream: true }),
+            stderrBuf,
+            handlers?.onStderr
+          )
+      });
+
+      if (controller.signal.aborted) {
+        // Closing the connection does not stop the remote process.
+        await this.killExec(execId);
+        if (timedOut) {
+          throw new TimeoutError(
+            `Command timed out after ${options?.timeoutMs}ms: ${command}`,
+            options!.timeoutMs!,
+            'execute'
+          );
+        }
+        throw new CommandExecutionError(`Command aborted: ${command}`, command);
+      }
+
+      await this.emitOutput(stdoutDecoder.decode(), stdoutBuf, handlers?.onStdout);
+      await this.emitOutput(stderrDecoder.decode(), stderrBuf, handlers?.onStderr);
+      return {
+        stdout: stdoutBuf.toString(),
+        stderr: stderrBuf.toString(),
+        exitCode,
+        truncated: stdoutBuf.truncated || stderrBuf.truncated,
+        durationMs: Date.now() - startTime
+      };
+    } finally {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // ==================== PTY ====================
+
+  /**
+   * Open a terminal over `ssh -tt`. The exec endpoint has no terminal, so
+   * the API transport does not support this.
+   */
+  async openPty(options: PtyOptions = {}): Promise<PtyHandle> {
+    if (this.config.transport !== 'ssh') return super.openPty(options);
+    const polyfillService = this.requirePolyfillService(
+      'openPty',
+      'Interactive terminals not supported by this provider'
+    );
+    const ssh = await this.getSshClient();
+    const id = `pty-${randomSuffix()}`;
+    const child = ssh.spawn(
+      polyfillService.ptyScript(id, {
+        ...options,
+        cwd: options.cwd && this.normalizePath(options.cwd)
+      }),
+      { tty: true }
+    );
+    if (child.pid === undefined) {
+      const error = await new Promise<Error>((resolve) => child.once('error', resolve));
+      throw new ConnectionError('Failed to start ssh client', ssh.endpoint, error);
+    }
+
+    const output = new PtyOutput();
+    child.stdout!.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stderr!.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stdin!.on('error', () => {});
+    const exited = new Promise<number | null>((resolve) => {
+      child.once('close', (code) => {
+        void polyfillService.removePty(id);
+        resolve(code);
+      });
+    });
+
+    return output.handle({
+      id,
+      exited,
+      write: (data) =>
+        new Promise((resolve, reject) => {
+          child.stdin!.write(data, (error) => (error ? reject(error) : resolve()));
+        }),
+      resize: (cols, rows) => polyfillService.resizePty(id, cols, rows),
+      close: async () => {
+        // Dropping the connection makes sshd hang up the shell.
+        child.kill();
+        await exited;
+      }
+    });
+  }
+
+  // ==================== File Operations ====================
+  // With the SSH transport files stream through the connection; otherwise
+  // they go through the upload and download endpoints.
+
+  async readFiles(paths: string[], options?: ReadFileOptions): Promise<FileReadResult[]> {
+    // The download endpoint has no range support, so ranged reads keep
+    // using the command polyfill.
+    if (options?.range) {
+      return super.readFiles(paths, options);
+    }
+
+    const results: FileReadResult[] = [];
+    for (const path of paths.map((p) => this.normalizePath(p))) {
+      try {
+        const content =
+          this.config.transport === 'ssh'
+            ? await asyncIterableToBuffer((await this.getSshClient()).readFile(path))
+            : new Uint8Array(await this.api.downloadFile(this._id, { path }));
+        results.push({ path, content, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          content: new Uint8Array(),
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+    return results;
+  }
+
+  async writeFiles(entries: FileWriteEntry[]): Promise<FileWriteResult[]> {
+    const results: FileWriteResult[] = [];
+    for (const entry of entries) {
+      const path = this.normalizePath(entry.path);
+      try {
+        const data =
+          entry.data instanceof ReadableStream ? entry.data : await dataToBytes(entry.data);
+        let bytesWritten: number;
+        if (this.config.transport === 'ssh') {
+          bytesWritten = await (await this.getSshClient()).writeFile(path, data, entry.mode);
+        } else if (data instanceof ReadableStream) {
+          bytesWritten = await this.uploadStream(path, data, entry.mode);
+        } else {
+          bytesWritten = await this.uploadBytes(path, data, entry.mode);
+        }
+        results.push({ path, bytesWritten, error: null });
+      } catch (error) {
+        results.push({
+          path,
+          bytesWritten: 0,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+    return results;
+  }
+
+  async *readFileStream(path: string): AsyncIterable<Uint8Array> {
+    if (this.config.transport === 'ssh') {
+      yield* (await this.getSshClient()).readFile(this.normalizePath(path));
+      return;
+    }
+
+    const stream = await this.api.downloadFileStream(this._id, { path: this.normalizePath(path) });
+    const reader = stream.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value?.length) yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+    if (this.config.transport === 'ssh') {
+      await (await this.getSshClient()).writeFile(this.normalizePath(path), stream);
+      return;
+    }
+    await this.uploadStream(this.normalizePath(path), stream);
+  }
+
+  private async upload(
+    path: string,
+    content: Uint8Array | ReadableStream<Uint8Array>,
+    mode?: number
+  ): Promise<number> {
+    const res = await this.api.uploadFile(
+      this._id,
+      { path, mode: mode !== undefined ? mode.toString(8).padStart(4, '0') : undefined },
+      content as BodyInit
+    );
+    if (res.code !== 200 || !res.data) {
+      throw new FileOperationError(
+        `Failed to upload file: ${res.message}`,
+        path,
+        res.code === 403
+          ? 'PERMISSION_DENIED'
+          : /no such file or directory/i.test(res.message)
+            ? 'FILE_NOT_FOUND'
+            : 'TRANSFER_ERROR'
+      );
+    }
+    return res.data.sizeBytes;
+  }
+
+  /**
+   * Upload an in-memory payload, creating the parent directory and retrying
+   * once when the first attempt fails because it is missing.
+   */
+  private async uploadBytes(path: string, data: Uint8Array, mode?: number): Promise<number> {
+    try {
+      return await this.upload(path, data, mode);
+    } catch (error) {
+      if (!(error instanceof FileOperationError) || error.fileErrorCode !== 'FILE_NOT_FOUND') {
+        throw error;
+      }
+      await this.createParentDirectory(path);
+      return this.upload(path, data, mode);
+    }
+  }
+
+  /** Streams cannot be replayed, so the parent directory is created up front. */
+  private async uploadStream(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    mode?: number
+  ): Promise<number> {
+    await this.createParentDirectory(path);
+    return this.upload(path, stream, mode);
+  }
+
+  private async createParentDirectory(path: string): Promise<void> {
+    const parent = path.slice(0, path.lastIndexOf('/'));
+    if (parent) {
+      await this.createDirectories([parent]);
+    }
+  }
+
   // ==================== Health Check ====================
 
   /**
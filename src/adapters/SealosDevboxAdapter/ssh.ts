@@ -0,0 +1,340 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createReadStream, createWriteStream, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ConnectionError, FileOperationError } from '@/errors';
+import type { ExecuteStdin } from '@/types';
+import { randomSuffix } from '@/utils/id';
+import { readableStreamToAsyncIterable } from '@/utils/streams';
+import type { DevboxSshInfo, DevboxSshOptions } from './type';
+
+/** Exit status the OpenSSH client uses for its own failures. */
+const SSH_ERROR_EXIT_CODE = 255;
+
+/** Host name the pinned host key is recorded under. */
+const HOST_KEY_ALIAS = 'devbox';
+
+/** Key directories still on disk, removed at process exit as a fallback. */
+const liveKeyDirs = new Set<string>();
+let exitHookInstalled = false;
+
+function trackKeyDir(dir: string): void {
+  liveKeyDirs.add(dir);
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once('exit', () => {
+      for (const keyDir of liveKeyDirs) {
+        rmSync(keyDir, { recursive: true, force: true });
+      }
+    });
+  }
+}
+
+export interface SshRunOptions {
+  stdin?: ExecuteStdin;
+  /** Allocate a PTY on the remote side */
+  tty?: boolean;
+  signal?: AbortSignal;
+  onStdout?: (chunk: Buffer) => void | Promise<void>;
+  onStderr?: (chunk: Buffer) => void | Promise<void>;
+}
+
+/**
+ * Runs commands on a devbox through the system OpenSSH client, using the
+ * credentials returned by the devbox info endpoint.
+ *
+ * Every call opens its own connection. Files are transferred with the
+ * OpenSSH `sftp` client, staged in a local temp file, so they need no SFTP
+ * client library.
+ *
+ * The devbox info endpoint returns no host key. The host key is checked
+ * against `options.hostKey` when given, otherwise against the user's
+ * known_hosts, unless `options.insecureSkipHostKeyCheck` turns checking off.
+ */
+export class DevboxSshClient {
+  private keyDir?: string;
+
+  constructor(
+    private info: DevboxSshInfo,
+    private options: DevboxSshOptions = {}
+  ) {}
+
+  get endpoint(): string {
+    return `ssh://${this.info.user}@${this.info.host}:${this.info.port}`;
+  }
+
+  /**
+   * Write the private key, and the pinned host key if any, to a temp
+   * directory readable only by the current user.
+   */
+  private credentialsDir(): string {
+    if (!this.keyDir) {
+      this.keyDir = mkdtempSync(join(tmpdir(), 'devbox-ssh-'));
+      trackKeyDir(this.keyDir);
+      writeFileSync(join(this.keyDir, 'id'), Buffer.from(this.info.privateKeyBase64, 'base64'), {
+        mode: 0o600
+      });
+      if (this.options.hostKey) {
+        writeFileSync(
+          join(this.keyDir, 'known_hosts'),
+          `${HOST_KEY_ALIAS} ${this.options.hostKey.trim()}\n`,
+          { mode: 0o600 }
+        );
+      }
+    }
+    return this.keyDir;
+  }
+
+  /** Options shared by the ssh and sftp clients. */
+  private connectionArgs(): string[] {
+    const dir = this.credentialsDir();
+    const hostKeyOptions = this.options.hostKey
+      ? [
+          'StrictHostKeyChecking=yes',
+          `UserKnownHostsFile=${join(dir, 'known_hosts')}`,
+          `HostKeyAlias=${HOST_KEY_ALIAS}`
+        ]
+      : this.options.insecureSkipHostKeyCheck
+        ? ['StrictHostKeyChecking=no', 'UserKnownHostsFile=/dev/null']
+        : ['StrictHostKeyChecking=yes'];
+    return [
+      '-i',
+      join(dir, 'id'),
+      ...[
+        `Port=${this.info.port}`,
+        'BatchMode=yes',
+        'IdentitiesOnly=yes',
+        ...hostKeyOptions,
+        'LogLevel=ERROR',
+        `ConnectTimeout=${this.options.connectTimeoutSeconds ?? 10}`
+      ].flatMap((option) => ['-o', option])
+    ];
+  }
+
+  /** Spawn the ssh client running `command` on the devbox. */
+  spawn(command: string, options?: { tty?: boolean }): ChildProcess {
+    const args = [
+      ...this.connectionArgs(),
+      options?.tty ? '-tt' : '-T',
+      `${this.info.user}@${this.info.host}`,
+      command
+    ];
+    return spawn(this.options.binaryPath ?? 'ssh', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+  }
+
+  /**
+   * Run sftp batch commands on the devbox. The batch stops at the first
+   * failing command unless it is prefixed with `-`.
+   */
+  private sftp(commands: string[]): Promise<{ stderr: string; exitCode: number | null }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(
+        this.options.sftpBinaryPath ?? 'sftp',
+        [...this.connectionArgs(), '-b', '-', `${this.info.user}@${this.info.host}`],
+        { stdio: ['pipe', 'ignore', 'pipe'] }
+      );
+      let stderr = '';
+      child.stderr!.on('data', (chunk: Buffer) => (stderr = (stderr + chunk).slice(-2048)));
+      child.stdin!.on('error', () => {});
+      child.stdin!.end(commands.map((command) => `${command}\n`).join(''));
+      child.on('error', (error) =>
+        reject(new ConnectionError('Failed to start sftp client', this.endpoint, error))
+      );
+      child.on('close', (exitCode) => resolve({ stderr, exitCode }));
+    });
+  }
+
+  /** Local directory for staging one transfer, inside the credentials directory. */
+  private stagingDir(): Promise<string> {
+    return mkdtemp(join(this.credentialsDir(), 'transfer-'));
+  }
+
+  /**
+   * Run `command`, feeding stdin and forwarding output chunks in order.
+   *
+   * @returns The remote exit code, or null when the process was killed
+   * @throws {ConnectionError} When the ssh client fails to connect
+   */
+  run(command: string, options: SshRunOptions = {}): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      const child = this.spawn(command, { tty: options.tty });
+      // Keep the tail of stderr to explain connection failures.
+      let stderrTail = '';
+      let delivery = Promise.resolve();
+
+      const onAbort = () => {
+        child.kill('SIGKILL');
+        // Don't wait for output pipes that a lingering process may hold open.
+        child.stdout?.destroy();
+        child.stderr?.destroy();
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout!.on('data', (chunk: Buffer) => {
+        if (options.onStdout) delivery = delivery.then(() => options.onStdout!(chunk));
+      });
+      child.stderr!.on('data', (chunk: Buffer) => {
+        stderrTail = (stderrTail + chunk.toString()).slice(-2048);
+        if (options.onStderr) delivery = delivery.then(() => options.onStderr!(chunk));
+      });
+
+      this.writeStdin(child, options.stdin);
+
+      child.on('error', (error) => {
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(new ConnectionError('Failed to start ssh client', this.endpoint, error));
+      });
+      child.on('close', (code) => {
+        options.signal?.removeEventListener('abort', onAbort);
+        delivery.then(() => {
+          // Remote commands exiting with 255 are indistinguishable from
+          // client failures; treat them as connection errors.
+          if (code === SSH_ERROR_EXIT_CODE) {
+            reject(
+              new ConnectionError(`SSH connection failed: ${stderrTail.trim()}`, this.endpoint)
+            );
+            return;
+          }
+          resolve(code);
+        }, reject);
+      });
+    });
+  }
+
+  /**
+   * Run `command` and collect its output.
+   */
+  async exec(
+    command: string,
+    options: Omit<SshRunOptions, 'onStdout' | 'onStderr'> = {}
+  ): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const exitCode = await this.run(command, {
+      ...options,
+      onStdout: (chunk) => void stdout.push(chunk),
+      onStderr: (chunk) => void stderr.push(chunk)
+    });
+    return {
+      stdout: Buffer.concat(stdout).toString(),
+      stderr: Buffer.concat(stderr).toString(),
+      exitCode
+    };
+  }
+
+  /** Download a remote file over SFTP and stream it from the staged copy. */
+  async *readFile(path: string): AsyncIterable<Uint8Array> {
+    const staging = await this.stagingDir();
+    try {
+      const local = join(staging, 'data');
+      const { stderr, exitCode } = await this.sftp([`get ${sftpQuote(path)} ${sftpQuote(local)}`]);
+      if (exitCode !== 0) {
+        throw fileError(path, stderr, exitCode);
+      }
+      for await (const chunk of createReadStream(local)) {
+        yield new Uint8Array(chunk as Buffer);
+      }
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Upload a remote file over SFTP, creating its parent directories. Data
+   * is staged locally, uploaded to a temp file and renamed into place.
+   *
+   * @returns Number of bytes written
+   */
+  async writeFile(
+    path: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+    mode?: number
+  ): Promise<number> {
+    const staging = await this.stagingDir();
+    try {
+      const local = join(staging, 'data');
+      let bytes = 0;
+      if (data instanceof Uint8Array) {
+        await writeFile(local, data);
+        bytes = data.length;
+      } else {
+        await pipeline(
+          Readable.from(readableStreamToAsyncIterable(data)),
+          async function* (source: AsyncIterable<Uint8Array>) {
+            for await (const chunk of source) {
+              bytes += chunk.length;
+              yield chunk;
+            }
+          },
+          createWriteStream(local)
+        );
+      }
+
+      const tmp = `${path}.tmp.${randomSuffix()}`;
+      // `-mkdir` ignores directories that already exist.
+      const parents = path
+        .split('/')
+        .slice(1, -1)
+        .map((_, i, parts) => `-mkdir ${sftpQuote(`/${parts.slice(0, i + 1).join('/')}`)}`);
+      const { stderr, exitCode } = await this.sftp([
+        ...(path.startsWith('/') ? parents : []),
+        `put ${sftpQuote(local)} ${sftpQuote(tmp)}`,
+        ...(mode !== undefined ? [`chmod ${mode.toString(8)} ${sftpQuote(tmp)}`] : []),
+        `rename ${sftpQuote(tmp)} ${sftpQuote(path)}`
+      ]);
+      if (exitCode !== 0) {
+        await this.sftp([`-rm ${sftpQuote(tmp)}`]).catch(() => undefined);
+        throw fileError(path, stderr, exitCode);
+      }
+      return bytes;
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /** Remove the temporary private key file. */
+  close(): void {
+    if (this.keyDir) {
+      rmSync(this.keyDir, { recursive: true, force: true });
+      liveKeyDirs.delete(this.keyDir);
+      this.keyDir = undefined;
+    }
+  }
+
+  private writeStdin(child: ChildProcess, stdin?: ExecuteStdin): void {
+    if (!child.stdin) return;
+    // The command may exit without reading its input; ignore EPIPE.
+    child.stdin.on('error', () => {});
+    if (stdin === undefined) {
+      child.stdin.end();
+    } else if (stdin instanceof ReadableStream) {
+      // A failing stdin stream ends the input early.
+      pipeline(Readable.from(readableStreamToAsyncIterable(stdin)), child.stdin).catch(() => {});
+    } else {
+      child.stdin.end(stdin);
+    }
+  }
+}
+
+/**
+ * Quote a path as one sftp batch argument. Glob characters are escaped too,
+ * since sftp expands them in remote and local paths.
+ */
+function sftpQuote(path: string): string {
+  return `"${path.replace(/[\\"*?[]/g, '\\$&')}"`;
+}
+
+function fileError(path: string, stderr: string, exitCode: number | null): FileOperationError {
+  const message = stderr.trim() || `exit code ${exitCode}`;
+  const code = /No such file|not found/i.test(stderr)
+    ? 'FILE_NOT_FOUND'
+    : /Permission denied/i.test(stderr)
+      ? 'PERMISSION_DENIED'
+      : /Is a directory|non-regular file/i.test(stderr)
+        ? 'PATH_IS_DIRECTORY'
+        : 'TRANSFER_ERROR';
+  return new FileOperationError(message, path, code);
+}
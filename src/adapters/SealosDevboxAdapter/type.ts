@@ -116,3 +116,40 @@ export interface DownloadFileParams {
   /** Target container name */
   container?: string;
 }
+
+/** Options for the SSH transport. */
+export interface DevboxSshOptions {
+  /**
+   * Path to the OpenSSH client binary.
+   * @default 'ssh'
+   */
+  binaryPath?: string;
+  /**
+   * Path to the OpenSSH sftp client binary, used for file transfer.
+   * @default 'sftp'
+   */
+  sftpBinaryPath?: string;
+  /**
+   * Public host key of the devbox (e.g. `ssh-ed25519 AAAA...`). Connections
+   * to a host presenting any other key fail. Without it the host must be
+   * listed in the user's known_hosts.
+   */
+  hostKey?: string;
+  /**
+   * Accept any host key. The connection is then open to man-in-the-middle
+   * attacks; prefer pinning `hostKey`.
+   * @default false
+   */
+  insecureSkipHostKeyCheck?: boolean;
+  /**
+   * Allocate a PTY for `executeStream`, so programs see a terminal and
+   * stream line by line. stderr is merged into stdout on a PTY.
+   * @default false
+   */
+  pty?: boolean;
+  /**
+   * Connection timeout in seconds.
+   * @default 10
+   */
+  connectTimeoutSeconds?: number;
+}
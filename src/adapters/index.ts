@@ -5,61 +5,204 @@ import {
   type OpenSandboxConfigType
 } from './OpenSandboxAdapter';
 import { E2BAdapter, type E2BConfig } from './E2BAdapter';
-import { ISandbox } from '@/interfaces';
+import { DockerAdapter, type DockerConfigType, type DockerConnectionConfig } from './DockerAdapter';
+import { LocalProcessAdapter, type LocalProcessConfig } from './LocalProcessAdapter';
+import {
+  KubernetesAdapter,
+  type KubernetesConfigType,
+  type KubernetesConnectionConfig
+} from './KubernetesAdapter';
+import { AliyunFCAdapter, type AliyunFCConfig } from './AliyunFCAdapter';
+import { HttpAgentAdapter, type HttpAgentConfig } from './HttpAgentAdapter';
+import { ISandbox, ISandboxManager } from '@/interfaces';
+import type { SandboxId, SandboxInfo, SandboxListFilter } from '@/types';
 
 export { SealosDevboxAdapter } from './SealosDevboxAdapter';
-export type { SealosDevboxConfig } from './SealosDevboxAdapter';
+export type { DevboxSshOptions, SealosDevboxConfig } from './SealosDevboxAdapter';
 export { OpenSandboxAdapter } from './OpenSandboxAdapter';
 export type { OpenSandboxConfigType, OpenSandboxConnectionConfig } from './OpenSandboxAdapter';
 export type { Volume as OpenSandboxVolume } from '@alibaba-group/opensandbox';
 export { E2BAdapter } from './E2BAdapter';
 export type { E2BConfig } from './E2BAdapter';
+export { DockerAdapter } from './DockerAdapter';
+export type { DockerConfigType, DockerConnectionConfig } from './DockerAdapter';
+export { LocalProcessAdapter } from './LocalProcessAdapter';
+export type { LocalProcessConfig } from './LocalProcessAdapter';
+export { KubernetesAdapter } from './KubernetesAdapter';
+export type { KubernetesConfigType, KubernetesConnectionConfig } from './KubernetesAdapter';
+export { AliyunFCAdapter } from './AliyunFCAdapter';
+export type { AliyunFCConfig } from './AliyunFCAdapter';
+export { HttpAgentAdapter } from './HttpAgentAdapter';
+export type { HttpAgentConfig, HttpAgentLifecycleHooks } from './HttpAgentAdapter';
 
-export type SandboxProviderType = 'opensandbox' | 'sealosdevbox' | 'e2b';
+/**
+ * Maps each provider name to its constructor (connection) config type.
+ *
+ * Third-party providers add their entry through declaration merging before
+ * calling {@link registerSandboxProvider}:
+ *
+ * ```typescript
+ * declare module '@fastgpt-sdk/sandbox-adapter' {
+ *   interface SandboxConnectionConfig {
+ *     acme: AcmeConfig;
+ *   }
+ * }
+ * ```
+ */
+export interface SandboxConnectionConfig {
+  opensandbox: OpenSandboxConnectionConfig;
+  sealosdevbox: SealosDevboxConfig;
+  e2b: E2BConfig;
+  docker: DockerConnectionConfig;
+  local: LocalProcessConfig;
+  kubernetes: KubernetesConnectionConfig;
+  aliyunfc: AliyunFCConfig;
+  httpagent: HttpAgentConfig;
+}
 
-/** Maps each provider name to the ISandbox config type it exposes. */
-interface SandboxConfigMap {
+/**
+ * Maps provider names to the create config passed as the third argument of
+ * {@link createSandbox}. Providers without an entry take none; merge into it
+ * the same way as {@link SandboxConnectionConfig}.
+ */
+export interface SandboxConfigMap {
   opensandbox: OpenSandboxConfigType;
-  sealosdevbox: undefined;
-  e2b: undefined;
+  docker: DockerConfigType;
+  kubernetes: KubernetesConfigType;
 }
 
-/** Resolves the concrete ISandbox type for a given provider. */
+/** Name of a registered (built-in or merged) provider. */
+export type SandboxProviderType = keyof SandboxConnectionConfig;
 
-/** Maps each provider name to its constructor (connection) config type. */
-interface SandboxConnectionConfig {
-  opensandbox: OpenSandboxConnectionConfig;
-  sealosdevbox: SealosDevboxConfig;
-  e2b: E2BConfig;
+/** Create config type of a provider; `undefined` when it takes none. */
+export type SandboxCreateConfig<P extends SandboxProviderType> = P extends keyof SandboxConfigMap
+  ? SandboxConfigMap[P]
+  : undefined;
+
+/** Builds the sandbox instance for one provider. */
+export type SandboxProviderFactory<P extends SandboxProviderType> = (
+  config: SandboxConnectionConfig[P],
+  createConfig?: SandboxCreateConfig<P>
+) => ISandbox;
+
+const providers = new Map<string, (config: unknown, createConfig?: unknown) => ISandbox>();
+
+/**
+ * Register the factory {@link createSandbox} uses for a provider name.
+ *
+ * @throws Error if a provider with this name is already registered
+ */
+export function registerSandboxProvider<P extends SandboxProviderType>(
+  name: P,
+  factory: SandboxProviderFactory<P>
+): void {
+  if (providers.has(name)) {
+    throw new Error(`Provider already registered: ${name}`);
+  }
+  providers.set(name, factory as (config: unknown, createConfig?: unknown) => ISandbox);
+}
+
+/**
+ * Remove a provider registration.
+ *
+ * @returns Whether the provider was registered
+ */
+export function unregisterSandboxProvider(name: SandboxProviderType): boolean {
+  return providers.delete(name);
 }
 
+/** Names of all registered providers. */
+export function listSandboxProviders(): SandboxProviderType[] {
+  return [...providers.keys()] as SandboxProviderType[];
+}
+
+registerSandboxProvider('opensandbox', (config, createConfig) => {
+  return new OpenSandboxAdapter(config, createConfig);
+});
+registerSandboxProvider('sealosdevbox', (config) => new SealosDevboxAdapter(config));
+registerSandboxProvider('e2b', (config) => new E2BAdapter(config));
+registerSandboxProvider('docker', (config, createConfig) => {
+  return new DockerAdapter(config, createConfig);
+});
+registerSandboxProvider('local', (config) => new LocalProcessAdapter(config));
+registerSandboxProvider('kubernetes', (config, createConfig) => {
+  return new KubernetesAdapter(config, createConfig);
+});
+registerSandboxProvider('aliyunfc', (config) => new AliyunFCAdapter(config));
+registerSandboxProvider('httpagent', (config) => new HttpAgentAdapter(config));
+
 /**
  * Create a sandbox provider instance.
- * The return type is inferred from the provider name.
+ * The config types are inferred from the provider name.
  *
+ * @param provider Registered provider name
  * @param config Provider configuration
+ * @param createConfig Provider-specific create config, if it takes one
  * @returns Configured sandbox instance
  * @throws Error if provider type is unknown
  */
 export function createSandbox<P extends SandboxProviderType>(
   provider: P,
   config: SandboxConnectionConfig[P],
-  createConfig?: SandboxConfigMap[P]
+  createConfig?: SandboxCreateConfig<P>
 ): ISandbox {
-  switch (provider) {
-    case 'opensandbox':
-      return new OpenSandboxAdapter(
-        config as OpenSandboxConnectionConfig,
-        createConfig as OpenSandboxConfigType
-      );
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+  return factory(config, createConfig);
+}
+
+/**
+ * Maps providers that can list their sandboxes to the connection config
+ * {@link createSandboxManager} takes: the provider's config without the
+ * per-sandbox ID.
+ */
+export interface SandboxManagerConfigMap {
+  opensandbox: Omit<OpenSandboxConnectionConfig, 'sessionId'>;
+  e2b: Pick<E2BConfig, 'apiKey'>;
+  docker: Omit<DockerConnectionConfig, 'sandboxId'>;
+  local: Omit<LocalProcessConfig, 'sandboxId'>;
+  kubernetes: Omit<KubernetesConnectionConfig, 'sandboxId'>;
+}
 
-    case 'sealosdevbox':
-      return new SealosDevboxAdapter(config as SealosDevboxConfig);
+/** Name of a provider that supports provider-wide listing. */
+export type SandboxManagerProviderType = keyof SandboxManagerConfigMap;
 
-    case 'e2b':
-      return new E2BAdapter(config as E2BConfig);
+const managedProviders: {
+  [P in SandboxManagerProviderType]: {
+    listSandboxes(
+      config: SandboxManagerConfigMap[P],
+      filter?: SandboxListFilter
+    ): Promise<SandboxInfo[]>;
+    deleteSandbox(config: SandboxManagerConfigMap[P], sandboxId: SandboxId): Promise<void>;
+  };
+} = {
+  opensandbox: OpenSandboxAdapter,
+  e2b: E2BAdapter,
+  docker: DockerAdapter,
+  local: LocalProcessAdapter,
+  kubernetes: KubernetesAdapter
+};
 
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+/**
+ * Create a provider-wide sandbox manager, e.g. for a {@link SandboxReaper}.
+ *
+ * @param provider Provider name
+ * @param config Provider connection config, without a sandbox ID
+ * @throws Error if the provider cannot list its sandboxes
+ */
+export function createSandboxManager<P extends SandboxManagerProviderType>(
+  provider: P,
+  config: SandboxManagerConfigMap[P]
+): ISandboxManager {
+  const adapter = managedProviders[provider];
+  if (!adapter) {
+    throw new Error(`Provider does not support sandbox listing: ${provider}`);
   }
+  return {
+    provider,
+    listSandboxes: (filter) => adapter.listSandboxes(config, filter),
+    deleteSandbox: (sandboxId) => adapter.deleteSandbox(config, sandboxId)
+  };
 }
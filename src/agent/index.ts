@@ -0,0 +1,3 @@
+export { createSandboxAgent } from './server';
+export type { SandboxAgentOptions } from './server';
+export * from './protocol';
@@ -0,0 +1,149 @@
+/**
+ * Wire types of the sandbox agent protocol (version 1), shared by
+ * `HttpAgentAdapter` and the reference server from `createSandboxAgent`.
+ * See docs/HTTP_AGENT_PROTOCOL.md for the endpoint reference.
+ */
+
+/** Path prefix of every endpoint. */
+export const AGENT_API_PREFIX = '/v1';
+
+/** WebSocket subprotocol of the exec stream. */
+export const AGENT_EXEC_PROTOCOL = 'sandbox-agent.v1';
+
+/**
+ * Channel byte prefixed to binary exec stream messages: stdin flows from the
+ * client, stdout/stderr from the agent.
+ */
+export const AGENT_CHANNEL_STDIN = 0;
+export const AGENT_CHANNEL_STDOUT = 1;
+export const AGENT_CHANNEL_STDERR = 2;
+
+/** Error body of every non-2xx response. */
+export interface AgentErrorBody {
+  message: string;
+  /**
+   * `UNAUTHORIZED`, `BAD_REQUEST`, `NOT_FOUND`, or a file error code such as
+   * `FILE_NOT_FOUND` for the `/files` endpoints.
+   */
+  code: string;
+}
+
+/** `GET /v1/health` */
+export interface AgentHealth {
+  status: 'ok';
+  version: 1;
+  /** Directory relative paths and commands resolve against */
+  rootDir: string;
+  /** ISO timestamp of the agent start */
+  startedAt: string;
+}
+
+/** `GET /v1/metrics` */
+export interface AgentMetrics {
+  cpuCount: number;
+  cpuUsedPercentage: number;
+  memoryTotalMiB: number;
+  memoryUsedMiB: number;
+  timestamp: number;
+}
+
+// ==================== Exec stream ====================
+
+/** First text message of an exec stream. */
+export interface AgentExecStart {
+  type: 'start';
+  command: string;
+  /** Working directory; defaults to the agent root */
+  cwd?: string;
+  env?: Record<string, string>;
+  /** Keep stdin open for binary stdin messages until `stdin_close` */
+  stdin?: boolean;
+  /** Kill the command after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/** Further client text messages of an exec stream. */
+export type AgentExecClientMessage =
+  AgentExecStart | { type: 'stdin_close' } | { type: 'signal'; signal: NodeJS.Signals };
+
+/** Agent text messages of an exec stream. */
+export type AgentExecServerMessage =
+  | { type: 'started'; id: string; pid: number }
+  /** Last message before the agent closes the stream */
+  | { type: 'exit'; exitCode: number | null; signal: string | null; timedOut: boolean }
+  | { type: 'error'; message: string };
+
+// ==================== Processes ====================
+
+/** `POST /v1/processes` */
+export interface AgentStartProcessRequest {
+  command: string;
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+/** A process started by the agent, either detached or through an exec stream. */
+export interface AgentProcessInfo {
+  id: string;
+  pid: number;
+  command: string;
+  cwd: string;
+  /** ISO timestamp */
+  startedAt: string;
+  running: boolean;
+  exitCode: number | null;
+  /** Whether the process was started through `POST /v1/processes` */
+  background: boolean;
+}
+
+/** `GET /v1/processes/{id}/output` response */
+export interface AgentProcessOutput {
+  /** Base64 stdout bytes from the requested offset */
+  stdout: string;
+  /** Base64 stderr bytes from the requested offset */
+  stderr: string;
+  /** Offset to request next stdout from */
+  stdoutOffset: number;
+  /** Offset to request next stderr from */
+  stderrOffset: number;
+  running: boolean;
+  exitCode: number | null;
+  /** Whether the process exited and its output streams closed */
+  done: boolean;
+}
+
+/** `POST /v1/processes/{id}/signal` */
+export interface AgentSignalRequest {
+  /** @default 'SIGTERM' */
+  signal?: NodeJS.Signals;
+}
+
+// ==================== Files ====================
+
+/** `PUT /v1/files` response */
+export interface AgentWriteFileResponse {
+  path: string;
+  bytesWritten: number;
+}
+
+/** Entry of the `POST /v1/files/stat` response; dates are ISO timestamps. */
+export interface AgentFileInfo {
+  path: string;
+  size: number;
+  mode: number;
+  modifiedAt: string;
+  createdAt: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymlink: boolean;
+}
+
+/** Entry of the `GET /v1/files/list` response. */
+export interface AgentDirectoryEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  size: number;
+  modifiedAt: string;
+}
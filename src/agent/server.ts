@@ -0,0 +1,593 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { chmod, lstat, mkdir, readdir, stat } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { cpus, freemem, totalmem } from 'node:os';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import type { Duplex } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { SandboxException } from '@/errors';
+import { OutputLog } from '@/utils/outputBuffer';
+import { acceptWebSocket, type WebSocketConnection } from '@/utils/websocket';
+import {
+  AGENT_API_PREFIX,
+  AGENT_CHANNEL_STDERR,
+  AGENT_CHANNEL_STDIN,
+  AGENT_CHANNEL_STDOUT,
+  AGENT_EXEC_PROTOCOL,
+  type AgentDirectoryEntry,
+  type AgentErrorBody,
+  type AgentExecClientMessage,
+  type AgentExecServerMessage,
+  type AgentFileInfo,
+  type AgentHealth,
+  type AgentMetrics,
+  type AgentProcessInfo,
+  type AgentProcessOutput,
+  type AgentSignalRequest,
+  type AgentStartProcessRequest,
+  type AgentWriteFileResponse
+} from './protocol';
+
+/**
+ * Options for {@link createSandboxAgent}.
+ */
+export interface SandboxAgentOptions {
+  /** Token clients must send as `Authorization: Bearer <token>` */
+  token?: string;
+  /**
+   * Accept requests without a token. Required when `token` is unset, so an
+   * agent is never left open by a missing environment variable.
+   * @default false
+   */
+  allowUnauthenticated?: boolean;
+  /**
+   * Directory commands run in and relative paths resolve against.
+   * @default process.cwd()
+   */
+  rootDir?: string;
+  /**
+   * Shell running commands as `<shell> -c <command>`.
+   * @default '/bin/sh'
+   */
+  shell?: string;
+  /**
+   * Number of finished processes kept for `GET /v1/processes`.
+   * @default 100
+   */
+  maxFinishedProcesses?: number;
+  /**
+   * Bytes of stdout and stderr kept for each background process.
+   * @default 1048576
+   */
+  maxOutputBytes?: number;
+}
+
+/** fs error codes mapped to the file error codes of the protocol. */
+const FS_ERROR_CODES: Record<string, string> = {
+  ENOENT: 'FILE_NOT_FOUND',
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EISDIR: 'PATH_IS_DIRECTORY',
+  ENOTDIR: 'PATH_NOT_DIRECTORY',
+  EEXIST: 'FILE_ALREADY_EXISTS',
+  ENOSPC: 'QUOTA_EXCEEDED',
+  EDQUOT: 'QUOTA_EXCEEDED'
+};
+
+/** Largest JSON request body the agent reads. */
+const MAX_JSON_BODY_BYTES = 1024 * 1024;
+
+/** An error answered as `{ message, code }` with the given HTTP status. */
+class AgentError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AgentError';
+  }
+
+  static fromFsError(error: unknown, path: string): AgentError {
+    const code = FS_ERROR_CODES[(error as NodeJS.ErrnoException).code ?? ''] ?? 'TRANSFER_ERROR';
+    const status =
+      code === 'FILE_NOT_FOUND'
+        ? 404
+        : code === 'PERMISSION_DENIED'
+          ? 403
+          : code === 'TRANSFER_ERROR'
+            ? 500
+            : 400;
+    return new AgentError(status, code, `${(error as Error).message ?? error} (${path})`);
+  }
+}
+
+interface TrackedProcess {
+  info: AgentProcessInfo;
+  child: ChildProcess;
+  /** Output of background processes */
+  output?: { stdout: OutputLog; stderr: OutputLog; closed: boolean };
+}
+
+/**
+ * Reference implementation of the sandbox agent protocol.
+ */
+class SandboxAgent {
+  private processes = new Map<string, TrackedProcess>();
+  private startedAt = new Date().toISOString();
+  private rootDir: string;
+  private shell: string;
+
+  constructor(private options: SandboxAgentOptions) {
+    if (!options.token && !options.allowUnauthenticated) {
+      throw new SandboxException(
+        'Sandbox agent needs a token, or allowUnauthenticated: true',
+        'INVALID_ARGUMENT'
+      );
+    }
+    this.rootDir = resolve(options.rootDir ?? process.cwd());
+    this.shell = options.shell ?? '/bin/sh';
+  }
+
+  // ==================== HTTP ====================
+
+  private authorized(req: IncomingMessage): boolean {
+    if (!this.options.token) return this.options.allowUnauthenticated === true;
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private json(res: ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload)
+    });
+    res.end(payload);
+  }
+
+  /** Read a JSON body of at most MAX_JSON_BODY_BYTES. */
+  private async readJson<T>(req: IncomingMessage): Promise<T> {
+    const tooLarge = () =>
+      new AgentError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${MAX_JSON_BODY_BYTES} bytes`);
+    if (Number(req.headers['content-length'] ?? 0) > MAX_JSON_BODY_BYTES) throw tooLarge();
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_JSON_BODY_BYTES) throw tooLarge();
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as T;
+    } catch {
+      throw new AgentError(400, 'BAD_REQUEST', 'Request body is not valid JSON');
+    }
+  }
+
+  /** Resolve against rootDir; relative paths must not leave it. */
+  private resolvePath(path: string | null | undefined): string {
+    if (!path) throw new AgentError(400, 'BAD_REQUEST', 'Missing path');
+    const resolved = resolve(this.rootDir, path);
+    if (!isAbsolute(path)) {
+      const rel = relative(this.rootDir, resolved);
+      if (rel === '..' || rel.startsWith('../')) {
+        throw new AgentError(400, 'INVALID_PATH', `Path escapes the root directory: ${path}`);
+      }
+    }
+    return resolved;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (!this.authorized(req)) throw new AgentError(401, 'UNAUTHORIZED', 'Unauthorized');
+      await this.route(req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      const agentError =
+        error instanceof AgentError
+          ? error
+          : new AgentError(500, 'INTERNAL_ERROR', (error as Error).message ?? String(error));
+      const body: AgentErrorBody = { message: agentError.message, code: agentError.code };
+      this.json(res, agentError.status, body);
+    }
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://agent');
+    const path = url.pathname.startsWith(AGENT_API_PREFIX)
+      ? url.pathname.slice(AGENT_API_PREFIX.length)
+      : '';
+
+    switch (`${req.method} ${path}`) {
+      case 'GET /health': {
+        const health: AgentHealth = {
+          status: 'ok',
+          version: 1,
+          rootDir: this.rootDir,
+          startedAt: this.startedAt
+        };
+        return this.json(res, 200, health);
+      }
+      case 'GET /metrics':
+        return this.json(res, 200, await this.metrics());
+      case 'GET /files':
+        return this.readFile(url, res);
+      case 'PUT /files':
+        return this.writeFile(url, req, res);
+      case 'POST /files/stat': {
+        const { paths } = await this.readJson<{ paths?: string[] }>(req);
+        return this.json(res, 200, { files: await this.statFiles(paths ?? []) });
+      }
+      case 'GET /files/list':
+        return this.json(res, 200, { entries: await this.listDirectory(url) });
+      case 'GET /processes':
+        return this.json(res, 200, {
+          processes: [...this.processes.values()].map((p) => p.info)
+        });
+      case 'POST /processes': {
+        const request = await this.readJson<AgentStartProcessRequest>(req);
+        if (!request.command) throw new AgentError(400, 'BAD_REQUEST', 'Missing command');
+        const { info } = this.startProcess(request, true);
+        return this.json(res, 201, info);
+      }
+    }
+
+    const match = path.match(/^\/processes\/([^/]+)(\/signal|\/output)?$/);
+    const tracked = match ? this.processes.get(decodeURIComponent(match[1])) : undefined;
+    if (match && req.method === (match[2] === '/signal' ? 'POST' : 'GET')) {
+      if (!tracked) throw new AgentError(404, 'NOT_FOUND', `Process not found: ${match[1]}`);
+      if (match[2] === '/output') return this.json(res, 200, this.readOutput(tracked, url));
+      if (match[2]) {
+        const { signal } = await this.readJson<AgentSignalRequest>(req);
+        this.signal(tracked, signal ?? 'SIGTERM');
+      }
+      return this.json(res, 200, tracked.info);
+    }
+
+    throw new AgentError(404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}`);
+  }
+
+  private async metrics(): Promise<AgentMetrics> {
+    // Sample the CPU counters twice to get the usage over a short window.
+    const sample = () =>
+      cpus().reduce(
+        (acc, cpu) => {
+          const total = Object.values(cpu.times).reduce((a, b) => a + b, 0);
+          return { idle: acc.idle + cpu.times.idle, total: acc.total + total };
+        },
+        { idle: 0, total: 0 }
+      );
+    const before = sample();
+    await new Promise((r) => setTimeout(r, 100));
+    const after = sample();
+    const total = after.total - before.total;
+
+    return {
+      cpuCount: cpus().length,
+      cpuUsedPercentage: total > 0 ? (1 - (after.idle - before.idle) / total) * 100 : 0,
+      memoryTotalMiB: Math.floor(totalmem() / (1024 * 1024)),
+      memoryUsedMiB: Math.floor((totalmem() - freemem()) / (1024 * 1024)),
+      timestamp: Date.now()
+    };
+  }
+
+  // ==================== Files ====================
+
+  /** Stream a file, optionally limited to `range=start-end` (end exclusive). */
+  private async readFile(url: URL, res: ServerResponse): Promise<void> {
+    const path = this.resolvePath(url.searchParams.get('path'));
+    const info = await stat(path).catch((error) => {
+      throw AgentError.fromFsError(error, path);
+    });
+    if (info.isDirectory()) {
+      throw new AgentError(400, 'PATH_IS_DIRECTORY', `Path is a directory: ${path}`);
+    }
+
+    let start = 0;
+    let end = info.size;
+    const range = url.searchParams.get('range');
+    if (range) {
+      const match = range.match(/^(\d+)-(\d*)$/);
+      if (!match) throw new AgentError(400, 'BAD_REQUEST', `Invalid range: ${range}`);
+      start = Math.min(Number(match[1]), info.size);
+      end = match[2] ? Math.min(Math.max(Number(match[2]), start), info.size) : info.size;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': end - start
+    });
+    if (end === start) {
+      res.end();
+      return;
+    }
+    await pipeline(createReadStream(path, { start, end: end - 1 }), res);
+  }
+
+  /** Write the raw request body to `path`, creating parent directories. */
+  private async writeFile(url: URL, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = this.resolvePath(url.searchParams.get('path'));
+    const modeParam = url.searchParams.get('mode');
+    const mode = modeParam ? Number.parseInt(modeParam, 8) : undefined;
+    if (mode !== undefined && Number.isNaN(mode)) {
+      throw new AgentError(400, 'BAD_REQUEST', `Invalid mode: ${modeParam}`);
+    }
+
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      const file = createWriteStream(path, { mode });
+      await pipeline(req, file);
+      if (mode !== undefined) await chmod(path, mode);
+      const body: AgentWriteFileResponse = { path, bytesWritten: file.bytesWritten };
+      this.json(res, 200, body);
+    } catch (error) {
+      throw AgentError.fromFsError(error, path);
+    }
+  }
+
+  /** lstat each path; missing paths are left out. */
+  private async statFiles(paths: string[]): Promise<AgentFileInfo[]> {
+    const files: AgentFileInfo[] = [];
+    for (const path of paths.map((p) => this.resolvePath(p))) {
+      const info = await lstat(path).catch(() => null);
+      if (!info) continue;
+      files.push({
+        path,
+        size: info.size,
+        mode: info.mode & 0o7777,
+        modifiedAt: info.mtime.toISOString(),
+        createdAt: info.birthtime.toISOString(),
+        isDirectory: info.isDirectory(),
+        isFile: info.isFile(),
+        isSymlink: info.isSymbolicLink()
+      });
+    }
+    return files;
+  }
+
+  private async listDirectory(url: URL): Promise<AgentDirectoryEntry[]> {
+    const path = this.resolvePath(url.searchParams.get('path'));
+    try {
+      const entries: AgentDirectoryEntry[] = [];
+      for (const dirent of await readdir(path, { withFileTypes: true })) {
+        const entryPath = join(path, dirent.name);
+        const info = await stat(entryPath).catch(() => null);
+        entries.push({
+          name: dirent.name,
+          path: entryPath,
+          isDirectory: info?.isDirectory() ?? dirent.isDirectory(),
+          isFile: info?.isFile() ?? dirent.isFile(),
+          size: info?.size ?? 0,
+          modifiedAt: (info?.mtime ?? new Date(0)).toISOString()
+        });
+      }
+      return entries;
+    } catch (error) {
+      throw AgentError.fromFsError(error, path);
+    }
+  }
+
+  // ==================== Processes ====================
+
+  /**
+   * Spawn `command` in its own process group so signals reach its children.
+   * Background processes have no stdin; their output is kept for
+   * `GET /v1/processes/{id}/output`.
+   */
+  private startProcess(request: AgentStartProcessRequest, background: boolean): TrackedProcess {
+    const cwd = request.cwd ? this.resolvePath(request.cwd) : this.rootDir;
+    const child = spawn(this.shell, ['-c', request.command], {
+      cwd,
+      env: { ...process.env, ...request.env },
+      detached: true,
+      stdio: background ? ['ignore', 'pipe', 'pipe'] : 'pipe'
+    });
+
+    const tracked: TrackedProcess = {
+      child,
+      info: {
+        id: randomUUID(),
+        pid: child.pid ?? -1,
+        command: request.command,
+        cwd,
+        startedAt: new Date().toISOString(),
+        running: child.pid !== undefined,
+        exitCode: null,
+        background
+      }
+    };
+    child.on('error', () => {
+      tracked.info.running = false;
+    });
+    child.on('exit', (code) => {
+      tracked.info.running = false;
+      tracked.info.exitCode = code;
+      this.pruneFinished();
+    });
+    if (background) {
+      const maxBytes = this.options.maxOutputBytes ?? 1024 * 1024;
+      const output = {
+        stdout: new OutputLog(maxBytes),
+        stderr: new OutputLog(maxBytes),
+        closed: false
+      };
+      child.stdout?.on('data', (chunk: Buffer) => output.stdout.append(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => output.stderr.append(chunk));
+      child.on('close', () => {
+        output.closed = true;
+      });
+      tracked.output = output;
+    }
+    this.processes.set(tracked.info.id, tracked);
+    return tracked;
+  }
+
+  /** Output of a background process from `?stdout=` and `?stderr=` byte offsets. */
+  private readOutput(tracked: TrackedProcess, url: URL): AgentProcessOutput {
+    if (!tracked.output) {
+      throw new AgentError(404, 'NOT_FOUND', `No output recorded for process ${tracked.info.id}`);
+    }
+    const offset = (name: string) => Math.max(0, Number(url.searchParams.get(name)) || 0);
+    const stdout = tracked.output.stdout.read(offset('stdout'));
+    const stderr = tracked.output.stderr.read(offset('stderr'));
+    return {
+      stdout: stdout.data.toString('base64'),
+      stderr: stderr.data.toString('base64'),
+      stdoutOffset: stdout.offset,
+      stderrOffset: stderr.offset,
+      running: tracked.info.running,
+      exitCode: tracked.info.exitCode,
+      done: !tracked.info.running && tracked.output.closed
+    };
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.processes.values()].filter((p) => !p.info.running);
+    const excess = finished.length - (this.options.maxFinishedProcesses ?? 100);
+    for (const tracked of finished.slice(0, Math.max(0, excess))) {
+      this.processes.delete(tracked.info.id);
+    }
+  }
+
+  private signal(tracked: TrackedProcess, signal: NodeJS.Signals): void {
+    if (!tracked.info.running) return;
+    try {
+      process.kill(-tracked.info.pid, signal);
+    } catch {
+      tracked.child.kill(signal);
+    }
+  }
+
+  /** Kill every running process, e.g. when the server shuts down. */
+  killAll(): void {
+    for (const tracked of this.processes.values()) this.signal(tracked, 'SIGKILL');
+  }
+
+  // ==================== Exec stream ====================
+
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? '/', 'http://agent');
+    const reject = (status: string, error: AgentErrorBody) => {
+      const body = JSON.stringify(error);
+      socket.end(
+        `HTTP/1.1 ${status}\r\nContent-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\nConnection: close\r\n\r\n${body}`
+      );
+    };
+
+    if (!this.authorized(req)) {
+      return reject('401 Unauthorized', { message: 'Unauthorized', code: 'UNAUTHORIZED' });
+    }
+    if (url.pathname !== `${AGENT_API_PREFIX}/exec`) {
+      return reject('404 Not Found', { message: 'No such endpoint', code: 'NOT_FOUND' });
+    }
+
+    const ws = acceptWebSocket(req, socket, head, [AGENT_EXEC_PROTOCOL]);
+    if (ws) void this.exec(ws);
+  }
+
+  private async exec(ws: WebSocketConnection): Promise<void> {
+    const sendEvent = (message: AgentExecServerMessage) =>
+      ws.send(JSON.stringify(message)).catch(() => {});
+    const messages = ws[Symbol.asyncIterator]();
+
+    let tracked: TrackedProcess | undefined;
+    try {
+      const first = await messages.next();
+      if (first.done) return;
+      const start = first.value.binary
+        ? undefined
+        : (JSON.parse(Buffer.from(first.value.data).toString('utf8')) as AgentExecClientMessage);
+      if (start?.type !== 'start' || !start.command) {
+        await sendEvent({ type: 'error', message: 'Expected a start message' });
+        ws.close(1008, 'protocol error');
+        return;
+      }
+
+      tracked = this.startProcess(start, false);
+      const { child } = tracked;
+      if (!child.pid) {
+        await sendEvent({ type: 'error', message: `Failed to start ${this.shell}` });
+        ws.close(1011, 'spawn failed');
+        return;
+      }
+      await sendEvent({ type: 'started', id: tracked.info.id, pid: child.pid });
+      child.stdin!.on('error', () => {});
+      if (!start.stdin) child.stdin!.end();
+
+      // Pause the pipe until each chunk is flushed so a slow client
+      // applies backpressure to the command.
+      const forward = (stream: NodeJS.ReadableStream, channel: number) =>
+        stream.on('data', (data: Buffer) => {
+          stream.pause();
+          ws.send(Buffer.concat([Buffer.from([channel]), data]))
+            .catch(() => {})
+            .finally(() => stream.resume());
+        });
+      forward(child.stdout!, AGENT_CHANNEL_STDOUT);
+      forward(child.stderr!, AGENT_CHANNEL_STDERR);
+
+      let timedOut = false;
+      const timer = start.timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            this.signal(tracked!, 'SIGKILL');
+          }, start.timeoutMs)
+        : undefined;
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        void sendEvent({ type: 'exit', exitCode, signal, timedOut }).then(() => ws.close());
+      });
+
+      for await (const message of { [Symbol.asyncIterator]: () => messages }) {
+        if (message.binary) {
+          if (message.data[0] === AGENT_CHANNEL_STDIN && child.stdin!.writable) {
+            child.stdin!.write(message.data.subarray(1));
+          }
+          continue;
+        }
+        const control = JSON.parse(Buffer.from(message.data).toString('utf8')) as
+          AgentExecClientMessage | undefined;
+        if (control?.type === 'stdin_close') child.stdin!.end();
+        if (control?.type === 'signal') this.signal(tracked, control.signal);
+      }
+    } catch {
+      // Connection lost or malformed message
+    } finally {
+      // The client went away before the command finished.
+      if (tracked?.info.running) this.signal(tracked, 'SIGKILL');
+    }
+  }
+}
+
+/**
+ * Create the reference sandbox agent: an HTTP server implementing the agent
+ * protocol (docs/HTTP_AGENT_PROTOCOL.md) for the machine it runs on. Start it
+ * inside a container or VM and connect with `HttpAgentAdapter`.
+ *
+ * Running processes are killed when the server closes.
+ *
+ * @throws {SandboxException} If neither `token` nor `allowUnauthenticated` is set
+ *
+ * @example
+ * ```typescript
+ * const server = createSandboxAgent({ token: process.env.AGENT_TOKEN, rootDir: '/workspace' });
+ * server.listen(8080);
+ * ```
+ */
+export function createSandboxAgent(options: SandboxAgentOptions = {}): Server {
+  const agent = new SandboxAgent(options);
+  const server = createServer((req, res) => {
+    void agent.handle(req, res);
+  });
+  server.on('upgrade', (req, socket, head) => agent.handleUpgrade(req, socket, head));
+  server.on('close', () => agent.killAll());
+  return server;
+}
@@ -41,6 +41,7 @@ export type SandboxErrorCode =
   | 'UNEXPECTED_RESPONSE'
   | 'FEATURE_NOT_SUPPORTED'
   | 'SANDBOX_NOT_FOUND'
+  | 'SNAPSHOT_NOT_FOUND'
   | 'PERMISSION_DENIED'
   | 'FILE_NOT_FOUND'
   | 'FILE_ALREADY_EXISTS'
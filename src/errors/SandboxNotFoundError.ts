@@ -0,0 +1,20 @@
+import { SandboxException } from './SandboxException';
+
+/**
+ * Thrown when attaching to a sandbox that does not exist.
+ */
+export class SandboxNotFoundError extends SandboxException {
+  constructor(
+    public readonly sandboxId: string,
+    public readonly provider?: string,
+    cause?: unknown
+  ) {
+    super(
+      `Sandbox not found: ${sandboxId}${provider ? ` (provider: ${provider})` : ''}`,
+      'SANDBOX_NOT_FOUND',
+      cause
+    );
+    this.name = 'SandboxNotFoundError';
+    Object.setPrototypeOf(this, SandboxNotFoundError.prototype);
+  }
+}
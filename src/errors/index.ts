@@ -3,5 +3,6 @@ export { ConnectionError } from './ConnectionError';
 export { FeatureNotSupportedError } from './FeatureNotSupportedError';
 export { type FileErrorCode, FileOperationError } from './FileOperationError';
 export { type SandboxErrorCode, SandboxException } from './SandboxException';
+export { SandboxNotFoundError } from './SandboxNotFoundError';
 export { SandboxStateError } from './SandboxStateError';
 export { SandboxReadyTimeoutError, TimeoutError } from './TimeoutError';
@@ -1,7 +1,17 @@
 // Export adapters
 export * from './adapters';
+// Export the reference sandbox agent
+export * from './agent';
 // Export errors
 export * from './errors';
+// Export provider-wide sandbox management
+export * from './management';
+// Export snapshot stores
+export * from './snapshot';
+// Export host/sandbox directory sync
+export * from './sync';
+// Export stateful shell sessions
+export * from './session';
 // Export interfaces
 export * from './interfaces';
 // Export types
@@ -0,0 +1,31 @@
+import type { CodeContext, CodeContextOptions, CodeExecution, RunCodeOptions } from '../types';
+
+/**
+ * Interface for stateful code execution in Jupyter-style kernels, e.g. for
+ * data-analysis agents that build on earlier results and plot charts.
+ * Follows Interface Segregation Principle.
+ */
+export interface ICodeInterpreter {
+  /**
+   * Run code in a kernel. Variables, imports and definitions persist between
+   * calls to the same context.
+   * @param code Code to run
+   * @param options Language or context to run in, and timeout
+   * @returns Results, output and the error raised by the code, if any
+   * @throws {TimeoutError} If the execution outlives `timeoutMs`
+   * @throws {FeatureNotSupportedError} If no kernel is available in the sandbox
+   */
+  runCode(code: string, options?: RunCodeOptions): Promise<CodeExecution>;
+
+  /**
+   * Start a new context, isolated from the default one of its language.
+   * @param options Language and working directory of the context
+   */
+  createCodeContext(options?: CodeContextOptions): Promise<CodeContext>;
+
+  /**
+   * Shut down a context created with createCodeContext.
+   * @param contextId ID of the context
+   */
+  removeCodeContext(contextId: string): Promise<void>;
+}
@@ -1,11 +1,14 @@
 import type {
+  ArchiveOptions,
   ContentReplaceEntry,
   DirectoryEntry,
   FileDeleteResult,
+  FileHashResult,
   FileInfo,
   FileReadResult,
   FileWriteEntry,
   FileWriteResult,
+  HashFilesOptions,
   MoveEntry,
   PermissionEntry,
   ReadFileOptions,
@@ -76,6 +79,30 @@ export interface IFileSystem {
    */
   writeFileStream(path: string, stream: ReadableStream<Uint8Array>): Promise<void>;
 
+  // ==================== Archive Operations ====================
+
+  /**
+   * Export a directory as an archive.
+   * Entries are relative to the directory itself.
+   * @param path Directory to export
+   * @param options Archive format (default: tar)
+   * @returns Stream of archive bytes; errors surface when reading it
+   */
+  exportDirectory(path: string, options?: ArchiveOptions): ReadableStream<Uint8Array>;
+
+  /**
+   * Extract an archive into a directory, creating it as needed.
+   * Existing files are overwritten.
+   * @param path Target directory
+   * @param stream Archive bytes
+   * @param options Archive format (default: tar)
+   */
+  importArchive(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: ArchiveOptions
+  ): Promise<void>;
+
   // ==================== Directory Operations ====================
 
   /**
@@ -115,6 +142,15 @@ export interface IFileSystem {
    */
   getFileInfo(paths: string[]): Promise<Map<string, FileInfo>>;
 
+  /**
+   * Compute checksums of files inside the sandbox.
+   * Only the digests are transferred, not the file contents.
+   * @param paths Files to hash
+   * @param options Hash options (algorithm, default: sha256)
+   * @returns Array of results (one per path, may include errors)
+   */
+  hashFiles(paths: string[], options?: HashFilesOptions): Promise<FileHashResult[]>;
+
   /**
    * Set file permissions.
    * @param entries Permission changes to apply
@@ -0,0 +1,58 @@
+import type { ExecuteResult, ProcessInfo, ProcessSignal, StreamHandlers } from '../types';
+
+/**
+ * Interface for inspecting and controlling background processes started
+ * with `executeBackground`.
+ * Follows Interface Segregation Principle.
+ *
+ * Process state lives in the sandbox where the provider allows it, so a new
+ * adapter instance can regain control of processes started by another one.
+ */
+export interface IProcessManager {
+  /**
+   * List background processes.
+   * @returns Known processes, running and exited (provider-dependent)
+   */
+  listProcesses(): Promise<ProcessInfo[]>;
+
+  /**
+   * Get a background process.
+   * @param sessionId The session ID from executeBackground
+   * @returns Process information, or null if the session is unknown
+   */
+  getProcess(sessionId: string): Promise<ProcessInfo | null>;
+
+  /**
+   * Send a signal to a background process and its children.
+   * @param sessionId The session ID from executeBackground
+   * @param signal Signal to send (default: SIGTERM)
+   * @throws {CommandExecutionError} If the session is not found
+   */
+  signal(sessionId: string, signal?: ProcessSignal): Promise<void>;
+
+  /**
+   * Stream a background process's output from the start, follow it until
+   * the process exits, then call `onComplete` with the collected result.
+   *
+   * How much earlier output is replayed depends on the provider: httpagent,
+   * aliyunfc and local keep the last 1 MiB per stream, the polyfill keeps
+   * everything in its log files, and opensandbox merges stderr into stdout.
+   * e2b keeps no history, so only output produced after this call is
+   * delivered and the result holds only that part.
+   * @param sessionId The session ID from executeBackground
+   * @param handlers Output and completion handlers
+   * @throws {CommandExecutionError} If the session is not found
+   */
+  attachBackground(sessionId: string, handlers: StreamHandlers): Promise<void>;
+
+  /**
+   * Wait for a background process to exit. The output in the result is
+   * limited the same way as for `attachBackground`.
+   * @param sessionId The session ID from executeBackground
+   * @param timeoutMs Maximum time to wait; the process keeps running when it elapses
+   * @returns Output and exit code of the process
+   * @throws {CommandExecutionError} If the session is not found
+   * @throws {TimeoutError} If the process is still running after `timeoutMs`
+   */
+  waitForBackground(sessionId: string, timeoutMs?: number): Promise<ExecuteResult>;
+}
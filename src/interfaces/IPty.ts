@@ -0,0 +1,16 @@
+import type { PtyHandle, PtyOptions } from '../types';
+
+/**
+ * Interface for interactive terminal sessions, e.g. to back a web terminal
+ * or drive REPLs and full-screen programs that `execute` cannot.
+ * Follows Interface Segregation Principle.
+ */
+export interface IPty {
+  /**
+   * Open a shell attached to a pseudo-terminal.
+   * @param options Terminal size, shell, environment and working directory
+   * @returns Handle to write input, read output, resize and close the terminal
+   * @throws {FeatureNotSupportedError} If the provider cannot allocate terminals
+   */
+  openPty(options?: PtyOptions): Promise<PtyHandle>;
+}
@@ -1,6 +1,9 @@
+import type { ICodeInterpreter } from './ICodeInterpreter';
 import type { ICommandExecution } from './ICommandExecution';
 import type { IFileSystem } from './IFileSystem';
 import type { IHealthCheck } from './IHealthCheck';
+import type { IProcessManager } from './IProcessManager';
+import type { IPty } from './IPty';
 import type { ISandboxLifecycle } from './ISandboxLifecycle';
 
 /**
@@ -13,7 +16,15 @@ import type { ISandboxLifecycle } from './ISandboxLifecycle';
  * Following Interface Segregation Principle, this interface
  * is composed of smaller, focused interfaces.
  */
-export interface ISandbox extends ISandboxLifecycle, ICommandExecution, IFileSystem, IHealthCheck {
+export interface ISandbox
+  extends
+    ISandboxLifecycle,
+    ICommandExecution,
+    IProcessManager,
+    IPty,
+    ICodeInterpreter,
+    IFileSystem,
+    IHealthCheck {
   /** Provider name (e.g., 'opensandbox') */
   readonly provider: string;
 }
@@ -1,4 +1,11 @@
-import type { SandboxId, SandboxInfo, SandboxStatus } from '../types';
+import type {
+  RestoreSnapshotOptions,
+  SandboxId,
+  SandboxInfo,
+  SandboxStatus,
+  SnapshotInfo,
+  SnapshotOptions
+} from '../types';
 
 /**
  * Interface for sandbox lifecycle operations.
@@ -22,6 +29,15 @@ export interface ISandboxLifecycle {
    */
   create(): Promise<void>;
 
+  /**
+   * Attach to an existing sandbox: never creates or starts it, and refreshes
+   * `status` from the provider.
+   * @param sandboxId Sandbox to attach to. Defaults to the ID the adapter was
+   * configured with; adapters bound to a configured ID reject a different one.
+   * @throws {SandboxNotFoundError} If the sandbox does not exist
+   */
+  connect(sandboxId?: SandboxId): Promise<void>;
+
   /**
    * Start a stopped sandbox.
    */
@@ -56,4 +72,20 @@ export interface ISandboxLifecycle {
    * @param additionalSeconds Seconds to extend
    */
   renewExpiration(additionalSeconds: number): Promise<void>;
+
+  /**
+   * Take a snapshot of the sandbox. Uses the provider's native snapshots
+   * unless `options.store` is given, in which case `rootPath` is archived
+   * into the store.
+   * @throws {FeatureNotSupportedError} If the provider has no native
+   * snapshots and no store is given
+   */
+  createSnapshot(options?: SnapshotOptions): Promise<SnapshotInfo>;
+
+  /**
+   * Roll the sandbox back to a snapshot taken by {@link createSnapshot}.
+   * Pass the same store the snapshot was taken with, if any.
+   * @param snapshotId ID from the returned {@link SnapshotInfo}
+   */
+  restoreSnapshot(snapshotId: string, options?: RestoreSnapshotOptions): Promise<void>;
 }
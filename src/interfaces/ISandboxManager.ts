@@ -0,0 +1,23 @@
+import type { SandboxId, SandboxInfo, SandboxListFilter } from '../types';
+
+/**
+ * Provider-wide view of sandboxes, independent of any single sandbox
+ * instance. Used to find and clean up sandboxes nobody holds a handle to.
+ */
+export interface ISandboxManager {
+  /** Provider name, matching `ISandbox.provider` */
+  readonly provider: string;
+
+  /**
+   * List the provider's sandboxes.
+   * @param filter Conditions every returned sandbox matches
+   */
+  listSandboxes(filter?: SandboxListFilter): Promise<SandboxInfo[]>;
+
+  /**
+   * Delete a sandbox by ID. Deleting a sandbox that no longer exists is not
+   * an error.
+   * @param sandboxId ID as reported by {@link listSandboxes}
+   */
+  deleteSandbox(sandboxId: SandboxId): Promise<void>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Blob store for archive snapshots. Holds the tar archive of a sandbox
+ * workspace under its snapshot ID.
+ */
+export interface ISnapshotStore {
+  /**
+   * Store an archive, replacing any archive under the same key.
+   * @param key Snapshot ID
+   * @param data gzip-compressed tar archive
+   */
+  put(key: string, data: Uint8Array): Promise<void>;
+
+  /**
+   * Load an archive.
+   * @param key Snapshot ID
+   * @returns The archive, or null if the key is unknown
+   */
+  get(key: string): Promise<Uint8Array | null>;
+
+  /**
+   * Remove an archive. Removing an unknown key is not an error.
+   * @param key Snapshot ID
+   */
+  delete(key: string): Promise<void>;
+}
@@ -1,5 +1,10 @@
+export type { ICodeInterpreter } from './ICodeInterpreter';
 export type { ICommandExecution } from './ICommandExecution';
 export type { IFileSystem } from './IFileSystem';
 export type { IHealthCheck } from './IHealthCheck';
+export type { IPty } from './IPty';
 export type { ISandbox } from './ISandbox';
 export type { ISandboxLifecycle } from './ISandboxLifecycle';
+export type { IProcessManager } from './IProcessManager';
+export type { ISandboxManager } from './ISandboxManager';
+export type { ISnapshotStore } from './ISnapshotStore';
@@ -0,0 +1,404 @@
+import { SandboxException, TimeoutError } from '@/errors';
+import type { ISandbox } from '@/interfaces';
+
+/**
+ * Options for SandboxPool.
+ */
+export interface SandboxPoolOptions {
+  /**
+   * Builds a new, not yet created sandbox. Every call must use a fresh
+   * sandbox ID; the pool creates it with `ensureRunning()`.
+   */
+  factory: () => ISandbox | Promise<ISandbox>;
+  /**
+   * Ready sandboxes to keep on hand.
+   * @default 1
+   */
+  minIdle?: number;
+  /**
+   * Upper bound on sandboxes owned by the pool, leased ones included.
+   * @default Infinity
+   */
+  maxSize?: number;
+  /** Destroy idle sandboxes unused for longer than this (replacements are created) */
+  maxIdleMs?: number;
+  /**
+   * Ping idle sandboxes during maintenance and destroy unresponsive ones.
+   * @default true
+   */
+  healthCheck?: boolean;
+  /**
+   * Ping a sandbox before handing it out.
+   * @default true
+   */
+  validateOnAcquire?: boolean;
+  /**
+   * Interval of the eviction / health check / refill pass.
+   * @default 30000
+   */
+  maintenanceIntervalMs?: number;
+  /** Fail `acquire()` with TimeoutError after waiting this long at `maxSize` */
+  acquireTimeoutMs?: number;
+  /**
+   * Reset a released sandbox before it is reused, e.g. clear its workspace.
+   * Sandboxes whose reset fails are destroyed.
+   */
+  recycle?: (sandbox: ISandbox) => Promise<void>;
+  /** Called for failures in background work (creation, deletion, maintenance) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Point-in-time pool counters. Gauges describe the pool now; totals count
+ * since the pool was constructed.
+ */
+export interface SandboxPoolMetrics {
+  /** Sandboxes owned by the pool: idle + leased + pending */
+  size: number;
+  idle: number;
+  leased: number;
+  /** Sandboxes being created, validated or recycled */
+  pending: number;
+  /** `acquire()` calls waiting for a sandbox */
+  waiting: number;
+  created: number;
+  destroyed: number;
+  acquired: number;
+  released: number;
+  evicted: number;
+  healthCheckFailures: number;
+  creationFailures: number;
+}
+
+interface IdleSandbox {
+  sandbox: ISandbox;
+  idleSince: number;
+}
+
+interface Waiter {
+  resolve: (sandbox: ISandbox) => void;
+  reject: (error: unknown) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Keeps pre-created, ready sandboxes so `acquire()` does not pay for
+ * sandbox creation. One pool serves one provider and config, as fixed by
+ * its factory.
+ *
+ * @example
+ * ```typescript
+ * const pool = new SandboxPool({
+ *   factory: () => createSandbox('e2b', { apiKey, sandboxId: randomUUID() }),
+ *   minIdle: 3,
+ *   maxSize: 20,
+ *   maxIdleMs: 10 * 60 * 1000
+ * });
+ * await pool.start();
+ *
+ * const sandbox = await pool.acquire();
+ * try {
+ *   await sandbox.execute('python main.py');
+ * } finally {
+ *   await pool.release(sandbox);
+ * }
+ * ```
+ */
+export class SandboxPool {
+  private idle: IdleSandbox[] = [];
+  private leased = new Set<ISandbox>();
+  private pending = 0;
+  private waiters: Waiter[] = [];
+  private closed = false;
+  private timer?: NodeJS.Timeout;
+  private maintaining = false;
+  private counters = {
+    created: 0,
+    destroyed: 0,
+    acquired: 0,
+    released: 0,
+    evicted: 0,
+    healthCheckFailures: 0,
+    creationFailures: 0
+  };
+
+  constructor(private options: SandboxPoolOptions) {
+    if (this.minIdle > this.maxSize) {
+      throw new SandboxException('minIdle must not exceed maxSize', 'INVALID_ARGUMENT');
+    }
+  }
+
+  private get minIdle(): number {
+    return this.options.minIdle ?? 1;
+  }
+
+  private get maxSize(): number {
+    return this.options.maxSize ?? Infinity;
+  }
+
+  private get size(): number {
+    return this.idle.length + this.leased.size + this.pending;
+  }
+
+  /**
+   * Create the first `minIdle` sandboxes and start periodic maintenance.
+   *
+   * @throws The first sandbox creation error, if any
+   */
+  async start(): Promise<void> {
+    this.assertOpen();
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.maintain();
+      }, this.options.maintenanceIntervalMs ?? 30_000);
+      this.timer.unref();
+    }
+    await this.fill();
+  }
+
+  /**
+   * Take a ready sandbox, creating one when none is idle. At `maxSize` the
+   * call waits for a release.
+   *
+   * @throws TimeoutError when `acquireTimeoutMs` elapses first
+   */
+  async acquire(): Promise<ISandbox> {
+    this.assertOpen();
+
+    let entry: IdleSandbox | undefined;
+    while ((entry = this.idle.pop())) {
+      if (this.options.validateOnAcquire === false) {
+        return this.lease(entry.sandbox);
+      }
+      this.pending++;
+      const healthy = await this.isHealthy(entry.sandbox);
+      this.pending--;
+      if (healthy && !this.closed) {
+        return this.lease(entry.sandbox);
+      }
+      await this.destroy(entry.sandbox);
+      this.assertOpen();
+    }
+
+    if (this.size < this.maxSize) {
+      this.pending++;
+      let sandbox: ISandbox;
+      try {
+        sandbox = await this.createSandbox();
+      } finally {
+        this.pending--;
+      }
+      if (this.closed) {
+        await this.destroy(sandbox);
+        this.assertOpen();
+      }
+      return this.lease(sandbox);
+    }
+
+    return new Promise<ISandbox>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+      const timeoutMs = this.options.acquireTimeoutMs;
+      if (timeoutMs !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new TimeoutError('Timed out waiting for a pooled sandbox', timeoutMs, 'acquire'));
+        }, timeoutMs);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Return a leased sandbox. It is recycled for reuse unless `destroy` is
+   * set, the recycle hook fails or the pool is closed.
+   *
+   * @throws SandboxException if the sandbox is not leased from this pool
+   */
+  async release(sandbox: ISandbox, options: { destroy?: boolean } = {}): Promise<void> {
+    if (!this.leased.delete(sandbox)) {
+      throw new SandboxException('Sandbox is not leased from this pool', 'INVALID_ARGUMENT');
+    }
+    this.counters.released++;
+
+    let reusable = !options.destroy && !this.closed;
+    if (reusable && this.options.recycle) {
+      this.pending++;
+      try {
+        await this.options.recycle(sandbox);
+      } catch (error) {
+        this.options.onError?.(error);
+        reusable = false;
+      } finally {
+        this.pending--;
+      }
+    }
+
+    if (reusable && !this.closed) {
+      this.offer(sandbox);
+      return;
+    }
+    await this.destroy(sandbox);
+    void this.fill().catch(() => undefined);
+  }
+
+  /** Current pool counters. */
+  getMetrics(): SandboxPoolMetrics {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      leased: this.leased.size,
+      pending: this.pending,
+      waiting: this.waiters.length,
+      ...this.counters
+    };
+  }
+
+  /**
+   * Stop maintenance, reject waiting `acquire()` calls and destroy idle
+   * sandboxes. Leased sandboxes are destroyed when released.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new SandboxException('Sandbox pool is closed', 'INVALID_ARGUMENT'));
+    }
+    const idle = this.idle.splice(0);
+    await Promise.all(idle.map((entry) => this.destroy(entry.sandbox)));
+  }
+
+  /**
+   * Evict sandboxes idle past `maxIdleMs`, ping the rest and refill to
+   * `minIdle`. Runs periodically after {@link start}.
+   */
+  async maintain(): Promise<void> {
+    if (this.closed || this.maintaining) return;
+    this.maintaining = true;
+    try {
+      const now = Date.now();
+      const { maxIdleMs } = this.options;
+      const checked = this.idle.splice(0);
+      this.pending += checked.length;
+
+      const results = await Promise.all(
+        checked.map(async (entry) => {
+          if (maxIdleMs !== undefined && now - entry.idleSince > maxIdleMs) {
+            this.counters.evicted++;
+            return false;
+          }
+          return this.options.healthCheck === false || this.isHealthy(entry.sandbox);
+        })
+      );
+
+      this.pending -= checked.length;
+      const healthy = checked.filter((_, i) => results[i]);
+      // Keep the most recently used sandboxes on top of the stack.
+      this.idle.unshift(...healthy);
+      await Promise.all(checked.filter((_, i) => !results[i]).map((e) => this.destroy(e.sandbox)));
+      if (this.closed) {
+        await Promise.all(this.idle.splice(0).map((entry) => this.destroy(entry.sandbox)));
+        return;
+      }
+      this.serveWaiters();
+      // Creation failures are reported through onError by grow().
+      await this.fill().catch(() => undefined);
+    } catch (error) {
+      this.options.onError?.(error);
+    } finally {
+      this.maintaining = false;
+    }
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new SandboxException('Sandbox pool is closed', 'INVALID_ARGUMENT');
+    }
+  }
+
+  private lease(sandbox: ISandbox): ISandbox {
+    this.leased.add(sandbox);
+    this.counters.acquired++;
+    void this.fill().catch(() => undefined);
+    return sandbox;
+  }
+
+  /** Hand a ready sandbox to the first waiter, or park it as idle. */
+  private offer(sandbox: ISandbox): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.leased.add(sandbox);
+      this.counters.acquired++;
+      waiter.resolve(sandbox);
+      return;
+    }
+    this.idle.push({ sandbox, idleSince: Date.now() });
+  }
+
+  private serveWaiters(): void {
+    while (this.waiters.length && this.idle.length) {
+      this.offer(this.idle.pop()!.sandbox);
+    }
+  }
+
+  /** Create sandboxes until `minIdle` are idle (or pending) and waiters are served. */
+  private async fill(): Promise<void> {
+    const creations: Promise<void>[] = [];
+    while (
+      !this.closed &&
+      this.size < this.maxSize &&
+      this.idle.length + this.pending < this.minIdle + this.waiters.length
+    ) {
+      creations.push(this.grow());
+    }
+    const results = await Promise.allSettled(creations);
+    const failure = results.find((r) => r.status === 'rejected');
+    if (failure) throw failure.reason;
+  }
+
+  private async grow(): Promise<void> {
+    this.pending++;
+    let sandbox: ISandbox;
+    try {
+      sandbox = await this.createSandbox();
+    } catch (error) {
+      this.options.onError?.(error);
+      throw error;
+    } finally {
+      this.pending--;
+    }
+    if (this.closed) {
+      await this.destroy(sandbox);
+      return;
+    }
+    this.offer(sandbox);
+  }
+
+  private async createSandbox(): Promise<ISandbox> {
+    let sandbox: ISandbox | undefined;
+    try {
+      sandbox = await this.options.factory();
+      await sandbox.ensureRunning();
+      this.counters.created++;
+      return sandbox;
+    } catch (error) {
+      this.counters.creationFailures++;
+      if (sandbox) await sandbox.delete().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async isHealthy(sandbox: ISandbox): Promise<boolean> {
+    const healthy = await sandbox.ping().catch(() => false);
+    if (!healthy) this.counters.healthCheckFailures++;
+    return healthy;
+  }
+
+  private async destroy(sandbox: ISandbox): Promise<void> {
+    this.counters.destroyed++;
+    await sandbox.delete().catch((error) => this.options.onError?.(error));
+  }
+}
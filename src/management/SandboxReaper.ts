@@ -0,0 +1,141 @@
+import { SandboxException } from '@/errors';
+import type { ISandboxManager } from '@/interfaces';
+import type { SandboxInfo, SandboxListFilter, SandboxState } from '@/types';
+
+/** Why a sandbox was selected for deletion. */
+export type SandboxReapReason = 'maxAge' | 'maxIdle';
+
+/** Outcome for one selected sandbox. */
+export interface SandboxReapResult {
+  sandbox: SandboxInfo;
+  reason: SandboxReapReason;
+  /** False in dry-run mode and when the deletion failed */
+  deleted: boolean;
+  error?: unknown;
+}
+
+/**
+ * Options for SandboxReaper. At least one of `maxAgeMs` and `maxIdleMs` is
+ * required.
+ */
+export interface SandboxReaperOptions {
+  /** Delete sandboxes created longer ago than this */
+  maxAgeMs?: number;
+  /**
+   * Delete sandboxes inactive for longer than this. Needs `lastActiveAt`;
+   * sandboxes without a known activity time are never idle.
+   */
+  maxIdleMs?: number;
+  /** Last activity time of a sandbox, e.g. from the application's own records */
+  lastActiveAt?: (sandbox: SandboxInfo) => Date | undefined;
+  /** Only consider sandboxes matching this filter */
+  filter?: SandboxListFilter;
+  /**
+   * Report what would be deleted without deleting anything.
+   * @default false
+   */
+  dryRun?: boolean;
+  /** Called for each selected sandbox after it was handled */
+  onReap?: (result: SandboxReapResult) => void;
+  /** Called when a scheduled run fails to list sandboxes */
+  onError?: (error: unknown) => void;
+}
+
+/** States in which a sandbox is already on its way out. */
+const SKIPPED_STATES = new Set<SandboxState>(['Deleting', 'UnExist']);
+
+/**
+ * Deletes a provider's sandboxes that are past a maximum age or idle time,
+ * so orphaned sandboxes do not keep running (and billing) forever.
+ *
+ * @example
+ * ```typescript
+ * const reaper = new SandboxReaper(createSandboxManager('e2b', { apiKey }), {
+ *   maxAgeMs: 24 * 60 * 60 * 1000,
+ *   filter: { metadata: { app: 'fastgpt' } }
+ * });
+ *
+ * const results = await reaper.run();
+ * reaper.start(10 * 60 * 1000);
+ * ```
+ */
+export class SandboxReaper {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<SandboxReapResult[]>;
+
+  constructor(
+    private manager: ISandboxManager,
+    private options: SandboxReaperOptions
+  ) {
+    if (options.maxAgeMs === undefined && options.maxIdleMs === undefined) {
+      throw new SandboxException('SandboxReaper needs maxAgeMs or maxIdleMs', 'INVALID_ARGUMENT');
+    }
+  }
+
+  /**
+   * Select the sandboxes past their limits and delete them (unless in dry-run
+   * mode). Failed deletions are reported in the results, not thrown.
+   *
+   * @throws Whatever the manager throws when listing fails
+   */
+  async run(now: Date = new Date()): Promise<SandboxReapResult[]> {
+    const sandboxes = await this.manager.listSandboxes(this.options.filter);
+    const results: SandboxReapResult[] = [];
+
+    for (const sandbox of sandboxes) {
+      const reason = this.reasonFor(sandbox, now.getTime());
+      if (!reason) continue;
+
+      const result: SandboxReapResult = { sandbox, reason, deleted: false };
+      if (!this.options.dryRun) {
+        try {
+          await this.manager.deleteSandbox(sandbox.id);
+          result.deleted = true;
+        } catch (error) {
+          result.error = error;
+        }
+      }
+      results.push(result);
+      this.options.onReap?.(result);
+    }
+    return results;
+  }
+
+  /**
+   * Run every `intervalMs` until {@link stop}. Runs never overlap; the timer
+   * does not keep the process alive.
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.running = this.run();
+      this.running
+        .catch((error) => this.options.onError?.(error))
+        .finally(() => {
+          this.running = undefined;
+        });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /** Stop scheduled runs. A run in progress completes. */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private reasonFor(sandbox: SandboxInfo, now: number): SandboxReapReason | undefined {
+    if (SKIPPED_STATES.has(sandbox.status.state)) return undefined;
+
+    const { maxAgeMs, maxIdleMs, lastActiveAt } = this.options;
+    if (maxAgeMs !== undefined && now - sandbox.createdAt.getTime() > maxAgeMs) {
+      return 'maxAge';
+    }
+    const activeAt = lastActiveAt?.(sandbox);
+    if (maxIdleMs !== undefined && activeAt && now - activeAt.getTime() > maxIdleMs) {
+      return 'maxIdle';
+    }
+    return undefined;
+  }
+}
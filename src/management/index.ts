@@ -0,0 +1,4 @@
+export { SandboxPool } from './SandboxPool';
+export type { SandboxPoolMetrics, SandboxPoolOptions } from './SandboxPool';
+export { SandboxReaper } from './SandboxReaper';
+export type { SandboxReapReason, SandboxReapResult, SandboxReaperOptions } from './SandboxReaper';
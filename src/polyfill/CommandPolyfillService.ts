@@ -1,7 +1,37 @@
-import { CommandExecutionError, FileOperationError } from '../errors';
+import { CommandExecutionError, FileOperationError, SandboxException } from '../errors';
 import type { ICommandExecution } from '../interfaces';
-import type { DirectoryEntry, FileInfo, SearchResult } from '../types';
+import type {
+  ArchiveFormat,
+  DirectoryEntry,
+  FileInfo,
+  HashAlgorithm,
+  ProcessInfo,
+  ProcessSignal,
+  PtyOptions,
+  SearchResult
+} from '../types';
 import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { DEFAULT_PTY_COLS, DEFAULT_PTY_ROWS, DEFAULT_PTY_SHELL } from '../utils/pty';
+import { shellQuote } from '../utils/shell';
+
+/**
+ * Output of a background session read from a position. Positions are byte
+ * offsets for the polyfill; native implementations may use other cursors.
+ */
+export interface BackgroundOutput {
+  /** stdout bytes from the requested offset */
+  stdout: Uint8Array;
+  /** stderr bytes from the requested offset */
+  stderr: Uint8Array;
+  /** Position to continue reading stdout from */
+  stdoutOffset: number;
+  /** Position to continue reading stderr from */
+  stderrOffset: number;
+  /** Whether the session exited and all of its output has been read */
+  done: boolean;
+  /** Exit code (null while running or when unknown) */
+  exitCode: number | null;
+}
 
 /**
  * Service that implements filesystem operations via command execution.
@@ -341,6 +371,59 @@ export class CommandPolyfillService {
     return infoMap;
   }
 
+  /**
+   * Compute a file checksum via sha256sum or md5sum.
+   */
+  async hashFile(path: string, algorithm: HashAlgorithm = 'sha256'): Promise<string> {
+    assertHashAlgorithm(algorithm);
+    const result = await this.executor.execute(`${algorithm}sum "${this.escapePath(path)}"`);
+
+    if (result.exitCode !== 0) {
+      throw this.createFileError(path, result.stderr);
+    }
+
+    // Output is "<hex digest>  <path>"; a leading backslash marks escaped names.
+    const hash = result.stdout.trim().replace(/^\\/, '').split(/\s/)[0];
+    if (!/^[0-9a-f]+$/.test(hash)) {
+      throw new FileOperationError(`Unexpected ${algorithm}sum output`, path, 'TRANSFER_ERROR');
+    }
+    return hash;
+  }
+
+  /**
+   * Compute checksums of several files with a single sha256sum or md5sum
+   * call. Each entry is the digest, or the error for a file that could not be
+   * hashed.
+   */
+  async hashFiles(
+    paths: string[],
+    algorithm: HashAlgorithm = 'sha256'
+  ): Promise<Array<string | FileOperationError>> {
+    assertHashAlgorithm(algorithm);
+    if (paths.length === 0) return [];
+
+    const result = await this.executor.execute(
+      `${algorithm}sum -- ${paths.map((path) => shellQuote(path)).join(' ')}`
+    );
+
+    // Digests are printed in argument order; files that failed are skipped
+    // and reported on stderr instead.
+    const lines = result.stdout.split('\n').filter(Boolean);
+    const errors = result.stderr.split('\n');
+    let next = 0;
+    return paths.map((path) => {
+      const digest = parseHashLine(lines[next]);
+      if (digest?.path === path) {
+        next++;
+        return digest.hash;
+      }
+      return this.createFileError(
+        path,
+        errors.find((line) => line.includes(`${path}:`)) ?? result.stderr
+      );
+    });
+  }
+
   /**
    * Set file permissions via chmod.
    */
@@ -446,6 +529,313 @@ export class CommandPolyfillService {
     }
   }
 
+  // ==================== Archive Operations ====================
+
+  /**
+   * Pack the contents of `directory` into `archivePath` with `tar` (or `zip`).
+   * Entry names are relative to the directory.
+   */
+  async createArchive(
+    directory: string,
+    archivePath: string,
+    format: ArchiveFormat = 'tar'
+  ): Promise<void> {
+    const dir = this.escapePath(directory);
+    const archive = this.escapePath(archivePath);
+    const command =
+      format === 'zip'
+        ? `rm -f "${archive}" && cd "${dir}" && zip -qry "${archive}" .`
+        : `tar -c${format === 'tar.gz' ? 'z' : ''}f "${archive}" -C "${dir}" .`;
+
+    const result = await this.executor.execute(command);
+    if (result.exitCode !== 0) {
+      throw this.createFileError(directory, result.stderr);
+    }
+  }
+
+  /**
+   * Extract `archivePath` into `directory` with `tar` (or `unzip`), creating
+   * the directory first and overwriting existing files.
+   */
+  async extractArchive(
+    archivePath: string,
+    directory: string,
+    format: ArchiveFormat = 'tar'
+  ): Promise<void> {
+    const dir = this.escapePath(directory);
+    const archive = this.escapePath(archivePath);
+    const command =
+      format === 'zip'
+        ? `mkdir -p "${dir}" && unzip -qo "${archive}" -d "${dir}"`
+        : `mkdir -p "${dir}" && tar -x${format === 'tar.gz' ? 'z' : ''}f "${archive}" -C "${dir}"`;
+
+    const result = await this.executor.execute(command);
+    if (result.exitCode !== 0) {
+      throw this.createFileError(directory, result.stderr);
+    }
+  }
+
+  // ==================== Process Operations ====================
+
+  /**
+   * Directory holding the pid, command, start time, exit code and output
+   * files of background sessions started through {@link backgroundScript}.
+   */
+  static readonly SESSION_DIR = '/tmp/.sandbox-sessions';
+
+  /** Maximum bytes of each stream returned by {@link readBackgroundOutput}. */
+  private static readonly OUTPUT_CHUNK_SIZE = 256 * 1024;
+
+  /**
+   * Build a script that runs `commandLine` in its own process group and
+   * records the session under {@link SESSION_DIR}, with stdout and stderr
+   * appended to `<id>.out` and `<id>.err`. The caller is responsible for
+   * running the script detached.
+   * @param sessionId Session ID (letters, digits, `_`, `.` and `-`)
+   * @param command User command, recorded for listing
+   * @param commandLine Shell command line that runs it
+   */
+  backgroundScript(sessionId: string, command: string, commandLine: string): string {
+    const file = `${CommandPolyfillService.SESSION_DIR}/${sessionId}`;
+    const encoded = bytesToBase64(new TextEncoder().encode(command));
+    // setsid makes the command a process group leader, so signals reach its
+    // children; the wrapper shell stays behind to record the exit code.
+    const run = `${commandLine} > ${file}.out 2> ${file}.err &`;
+    return [
+      `mkdir -p ${CommandPolyfillService.SESSION_DIR} && echo ${encoded} > ${file}.cmd && date +%s > ${file}.start || exit 1`,
+      `if command -v setsid > /dev/null 2>&1; then setsid ${run} else ${run} fi`,
+      `echo $! > ${file}.pid; wait $!; echo $? > ${file}.exit`
+    ].join('\n');
+  }
+
+  /**
+   * List background sessions recorded under {@link SESSION_DIR}.
+   */
+  async listProcesses(): Promise<ProcessInfo[]> {
+    return this.readSessions('*');
+  }
+
+  /**
+   * Get a recorded background session, or null if it is unknown.
+   */
+  async getProcess(sessionId: string): Promise<ProcessInfo | null> {
+    if (!CommandPolyfillService.isSessionId(sessionId)) return null;
+    const [process] = await this.readSessions(sessionId);
+    return process ?? null;
+  }
+
+  /**
+   * Send a signal to a recorded background session's process group.
+   * Signalling a session that already exited is a no-op.
+   */
+  async signalProcess(sessionId: string, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    if (!CommandPolyfillService.isSessionId(sessionId)) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    const file = `${CommandPolyfillService.SESSION_DIR}/${sessionId}`;
+    const name = signal.replace(/^SIG/, '');
+    const result = await this.executor.execute(
+      `[ -f ${file}.cmd ] || exit 3; [ -f ${file}.exit ] && exit 0; ` +
+        `pid=$(cat ${file}.pid 2>/dev/null); [ -n "$pid" ] || exit 0; ` +
+        `kill -s ${name} -- -$pid 2>/dev/null || kill -s ${name} $pid`
+    );
+
+    if (result.exitCode === 3) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'signal');
+    }
+    if (result.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Failed to send ${signal} to session ${sessionId}`,
+        'signal',
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+  }
+
+  /**
+   * Read a recorded background session's output from byte offsets. At most
+   * `OUTPUT_CHUNK_SIZE` bytes of each stream are returned per call, so
+   * callers keep reading until `done` is set.
+   */
+  async readBackgroundOutput(
+    sessionId: string,
+    stdoutOffset = 0,
+    stderrOffset = 0
+  ): Promise<BackgroundOutput> {
+    if (!CommandPolyfillService.isSessionId(sessionId)) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+    }
+    const file = `${CommandPolyfillService.SESSION_DIR}/${sessionId}`;
+    const max = CommandPolyfillService.OUTPUT_CHUNK_SIZE;
+    const read = (stream: string, offset: number) =>
+      `tail -c +${offset + 1} ${file}.${stream} 2>/dev/null | head -c ${max} | base64 -w 0; echo`;
+    // The status is read before the output, so a session reported as exited
+    // has no output left beyond what follows.
+    const result = await this.executor.execute(
+      `[ -f ${file}.cmd ] || exit 3; ` +
+        `pid=$(cat ${file}.pid 2>/dev/null); code=$(cat ${file}.exit 2>/dev/null); ` +
+        `alive=0; [ -z "$code" ] && { [ -z "$pid" ] || kill -0 "$pid" 2>/dev/null; } && alive=1; ` +
+        `echo "$alive|$code"; ${read('out', stdoutOffset)}; ${read('err', stderrOffset)}`
+    );
+
+    if (result.exitCode === 3) {
+      throw new CommandExecutionError(`Session ${sessionId} not found`, 'attachBackground');
+    }
+    const [status = '', stdoutLine = '', stderrLine = ''] = result.stdout.split('\n');
+    const [alive, code] = status.trim().split('|');
+    if (result.exitCode !== 0 || alive === undefined) {
+      throw new CommandExecutionError(
+        `Failed to read output of session ${sessionId}`,
+        'attachBackground',
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+
+    const stdout = base64ToBytes(stdoutLine.trim());
+    const stderr = base64ToBytes(stderrLine.trim());
+    return {
+      stdout,
+      stderr,
+      stdoutOffset: stdoutOffset + stdout.length,
+      stderrOffset: stderrOffset + stderr.length,
+      done: alive !== '1' && stdout.length < max && stderr.length < max,
+      exitCode: code ? Number.parseInt(code, 10) : null
+    };
+  }
+
+  /**
+   * Print one `id|pid|start|exit|alive|command` line per session matching
+   * `pattern` and parse the output.
+   */
+  private async readSessions(pattern: string): Promise<ProcessInfo[]> {
+    const dir = CommandPolyfillService.SESSION_DIR;
+    const result = await this.executor.execute(
+      `for f in ${dir}/${pattern}.cmd; do [ -e "$f" ] || continue; ` +
+        `id=\${f##*/}; id=\${id%.cmd}; ` +
+        `pid=$(cat ${dir}/$id.pid 2>/dev/null); code=$(cat ${dir}/$id.exit 2>/dev/null); ` +
+        `alive=0; [ -z "$code" ] && { [ -z "$pid" ] || kill -0 "$pid" 2>/dev/null; } && alive=1; ` +
+        `echo "$id|$pid|$(cat ${dir}/$id.start 2>/dev/null)|$code|$alive|$(cat "$f")"; done`
+    );
+
+    const processes: ProcessInfo[] = [];
+    for (const line of result.stdout.split('\n')) {
+      const [sessionId, pid, start, code, alive, command] = line.trim().split('|');
+      if (!sessionId || command === undefined) continue;
+      processes.push({
+        sessionId,
+        pid: pid ? Number.parseInt(pid, 10) : undefined,
+        command: new TextDecoder().decode(base64ToBytes(command)),
+        status: alive === '1' ? 'running' : 'exited',
+        exitCode: code ? Number.parseInt(code, 10) : null,
+        startedAt: start ? new Date(Number.parseInt(start, 10) * 1000) : undefined
+      });
+    }
+    return processes;
+  }
+
+  /** Session IDs are file names, so they must not contain path separators. */
+  private static isSessionId(sessionId: string): boolean {
+    return /^[\w.-]+$/.test(sessionId);
+  }
+
+  // ==================== PTY Operations ====================
+
+  /**
+   * Build a script that records its terminal device and pid under
+   * {@link SESSION_DIR} as `<id>.tty` and `<id>.pid`, applies the terminal size,
+   * environment and working directory, and replaces itself with the shell.
+   * It must run attached to a terminal, e.g. under `ssh -tt`; see
+   * {@link ptyCommand} for transports that only have pipes.
+   * @param ptyId Terminal ID (letters, digits, `_`, `.` and `-`)
+   * @throws {CommandExecutionError} If an environment variable name is not a
+   * valid shell identifier
+   */
+  ptyScript(ptyId: string, options: PtyOptions = {}): string {
+    const dir = CommandPolyfillService.SESSION_DIR;
+    const env = { TERM: 'xterm-256color', ...options.env };
+    for (const key of Object.keys(env)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new CommandExecutionError(`Invalid environment variable name: ${key}`, 'openPty');
+      }
+    }
+    const cols = options.cols ?? DEFAULT_PTY_COLS;
+    const rows = options.rows ?? DEFAULT_PTY_ROWS;
+    return [
+      `mkdir -p ${dir} && tty > ${dir}/${ptyId}.tty && echo $$ > ${dir}/${ptyId}.pid`,
+      `stty cols ${cols} rows ${rows}`,
+      ...Object.entries(env).map(([key, value]) => `export ${key}=${shellQuote(value)}`),
+      ...(options.cwd ? [`cd ${shellQuote(options.cwd)} || exit 1`] : []),
+      `exec ${options.shell ?? DEFAULT_PTY_SHELL}`
+    ].join('; ');
+  }
+
+  /**
+   * Wrap {@link ptyScript} in `script`, which allocates a terminal for a
+   * command whose stdin and stdout are pipes. util-linux `script` is told to
+   * pass on the shell's exit code; busybox `script` cannot.
+   */
+  ptyCommand(ptyId: string, options: PtyOptions = {}): string {
+    return (
+      `flags=-qfc; script -V 2>/dev/null | grep -q util-linux && flags=-qefc; ` +
+      `exec script $flags ${shellQuote(this.ptyScript(ptyId, options))} /dev/null`
+    );
+  }
+
+  /**
+   * Resize a terminal started with {@link ptyScript}. The kernel sends
+   * SIGWINCH to the terminal's foreground process group.
+   */
+  async resizePty(ptyId: string, cols: number, rows: number): Promise<void> {
+    if (!CommandPolyfillService.isSessionId(ptyId)) {
+      throw new CommandExecutionError(`PTY ${ptyId} not found`, 'resizePty');
+    }
+    const file = `${CommandPolyfillService.SESSION_DIR}/${ptyId}.tty`;
+    const result = await this.executor.execute(
+      `[ -f ${file} ] || exit 3; stty -F "$(cat ${file})" cols ${cols} rows ${rows}`
+    );
+
+    if (result.exitCode === 3) {
+      throw new CommandExecutionError(`PTY ${ptyId} not found`, 'resizePty');
+    }
+    if (result.exitCode !== 0) {
+      throw new CommandExecutionError(
+        `Failed to resize PTY ${ptyId}`,
+        'resizePty',
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+  }
+
+  /**
+   * Send SIGHUP to the shell of a terminal started with {@link ptyScript},
+   * as a closing terminal would. For transports where closing the connection
+   * leaves the shell running. Best effort.
+   */
+  async hangUpPty(ptyId: string): Promise<void> {
+    if (!CommandPolyfillService.isSessionId(ptyId)) return;
+    const file = `${CommandPolyfillService.SESSION_DIR}/${ptyId}.pid`;
+    await this.executor
+      .execute(`[ -f ${file} ] && kill -HUP "$(cat ${file})"`)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Remove the terminal records of a closed PTY. Best effort.
+   */
+  async removePty(ptyId: string): Promise<void> {
+    if (!CommandPolyfillService.isSessionId(ptyId)) return;
+    const dir = CommandPolyfillService.SESSION_DIR;
+    await this.executor
+      .execute(`rm -f ${dir}/${ptyId}.tty ${dir}/${ptyId}.pid`)
+      .catch(() => undefined);
+  }
+
   // ==================== Health Check Polyfill ====================
 
   /**
@@ -585,3 +975,24 @@ export class CommandPolyfillService {
     return new FileOperationError(stderr, path, 'TRANSFER_ERROR');
   }
 }
+
+/** `algorithm` is interpolated into the command, so only known names pass. */
+function assertHashAlgorithm(algorithm: string): asserts algorithm is HashAlgorithm {
+  if (algorithm !== 'sha256' && algorithm !== 'md5') {
+    throw new SandboxException(`Unsupported hash algorithm: ${algorithm}`, 'INVALID_ARGUMENT');
+  }
+}
+
+/**
+ * Parse a `<hex digest>  <path>` line of sha256sum/md5sum output. A leading
+ * backslash marks a path with escaped backslashes and newlines.
+ */
+function parseHashLine(line: string | undefined): { hash: string; path: string } | null {
+  const match = line && /^(\\?)([0-9a-f]+) [ *](.*)$/.exec(line);
+  if (!match) return null;
+  const [, escaped, hash, path] = match;
+  return {
+    hash,
+    path: escaped ? path.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c)) : path
+  };
+}
@@ -0,0 +1,482 @@
+import {
+  CommandExecutionError,
+  FeatureNotSupportedError,
+  SandboxException,
+  TimeoutError
+} from '../errors';
+import type { ICommandExecution, IFileSystem } from '../interfaces';
+import type {
+  CodeContext,
+  CodeContextOptions,
+  CodeExecution,
+  CodeExecutionError,
+  CodeResult,
+  RunCodeOptions
+} from '../types';
+import { bytesToBase64 } from '../utils/base64';
+import { randomSuffix } from '../utils/id';
+import { shellQuote } from '../utils/shell';
+import { CommandPolyfillService } from './CommandPolyfillService';
+
+/** Kernel output as sent by the client script. */
+interface KernelOutput {
+  data: Record<string, unknown>;
+  isMainResult: boolean;
+}
+
+/** Response of the client script to a `run` request. */
+interface RunResponse {
+  timeout?: boolean;
+  results: KernelOutput[];
+  stdout: string;
+  stderr: string;
+  error: CodeExecutionError | null;
+  executionCount: number | null;
+}
+
+/** Kernel spec names of languages whose kernel is not named after them. */
+const KERNEL_NAMES: Record<string, string> = { python: 'python3', r: 'ir' };
+
+/** Responses carry base64 images, so allow far more than the default 1 MiB. */
+const MAX_RESPONSE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Runs code for providers without a native code interpreter, through a
+ * Jupyter Kernel Gateway started in the sandbox on first use.
+ *
+ * The gateway listens on localhost inside the sandbox only, so requests go
+ * through a small Python client (standard library only) run with `execute`.
+ * Each request is handed over in a file written with `writeFiles`, as code
+ * and setup can exceed the size limit of a command-line argument.
+ * Each language gets a default kernel, shared by everyone using the sandbox;
+ * createCodeContext starts additional ones. The sandbox needs Python 3 with
+ * `jupyter_kernel_gateway` (and the kernels of other languages) installed.
+ */
+export class JupyterGatewayService {
+  /** Directory holding the client script, gateway pid, token and default kernel IDs. */
+  static readonly DIR = `${CommandPolyfillService.SESSION_DIR}/jupyter`;
+
+  /** Port the gateway listens on inside the sandbox. */
+  static readonly PORT = 18888;
+
+  private starting?: Promise<void>;
+
+  constructor(
+    private readonly executor: ICommandExecution & Pick<IFileSystem, 'writeFiles'>,
+    private readonly provider: string,
+    private readonly port = JupyterGatewayService.PORT
+  ) {}
+
+  async runCode(code: string, options: RunCodeOptions = {}): Promise<CodeExecution> {
+    const language = options.language ?? 'python';
+    const response = await this.request<RunResponse>('runCode', {
+      action: 'run',
+      code,
+      id: options.contextId,
+      language: checkLanguage(language),
+      kernel: KERNEL_NAMES[language] ?? language,
+      setup: setupCode(language, undefined, this.provider),
+      timeoutMs: options.timeoutMs
+    });
+
+    if (response.timeout) {
+      throw new TimeoutError(
+        `Code execution timed out after ${options.timeoutMs}ms`,
+        options.timeoutMs ?? 0,
+        'runCode'
+      );
+    }
+    return {
+      results: response.results.map((output) => toCodeResult(output.data, output.isMainResult)),
+      stdout: response.stdout,
+      stderr: response.stderr,
+      error: response.error ?? undefined,
+      executionCount: response.executionCount ?? undefined
+    };
+  }
+
+  async createCodeContext(options: CodeContextOptions = {}): Promise<CodeContext> {
+    const language = options.language ?? 'python';
+    const { id } = await this.request<{ id: string }>('createCodeContext', {
+      action: 'create',
+      kernel: KERNEL_NAMES[checkLanguage(language)] ?? language,
+      setup: setupCode(language, options.cwd, this.provider)
+    });
+    return { id, language, cwd: options.cwd };
+  }
+
+  async removeCodeContext(contextId: string): Promise<void> {
+    await this.request('removeCodeContext', { action: 'remove', id: contextId });
+  }
+
+  /**
+   * Send a request to the client script, starting the gateway if needed.
+   * @throws {CommandExecutionError} If the request fails
+   */
+  private async request<T>(operation: string, body: Record<string, unknown>): Promise<T> {
+    await this.ensureStarted();
+
+    const dir = JupyterGatewayService.DIR;
+    const suffix = randomSuffix();
+    const requestPath = `${dir}/request-${suffix}.json`;
+    const [written] = await this.executor.writeFiles([
+      { path: requestPath, data: JSON.stringify(body), mode: 0o600 }
+    ]);
+    if (!written || written.error) {
+      throw new CommandExecutionError(
+        'Failed to write the Jupyter kernel gateway request',
+        operation,
+        written?.error ?? undefined
+      );
+    }
+
+    const result = await this.executor.execute(
+      `python3 ${dir}/client.py ${this.port} ${requestPath}; status=$?; rm -f ${requestPath}; exit $status`,
+      { maxOutputBytes: MAX_RESPONSE_BYTES }
+    );
+
+    let response: (T & { failure?: string }) | undefined;
+    try {
+      response = JSON.parse(result.stdout.trim().split('\n').at(-1) ?? '');
+    } catch {
+      response = undefined;
+    }
+    if (result.exitCode !== 0 || !response) {
+      // The gateway may have gone away; check on it again next time.
+      this.starting = undefined;
+      throw new CommandExecutionError(
+        'Jupyter kernel gateway request failed',
+        operation,
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+    if (response.failure) {
+      throw new CommandExecutionError(response.failure, operation);
+    }
+    return response;
+  }
+
+  private ensureStarted(): Promise<void> {
+    this.starting ??= this.start().catch((error: unknown) => {
+      this.starting = undefined;
+      throw error;
+    });
+    return this.starting;
+  }
+
+  /**
+   * Install the client script and start the gateway unless one is already
+   * running. The gateway gets a fresh token, readable by the sandbox user only.
+   */
+  private async start(): Promise<void> {
+    const dir = JupyterGatewayService.DIR;
+    const client = bytesToBase64(new TextEncoder().encode(CLIENT_SCRIPT));
+    const result = await this.executor.execute(
+      [
+        `mkdir -p ${dir} && echo ${client} | base64 -d > ${dir}/client.py || exit 1`,
+        `if [ -s ${dir}/gateway.pid ] && kill -0 "$(cat ${dir}/gateway.pid)" 2>/dev/null; then echo running`,
+        `elif python3 -c 'import kernel_gateway' 2>/dev/null; then`,
+        `  (umask 077 && python3 -c 'import secrets; print(secrets.token_hex(16))' > ${dir}/token) || exit 1`,
+        `  rm -f ${dir}/default-*; echo starting`,
+        `else echo missing; fi`
+      ].join('\n')
+    );
+    const state = result.stdout.trim();
+    if (result.exitCode !== 0 || !['running', 'starting', 'missing'].includes(state)) {
+      throw new CommandExecutionError(
+        'Failed to prepare the Jupyter kernel gateway',
+        'runCode',
+        result.exitCode ?? undefined,
+        result.stdout,
+        result.stderr
+      );
+    }
+
+    if (state === 'missing') {
+      throw new FeatureNotSupportedError(
+        'Code execution needs Python 3 with jupyter_kernel_gateway installed in the sandbox',
+        'runCode',
+        this.provider
+      );
+    }
+    if (state === 'starting') {
+      // The client waits for the gateway to accept connections.
+      await this.executor.executeBackground(
+        `echo $$ > ${dir}/gateway.pid; exec python3 -m kernel_gateway ` +
+          `--KernelGatewayApp.ip=127.0.0.1 --KernelGatewayApp.port=${this.port} ` +
+          `--KernelGatewayApp.port_retries=0 --KernelGatewayApp.auth_token="$(cat ${dir}/token)" ` +
+          `> ${dir}/gateway.log 2>&1`
+      );
+    }
+  }
+}
+
+/** Languages name files in the sandbox, so keep them to safe characters. */
+function checkLanguage(language: string): string {
+  if (!/^[\w.+-]+$/.test(language)) {
+    throw new SandboxException(`Invalid code language: ${language}`, 'INVALID_ARGUMENT');
+  }
+  return language;
+}
+
+/**
+ * Code run once in every new kernel: switches to `cwd` and, for Python, has
+ * pandas publish DataFrames as table-schema JSON next to their HTML.
+ */
+function setupCode(language: string, cwd: string | undefined, provider: string): string {
+  const path = JSON.stringify(cwd);
+  switch (language) {
+    case 'python':
+      return [
+        'try:',
+        '    import pandas',
+        "    pandas.set_option('display.html.table_schema', True)",
+        'except ImportError:',
+        '    pass',
+        ...(cwd === undefined ? [] : ['import os', `os.chdir(${path})`])
+      ].join('\n');
+    case 'javascript':
+      return cwd === undefined ? '' : `process.chdir(${path})`;
+    case 'r':
+      return cwd === undefined ? '' : `setwd(${path})`;
+    case 'bash':
+      return cwd === undefined ? '' : `cd ${shellQuote(cwd)}`;
+    default:
+      if (cwd !== undefined) {
+        throw new FeatureNotSupportedError(
+          `Working directory not supported for ${language} contexts`,
+          'createCodeContext',
+          provider
+        );
+      }
+      return '';
+  }
+}
+
+/** Map a Jupyter MIME bundle to a CodeResult. */
+function toCodeResult(data: Record<string, unknown>, isMainResult: boolean): CodeResult {
+  const text = (mime: string) => {
+    const value = data[mime];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const result: CodeResult = {
+    isMainResult,
+    text: text('text/plain'),
+    html: text('text/html'),
+    markdown: text('text/markdown'),
+    latex: text('text/latex'),
+    svg: text('image/svg+xml'),
+    png: text('image/png')?.trim(),
+    jpeg: text('image/jpeg')?.trim(),
+    json: data['application/json'],
+    data: data['application/vnd.dataresource+json'] as Record<string, unknown> | undefined
+  };
+  for (const key of Object.keys(result) as Array<keyof CodeResult>) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+}
+
+/**
+ * Client run inside the sandbox: `python3 client.py <port> <JSON request
+ * file>`. Prints a JSON response line; requests that fail in an expected
+ * way (unknown context, kernel errors) answer `{"failure": message}`.
+ */
+const CLIENT_SCRIPT = String.raw`import base64, http.client, json, os, socket, struct, sys, time, uuid
+
+DIR = os.path.dirname(os.path.abspath(__file__))
+PORT = int(sys.argv[1])
+
+
+class Failure(Exception):
+    pass
+
+
+def token():
+    with open(os.path.join(DIR, 'token')) as f:
+        return f.read().strip()
+
+
+def api(method, path, body=None):
+    # Retry while a freshly started gateway is not listening yet.
+    deadline = time.time() + 30
+    while True:
+        try:
+            conn = http.client.HTTPConnection('127.0.0.1', PORT, timeout=60)
+            headers = {'Authorization': 'token ' + token(), 'Content-Type': 'application/json'}
+            conn.request(method, path, None if body is None else json.dumps(body), headers)
+            response = conn.getresponse()
+            data = response.read()
+            return response.status, json.loads(data) if data else None
+        except ConnectionRefusedError:
+            if time.time() > deadline:
+                raise
+            time.sleep(0.2)
+
+
+class Channels:
+    def __init__(self, kernel):
+        api('GET', '/api')
+        self.sock = socket.create_connection(('127.0.0.1', PORT))
+        key = base64.b64encode(os.urandom(16)).decode()
+        handshake = (
+            'GET /api/kernels/%s/channels HTTP/1.1\r\nHost: 127.0.0.1:%d\r\n'
+            'Upgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Key: %s\r\n'
+            'Sec-WebSocket-Version: 13\r\nAuthorization: token %s\r\n\r\n'
+        ) % (kernel, PORT, key, token())
+        self.sock.sendall(handshake.encode())
+        self.buffer = b''
+        while b'\r\n\r\n' not in self.buffer:
+            self.buffer += self.recv()
+        head, self.buffer = self.buffer.split(b'\r\n\r\n', 1)
+        status = head.split(b'\r\n')[0].decode()
+        if ' 101 ' not in status:
+            raise Failure('Context not found: ' + kernel if ' 404 ' in status else status)
+
+    def recv(self):
+        chunk = self.sock.recv(65536)
+        if not chunk:
+            raise Failure('Kernel connection closed')
+        return chunk
+
+    def read(self, size):
+        while len(self.buffer) < size:
+            self.buffer += self.recv()
+        data, self.buffer = self.buffer[:size], self.buffer[size:]
+        return data
+
+    def send(self, payload, opcode=1):
+        size = len(payload)
+        if size < 126:
+            header = struct.pack('>BB', 0x80 | opcode, 0x80 | size)
+        elif size < 65536:
+            header = struct.pack('>BBH', 0x80 | opcode, 0x80 | 126, size)
+        else:
+            header = struct.pack('>BBQ', 0x80 | opcode, 0x80 | 127, size)
+        mask = os.urandom(4)
+        masked = bytes(b ^ mask[i % 4] for i, b in enumerate(payload))
+        self.sock.sendall(header + mask + masked)
+
+    def close(self):
+        try:
+            self.send(struct.pack('>H', 1000), 8)
+        except OSError:
+            pass
+        self.sock.close()
+
+    def receive(self):
+        message = b''
+        while True:
+            first, second = self.read(2)
+            size = second & 0x7f
+            if size == 126:
+                size = struct.unpack('>H', self.read(2))[0]
+            elif size == 127:
+                size = struct.unpack('>Q', self.read(8))[0]
+            mask = self.read(4) if second & 0x80 else None
+            payload = self.read(size)
+            if mask:
+                payload = bytes(b ^ mask[i % 4] for i, b in enumerate(payload))
+            opcode = first & 0x0f
+            if opcode == 8:
+                raise Failure('Kernel connection closed')
+            if opcode == 9:
+                self.send(payload, 10)
+            elif opcode != 10:
+                message += payload
+                if first & 0x80:
+                    return json.loads(message)
+
+
+def execute(kernel, code, timeout_ms=None, store_history=True):
+    channels = Channels(kernel)
+    msg_id = uuid.uuid4().hex
+    channels.send(json.dumps({
+        'header': {'msg_id': msg_id, 'msg_type': 'execute_request', 'username': '',
+                   'session': uuid.uuid4().hex, 'version': '5.3'},
+        'parent_header': {}, 'metadata': {}, 'channel': 'shell',
+        'content': {'code': code, 'silent': False, 'store_history': store_history,
+                    'user_expressions': {}, 'allow_stdin': False, 'stop_on_error': True},
+    }).encode())
+
+    result = {'results': [], 'stdout': '', 'stderr': '', 'error': None, 'executionCount': None}
+    deadline = None if timeout_ms is None else time.time() + timeout_ms / 1000
+    idle = replied = False
+    try:
+        while not (idle and replied):
+            if deadline is not None:
+                channels.sock.settimeout(max(deadline - time.time(), 0.001))
+            msg = channels.receive()
+            if (msg.get('parent_header') or {}).get('msg_id') != msg_id:
+                continue
+            kind, content = msg['header']['msg_type'], msg['content']
+            if kind == 'stream':
+                result[content['name']] += content['text']
+            elif kind in ('execute_result', 'display_data'):
+                result['results'].append({'data': content['data'],
+                                          'isMainResult': kind == 'execute_result'})
+            elif kind == 'error':
+                result['error'] = {'name': content['ename'], 'value': content['evalue'],
+                                   'traceback': '\n'.join(content['traceback'])}
+            elif kind == 'execute_reply':
+                replied = True
+                result['executionCount'] = content.get('execution_count')
+            elif kind == 'status' and content['execution_state'] == 'idle':
+                idle = True
+    except socket.timeout:
+        api('POST', '/api/kernels/%s/interrupt' % kernel)
+        return {'timeout': True}
+    finally:
+        channels.close()
+    return result
+
+
+def create(kernel_name, setup):
+    status, body = api('POST', '/api/kernels', {'name': kernel_name})
+    if status not in (200, 201):
+        raise Failure((body or {}).get('message') or 'Failed to start %s kernel' % kernel_name)
+    if setup:
+        result = execute(body['id'], setup, store_history=False)
+        if result['error']:
+            api('DELETE', '/api/kernels/' + body['id'])
+            raise Failure('Context setup failed: ' + result['error']['value'])
+    return body['id']
+
+
+def default_kernel(request):
+    path = os.path.join(DIR, 'default-' + request['language'])
+    if os.path.exists(path):
+        with open(path) as f:
+            kernel = f.read().strip()
+        if api('GET', '/api/kernels/' + kernel)[0] == 200:
+            return kernel
+    kernel = create(request['kernel'], request.get('setup'))
+    with open(path, 'w') as f:
+        f.write(kernel)
+    return kernel
+
+
+def main():
+    with open(sys.argv[2]) as f:
+        request = json.load(f)
+    action = request['action']
+    try:
+        if action == 'create':
+            response = {'id': create(request['kernel'], request.get('setup'))}
+        elif action == 'remove':
+            status = api('DELETE', '/api/kernels/' + request['id'])[0]
+            if status == 404:
+                raise Failure('Context not found: ' + request['id'])
+            response = {}
+        else:
+            kernel = request.get('id') or default_kernel(request)
+            response = execute(kernel, request['code'], request.get('timeoutMs'))
+    except Failure as error:
+        response = {'failure': str(error)}
+    print(json.dumps(response))
+
+
+main()
+`;
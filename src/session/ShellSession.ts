@@ -0,0 +1,270 @@
+import { randomUUID } from 'node:crypto';
+import { CommandExecutionError, TimeoutError } from '@/errors';
+import type { ISandbox } from '@/interfaces';
+import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import type { ExecuteResult } from '@/types';
+import { bytesToBase64 } from '@/utils/base64';
+import { shellQuote } from '@/utils/shell';
+
+/**
+ * Options for ShellSession.
+ */
+export interface ShellSessionOptions {
+  /** Working directory the shell starts in */
+  cwd?: string;
+  /** Environment variables the shell starts with */
+  env?: Record<string, string>;
+  /**
+   * Shell to run, as a command line.
+   * @default bash when installed, otherwise /bin/sh
+   */
+  shell?: string;
+}
+
+/**
+ * Options for a single ShellSession command.
+ */
+export interface ShellRunOptions {
+  /**
+   * Give up on the command after this long. The shell is killed with it and
+   * restarted by the next `run()`, with the working directory and environment
+   * left by the last completed command.
+   */
+  timeoutMs?: number;
+  /** Maximum bytes of stdout / stderr to keep, as in ExecuteOptions */
+  maxOutputBytes?: number;
+}
+
+const DEFAULT_SHELL = '"$(command -v bash || echo /bin/sh)"';
+
+/** How long a command waits for a (re)started shell to come up. */
+const START_TIMEOUT_POLLS = 100;
+
+/**
+ * A long-lived shell inside a sandbox, so `cd`, `export`, shell variables and
+ * functions carry over between commands the way they do in a terminal.
+ *
+ * The shell reads commands from a FIFO under
+ * `/tmp/.sandbox-sessions/<id>`, with its output appended to files next to
+ * it. Each `run()` writes one command and waits for a sentinel line carrying
+ * its exit code, so commands run one at a time in call order and only need
+ * `execute` and `executeBackground`, which every provider has. Commands read
+ * stdin from `/dev/null`.
+ *
+ * After each command the shell saves its working directory and exported
+ * variables. If the shell goes away (a command ran `exit`, or timed out), the
+ * next `run()` starts a new one from that state.
+ *
+ * @example
+ * ```typescript
+ * const shell = new ShellSession(sandbox, { cwd: '/workspace' });
+ *
+ * await shell.run('cd repo && export NODE_ENV=test');
+ * const result = await shell.run('npm test'); // runs in /workspace/repo
+ * console.log(shell.cwd, result.exitCode);
+ *
+ * await shell.close();
+ * ```
+ */
+export class ShellSession {
+  readonly id = `shell-${randomUUID()}`;
+
+  private readonly dir = `${CommandPolyfillService.SESSION_DIR}/${this.id}`;
+  private readonly token = this.id.replace(/\W/g, '').toUpperCase();
+  private background?: { sessionId: string };
+  private started = false;
+  private closed = false;
+  private sequence = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private currentCwd: string | undefined;
+
+  constructor(
+    private sandbox: ISandbox,
+    private options: ShellSessionOptions = {}
+  ) {
+    this.currentCwd = options.cwd;
+  }
+
+  /** Working directory after the last completed command. */
+  get cwd(): string | undefined {
+    return this.currentCwd;
+  }
+
+  /**
+   * Run a command in the shell, after any commands already queued.
+   *
+   * A command that ends the shell (e.g. `exit 3`) resolves with the shell's
+   * exit code.
+   *
+   * @throws {TimeoutError} If the command outlives `timeoutMs`
+   * @throws {CommandExecutionError} If the session is closed or the shell
+   * cannot be started
+   */
+  run(command: string, options: ShellRunOptions = {}): Promise<ExecuteResult> {
+    const result = this.queue.then(() => this.runNow(command, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stop the shell and remove its files. Commands still queued fail.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.started) await this.kill();
+    await this.sandbox.execute(`rm -rf ${shellQuote(this.dir)}`).catch(() => undefined);
+  }
+
+  // ==================== Commands ====================
+
+  private async runNow(command: string, options: ShellRunOptions): Promise<ExecuteResult> {
+    if (this.closed) {
+      throw new CommandExecutionError('Shell session is closed', command);
+    }
+
+    const startedAt = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      if (!this.started) await this.start();
+
+      const sentinel = `__SANDBOX_SHELL_${this.token}_${++this.sequence}__`;
+      let response: ExecuteResult;
+      try {
+        response = await this.sandbox.execute(this.commandScript(command, sentinel), {
+          timeoutMs: options.timeoutMs,
+          maxOutputBytes: options.maxOutputBytes
+        });
+      } catch (error) {
+        if (error instanceof TimeoutError) await this.kill();
+        throw error;
+      }
+
+      const parsed = this.parseResponse(response, sentinel);
+      if (!parsed) {
+        // The shell was gone before the command was written; start it again.
+        this.started = false;
+        if (attempt === 0) continue;
+        throw new CommandExecutionError(
+          'Shell session failed to start',
+          command,
+          undefined,
+          response.stdout,
+          response.stderr
+        );
+      }
+
+      return { ...parsed, truncated: response.truncated, durationMs: Date.now() - startedAt };
+    }
+  }
+
+  /**
+   * Script that writes `command` to the shell, waits until it printed
+   * `sentinel` to stderr (or ended) and then prints the command's output,
+   * followed by a `<token>_END` line on stdout.
+   */
+  private commandScript(command: string, sentinel: string): string {
+    const d = this.dir;
+    const encoded = bytesToBase64(new TextEncoder().encode(command));
+    // `command eval` keeps a syntax error in the command from ending the shell.
+    const block =
+      `command eval "$(echo ${encoded} | base64 -d)" < /dev/null; __sandbox_status=$?; ` +
+      `pwd > ${shellQuote(`${d}/cwd`)}; export -p > ${shellQuote(`${d}/env`)}; ` +
+      `printf '%s %s %s\\n' ${sentinel} "$__sandbox_status" "$(pwd)"; ` +
+      `printf '%s\\n' ${sentinel} >&2`;
+    const alive = `{ [ ! -f "$d/exit" ] && kill -0 "$(cat "$d/pid" 2>/dev/null)" 2>/dev/null; }`;
+
+    return [
+      `d=${shellQuote(d)}`,
+      `i=0; while [ ! -s "$d/pid" ] && [ $i -lt ${START_TIMEOUT_POLLS} ]; do sleep 0.05; i=$((i + 1)); done`,
+      `${alive} || { printf '\\n%s\\n' ${this.token}_END_GONE; exit 0; }`,
+      `o=$(wc -c < "$d/out"); e=$(wc -c < "$d/err")`,
+      `printf '%s\\n' ${shellQuote(block)} > "$d/in"`,
+      `while ${alive} && ! tail -c +$((e + 1)) "$d/err" | grep -q ${sentinel}; do sleep 0.05; done`,
+      `tail -c +$((e + 1)) "$d/err" >&2`,
+      `tail -c +$((o + 1)) "$d/out"`,
+      `printf '\\n%s %s\\n' ${this.token}_END "$(cat "$d/exit" 2>/dev/null)"`
+    ].join('\n');
+  }
+
+  private parseResponse(
+    response: ExecuteResult,
+    sentinel: string
+  ): Pick<ExecuteResult, 'stdout' | 'stderr' | 'exitCode'> | undefined {
+    const end = response.stdout.lastIndexOf(`\n${this.token}_END`);
+    const trailer = response.stdout.slice(end + 1).trim();
+    if (end === -1 || trailer === `${this.token}_END_GONE`) return undefined;
+
+    const output = response.stdout.slice(0, end);
+    const stderrEnd = response.stderr.lastIndexOf(`${sentinel}\n`);
+    const stderr = stderrEnd === -1 ? response.stderr : response.stderr.slice(0, stderrEnd);
+
+    const marker = output.lastIndexOf(`${sentinel} `);
+    if (marker === -1) {
+      // The command ended the shell, so no sentinel was printed.
+      this.started = false;
+      const code = trailer.slice(`${this.token}_END`.length).trim();
+      return { stdout: output, stderr, exitCode: code ? Number(code) : null };
+    }
+
+    const status = output.slice(marker + sentinel.length + 1).replace(/\n$/, '');
+    const space = status.indexOf(' ');
+    this.currentCwd = status.slice(space + 1);
+    return {
+      stdout: output.slice(0, marker),
+      stderr,
+      exitCode: Number(status.slice(0, space))
+    };
+  }
+
+  // ==================== Shell process ====================
+
+  /**
+   * Start the shell in the background. A restarted shell first restores the
+   * working directory and exported variables saved by the previous one.
+   */
+  private async start(): Promise<void> {
+    const d = shellQuote(this.dir);
+    const prepare = await this.sandbox.execute(
+      `mkdir -p ${d} && cd ${d} && rm -f in pid exit && mkfifo in && : > out && : > err`
+    );
+    if (prepare.exitCode !== 0) {
+      throw new CommandExecutionError(
+        'Shell session failed to start',
+        'mkfifo',
+        prepare.exitCode ?? undefined,
+        prepare.stdout,
+        prepare.stderr
+      );
+    }
+
+    const restore =
+      `[ -f ${d}/env ] && command . ${d}/env; ` + `[ -f ${d}/cwd ] && cd "$(cat ${d}/cwd)"; :`;
+    // Opening the FIFO read-write keeps a writer around, so the shell never
+    // sees end-of-file between commands.
+    const script = [
+      `exec 3<> ${d}/in`,
+      `printf '%s\\n' ${shellQuote(restore)} >&3`,
+      `${this.options.shell ?? DEFAULT_SHELL} <&3 >> ${d}/out 2>> ${d}/err 3>&- &`,
+      `echo $! > ${d}/pid; wait $!; echo $? > ${d}/exit`
+    ].join('\n');
+
+    this.background = await this.sandbox.executeBackground(script, {
+      workingDirectory: this.options.cwd,
+      env: this.options.env
+    });
+    this.started = true;
+  }
+
+  /** Kill the shell and whatever command it is running. */
+  private async kill(): Promise<void> {
+    this.started = false;
+    if (this.background) {
+      await this.sandbox.signal(this.background.sessionId, 'SIGKILL').catch(() => undefined);
+      this.background = undefined;
+    }
+    // Providers that signal only the background process leave the shell behind.
+    await this.sandbox
+      .execute(`kill -9 "$(cat ${shellQuote(`${this.dir}/pid`)})" 2>/dev/null`)
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,2 @@
+export { ShellSession } from './ShellSession';
+export type { ShellRunOptions, ShellSessionOptions } from './ShellSession';
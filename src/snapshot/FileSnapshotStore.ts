@@ -0,0 +1,48 @@
+import * as fs from 'node:fs/promises';
+import { join } from 'node:path';
+import { SandboxException } from '@/errors';
+import type { ISnapshotStore } from '@/interfaces';
+import { randomSuffix } from '@/utils/id';
+
+/**
+ * Keeps snapshot archives as `<key>.tar.gz` files in a host directory.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSnapshotStore('/var/lib/sandbox-snapshots');
+ * const snapshot = await sandbox.createSnapshot({ store });
+ * await sandbox.restoreSnapshot(snapshot.id, { store });
+ * ```
+ */
+export class FileSnapshotStore implements ISnapshotStore {
+  constructor(private directory: string) {}
+
+  private pathFor(key: string): string {
+    if (!/^[\w.-]+$/.test(key) || key.startsWith('.')) {
+      throw new SandboxException(`Invalid snapshot key: ${key}`, 'INVALID_ARGUMENT');
+    }
+    return join(this.directory, `${key}.tar.gz`);
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const path = this.pathFor(key);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial archive.
+    const tmpPath = `${path}.tmp.${randomSuffix()}`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, path);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await fs.readFile(this.pathFor(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
@@ -0,0 +1,21 @@
+import type { ISnapshotStore } from '@/interfaces';
+
+/**
+ * Keeps snapshot archives in process memory. Archives are lost when the
+ * process exits, so this suits tests and short-lived checkpoints.
+ */
+export class MemorySnapshotStore implements ISnapshotStore {
+  private archives = new Map<string, Uint8Array>();
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    this.archives.set(key, data);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    return this.archives.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.archives.delete(key);
+  }
+}
@@ -0,0 +1,2 @@
+export { FileSnapshotStore } from './FileSnapshotStore';
+export { MemorySnapshotStore } from './MemorySnapshotStore';
@@ -0,0 +1,2 @@
+export { syncFromSandbox, syncToSandbox } from './syncDirectory';
+export type { SyncCompareMode, SyncOptions, SyncResult } from './syncDirectory';
@@ -0,0 +1,393 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import { dirname, isAbsolute, join, posix, relative, resolve, sep } from 'node:path';
+import { FileOperationError } from '@/errors';
+import type { ISandbox } from '@/interfaces';
+
+/** How source and destination files are compared. */
+export type SyncCompareMode = 'metadata' | 'checksum';
+
+/**
+ * Options for syncToSandbox and syncFromSandbox.
+ *
+ * Glob patterns are matched against paths relative to the synced directory.
+ * `*` and `?` do not cross `/`, `**` matches any number of directories, and a
+ * pattern without a `/` matches a single path segment at any depth (so
+ * `node_modules` excludes every `node_modules` directory).
+ */
+export interface SyncOptions {
+  /** Only sync files matching at least one of these globs */
+  include?: string[];
+  /** Skip files and directories matching any of these globs */
+  exclude?: string[];
+  /**
+   * Delete destination files that do not exist in the source. Excluded
+   * files are left alone.
+   * @default false
+   */
+  delete?: boolean;
+  /**
+   * `metadata` transfers a file when its size differs or the source was
+   * modified after the destination. `checksum` compares SHA-256 hashes of
+   * files with equal sizes instead, which is immune to clock differences
+   * between host and sandbox.
+   * @default 'metadata'
+   */
+  compare?: SyncCompareMode;
+  /**
+   * Report what would change without transferring or deleting anything.
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+/** Outcome of a sync, as paths relative to the synced directory. */
+export interface SyncResult {
+  transferred: string[];
+  deleted: string[];
+  unchanged: string[];
+}
+
+interface SyncFile {
+  size: number;
+  modifiedAt: Date;
+  mode?: number;
+}
+
+/** Files transferred per readFiles/writeFiles call, bounding memory use. */
+const BATCH_SIZE = 32;
+
+/**
+ * Upload the files in a host directory to a sandbox directory, skipping
+ * files that are already up to date.
+ *
+ * @throws {FileOperationError} If the local directory does not exist or a
+ * transfer fails
+ *
+ * @example
+ * ```typescript
+ * await syncToSandbox(sandbox, './repo', '/workspace/repo', {
+ *   exclude: ['.git', 'node_modules'],
+ *   delete: true
+ * });
+ * ```
+ */
+export async function syncToSandbox(
+  sandbox: ISandbox,
+  localDir: string,
+  remoteDir: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const filter = createSyncFilter(options);
+  const source = await listLocalFiles(localDir, filter);
+  const destination = (await isRemoteDirectory(sandbox, remoteDir))
+    ? await listRemoteFiles(sandbox, remoteDir, filter)
+    : new Map<string, SyncFile>();
+
+  const plan = await planSync(source, destination, options, {
+    source: (paths) => hashLocalFiles(localDir, paths),
+    destination: (paths) => hashRemoteFiles(sandbox, remoteDir, paths)
+  });
+  if (options.dryRun) return plan;
+
+  for (const batch of chunk(plan.transferred, BATCH_SIZE)) {
+    const entries = await Promise.all(
+      batch.map(async (path) => ({
+        path: posix.join(remoteDir, path),
+        data: new Uint8Array(await fs.readFile(join(localDir, path))),
+        mode: source.get(path)?.mode
+      }))
+    );
+    for (const result of await sandbox.writeFiles(entries)) {
+      if (result.error) throw toSyncError(result.error, result.path);
+    }
+  }
+
+  if (plan.deleted.length > 0) {
+    const results = await sandbox.deleteFiles(plan.deleted.map((p) => posix.join(remoteDir, p)));
+    for (const result of results) {
+      if (!result.success) throw toSyncError(result.error, result.path);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Download the files in a sandbox directory to a host directory, skipping
+ * files that are already up to date.
+ *
+ * @throws {FileOperationError} If the sandbox directory does not exist or a
+ * transfer fails
+ *
+ * @example
+ * ```typescript
+ * await syncFromSandbox(sandbox, '/workspace/out', './results', { include: ['**\/*.json'] });
+ * ```
+ */
+export async function syncFromSandbox(
+  sandbox: ISandbox,
+  remoteDir: string,
+  localDir: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  if (!(await isRemoteDirectory(sandbox, remoteDir))) {
+    throw new FileOperationError(`Directory not found: ${remoteDir}`, remoteDir, 'FILE_NOT_FOUND');
+  }
+
+  const filter = createSyncFilter(options);
+  const source = await listRemoteFiles(sandbox, remoteDir, filter);
+  const destination = await listLocalFiles(localDir, filter).catch((error: unknown) => {
+    if (error instanceof FileOperationError && error.fileErrorCode === 'FILE_NOT_FOUND') {
+      return new Map<string, SyncFile>();
+    }
+    throw error;
+  });
+
+  const plan = await planSync(source, destination, options, {
+    source: (paths) => hashRemoteFiles(sandbox, remoteDir, paths),
+    destination: (paths) => hashLocalFiles(localDir, paths)
+  });
+  if (options.dryRun) return plan;
+
+  for (const batch of chunk(plan.transferred, BATCH_SIZE)) {
+    const results = await sandbox.readFiles(batch.map((p) => posix.join(remoteDir, p)));
+    for (const [index, result] of results.entries()) {
+      if (result.error) throw toSyncError(result.error, result.path);
+      const target = localPath(localDir, batch[index]);
+      await fs.mkdir(dirname(target), { recursive: true });
+      await fs.writeFile(target, result.content);
+    }
+  }
+
+  for (const path of plan.deleted) {
+    await fs.rm(localPath(localDir, path), { force: true });
+  }
+
+  return plan;
+}
+
+// ==================== Planning ====================
+
+type HashFiles = (paths: string[]) => Promise<Map<string, string>>;
+
+async function planSync(
+  source: Map<string, SyncFile>,
+  destination: Map<string, SyncFile>,
+  options: SyncOptions,
+  hash: { source: HashFiles; destination: HashFiles }
+): Promise<SyncResult> {
+  const result: SyncResult = { transferred: [], deleted: [], unchanged: [] };
+  const candidates: string[] = [];
+
+  for (const [path, file] of source) {
+    const existing = destination.get(path);
+    if (!existing || existing.size !== file.size) {
+      result.transferred.push(path);
+    } else if (options.compare === 'checksum') {
+      candidates.push(path);
+    } else if (toSeconds(file.modifiedAt) > toSeconds(existing.modifiedAt)) {
+      result.transferred.push(path);
+    } else {
+      result.unchanged.push(path);
+    }
+  }
+
+  if (candidates.length > 0) {
+    const [sourceHashes, destinationHashes] = await Promise.all([
+      hash.source(candidates),
+      hash.destination(candidates)
+    ]);
+    for (const path of candidates) {
+      const sourceHash = sourceHashes.get(path);
+      const same = sourceHash !== undefined && sourceHash === destinationHashes.get(path);
+      (same ? result.unchanged : result.transferred).push(path);
+    }
+  }
+
+  if (options.delete) {
+    result.deleted = [...destination.keys()].filter((path) => !source.has(path));
+  }
+
+  for (const list of Object.values(result)) list.sort();
+  return result;
+}
+
+/** Providers report whole-second mtimes, so compare at that precision. */
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+// ==================== Listing ====================
+
+interface SyncFilter {
+  /** Whether a directory should be descended into */
+  directory(path: string): boolean;
+  /** Whether a file takes part in the sync */
+  file(path: string): boolean;
+}
+
+function createSyncFilter(options: SyncOptions): SyncFilter {
+  const include = options.include?.map(globToMatcher);
+  const exclude = (options.exclude ?? []).map(globToMatcher);
+  const excluded = (path: string) => exclude.some((matches) => matches(path));
+
+  return {
+    directory: (path) => !excluded(path),
+    file: (path) => !excluded(path) && (!include || include.some((matches) => matches(path)))
+  };
+}
+
+async function listLocalFiles(root: string, filter: SyncFilter): Promise<Map<string, SyncFile>> {
+  const files = new Map<string, SyncFile>();
+
+  const walk = async (relative: string): Promise<void> => {
+    const dirents = await fs.readdir(join(root, relative), { withFileTypes: true });
+    for (const dirent of dirents) {
+      const path = relative ? `${relative}/${dirent.name}` : dirent.name;
+      const stat = await fs.stat(join(root, path)).catch(() => undefined);
+      if (stat?.isDirectory()) {
+        if (filter.directory(path)) await walk(path);
+      } else if (stat?.isFile() && filter.file(path)) {
+        files.set(path, { size: stat.size, modifiedAt: stat.mtime, mode: stat.mode & 0o777 });
+      }
+    }
+  };
+
+  try {
+    await walk('');
+  } catch (error) {
+    throw toSyncError(error, root);
+  }
+  return files;
+}
+
+/**
+ * Names listed by the sandbox come from code running inside it, so they must
+ * name a single entry of the listed directory.
+ */
+function isPlainName(name: string): boolean {
+  return name !== '' && name !== '.' && name !== '..' && !/[/\\\n\r]/.test(name);
+}
+
+/** Host path of a synced file, refusing anything outside `localDir`. */
+function localPath(localDir: string, path: string): string {
+  const root = resolve(localDir);
+  const target = resolve(root, path);
+  const rel = relative(root, target);
+  if (!rel || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new FileOperationError(`Path escapes ${localDir}: ${path}`, path, 'INVALID_PATH');
+  }
+  return target;
+}
+
+async function isRemoteDirectory(sandbox: ISandbox, path: string): Promise<boolean> {
+  const [info] = (await sandbox.getFileInfo([path])).values();
+  return info?.isDirectory === true;
+}
+
+async function listRemoteFiles(
+  sandbox: ISandbox,
+  root: string,
+  filter: SyncFilter
+): Promise<Map<string, SyncFile>> {
+  const files = new Map<string, SyncFile>();
+  const missingMetadata: string[] = [];
+
+  const walk = async (relative: string): Promise<void> => {
+    for (const entry of await sandbox.listDirectory(posix.join(root, relative))) {
+      if (!isPlainName(entry.name)) {
+        throw new FileOperationError(
+          `Invalid file name listed in ${posix.join(root, relative)}: ${JSON.stringify(entry.name)}`,
+          posix.join(root, relative),
+          'INVALID_PATH'
+        );
+      }
+      const path = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory) {
+        if (filter.directory(path)) await walk(path);
+      } else if (entry.isFile && filter.file(path)) {
+        files.set(path, { size: entry.size ?? -1, modifiedAt: entry.modifiedAt ?? new Date(0) });
+        if (entry.size === undefined || !entry.modifiedAt) missingMetadata.push(path);
+      }
+    }
+  };
+  await walk('');
+
+  // Some providers list names only; fill the gaps with a stat per file.
+  for (const path of missingMetadata) {
+    const [info] = (await sandbox.getFileInfo([posix.join(root, path)])).values();
+    files.set(path, { size: info?.size ?? -1, modifiedAt: info?.modifiedAt ?? new Date(0) });
+  }
+
+  return files;
+}
+
+// ==================== Hashing ====================
+
+async function hashLocalFiles(root: string, paths: string[]): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (const path of paths) {
+    const content = await fs.readFile(join(root, path));
+    hashes.set(path, createHash('sha256').update(content).digest('hex'));
+  }
+  return hashes;
+}
+
+async function hashRemoteFiles(
+  sandbox: ISandbox,
+  root: string,
+  paths: string[]
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  const results = await sandbox.hashFiles(paths.map((p) => posix.join(root, p)));
+  for (const [index, result] of results.entries()) {
+    if (!result.error) hashes.set(paths[index], result.hash);
+  }
+  return hashes;
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Compile a sync glob into a predicate over relative paths. A pattern without
+ * a `/` is tested against every segment of the path.
+ */
+function globToMatcher(pattern: string): (path: string) => boolean {
+  const anchored = pattern.replace(/^\/+/, '');
+  let source = '';
+  for (let i = 0; i < anchored.length; i++) {
+    const char = anchored[i];
+    if (char === '*' && anchored[i + 1] === '*') {
+      const slash = anchored[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  const regex = new RegExp(`^${source}$`);
+
+  if (!pattern.includes('/')) {
+    return (path) => path.split('/').some((segment) => regex.test(segment));
+  }
+  return (path) => regex.test(path);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function toSyncError(error: unknown, path: string): FileOperationError {
+  if (error instanceof FileOperationError) return error;
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  const message = error instanceof Error ? error.message : `Sync failed for ${path}`;
+  return new FileOperationError(
+    message,
+    path,
+    code === 'ENOENT' ? 'FILE_NOT_FOUND' : 'TRANSFER_ERROR',
+    error
+  );
+}
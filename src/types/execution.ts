@@ -1,3 +1,8 @@
+/**
+ * Data fed to a command's standard input.
+ */
+export type ExecuteStdin = string | Uint8Array | ReadableStream<Uint8Array>;
+
 /**
  * Options for executing commands.
  */
@@ -17,6 +22,12 @@ export interface ExecuteOptions {
   /** Abort signal for cancellation */
   signal?: AbortSignal;
 
+  /**
+   * Data written to the command's stdin, which is closed afterwards.
+   * Strings are encoded as UTF-8.
+   */
+  stdin?: ExecuteStdin;
+
   /**
    * Maximum number of bytes to retain in stdout / stderr for the returned
    * {@link ExecuteResult}. Output beyond this limit is dropped (oldest first)
@@ -87,3 +98,197 @@ export interface BackgroundExecution {
   /** Kill the background execution */
   kill(): Promise<void>;
 }
+
+/**
+ * Signal that can be sent to a background process.
+ */
+export type ProcessSignal =
+  | 'SIGTERM'
+  | 'SIGKILL'
+  | 'SIGINT'
+  | 'SIGHUP'
+  | 'SIGQUIT'
+  | 'SIGUSR1'
+  | 'SIGUSR2'
+  | 'SIGSTOP'
+  | 'SIGCONT';
+
+/**
+ * State of a background process.
+ */
+export type ProcessStatus = 'running' | 'exited';
+
+/**
+ * Information about a background process started with executeBackground.
+ */
+export interface ProcessInfo {
+  /** Session ID returned by executeBackground */
+  sessionId: string;
+
+  /** Process ID inside the sandbox, when known */
+  pid?: number;
+
+  /** Command line, when known */
+  command?: string;
+
+  status: ProcessStatus;
+
+  /** Exit code (null while running or when unknown) */
+  exitCode: number | null;
+
+  /** Start time, when known */
+  startedAt?: Date;
+}
+
+/**
+ * Options for opening an interactive terminal.
+ */
+export interface PtyOptions {
+  /** Terminal width in columns (default: 80) */
+  cols?: number;
+
+  /** Terminal height in rows (default: 24) */
+  rows?: number;
+
+  /** Shell to run (default: bash when available, otherwise sh) */
+  shell?: string;
+
+  /** Environment variables to set; `TERM` defaults to `xterm-256color` */
+  env?: Record<string, string>;
+
+  /** Working directory of the shell */
+  cwd?: string;
+}
+
+/**
+ * Handle to an interactive terminal opened with openPty.
+ */
+export interface PtyHandle {
+  /** Terminal ID (provider-specific) */
+  readonly id: string;
+
+  /** Send input to the terminal. Strings are encoded as UTF-8. */
+  write(data: string | Uint8Array): Promise<void>;
+
+  /** Change the terminal size. */
+  resize(cols: number, rows: number): Promise<void>;
+
+  /**
+   * Subscribe to terminal output. Output produced before the first
+   * subscription is replayed to it.
+   * @returns A function that removes the listener
+   */
+  onData(listener: (data: Uint8Array) => void): () => void;
+
+  /**
+   * Wait for the shell to exit.
+   * @returns Exit code, or null when it is unknown
+   */
+  wait(): Promise<number | null>;
+
+  /** Terminate the shell and release the terminal. */
+  close(): Promise<void>;
+}
+
+/**
+ * Language of a code interpreter context, e.g. `python` or `javascript`.
+ */
+export type CodeLanguage = 'python' | 'javascript' | 'r' | 'bash' | (string & {});
+
+/**
+ * Options for running code with runCode.
+ */
+export interface RunCodeOptions {
+  /** Run in the default context of this language (default: python) */
+  language?: CodeLanguage;
+
+  /** Run in a context from createCodeContext instead; takes precedence over `language` */
+  contextId?: string;
+
+  /** Timeout in milliseconds; the execution is interrupted when it elapses */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for creating a code interpreter context.
+ */
+export interface CodeContextOptions {
+  /** Language of the context (default: python) */
+  language?: CodeLanguage;
+
+  /** Working directory of the context */
+  cwd?: string;
+}
+
+/**
+ * A code interpreter context: a kernel whose variables, imports and
+ * definitions persist between runCode calls.
+ */
+export interface CodeContext {
+  id: string;
+  language: CodeLanguage;
+  cwd?: string;
+}
+
+/**
+ * Rich output of a code execution, in every representation the kernel
+ * produced.
+ */
+export interface CodeResult {
+  /**
+   * Whether this is the value of the code's last expression, as opposed to
+   * output displayed along the way (e.g. a matplotlib figure)
+   */
+  isMainResult: boolean;
+
+  text?: string;
+  html?: string;
+  markdown?: string;
+  latex?: string;
+  svg?: string;
+
+  /** Base64-encoded PNG image */
+  png?: string;
+
+  /** Base64-encoded JPEG image */
+  jpeg?: string;
+
+  /** `application/json` output */
+  json?: unknown;
+
+  /** DataFrame as JSON (table schema) */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Error raised by the executed code.
+ */
+export interface CodeExecutionError {
+  /** Error class, e.g. `ZeroDivisionError` */
+  name: string;
+
+  /** Error message */
+  value: string;
+
+  /** Traceback as printed by the kernel, which may contain ANSI color codes */
+  traceback: string;
+}
+
+/**
+ * Outcome of runCode.
+ */
+export interface CodeExecution {
+  results: CodeResult[];
+
+  /** Text printed to stdout */
+  stdout: string;
+
+  /** Text printed to stderr */
+  stderr: string;
+
+  /** Set when the code raised an error */
+  error?: CodeExecutionError;
+
+  /** Execution counter of the context, when reported */
+  executionCount?: number;
+}
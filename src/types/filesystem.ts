@@ -119,3 +119,39 @@ export interface ReadFileOptions {
   /** Byte range to read (format: "start-end" or "start-") */
   range?: string;
 }
+
+/**
+ * Checksum algorithm for file hashing.
+ */
+export type HashAlgorithm = 'sha256' | 'md5';
+
+/**
+ * Options for hashing files.
+ */
+export interface HashFilesOptions {
+  /** Checksum algorithm (default: 'sha256') */
+  algorithm?: HashAlgorithm;
+}
+
+/**
+ * Result of hashing a file.
+ */
+export interface FileHashResult {
+  path: string;
+  /** Lowercase hex digest (empty on error) */
+  hash: string;
+  error: Error | null;
+}
+
+/**
+ * Archive format for directory export and import.
+ */
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'zip';
+
+/**
+ * Options for exporting or importing a directory archive.
+ */
+export interface ArchiveOptions {
+  /** Archive format (default: 'tar') */
+  format?: ArchiveFormat;
+}
@@ -1,20 +1,38 @@
 // Re-export from execution
 export type {
   BackgroundExecution,
+  CodeContext,
+  CodeContextOptions,
+  CodeExecution,
+  CodeExecutionError,
+  CodeLanguage,
+  CodeResult,
   ExecuteOptions,
   ExecuteResult,
+  ExecuteStdin,
   OutputMessage,
+  ProcessInfo,
+  ProcessSignal,
+  ProcessStatus,
+  PtyHandle,
+  PtyOptions,
+  RunCodeOptions,
   StreamHandlers
 } from './execution';
 // Re-export from filesystem
 export type {
+  ArchiveFormat,
+  ArchiveOptions,
   ContentReplaceEntry,
   DirectoryEntry,
   FileDeleteResult,
+  FileHashResult,
   FileInfo,
   FileReadResult,
   FileWriteEntry,
   FileWriteResult,
+  HashAlgorithm,
+  HashFilesOptions,
   MoveEntry,
   PermissionEntry,
   ReadFileOptions,
@@ -26,9 +44,13 @@ export type {
   ImageSpec,
   NetworkPolicy,
   ResourceLimits,
+  RestoreSnapshotOptions,
   SandboxId,
   SandboxInfo,
+  SandboxListFilter,
   SandboxMetrics,
   SandboxState,
-  SandboxStatus
+  SandboxStatus,
+  SnapshotInfo,
+  SnapshotOptions
 } from './sandbox';
@@ -3,18 +3,13 @@
  */
 export type SandboxId = string;
 
+import type { ISnapshotStore } from '../interfaces/ISnapshotStore';
+
 /**
  * Sandbox status states.
  */
 export type SandboxState =
-  | 'UnExist'
-  | 'Running'
-  | 'Creating'
-  | 'Starting'
-  | 'Stopping'
-  | 'Stopped'
-  | 'Deleting'
-  | 'Error';
+  'UnExist' | 'Running' | 'Creating' | 'Starting' | 'Stopping' | 'Stopped' | 'Deleting' | 'Error';
 
 /**
  * Sandbox status information.
@@ -65,6 +60,56 @@ export interface SandboxInfo {
   resourceLimits?: ResourceLimits;
 }
 
+/**
+ * Filter for listing sandboxes across a provider.
+ * All given conditions must match.
+ */
+export interface SandboxListFilter {
+  /** Metadata entries the sandbox must carry (exact match) */
+  metadata?: Record<string, string>;
+  /** Accepted states; any state when omitted */
+  states?: SandboxState[];
+  /** Only sandboxes created before this time */
+  createdBefore?: Date;
+  /** Only sandboxes created after this time */
+  createdAfter?: Date;
+}
+
+/**
+ * A restorable point-in-time copy of a sandbox.
+ */
+export interface SnapshotInfo {
+  /** Snapshot ID accepted by `restoreSnapshot` */
+  id: string;
+  /** Sandbox the snapshot was taken from */
+  sandboxId: SandboxId;
+  name?: string;
+  createdAt: Date;
+  /** Archive size in bytes (archive snapshots only) */
+  sizeBytes?: number;
+}
+
+/**
+ * Options for taking a snapshot.
+ */
+export interface SnapshotOptions {
+  /** Human-readable snapshot name, where the provider supports naming */
+  name?: string;
+  /**
+   * Archive `rootPath` into this store instead of using the provider's
+   * native snapshots. Required for providers without native snapshots.
+   */
+  store?: ISnapshotStore;
+}
+
+/**
+ * Options for restoring a snapshot.
+ */
+export interface RestoreSnapshotOptions {
+  /** Store holding the archive; required for snapshots taken with a store */
+  store?: ISnapshotStore;
+}
+
 /**
  * Sandbox metrics.
  */
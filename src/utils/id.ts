@@ -0,0 +1,11 @@
+/**
+ * Identifier helpers.
+ */
+
+/**
+ * Short time-ordered suffix for IDs and temporary file names, e.g. `lq3k9x2a7f1b`.
+ * Unique enough to avoid collisions between concurrent calls; not a secret.
+ */
+export function randomSuffix(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
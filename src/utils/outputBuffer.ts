@@ -109,3 +109,65 @@ export class BoundedOutputBuffer {
     return Buffer.concat(this.chunks, this.currentBytes).toString('utf8');
   }
 }
+
+/**
+ * Tail of an output stream addressed by byte offsets from the stream's first
+ * byte, so readers can poll for what was written since their last read.
+ * Retains at most `maxBytes`; reads from a dropped offset start at the oldest
+ * retained byte.
+ */
+export class OutputLog {
+  private chunks: Buffer[] = [];
+  /** Bytes currently retained */
+  private bytes = 0;
+  /** Offset of the first retained byte */
+  private start = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  append(chunk: Uint8Array): void {
+    if (chunk.length === 0) return;
+
+    // Copy, since callers may reuse the chunk's memory.
+    if (chunk.length >= this.maxBytes) {
+      this.start += this.bytes + chunk.length - this.maxBytes;
+      this.chunks = [Buffer.from(chunk.subarray(chunk.length - this.maxBytes))];
+      this.bytes = this.maxBytes;
+      return;
+    }
+
+    this.chunks.push(Buffer.from(chunk));
+    this.bytes += chunk.length;
+
+    // Drop oldest chunks that lie entirely in the overflow, then trim the head.
+    while (this.bytes - this.chunks[0].length >= this.maxBytes) {
+      this.drop(this.chunks[0].length);
+      this.chunks.shift();
+    }
+    if (this.bytes > this.maxBytes) {
+      const overflow = this.bytes - this.maxBytes;
+      this.chunks[0] = this.chunks[0].subarray(overflow);
+      this.drop(overflow);
+    }
+  }
+
+  /** Bytes from `offset` and the offset to read from next. */
+  read(offset: number): { data: Buffer; offset: number } {
+    let skip = Math.max(0, offset - this.start);
+    const parts: Buffer[] = [];
+    for (const chunk of this.chunks) {
+      if (skip >= chunk.length) {
+        skip -= chunk.length;
+        continue;
+      }
+      parts.push(skip > 0 ? chunk.subarray(skip) : chunk);
+      skip = 0;
+    }
+    return { data: Buffer.concat(parts), offset: this.start + this.bytes };
+  }
+
+  private drop(count: number): void {
+    this.bytes -= count;
+    this.start += count;
+  }
+}
@@ -0,0 +1,75 @@
+import type { PtyHandle } from '../types';
+
+/** Terminal width used when openPty is called without `cols`. */
+export const DEFAULT_PTY_COLS = 80;
+
+/** Terminal height used when openPty is called without `rows`. */
+export const DEFAULT_PTY_ROWS = 24;
+
+/** Shell started when openPty is called without `shell`. */
+export const DEFAULT_PTY_SHELL = '"$(command -v bash || echo /bin/sh)"';
+
+/** Output kept for the first onData listener, beyond which the oldest is dropped. */
+const MAX_PENDING_BYTES = 1024 * 1024;
+
+/**
+ * Provider side of a {@link PtyHandle}: how input, resizes and close reach
+ * the terminal.
+ */
+export interface PtyTransport {
+  id: string;
+  write(data: Uint8Array): Promise<void>;
+  resize(cols: number, rows: number): Promise<void>;
+  close(): Promise<void>;
+  /** Resolves with the shell's exit code once the terminal ends; never rejects */
+  exited: Promise<number | null>;
+}
+
+/**
+ * Fans terminal output out to onData listeners. Output that arrives before
+ * the first listener subscribes is kept and replayed to it, so the shell's
+ * first prompt is not lost between openPty and onData.
+ */
+export class PtyOutput {
+  private listeners = new Set<(data: Uint8Array) => void>();
+  private pending: Uint8Array[] | undefined = [];
+  private pendingBytes = 0;
+
+  push(data: Uint8Array): void {
+    if (data.length === 0) return;
+    if (this.pending) {
+      this.pending.push(data);
+      this.pendingBytes += data.length;
+      while (this.pendingBytes > MAX_PENDING_BYTES && this.pending.length > 1) {
+        this.pendingBytes -= this.pending.shift()!.length;
+      }
+      return;
+    }
+    for (const listener of this.listeners) listener(data);
+  }
+
+  subscribe(listener: (data: Uint8Array) => void): () => void {
+    this.listeners.add(listener);
+    if (this.pending) {
+      const pending = this.pending;
+      this.pending = undefined;
+      for (const data of pending) listener(data);
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Build a handle whose onData listeners receive this output. */
+  handle(transport: PtyTransport): PtyHandle {
+    return {
+      id: transport.id,
+      write: (data) =>
+        transport.write(typeof data === 'string' ? new TextEncoder().encode(data) : data),
+      resize: (cols, rows) => transport.resize(cols, rows),
+      onData: (listener) => this.subscribe(listener),
+      wait: () => transport.exited,
+      close: () => transport.close()
+    };
+  }
+}
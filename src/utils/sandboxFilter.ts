@@ -0,0 +1,27 @@
+/**
+ * Client-side matching of SandboxListFilter, for providers whose list API
+ * cannot filter (or cannot filter on every field) server-side.
+ */
+
+import type { SandboxInfo, SandboxListFilter } from '@/types';
+
+/**
+ * Check whether a sandbox matches every condition of a filter.
+ */
+export function matchesSandboxFilter(info: SandboxInfo, filter: SandboxListFilter = {}): boolean {
+  if (filter.states && !filter.states.includes(info.status.state)) {
+    return false;
+  }
+  if (filter.createdBefore && !(info.createdAt < filter.createdBefore)) {
+    return false;
+  }
+  if (filter.createdAfter && !(info.createdAt > filter.createdAfter)) {
+    return false;
+  }
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    if (info.metadata?.[key] !== value) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,11 @@
+/**
+ * Shell utilities.
+ */
+
+/**
+ * Quote a value as a single POSIX shell word. Single quotes inside the value
+ * become `'\''` (end quote, escaped quote, start quote).
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -80,6 +80,29 @@ export function readableStreamToAsyncIterable(
   };
 }
 
+/**
+ * Convert an AsyncIterable to a ReadableStream that pulls lazily.
+ * Cancelling the stream ends the iterable, running its cleanup.
+ */
+export function asyncIterableToReadableStream(
+  iterable: AsyncIterable<Uint8Array>
+): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    }
+  });
+}
+
 /**
  * Read a stream and convert to string.
  */
@@ -92,3 +115,17 @@ export async function streamToString(
   const buffer = await asyncIterableToBuffer(iterable);
   return new TextDecoder().decode(buffer);
 }
+
+/**
+ * Collect any supported file payload (string, bytes, Blob or stream) into a
+ * single Uint8Array. Strings are UTF-8 encoded.
+ */
+export async function dataToBytes(
+  data: string | Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array>
+): Promise<Uint8Array> {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+  return asyncIterableToBuffer(readableStreamToAsyncIterable(data));
+}
@@ -0,0 +1,258 @@
+/**
+ * Minimal tar (ustar) archive utilities.
+ *
+ * Only the subset needed to move files in and out of sandboxes is supported:
+ * regular files, directories and symlinks, plus GNU long names (`L`) and PAX
+ * extended headers (`x`) when reading. Archives are built and parsed fully in
+ * memory, so callers should keep payload sizes reasonable.
+ */
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Kind of entry stored in a tar archive.
+ */
+export type TarEntryType = 'file' | 'directory' | 'symlink';
+
+/**
+ * A single tar archive entry.
+ */
+export interface TarEntry {
+  /** Path inside the archive (no leading slash) */
+  name: string;
+  type: TarEntryType;
+  /** File content (only for `file` entries) */
+  data?: Uint8Array;
+  /** Permission bits (default: 0o644 for files, 0o755 for directories) */
+  mode?: number;
+  /** Modification time (default: now) */
+  mtime?: Date;
+  /** Symlink target (only for `symlink` entries) */
+  linkName?: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string): void {
+  const bytes = encoder.encode(value);
+  block.set(bytes.subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  // Octal digits, zero padded, followed by a NUL terminator.
+  const str = Math.max(0, Math.floor(value))
+    .toString(8)
+    .padStart(length - 1, '0');
+  writeString(block, offset, length - 1, str);
+  block[offset + length - 1] = 0;
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const slice = block.subarray(offset, offset + length);
+  const nul = slice.indexOf(0);
+  return decoder.decode(nul === -1 ? slice : slice.subarray(0, nul));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const str = readString(block, offset, length).trim();
+  return str ? Number.parseInt(str, 8) : 0;
+}
+
+function paddedLength(size: number): number {
+  return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+}
+
+/**
+ * Split a long path into ustar `prefix` and `name` fields.
+ * Returns undefined when the path cannot be represented in ustar headers.
+ */
+function splitUstarName(name: string): { prefix: string; name: string } | undefined {
+  if (encoder.encode(name).length <= 100) return { prefix: '', name };
+
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (encoder.encode(prefix).length <= 155 && encoder.encode(rest).length <= 100) {
+      return { prefix, name: rest };
+    }
+  }
+  return undefined;
+}
+
+function buildHeader(
+  name: string,
+  typeflag: string,
+  size: number,
+  mode: number,
+  mtime: Date,
+  linkName = ''
+): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  const split = splitUstarName(name) ?? { prefix: '', name: name.slice(0, 100) };
+
+  writeString(header, 0, 100, split.name);
+  writeOctal(header, 100, 8, mode);
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+  header.fill(0x20, 148, 156); // checksum placeholder (spaces)
+  writeString(header, 156, 1, typeflag);
+  writeString(header, 157, 100, linkName);
+  writeString(header, 257, 6, 'ustar');
+  writeString(header, 263, 2, '00');
+  writeString(header, 345, 155, split.prefix);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeOctal(header, 148, 7, checksum);
+  header[155] = 0x20;
+
+  return header;
+}
+
+/**
+ * Encode a PAX extended header record (`"<len> <key>=<value>\n"`).
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  // The length prefix counts itself, so iterate until the digit count settles.
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) {
+    length = String(length).length + bodyLength;
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * Build an in-memory tar archive from the given entries.
+ */
+export function createTarArchive(entries: TarEntry[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const mtime = entry.mtime ?? new Date();
+    const isDir = entry.type === 'directory';
+    const name = isDir && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name;
+    const data = entry.type === 'file' ? (entry.data ?? new Uint8Array()) : new Uint8Array();
+    const mode = entry.mode ?? (isDir ? 0o755 : 0o644);
+    const typeflag = entry.type === 'file' ? '0' : isDir ? '5' : '2';
+    const linkName = entry.linkName ?? '';
+
+    // Names or link targets that don't fit the ustar fields get a PAX header.
+    const needsPax = !splitUstarName(name) || encoder.encode(linkName).length > 100;
+    if (needsPax) {
+      let records = paxRecord('path', name);
+      if (linkName) records += paxRecord('linkpath', linkName);
+      const paxData = encoder.encode(records);
+      blocks.push(buildHeader('PaxHeader', 'x', paxData.length, 0o644, mtime));
+      const padded = new Uint8Array(paddedLength(paxData.length));
+      padded.set(paxData);
+      blocks.push(padded);
+    }
+
+    blocks.push(buildHeader(name, typeflag, data.length, mode, mtime, linkName.slice(0, 100)));
+    if (data.length > 0) {
+      const padded = new Uint8Array(paddedLength(data.length));
+      padded.set(data);
+      blocks.push(padded);
+    }
+  }
+
+  // End of archive: two zero blocks.
+  blocks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const total = blocks.reduce((sum, block) => sum + block.length, 0);
+  const archive = new Uint8Array(total);
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.length;
+  }
+  return archive;
+}
+
+function parsePaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number.parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (!(length > 0)) break;
+    // Record lengths count bytes and include the trailing newline.
+    const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+    const eq = record.indexOf('=');
+    if (eq !== -1) {
+      records[record.slice(0, eq)] = record.slice(eq + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Parse an in-memory tar archive.
+ *
+ * Hard links, devices and FIFOs are skipped; only files, directories and
+ * symlinks are returned.
+ */
+export function parseTarArchive(archive: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  let pax: Record<string, string> = {};
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    const typeflag = String.fromCharCode(header[156] || 0x30);
+    const size = pax.size ? Number.parseInt(pax.size, 10) : readOctal(header, 124, 12);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + paddedLength(size);
+
+    if (typeflag === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeflag === 'K') {
+      longLink = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeflag === 'x') {
+      pax = { ...pax, ...parsePaxRecords(data) };
+      continue;
+    }
+    if (typeflag === 'g') {
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const rawName = readString(header, 0, 100);
+    const name = pax.path ?? longName ?? (prefix ? `${prefix}/${rawName}` : rawName);
+    const linkName = pax.linkpath ?? longLink ?? readString(header, 157, 100);
+    const mode = readOctal(header, 100, 8);
+    const mtime = new Date(
+      (pax.mtime ? Number.parseFloat(pax.mtime) : readOctal(header, 136, 12)) * 1000
+    );
+
+    longName = undefined;
+    longLink = undefined;
+    pax = {};
+
+    if (typeflag === '0' || typeflag === '7') {
+      entries.push({ name, type: 'file', data: new Uint8Array(data), mode, mtime });
+    } else if (typeflag === '5') {
+      entries.push({ name: name.replace(/\/+$/, ''), type: 'directory', mode, mtime });
+    } else if (typeflag === '2') {
+      entries.push({ name, type: 'symlink', linkName, mode, mtime });
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,421 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { Duplex } from 'node:stream';
+
+/**
+ * Minimal RFC 6455 WebSocket implementation covering what the adapters need:
+ * binary/text messages, fragmentation, ping/pong and the closing handshake.
+ * Extensions (e.g. permessage-deflate) are never negotiated.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Pause the socket once this many messages are waiting to be consumed. */
+const HIGH_WATER_MESSAGES = 64;
+
+/** Largest reassembled message accepted before closing with 1009 (Message Too Big). */
+const DEFAULT_MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+
+/** A complete (reassembled) WebSocket message. */
+export interface WebSocketMessage {
+  data: Uint8Array;
+  binary: boolean;
+}
+
+/** Options for {@link connectWebSocket}. */
+export interface WebSocketConnectOptions {
+  /** Subprotocols offered in `Sec-WebSocket-Protocol`, in preference order */
+  protocols?: string[];
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** PEM-encoded CA bundle for wss:// endpoints */
+  ca?: string;
+  /** Verify the server certificate for wss:// endpoints (default true) */
+  rejectUnauthorized?: boolean;
+  /** Largest incoming message in bytes (default 64 MiB) */
+  maxMessageBytes?: number;
+  signal?: AbortSignal;
+}
+
+/** Options for {@link acceptWebSocket}. */
+export interface WebSocketAcceptOptions {
+  /** Largest incoming message in bytes (default 64 MiB) */
+  maxMessageBytes?: number;
+}
+
+/**
+ * Raised when the server answers the upgrade request with a regular HTTP
+ * response instead of switching protocols.
+ */
+export class WebSocketHandshakeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly body: string
+  ) {
+    super(message);
+    this.name = 'WebSocketHandshakeError';
+  }
+}
+
+/** Compute the `Sec-WebSocket-Accept` value for a client key. */
+export function computeAcceptKey(key: string): string {
+  return createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+}
+
+/**
+ * One side of an established WebSocket connection.
+ *
+ * Incoming messages are consumed with `for await`; iteration ends when the
+ * connection closes and throws if it was lost without a closing handshake.
+ */
+export class WebSocketConnection implements AsyncIterable<WebSocketMessage> {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private fragmentBinary = false;
+  /** Set once an oversized message was refused; later input is ignored. */
+  private discarding = false;
+  private queue: WebSocketMessage[] = [];
+  private waiter: (() => void) | null = null;
+  private ended = false;
+  private error: Error | null = null;
+  private closeSent = false;
+  private _closeCode: number | undefined;
+  private _closeReason = '';
+
+  constructor(
+    private readonly socket: Duplex,
+    private readonly role: 'client' | 'server',
+    /** Negotiated subprotocol, or '' when none was selected */
+    readonly protocol: string,
+    head?: Uint8Array,
+    private readonly maxMessageBytes = DEFAULT_MAX_MESSAGE_BYTES
+  ) {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => {
+      this.error ??= error;
+      this.finish();
+    });
+    // HTTP servers accept half-open sockets; a peer that stops sending is gone.
+    socket.on('end', () => socket.end());
+    socket.on('close', () => {
+      if (this._closeCode === undefined) {
+        this.error ??= new Error('WebSocket connection closed without a close frame');
+      }
+      this.finish();
+    });
+    if (head && head.length > 0) this.onData(Buffer.from(head));
+  }
+
+  /** Close code received from the peer, once the connection has closed. */
+  get closeCode(): number | undefined {
+    return this._closeCode;
+  }
+
+  get closeReason(): string {
+    return this._closeReason;
+  }
+
+  get closed(): boolean {
+    return this.ended;
+  }
+
+  /** Send a text (string) or binary message; resolves once flushed to the socket. */
+  send(data: string | Uint8Array): Promise<void> {
+    const binary = typeof data !== 'string';
+    return this.writeFrame(binary ? OPCODE_BINARY : OPCODE_TEXT, Buffer.from(data));
+  }
+
+  /** Start the closing handshake. The socket is ended once the peer answers. */
+  close(code = 1000, reason = ''): void {
+    if (this.closeSent || this.socket.destroyed) return;
+    this.closeSent = true;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.writeFrame(OPCODE_CLOSE, payload).catch(() => {});
+    // Do not wait forever for a peer that never answers.
+    setTimeout(() => this.socket.destroy(), 5_000).unref();
+  }
+
+  /** Tear down the connection immediately without a closing handshake. */
+  terminate(): void {
+    this._closeCode ??= 1006;
+    this.socket.destroy();
+    this.finish();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<WebSocketMessage> {
+    while (true) {
+      const message = this.queue.shift();
+      if (message) {
+        if (this.queue.length < HIGH_WATER_MESSAGES) this.socket.resume();
+        yield message;
+        continue;
+      }
+      if (this.ended) {
+        if (this.error) throw this.error;
+        return;
+      }
+      await new Promise<void>((resolve) => (this.waiter = resolve));
+    }
+  }
+
+  private finish(): void {
+    this.ended = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): Promise<void> {
+    const mask = this.role === 'client';
+    const length = payload.length;
+    const lengthBytes = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+
+    header[0] = 0x80 | opcode;
+    header[1] = (mask ? 0x80 : 0) | (length < 126 ? length : lengthBytes === 2 ? 126 : 127);
+    if (lengthBytes === 2) header.writeUInt16BE(length, 2);
+    if (lengthBytes === 8) header.writeBigUInt64BE(BigInt(length), 2);
+
+    let body = payload;
+    if (mask) {
+      const key = randomBytes(4);
+      key.copy(header, 2 + lengthBytes);
+      body = Buffer.alloc(length);
+      for (let i = 0; i < length; i++) body[i] = payload[i] ^ key[i & 3];
+    }
+
+    return new Promise((resolve, reject) => {
+      if (this.socket.destroyed || !this.socket.writable) {
+        reject(new Error('WebSocket is not open'));
+        return;
+      }
+      this.socket.write(Buffer.concat([header, body]), (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    if (this.discarding) return;
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      let offset = 2;
+      let length = second & 0x7f;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Refuse oversized messages before buffering their payload.
+      const pending = (first & 0x0f) === OPCODE_CONTINUATION ? this.fragmentBytes : 0;
+      if (pending + length > this.maxMessageBytes) {
+        this.refuseMessage();
+        return;
+      }
+
+      const masked = (second & 0x80) !== 0;
+      const frameEnd = offset + (masked ? 4 : 0) + length;
+      if (this.buffer.length < frameEnd) return;
+
+      let payload = this.buffer.subarray(offset + (masked ? 4 : 0), frameEnd);
+      if (masked) {
+        const key = this.buffer.subarray(offset, offset + 4);
+        payload = Buffer.from(payload);
+        for (let i = 0; i < payload.length; i++) payload[i] ^= key[i & 3];
+      }
+      this.buffer = this.buffer.subarray(frameEnd);
+      this.onFrame((first & 0x80) !== 0, first & 0x0f, payload);
+    }
+  }
+
+  private refuseMessage(): void {
+    this.discarding = true;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.error ??= new Error(`WebSocket message exceeds ${this.maxMessageBytes} bytes`);
+    this._closeCode = 1009;
+    this.close(1009, 'Message too big');
+    // The peer's answer would be discarded, so do not wait for it.
+    this.socket.end();
+    this.finish();
+  }
+
+  private onFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload).catch(() => {});
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this._closeCode = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        this._closeReason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
+        if (!this.closeSent) {
+          this.closeSent = true;
+          this.writeFrame(OPCODE_CLOSE, payload.subarray(0, 2))
+            .catch(() => {})
+            .finally(() => this.socket.end());
+        } else {
+          this.socket.end();
+        }
+        this.finish();
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        this.fragments = [payload];
+        this.fragmentBytes = payload.length;
+        this.fragmentBinary = opcode === OPCODE_BINARY;
+        break;
+      case OPCODE_CONTINUATION:
+        this.fragments.push(payload);
+        this.fragmentBytes += payload.length;
+        break;
+      default:
+        this.error = new Error(`Unsupported WebSocket opcode: ${opcode}`);
+        this.terminate();
+        return;
+    }
+
+    if (!fin) return;
+    const data = this.fragments.length === 1 ? this.fragments[0] : Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.queue.push({ data: new Uint8Array(data), binary: this.fragmentBinary });
+    if (this.queue.length >= HIGH_WATER_MESSAGES) this.socket.pause();
+    this.wake();
+  }
+}
+
+/**
+ * Open a client WebSocket connection. `ws://`/`wss://` and `http://`/`https://`
+ * URLs are both accepted.
+ */
+export function connectWebSocket(
+  url: string,
+  options: WebSocketConnectOptions = {}
+): Promise<WebSocketConnection> {
+  const target = new URL(url);
+  const secure = target.protocol === 'wss:' || target.protocol === 'https:';
+  const key = randomBytes(16).toString('base64');
+
+  const headers: Record<string, string> = {
+    ...options.headers,
+    Connection: 'Upgrade',
+    Upgrade: 'websocket',
+    'Sec-WebSocket-Version': '13',
+    'Sec-WebSocket-Key': key
+  };
+  if (options.protocols?.length) {
+    headers['Sec-WebSocket-Protocol'] = options.protocols.join(', ');
+  }
+
+  return new Promise((resolve, reject) => {
+    const requestOptions = {
+      hostname: target.hostname.replace(/^\[|\]$/g, ''),
+      port: target.port || (secure ? 443 : 80),
+      path: `${target.pathname}${target.search}`,
+      method: 'GET',
+      headers,
+      // Never reuse a pooled keep-alive socket for the upgrade.
+      agent: false,
+      signal: options.signal,
+      ...(secure ? { ca: options.ca, rejectUnauthorized: options.rejectUnauthorized } : {})
+    };
+    const req = secure ? httpsRequest(requestOptions) : httpRequest(requestOptions);
+
+    req.on('upgrade', (res: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (res.headers['sec-websocket-accept'] !== computeAcceptKey(key)) {
+        socket.destroy();
+        reject(new Error('WebSocket handshake failed: invalid Sec-WebSocket-Accept'));
+        return;
+      }
+      const protocol = res.headers['sec-websocket-protocol'];
+      resolve(
+        new WebSocketConnection(
+          socket,
+          'client',
+          typeof protocol === 'string' ? protocol : '',
+          head,
+          options.maxMessageBytes
+        )
+      );
+    });
+    req.on('response', async (res: IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of res) chunks.push(chunk as Buffer);
+      const body = Buffer.concat(chunks).toString('utf8');
+      reject(
+        new WebSocketHandshakeError(
+          `WebSocket upgrade rejected: HTTP ${res.statusCode}`,
+          res.statusCode ?? 0,
+          body
+        )
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Complete the server side of a WebSocket upgrade from an HTTP server's
+ * `upgrade` event. Picks the first client-offered subprotocol found in
+ * `protocols`. Returns null (after answering 400) for invalid requests.
+ */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Uint8Array,
+  protocols: string[] = [],
+  options: WebSocketAcceptOptions = {}
+): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const offered = (req.headers['sec-websocket-protocol'] ?? '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const protocol = offered.find((p) => protocols.includes(p)) ?? '';
+
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${computeAcceptKey(key)}`,
+      ...(protocol ? [`Sec-WebSocket-Protocol: ${protocol}`] : []),
+      '',
+      ''
+    ].join('\r\n')
+  );
+  return new WebSocketConnection(socket, 'server', protocol, head, options.maxMessageBytes);
+}
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeSandboxContract } from './suites';
+import { AliyunFCAdapter, type AliyunFCConfig } from '@/adapters';
+
+/**
+ * Integration tests for AliyunFCAdapter.
+ *
+ * These tests require a deployed FC custom container running the sandbox
+ * agent described in claudedocs/aliyun-fc-implementation-guide.md.
+ * Set the following environment variables to run:
+ *   - ALIYUN_FC_ENDPOINT (HTTP trigger URL)
+ *   - ALIYUN_FC_TOKEN (optional, agent bearer token)
+ *   - ALIYUN_FC_WORKSPACE_ROOT (optional, defaults to '/mnt/nas/workspaces')
+ */
+
+const shouldRun = Boolean(process.env.ALIYUN_FC_ENDPOINT);
+
+describe.skipIf(!shouldRun).sequential('AliyunFCAdapter Integration Tests', () => {
+  if (!shouldRun) {
+    return;
+  }
+
+  const config: AliyunFCConfig = {
+    endpoint: process.env.ALIYUN_FC_ENDPOINT!,
+    sandboxId: `test-sandbox-${Date.now()}`,
+    token: process.env.ALIYUN_FC_TOKEN || undefined,
+    workspaceRoot: process.env.ALIYUN_FC_WORKSPACE_ROOT || undefined
+  };
+
+  const adapter = new AliyunFCAdapter(config);
+
+  beforeAll(async () => {
+    await adapter.ensureRunning();
+    expect(adapter.status.state).toBe('Running');
+  }, 120_000);
+
+  afterAll(async () => {
+    try {
+      await adapter.delete();
+    } catch (error) {
+      console.error('Error during cleanup', error);
+    }
+  }, 30_000);
+
+  describe('Basic Tests', () => {
+    it('should initialize with correct values', () => {
+      expect(adapter.provider).toBe('aliyunfc');
+      expect(adapter.id).toBe(config.sandboxId);
+    });
+  });
+
+  describeSandboxContract({
+    getAdapter: () => adapter
+  });
+});
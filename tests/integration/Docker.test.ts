@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeSandboxContract } from './suites';
+import { DockerAdapter, type DockerConfigType, type DockerConnectionConfig } from '@/adapters';
+
+/**
+ * Integration tests for DockerAdapter.
+ *
+ * These tests require a local Docker Engine.
+ * Set the following environment variables to run:
+ *   - DOCKER_SOCKET_PATH (e.g. /var/run/docker.sock)
+ *   - DOCKER_IMAGE (optional, defaults to 'ubuntu:22.04')
+ */
+
+const shouldRun = Boolean(process.env.DOCKER_SOCKET_PATH);
+
+describe.skipIf(!shouldRun).sequential('DockerAdapter Integration Tests', () => {
+  if (!shouldRun) {
+    return;
+  }
+
+  const [repository, tag] = (process.env.DOCKER_IMAGE || 'ubuntu:22.04').split(':');
+  const connectionConfig: DockerConnectionConfig = {
+    sandboxId: `test-sandbox-${Date.now()}`,
+    socketPath: process.env.DOCKER_SOCKET_PATH
+  };
+  const createConfig: DockerConfigType = {
+    image: { repository, tag },
+    metadata: { purpose: 'integration-test' }
+  };
+
+  const adapter = new DockerAdapter(connectionConfig, createConfig);
+
+  beforeAll(async () => {
+    await adapter.ensureRunning();
+    expect(adapter.status.state).toBe('Running');
+  }, 300_000);
+
+  afterAll(async () => {
+    try {
+      await adapter.delete();
+    } catch (error) {
+      console.error('Error during cleanup', error);
+    }
+  }, 30_000);
+
+  describe('Basic Tests', () => {
+    it('should initialize with correct values', () => {
+      expect(adapter.provider).toBe('docker');
+      expect(adapter.id).toBe(connectionConfig.sandboxId);
+    });
+  });
+
+  describeSandboxContract({
+    getAdapter: () => adapter
+  });
+});
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeSandboxContract } from './suites';
+import { HttpAgentAdapter, type HttpAgentConfig } from '@/adapters';
+
+/**
+ * Integration tests for HttpAgentAdapter.
+ *
+ * These tests require a sandbox agent (docs/HTTP_AGENT_PROTOCOL.md) running
+ * on a remote machine, e.g. the reference server from `createSandboxAgent`.
+ * Set the following environment variables to run:
+ *   - HTTP_AGENT_ENDPOINT (agent base URL)
+ *   - HTTP_AGENT_TOKEN (optional, agent bearer token)
+ *   - HTTP_AGENT_ROOT (optional, the agent's rootDir, defaults to '/workspace')
+ */
+
+const shouldRun = Boolean(process.env.HTTP_AGENT_ENDPOINT);
+
+describe.skipIf(!shouldRun).sequential('HttpAgentAdapter Integration Tests', () => {
+  if (!shouldRun) {
+    return;
+  }
+
+  const config: HttpAgentConfig = {
+    endpoint: process.env.HTTP_AGENT_ENDPOINT!,
+    sandboxId: `test-sandbox-${Date.now()}`,
+    token: process.env.HTTP_AGENT_TOKEN || undefined,
+    rootPath: process.env.HTTP_AGENT_ROOT || undefined
+  };
+
+  const adapter = new HttpAgentAdapter(config);
+
+  beforeAll(async () => {
+    await adapter.ensureRunning();
+    expect(adapter.status.state).toBe('Running');
+  }, 120_000);
+
+  afterAll(async () => {
+    try {
+      await adapter.delete();
+    } catch (error) {
+      console.error('Error during cleanup', error);
+    }
+  }, 30_000);
+
+  describe('Basic Tests', () => {
+    it('should initialize with correct values', () => {
+      expect(adapter.provider).toBe('httpagent');
+      expect(adapter.id).toBe(config.sandboxId);
+    });
+  });
+
+  describeSandboxContract({
+    getAdapter: () => adapter
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeSandboxContract } from './suites';
+import {
+  KubernetesAdapter,
+  type KubernetesConfigType,
+  type KubernetesConnectionConfig
+} from '@/adapters';
+
+/**
+ * Integration tests for KubernetesAdapter.
+ *
+ * These tests require a cluster and a token allowed to manage StatefulSets,
+ * NetworkPolicies and pod exec in the namespace.
+ * Set the following environment variables to run:
+ *   - KUBERNETES_SERVER (e.g. https://127.0.0.1:6443)
+ *   - KUBERNETES_TOKEN
+ *   - KUBERNETES_NAMESPACE (optional, defaults to 'default')
+ *   - KUBERNETES_CA_DATA (optional, PEM-encoded CA bundle)
+ *   - KUBERNETES_IMAGE (optional, defaults to 'ubuntu:22.04')
+ */
+
+const shouldRun = Boolean(process.env.KUBERNETES_SERVER && process.env.KUBERNETES_TOKEN);
+
+describe.skipIf(!shouldRun).sequential('KubernetesAdapter Integration Tests', () => {
+  if (!shouldRun) {
+    return;
+  }
+
+  const [repository, tag] = (process.env.KUBERNETES_IMAGE || 'ubuntu:22.04').split(':');
+  const connectionConfig: KubernetesConnectionConfig = {
+    sandboxId: `test-sandbox-${Date.now()}`,
+    server: process.env.KUBERNETES_SERVER!,
+    token: process.env.KUBERNETES_TOKEN,
+    namespace: process.env.KUBERNETES_NAMESPACE || undefined,
+    caData: process.env.KUBERNETES_CA_DATA || undefined
+  };
+  const createConfig: KubernetesConfigType = {
+    image: { repository, tag },
+    metadata: { purpose: 'integration-test' },
+    resourceLimits: { cpuCount: 0.5, memoryMiB: 512 }
+  };
+
+  const adapter = new KubernetesAdapter(connectionConfig, createConfig);
+
+  beforeAll(async () => {
+    await adapter.ensureRunning();
+    expect(adapter.status.state).toBe('Running');
+  }, 300_000);
+
+  afterAll(async () => {
+    try {
+      await adapter.delete();
+    } catch (error) {
+      console.error('Error during cleanup', error);
+    }
+  }, 30_000);
+
+  describe('Basic Tests', () => {
+    it('should initialize with correct values', () => {
+      expect(adapter.provider).toBe('kubernetes');
+      expect(adapter.id).toBe(connectionConfig.sandboxId);
+    });
+
+    it('should report the configured resource limits', async () => {
+      const info = await adapter.getInfo();
+
+      expect(info?.resourceLimits).toMatchObject({ cpuCount: 0.5, memoryMiB: 512 });
+      expect(info?.metadata).toMatchObject({ purpose: 'integration-test' });
+    });
+  });
+
+  describeSandboxContract({
+    getAdapter: () => adapter
+  });
+});
@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeSandboxContract } from './suites';
+import { LocalProcessAdapter, type LocalProcessConfig } from '@/adapters';
+
+/**
+ * Integration tests for LocalProcessAdapter.
+ *
+ * These tests run host processes and need no external services, so they
+ * are always enabled.
+ */
+
+describe.sequential('LocalProcessAdapter Integration Tests', () => {
+  const config: LocalProcessConfig = {
+    sandboxId: `test-sandbox-${Date.now()}`
+  };
+
+  const adapter = new LocalProcessAdapter(config);
+
+  beforeAll(async () => {
+    await adapter.ensureRunning();
+    expect(adapter.status.state).toBe('Running');
+  });
+
+  afterAll(async () => {
+    try {
+      await adapter.delete();
+    } catch (error) {
+      console.error('Error during cleanup', error);
+    }
+  });
+
+  describe('Basic Tests', () => {
+    it('should initialize with correct values', () => {
+      expect(adapter.provider).toBe('local');
+      expect(adapter.id).toBe(config.sandboxId);
+    });
+  });
+
+  describeSandboxContract({
+    getAdapter: () => adapter
+  });
+});
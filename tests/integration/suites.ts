@@ -48,6 +48,14 @@ export const describeSandboxContract = ({ getAdapter }: SandboxContractOptions)
       });
     });
 
+    describe('connect()', () => {
+      it('should attach to the running sandbox by ID', async () => {
+        await adapter.connect(adapter.id);
+
+        expect(adapter.status.state).toBe('Running');
+      });
+    });
+
     describe('ping()', () => {
       it('should return true when container is healthy', async () => {
         await adapter.ensureRunning();
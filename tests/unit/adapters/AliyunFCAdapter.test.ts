@@ -0,0 +1,126 @@
+import { existsSync, mkdtempSync, realpathSync, rmSync, statSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AliyunFCAdapter } from '@/adapters/AliyunFCAdapter';
+import { createSandboxAgent } from '@/agent';
+import { CommandExecutionError, SandboxException } from '@/errors';
+
+const TOKEN = 'agent-token';
+
+describe('AliyunFCAdapter', () => {
+  // Stands in for the agent running inside the FC custom container.
+  const workspaceRoot = realpathSync(mkdtempSync(join(tmpdir(), 'aliyun-fc-adapter-')));
+  let server: Server;
+  let endpoint: string;
+
+  const makeAdapter = (sandboxId = 'workspace-1', token = TOKEN) =>
+    new AliyunFCAdapter({ endpoint, sandboxId, token, workspaceRoot });
+
+  beforeAll(async () => {
+    server = createSandboxAgent({ token: TOKEN, rootDir: workspaceRoot });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe('Lifecycle Methods', () => {
+    it('should initialize with correct default values', () => {
+      const adapter = new AliyunFCAdapter({
+        endpoint: 'http://127.0.0.1:1',
+        sandboxId: 'defaults'
+      });
+
+      expect(adapter.provider).toBe('aliyunfc');
+      expect(adapter.id).toBe('defaults');
+      expect(adapter.rootPath).toBe('/mnt/nas/workspaces/defaults');
+    });
+
+    it('should reject sandbox IDs that leave the workspace root', () => {
+      for (const sandboxId of ['', '../escape', 'a/b']) {
+        expect(() => new AliyunFCAdapter({ endpoint, sandboxId })).toThrow(SandboxException);
+      }
+    });
+
+    it('should create the workspace on ensureRunning', async () => {
+      const adapter = makeAdapter();
+      expect(await adapter.getInfo()).toBeNull();
+
+      await adapter.ensureRunning();
+
+      expect(adapter.status.state).toBe('Running');
+      expect(statSync(adapter.rootPath).isDirectory()).toBe(true);
+      const info = await adapter.getInfo();
+      expect(info).toMatchObject({ id: 'workspace-1', status: { state: 'Running' } });
+      expect(info?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep the workspace across stop and start', async () => {
+      const adapter = makeAdapter();
+      await adapter.writeFiles([{ path: 'kept.txt', data: new Uint8Array([1]) }]);
+
+      await adapter.stop();
+      expect(adapter.status.state).toBe('Stopped');
+
+      await adapter.ensureRunning();
+      expect(adapter.status.state).toBe('Running');
+      expect(existsSync(join(adapter.rootPath, 'kept.txt'))).toBe(true);
+    });
+
+    it('should remove the workspace on delete', async () => {
+      const adapter = makeAdapter('workspace-delete');
+      await adapter.create();
+
+      await adapter.delete();
+
+      expect(adapter.status.state).toBe('UnExist');
+      expect(existsSync(adapter.rootPath)).toBe(false);
+      expect(await adapter.getInfo()).toBeNull();
+    });
+
+    it('should report the agent health through ping', async () => {
+      expect(await makeAdapter().ping()).toBe(true);
+      expect(await makeAdapter('workspace-1', 'wrong').ping()).toBe(false);
+    });
+
+    it('should reject requests with an invalid token', async () => {
+      await expect(makeAdapter('workspace-1', 'wrong').getInfo()).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+    });
+  });
+
+  describe('Workspace', () => {
+    let adapter: AliyunFCAdapter;
+
+    beforeAll(async () => {
+      adapter = makeAdapter('workspace-exec');
+      await adapter.ensureRunning();
+    });
+
+    it('should run commands in the workspace', async () => {
+      const result = await adapter.execute('pwd; echo $GREETING; cat', {
+        env: { GREETING: 'hi' },
+        stdin: 'from stdin'
+      });
+
+      expect(result.stdout).toBe(`${adapter.rootPath}\nhi\nfrom stdin`);
+      expect(result.exitCode).toBe(0);
+    });
+
+    it('should resolve relative file paths against the workspace', async () => {
+      const [written] = await adapter.writeFiles([{ path: 'nested/hello.txt', data: '你好 FC' }]);
+
+      expect(written).toMatchObject({ path: `${adapter.rootPath}/nested/hello.txt`, error: null });
+      const [read] = await adapter.readFiles(['nested/hello.txt']);
+      expect(new TextDecoder().decode(read.content)).toBe('你好 FC');
+    });
+  });
+});
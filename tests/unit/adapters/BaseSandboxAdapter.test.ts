@@ -1,7 +1,8 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { FeatureNotSupportedError, SandboxReadyTimeoutError } from '@/errors';
+import { FeatureNotSupportedError, SandboxNotFoundError, SandboxReadyTimeoutError } from '@/errors';
 import { BaseSandboxAdapter } from '@/adapters/BaseSandboxAdapter';
 import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import { MemorySnapshotStore } from '@/snapshot';
 import { MockSandboxAdapter } from '../../mocks/MockSandboxAdapter';
 import type { ExecuteResult, SandboxInfo } from '@/types';
 
@@ -105,6 +106,42 @@ describe('BaseSandboxAdapter', () => {
     expect(adapter.status).toEqual({ state: 'Creating' });
   });
 
+  // ==================== connect ====================
+
+  it('should refresh the status from getInfo on connect', async () => {
+    const adapter = new FallbackAdapter();
+    vi.spyOn(adapter, 'getInfo').mockResolvedValue({
+      id: 'fallback-id',
+      image: { repository: 'fallback' },
+      entrypoint: [],
+      status: { state: 'Stopped' },
+      createdAt: new Date()
+    });
+
+    await adapter.connect('fallback-id');
+
+    expect(adapter.status).toEqual({ state: 'Stopped' });
+  });
+
+  it('should throw SandboxNotFoundError when connecting to a missing sandbox', async () => {
+    const adapter = createPolyfillAdapter(() => ok());
+
+    await expect(adapter.connect()).rejects.toBeInstanceOf(SandboxNotFoundError);
+    await expect(adapter.connect()).rejects.toMatchObject({
+      code: 'SANDBOX_NOT_FOUND',
+      sandboxId: 'polyfill-test-id'
+    });
+    expect(adapter.status.state).toBe('UnExist');
+  });
+
+  it('should reject connecting a bound adapter to another sandbox', async () => {
+    const adapter = new FallbackAdapter();
+
+    await expect(adapter.connect('other-id')).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT'
+    });
+  });
+
   // ==================== executeStream ====================
 
   it('should fallback executeStream to execute', async () => {
@@ -166,6 +203,13 @@ describe('BaseSandboxAdapter', () => {
     await expect(adapter.interrupt('session-1')).rejects.toBeInstanceOf(FeatureNotSupportedError);
   });
 
+  // ==================== openPty ====================
+
+  it('should throw for openPty by default', async () => {
+    const adapter = new FallbackAdapter();
+    await expect(adapter.openPty()).rejects.toBeInstanceOf(FeatureNotSupportedError);
+  });
+
   // ==================== renewExpiration ====================
 
   it('should throw for renewExpiration by default', async () => {
@@ -173,6 +217,34 @@ describe('BaseSandboxAdapter', () => {
     await expect(adapter.renewExpiration(3600)).rejects.toBeInstanceOf(FeatureNotSupportedError);
   });
 
+  // ==================== Snapshots ====================
+
+  it('should refuse to snapshot or restore /', async () => {
+    const store = new MemorySnapshotStore();
+    await store.put('fallback-1', new Uint8Array([1]));
+    const execute = vi.spyOn(FallbackAdapter.prototype, 'execute');
+
+    await expect(new FallbackAdapter().createSnapshot({ store })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT'
+    });
+    await expect(
+      new FallbackAdapter().restoreSnapshot('fallback-1', { store })
+    ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+    expect(execute).not.toHaveBeenCalled();
+    execute.mockRestore();
+  });
+
+  it('should reject snapshot IDs that are not plain file names', async () => {
+    const store = new MemorySnapshotStore();
+    const adapter = new CustomRootAdapter();
+
+    for (const snapshotId of ['../escape', 'a/b', '.hidden', '']) {
+      await expect(adapter.restoreSnapshot(snapshotId, { store })).rejects.toMatchObject({
+        code: 'INVALID_ARGUMENT'
+      });
+    }
+  });
+
   // ==================== waitUntilReady ====================
 
   it('should resolve waitUntilReady when ping succeeds', async () => {
@@ -0,0 +1,774 @@
+import { spawn } from 'node:child_process';
+import {
+  mkdtempSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync
+} from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import type { Duplex } from 'node:stream';
+import { dirname, join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DockerAdapter } from '@/adapters/DockerAdapter';
+import { demuxDockerStream } from '@/adapters/DockerAdapter/api';
+import { ConnectionError, FileOperationError, TimeoutError } from '@/errors';
+import type { ExecuteResult } from '@/types';
+import { bufferToReadableStream, dataToBytes } from '@/utils/streams';
+import { createTarArchive, parseTarArchive } from '@/utils/tar';
+
+interface FakeContainer {
+  image: string;
+  labels: Record<string, string>;
+  status: 'created' | 'running' | 'paused' | 'exited';
+  created: string;
+}
+
+interface FakeExec {
+  cmd: string[];
+  env?: string[];
+  tty: boolean;
+  exitCode: number | null;
+}
+
+/**
+ * Minimal stand-in for the Docker Engine API served on a Unix socket.
+ *
+ * Exec commands run on the host and archive paths map to host paths, so
+ * commands and file transfers observe the same filesystem.
+ */
+class FakeDockerEngine {
+  readonly images = new Set<string>();
+  readonly pulls: string[] = [];
+  readonly commits: Array<{ image: string; comment: string | null }> = [];
+  readonly containers = new Map<string, FakeContainer>();
+  /** Terminal sizes received by POST /exec/{id}/resize */
+  readonly resizes: Array<{ exec: string; w: number; h: number }> = [];
+  /** Error message returned by the next POST /containers/{id}/start */
+  failNextStart?: string;
+  private execs = new Map<string, FakeExec>();
+  private execCounter = 0;
+  private server: Server;
+
+  constructor(readonly socketPath: string) {
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server.on('upgrade', (req, socket, head) => this.attachExec(req, socket, head));
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(this.socketPath, resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  private json(res: ServerResponse, status: number, body?: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://docker');
+    const path = url.pathname.replace(/^\/v[\d.]+/, '');
+    const body = await this.readBody(req);
+    let match: RegExpMatchArray | null;
+
+    if ((match = path.match(/^\/images\/(.+)\/json$/))) {
+      const image = decodeURIComponent(match[1]);
+      return this.images.has(image) ? this.json(res, 200, {}) : this.json(res, 404, {});
+    }
+    if (path === '/images/create') {
+      const image = `${url.searchParams.get('fromImage')}:${url.searchParams.get('tag')}`;
+      this.pulls.push(image);
+      this.images.add(image);
+      res.writeHead(200);
+      res.end('{"status":"Pulling"}\n{"status":"Done"}\n');
+      return;
+    }
+    if (path === '/commit') {
+      const container = this.containers.get(url.searchParams.get('container')!);
+      if (!container) return this.json(res, 404, { message: 'No such container' });
+      const image = `${url.searchParams.get('repo')}:${url.searchParams.get('tag')}`;
+      this.commits.push({ image, comment: url.searchParams.get('comment') });
+      this.images.add(image);
+      return this.json(res, 201, { Id: `sha256:${this.commits.length}` });
+    }
+    if (path === '/containers/create') {
+      const name = url.searchParams.get('name')!;
+      if (this.containers.has(name)) return this.json(res, 409, { message: 'conflict' });
+      const spec = JSON.parse(body.toString()) as { Image: string; Labels: Record<string, string> };
+      this.containers.set(name, {
+        image: spec.Image,
+        labels: spec.Labels,
+        status: 'created',
+        created: new Date().toISOString()
+      });
+      return this.json(res, 201, { Id: name });
+    }
+    if (path === '/containers/json') {
+      const [label] = (JSON.parse(url.searchParams.get('filters')!) as { label: string[] }).label;
+      const containers = [...this.containers]
+        .filter(([, c]) => label in c.labels)
+        .map(([name, c]) => ({ Id: name, Names: [`/${name}`], Labels: c.labels }));
+      return this.json(res, 200, containers);
+    }
+    if ((match = path.match(/^\/containers\/([^/]+)(\/.*)?$/))) {
+      const name = decodeURIComponent(match[1]);
+      const container = this.containers.get(name);
+      if (!container) return this.json(res, 404, { message: `No such container: ${name}` });
+      return this.handleContainer(name, container, match[2] ?? '', req, res, url, body);
+    }
+    if ((match = path.match(/^\/exec\/([^/]+)\/(start|json|resize)$/))) {
+      const exec = this.execs.get(match[1]);
+      if (!exec) return this.json(res, 404, { message: 'No such exec' });
+      if (match[2] === 'json') {
+        return this.json(res, 200, { ID: match[1], Running: false, ExitCode: exec.exitCode });
+      }
+      if (match[2] === 'resize') {
+        const [w, h] = ['w', 'h'].map((key) => Number(url.searchParams.get(key)));
+        this.resizes.push({ exec: match[1], w, h });
+        return this.json(res, 200);
+      }
+      return this.runExec(exec, JSON.parse(body.toString()).Detach === true, res);
+    }
+    this.json(res, 404, { message: 'not found' });
+  }
+
+  private handleContainer(
+    name: string,
+    container: FakeContainer,
+    action: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    body: Buffer
+  ): void {
+    switch (`${req.method} ${action}`) {
+      case 'GET /json':
+        return this.json(res, 200, {
+          Id: name,
+          Name: `/${name}`,
+          Created: container.created,
+          Config: {
+            Image: container.image,
+            Entrypoint: ['tail'],
+            Cmd: null,
+            Labels: container.labels
+          },
+          State: {
+            Status: container.status,
+            Running: container.status === 'running' || container.status === 'paused',
+            Paused: container.status === 'paused',
+            ExitCode: 0,
+            Error: ''
+          },
+          HostConfig: { NanoCpus: 2e9, Memory: 512 * 1024 * 1024 }
+        });
+      case 'POST /start':
+        if (this.failNextStart) {
+          const message = this.failNextStart;
+          this.failNextStart = undefined;
+          return this.json(res, 500, { message });
+        }
+        if (container.status === 'running') return this.json(res, 304);
+        container.status = 'running';
+        return this.json(res, 204);
+      case 'POST /stop':
+        container.status = 'exited';
+        return this.json(res, 204);
+      case 'DELETE ':
+        this.containers.delete(name);
+        return this.json(res, 204);
+      case 'POST /exec': {
+        const id = `exec-${++this.execCounter}`;
+        const spec = JSON.parse(body.toString()) as {
+          Cmd: string[];
+          Env?: string[];
+          Tty?: boolean;
+        };
+        this.execs.set(id, {
+          cmd: spec.Cmd,
+          env: spec.Env,
+          tty: spec.Tty === true,
+          exitCode: null
+        });
+        return this.json(res, 201, { Id: id });
+      }
+      case 'GET /stats':
+        return this.json(res, 200, {
+          cpu_stats: { cpu_usage: { total_usage: 300 }, system_cpu_usage: 2000, online_cpus: 2 },
+          precpu_stats: { cpu_usage: { total_usage: 100 }, system_cpu_usage: 1000 },
+          memory_stats: {
+            usage: 300 * 1024 * 1024,
+            limit: 512 * 1024 * 1024,
+            stats: { inactive_file: 100 * 1024 * 1024 }
+          }
+        });
+      case 'HEAD /archive':
+      case 'GET /archive':
+      case 'PUT /archive':
+        return this.handleArchive(req.method!, url.searchParams.get('path')!, res, body);
+      default:
+        this.json(res, 404, { message: `unhandled ${req.method} ${action}` });
+    }
+  }
+
+  private handleArchive(method: string, path: string, res: ServerResponse, body: Buffer): void {
+    let stat;
+    try {
+      stat = statSync(path);
+    } catch {
+      return this.json(res, 404, { message: 'Could not find the file' });
+    }
+
+    if (method === 'PUT') {
+      // Like the real engine, accept gzip-compressed tarballs as well.
+      const tar = body[0] === 0x1f && body[1] === 0x8b ? gunzipSync(body) : body;
+      for (const entry of parseTarArchive(tar)) {
+        const target = join(path, entry.name);
+        if (entry.type === 'directory') mkdirSync(target, { recursive: true });
+        if (entry.type === 'file') {
+          mkdirSync(dirname(target), { recursive: true });
+          writeFileSync(target, entry.data!);
+        }
+      }
+      return this.json(res, 200);
+    }
+
+    const name = path.split('/').pop()!;
+    const header = Buffer.from(
+      JSON.stringify({
+        name,
+        size: stat.size,
+        mode: (stat.isDirectory() ? 0x80000000 : 0) | (stat.mode & 0o777),
+        mtime: stat.mtime.toISOString(),
+        linkTarget: ''
+      })
+    ).toString('base64');
+
+    if (method === 'HEAD') {
+      res.writeHead(200, { 'X-Docker-Container-Path-Stat': header });
+      return void res.end();
+    }
+
+    const tar = stat.isDirectory()
+      ? createTarArchive([
+          { name, type: 'directory' },
+          ...readdirSync(path, { recursive: true, encoding: 'utf8' }).map((rel) =>
+            statSync(join(path, rel)).isDirectory()
+              ? { name: `${name}/${rel}`, type: 'directory' as const }
+              : {
+                  name: `${name}/${rel}`,
+                  type: 'file' as const,
+                  data: readFileSync(join(path, rel))
+                }
+          )
+        ])
+      : createTarArchive([{ name, type: 'file', data: readFileSync(path) }]);
+    res.writeHead(200, { 'Content-Type': 'application/x-tar' });
+    res.end(Buffer.from(tar));
+  }
+
+  /**
+   * Hijacked exec start. For a `Tty` exec, util-linux script stands in for
+   * the terminal the engine allocates and raw bytes flow both ways; otherwise
+   * output is multiplexed and ending the socket closes the process's stdin.
+   */
+  private attachExec(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const match = req.url?.match(/\/exec\/([^/]+)\/start$/);
+    const exec = match && this.execs.get(match[1]);
+    if (!exec) {
+      socket.end('HTTP/1.1 404 Not Found\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+    socket.write(
+      'HTTP/1.1 101 UPGRADED\r\nContent-Type: application/vnd.docker.raw-stream\r\n' +
+        'Connection: Upgrade\r\nUpgrade: tcp\r\n\r\n'
+    );
+
+    const env = Object.fromEntries((exec.env ?? []).map((kv) => kv.split('=', 2)));
+    const command = exec.cmd.map((arg) => `'${arg.replace(/'/g, `'\\''`)}'`).join(' ');
+    const child = exec.tty
+      ? spawn('script', ['-qefc', command, '/dev/null'], { env: { ...process.env, ...env } })
+      : spawn(exec.cmd[0], exec.cmd.slice(1), { env: { ...process.env, ...env } });
+    // The rest of the start request body precedes the terminal input.
+    let body = Math.max(0, Number(req.headers['content-length'] ?? 0) - head.length);
+    socket.on('data', (data: Buffer) => {
+      const input = data.subarray(body);
+      body = Math.max(0, body - data.length);
+      if (input.length > 0) child.stdin.write(input);
+    });
+    socket.on('end', () => child.stdin.end());
+    socket.on('error', () => {});
+    child.stdin.on('error', () => {});
+    if (exec.tty) {
+      child.stdout.on('data', (data: Buffer) => socket.write(data));
+    } else {
+      const frame = (stream: number) => (data: Buffer) => {
+        const header = Buffer.alloc(8);
+        header[0] = stream;
+        header.writeUInt32BE(data.length, 4);
+        socket.write(Buffer.concat([header, data]));
+      };
+      child.stdout.on('data', frame(1));
+      child.stderr.on('data', frame(2));
+    }
+    child.on('close', (code) => {
+      exec.exitCode = code;
+      socket.end();
+    });
+  }
+
+  private runExec(exec: FakeExec, detach: boolean, res: ServerResponse): void {
+    const env = Object.fromEntries((exec.env ?? []).map((kv) => kv.split('=', 2)));
+    const child = spawn(exec.cmd[0], exec.cmd.slice(1), { env: { ...process.env, ...env } });
+
+    const frame = (stream: number, data: Buffer) => {
+      const header = Buffer.alloc(8);
+      header[0] = stream;
+      header.writeUInt32BE(data.length, 4);
+      res.write(Buffer.concat([header, data]));
+    };
+
+    if (detach) {
+      child.on('close', (code) => (exec.exitCode = code));
+      return this.json(res, 200);
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+    child.stdout.on('data', (data: Buffer) => frame(1, data));
+    child.stderr.on('data', (data: Buffer) => frame(2, data));
+    child.on('close', (code) => {
+      exec.exitCode = code;
+      res.end();
+    });
+  }
+}
+
+describe('DockerAdapter', () => {
+  const workDir = mkdtempSync(join(tmpdir(), 'docker-adapter-'));
+  const engine = new FakeDockerEngine(join(workDir, 'docker.sock'));
+  const rootPath = join(workDir, 'root');
+  mkdirSync(rootPath);
+
+  const makeAdapter = (sandboxId = 'sandbox-1') =>
+    new DockerAdapter(
+      { sandboxId, socketPath: engine.socketPath },
+      {
+        image: { repository: 'alpine', tag: '3.19' },
+        metadata: { teamId: 'team-1' },
+        workingDir: rootPath
+      }
+    );
+
+  beforeAll(async () => {
+    await engine.listen();
+  });
+
+  afterAll(async () => {
+    await engine.close();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('Lifecycle Methods', () => {
+    it('should initialize with correct default values', () => {
+      const adapter = new DockerAdapter({ sandboxId: 'defaults' });
+
+      expect(adapter.provider).toBe('docker');
+      expect(adapter.id).toBe('defaults');
+      expect(adapter.rootPath).toBe('/workspace');
+      expect(adapter.status.state).toBe('Creating');
+    });
+
+    it('should require createConfig to create a container', async () => {
+      const adapter = new DockerAdapter({ sandboxId: 'no-config', socketPath: engine.socketPath });
+
+      await expect(adapter.create()).rejects.toThrow(ConnectionError);
+    });
+
+    it('should pull the image and create the container on ensureRunning', async () => {
+      const adapter = makeAdapter();
+
+      await adapter.ensureRunning();
+
+      expect(engine.pulls).toEqual(['alpine:3.19']);
+      expect(adapter.status.state).toBe('Running');
+      expect(engine.containers.get('sandbox-1')?.labels).toMatchObject({ teamId: 'team-1' });
+    });
+
+    it('should map container details into SandboxInfo', async () => {
+      const info = await makeAdapter().getInfo();
+
+      expect(info).toMatchObject({
+        id: 'sandbox-1',
+        image: { repository: 'alpine', tag: '3.19' },
+        metadata: { teamId: 'team-1' },
+        status: { state: 'Running' },
+        resourceLimits: { cpuCount: 2, memoryMiB: 512 }
+      });
+    });
+
+    it('should stop and restart the container', async () => {
+      const adapter = makeAdapter();
+
+      await adapter.stop();
+      expect(adapter.status.state).toBe('Stopped');
+      expect(await adapter.ping()).toBe(false);
+
+      await adapter.ensureRunning();
+      expect(adapter.status.state).toBe('Running');
+      expect(await adapter.ping()).toBe(true);
+    });
+
+    it('should remove the container when it fails to start', async () => {
+      const adapter = makeAdapter('sandbox-broken');
+      engine.failNextStart = 'port is already allocated';
+
+      await expect(adapter.create()).rejects.toBeInstanceOf(ConnectionError);
+      expect(engine.containers.has('sandbox-broken')).toBe(false);
+
+      await adapter.create();
+      expect(adapter.status.state).toBe('Running');
+      await adapter.delete();
+    });
+
+    it('should return null info once the container is deleted', async () => {
+      const adapter = makeAdapter('sandbox-delete');
+      await adapter.create();
+
+      await adapter.delete();
+
+      expect(adapter.status.state).toBe('UnExist');
+      expect(await adapter.getInfo()).toBeNull();
+    });
+
+    it('should commit snapshots and recreate the container from them', async () => {
+      const adapter = makeAdapter('sandbox-snapshot');
+      await adapter.create();
+
+      const snapshot = await adapter.createSnapshot({ name: 'checkpoint' });
+      expect(snapshot.id).toMatch(/^fastgpt-sandbox-snapshot:/);
+      expect(engine.commits).toEqual([{ image: snapshot.id, comment: 'checkpoint' }]);
+
+      await adapter.restoreSnapshot(snapshot.id);
+      expect(engine.containers.get('sandbox-snapshot')).toMatchObject({
+        image: snapshot.id,
+        labels: { teamId: 'team-1' },
+        status: 'running'
+      });
+      await expect(adapter.restoreSnapshot('fastgpt-sandbox-snapshot:gone')).rejects.toMatchObject({
+        code: 'SNAPSHOT_NOT_FOUND'
+      });
+      await adapter.delete();
+    });
+
+    it('should list and delete sandbox containers provider-wide', async () => {
+      engine.containers.set('foreign', {
+        image: 'nginx',
+        labels: {},
+        status: 'running',
+        created: new Date().toISOString()
+      });
+      const adapter = makeAdapter('sandbox-list');
+      await adapter.create();
+      await adapter.stop();
+      const config = { socketPath: engine.socketPath };
+
+      const all = await DockerAdapter.listSandboxes(config);
+      const stopped = await DockerAdapter.listSandboxes(config, {
+        states: ['Stopped'],
+        metadata: { teamId: 'team-1' }
+      });
+
+      expect(all.map((s) => s.id).sort()).toEqual(['sandbox-1', 'sandbox-list']);
+      expect(stopped.map((s) => s.id)).toEqual(['sandbox-list']);
+
+      await DockerAdapter.deleteSandbox(config, 'sandbox-list');
+      await DockerAdapter.deleteSandbox(config, 'sandbox-list');
+      expect(engine.containers.has('sandbox-list')).toBe(false);
+      engine.containers.delete('foreign');
+    });
+  });
+
+  describe('Command Execution', () => {
+    const adapter = makeAdapter();
+
+    it('should demultiplex stdout, stderr and exit code', async () => {
+      const result = await adapter.execute('echo out; echo err >&2; exit 3');
+
+      expect(result.stdout.trim()).toBe('out');
+      expect(result.stderr.trim()).toBe('err');
+      expect(result.exitCode).toBe(3);
+    });
+
+    it('should run in the working directory with extra env', async () => {
+      const result = await adapter.execute('pwd; echo $GREETING', {
+        workingDirectory: '/tmp',
+        env: { GREETING: 'hi' }
+      });
+
+      expect(result.stdout.split('\n')).toEqual(['/tmp', 'hi', '']);
+    });
+
+    it('should stream output chunks before completion', async () => {
+      const chunks: string[] = [];
+      let exitCode: number | null | undefined;
+
+      await adapter.executeStream('echo one; sleep 0.1; echo two', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          exitCode = result.exitCode;
+        }
+      });
+
+      expect(chunks.length).toBeGreaterThanOrEqual(2);
+      expect(chunks.join('')).toBe('one\ntwo\n');
+      expect(exitCode).toBe(0);
+    });
+
+    it('should feed stdin through a hijacked exec', async () => {
+      const text = await adapter.execute('cat; echo err >&2', { stdin: 'piped\n' });
+      const stream = await adapter.execute('wc -c', {
+        stdin: bufferToReadableStream(new Uint8Array(70000))
+      });
+
+      expect(text).toMatchObject({ stdout: 'piped\n', stderr: 'err\n', exitCode: 0 });
+      expect(stream.stdout.trim()).toBe('70000');
+    });
+
+    it('should time out long-running commands', async () => {
+      await expect(adapter.execute('sleep 5', { timeoutMs: 100 })).rejects.toThrow('timed out');
+    });
+
+    it('should kill commands that time out', async () => {
+      const marker = join(workDir, 'timeout-marker');
+
+      await expect(
+        adapter.execute(`sleep 0.5; touch ${marker}`, { timeoutMs: 100 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      await new Promise((resolve) => setTimeout(resolve, 700));
+
+      expect(() => statSync(marker)).toThrow();
+    });
+
+    it('should interrupt background sessions', async () => {
+      const marker = join(workDir, 'bg-marker');
+      const handle = await adapter.executeBackground(`sleep 5 && touch ${marker}`);
+      // Give the detached exec a moment to record its pid.
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      await handle.kill();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(() => statSync(marker)).toThrow();
+    });
+
+    it('should list, inspect and signal background sessions', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 5');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const listed = await adapter.listProcesses();
+      expect(listed.find((p) => p.sessionId === sessionId)).toMatchObject({
+        command: 'sleep 5',
+        status: 'running',
+        exitCode: null
+      });
+
+      await adapter.signal(sessionId, 'SIGKILL');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const process = await adapter.getProcess(sessionId);
+      expect(process).toMatchObject({ status: 'exited', exitCode: 137 });
+      expect(process?.startedAt).toBeInstanceOf(Date);
+      expect(await adapter.getProcess('bg-unknown')).toBeNull();
+      await expect(adapter.signal('bg-unknown')).rejects.toThrow('not found');
+    });
+
+    it('should reattach to background output and wait for the exit code', async () => {
+      const { sessionId } = await adapter.executeBackground(
+        'echo started; sleep 0.3; echo failed >&2; exit 3'
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const chunks: string[] = [];
+      let completed: ExecuteResult | undefined;
+      await adapter.attachBackground(sessionId, {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          completed = result;
+        }
+      });
+
+      expect(chunks.join('')).toBe('started\n');
+      expect(completed).toMatchObject({ stdout: 'started\n', stderr: 'failed\n', exitCode: 3 });
+      expect(await adapter.waitForBackground(sessionId)).toMatchObject({ exitCode: 3 });
+      await expect(adapter.waitForBackground('bg-unknown')).rejects.toThrow('not found');
+    });
+
+    it('should time out waiting without stopping the background command', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 5');
+
+      await expect(adapter.waitForBackground(sessionId, 200)).rejects.toBeInstanceOf(TimeoutError);
+      expect(await adapter.getProcess(sessionId)).toMatchObject({ status: 'running' });
+      await adapter.signal(sessionId, 'SIGKILL');
+    });
+
+    it('should open a terminal through a hijacked tty exec', async () => {
+      const pty = await adapter.openPty({ cols: 100, rows: 30, shell: 'sh', env: { A: 'b' } });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('stty size; echo "A=$A $TERM"; pwd\n');
+      await vi.waitFor(() => expect(output).toContain('A=b xterm-256color'));
+      expect(output).toContain('30 100');
+      expect(output).toContain(rootPath);
+
+      await pty.resize(120, 40);
+      expect(engine.resizes.at(-1)).toMatchObject({ w: 120, h: 40 });
+      await pty.write('exit 4\n');
+      expect(await pty.wait()).toBe(4);
+    });
+
+    it('should hang up the shell on close', async () => {
+      const pty = await adapter.openPty({ shell: 'sh' });
+      let output = '';
+      pty.onData((data) => {
+        output += new TextDecoder().decode(data);
+      });
+      await pty.write('echo ready\n');
+      await vi.waitFor(() => expect(output).toContain('ready'));
+
+      await pty.close();
+      expect(await pty.wait()).not.toBe(0);
+    });
+  });
+
+  describe('File System', () => {
+    const adapter = makeAdapter();
+
+    it('should round-trip files through the archive endpoints', async () => {
+      const binary = new Uint8Array([0, 1, 2, 253, 254, 255]);
+      const results = await adapter.writeFiles([
+        { path: 'hello.txt', data: '你好 docker' },
+        { path: 'nested/deep/data.bin', data: binary }
+      ]);
+
+      expect(results.map((r) => r.error)).toEqual([null, null]);
+      expect(results[0].path).toBe(`${rootPath}/hello.txt`);
+
+      const [text, bytes] = await adapter.readFiles(['hello.txt', 'nested/deep/data.bin']);
+      expect(new TextDecoder().decode(text.content)).toBe('你好 docker');
+      expect(bytes.content).toEqual(binary);
+    });
+
+    it('should support range reads and streams', async () => {
+      await adapter.writeFiles([{ path: 'range.txt', data: '0123456789' }]);
+
+      const [ranged] = await adapter.readFiles(['range.txt'], { range: '2-5' });
+      expect(new TextDecoder().decode(ranged.content)).toBe('234');
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of adapter.readFileStream('range.txt')) chunks.push(chunk);
+      expect(Buffer.concat(chunks).toString()).toBe('0123456789');
+    });
+
+    it('should report missing files and directories as errors', async () => {
+      const [missing, dir] = await adapter.readFiles(['missing.txt', 'nested']);
+
+      expect(missing.error).toBeInstanceOf(FileOperationError);
+      expect((missing.error as FileOperationError).fileErrorCode).toBe('FILE_NOT_FOUND');
+      expect((dir.error as FileOperationError).fileErrorCode).toBe('PATH_IS_DIRECTORY');
+    });
+
+    it('should export and import directories as tarballs', async () => {
+      await adapter.writeFiles([
+        { path: 'project/src/index.ts', data: 'export {};' },
+        { path: 'project/README.md', data: '# project' }
+      ]);
+
+      for (const format of ['tar', 'tar.gz'] as const) {
+        const archive = await dataToBytes(adapter.exportDirectory('project', { format }));
+        if (format === 'tar') {
+          expect(parseTarArchive(archive).map((e) => e.name)).toEqual(
+            expect.arrayContaining(['README.md', 'src/index.ts'])
+          );
+        }
+
+        const target = `restored-${format}`;
+        await adapter.importArchive(target, bufferToReadableStream(archive), { format });
+        const [file] = await adapter.readFiles([`${target}/src/index.ts`]);
+        expect(new TextDecoder().decode(file.content)).toBe('export {};');
+      }
+    });
+
+    it('should fail to export a missing directory', async () => {
+      await expect(dataToBytes(adapter.exportDirectory('missing-dir'))).rejects.toBeInstanceOf(
+        FileOperationError
+      );
+    });
+
+    it('should stat files through the archive endpoint', async () => {
+      const info = await adapter.getFileInfo(['hello.txt', 'nested', 'missing.txt']);
+
+      expect(info.get(`${rootPath}/hello.txt`)).toMatchObject({ isFile: true, size: 13 });
+      expect(info.get(`${rootPath}/nested`)).toMatchObject({ isDirectory: true, isFile: false });
+      expect(info.has(`${rootPath}/missing.txt`)).toBe(false);
+    });
+  });
+
+  describe('Health Check', () => {
+    it('should compute metrics from container stats', async () => {
+      const metrics = await makeAdapter().getMetrics();
+
+      expect(metrics).toMatchObject({
+        cpuCount: 2,
+        cpuUsedPercentage: 40,
+        memoryTotalMiB: 512,
+        memoryUsedMiB: 200
+      });
+    });
+  });
+
+  describe('demuxDockerStream', () => {
+    it('should reassemble frames split across chunks', async () => {
+      const frame = (stream: number, text: string) => {
+        const data = Buffer.from(text);
+        const header = Buffer.alloc(8);
+        header[0] = stream;
+        header.writeUInt32BE(data.length, 4);
+        return Buffer.concat([header, data]);
+      };
+      const raw = Buffer.concat([frame(1, 'hello'), frame(2, 'oops'), frame(1, 'world')]);
+
+      async function* chunks() {
+        for (let i = 0; i < raw.length; i += 3) yield raw.subarray(i, i + 3);
+      }
+
+      const frames: string[] = [];
+      for await (const { stream, data } of demuxDockerStream(chunks())) {
+        frames.push(`${stream}:${Buffer.from(data).toString()}`);
+      }
+      expect(frames).toEqual(['1:hello', '2:oops', '1:world']);
+    });
+  });
+});
@@ -1,6 +1,335 @@
-import { describe, expect, it } from 'vitest';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import {
+  CommandExitError,
+  FileNotFoundError,
+  FileType,
+  NotFoundError,
+  Sandbox,
+  SandboxError,
+  TimeoutError as E2BTimeoutError
+} from '@e2b/code-interpreter';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
 import { E2BAdapter } from '@/adapters/E2BAdapter';
-import { ConnectionError } from '@/errors';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FileOperationError,
+  SandboxNotFoundError,
+  TimeoutError
+} from '@/errors';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface FakeStartOpts {
+  background?: boolean;
+  cwd?: string;
+  envs?: Record<string, string>;
+  stdin?: boolean;
+  timeoutMs?: number;
+  onStdout?: (data: string) => void | Promise<void>;
+  onStderr?: (data: string) => void | Promise<void>;
+}
+
+interface FakePtyOpts {
+  cols: number;
+  rows: number;
+  cwd?: string;
+  envs?: Record<string, string>;
+  timeoutMs?: number;
+  onData: (data: Uint8Array) => void | Promise<void>;
+}
+
+type FakeWriteData = string | ArrayBuffer | Blob | ReadableStream<Uint8Array>;
+
+/**
+ * Stand-in for the E2B `Sandbox` object that runs commands and file operations
+ * on the host, mapping `/home/user` to a temporary directory.
+ */
+class FakeE2BSandbox {
+  readonly root = mkdtempSync(join(tmpdir(), 'e2b-fake-'));
+  readonly started: Array<{ command: string; opts: FakeStartOpts; pid: number }> = [];
+  metrics: Array<Record<string, unknown>> = [];
+  private readonly children = new Map<number, ChildProcess>();
+
+  private hostPath(path: string): string {
+    return path.replaceAll('/home/user', this.root);
+  }
+
+  private async stat(path: string) {
+    try {
+      return await fs.lstat(this.hostPath(path));
+    } catch {
+      throw new FileNotFoundError(`path '${path}' does not exist`);
+    }
+  }
+
+  private async writeOne(path: string, data: FakeWriteData): Promise<void> {
+    const target = this.hostPath(path);
+    await fs.mkdir(dirname(target), { recursive: true });
+    if (data instanceof ReadableStream) {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of Readable.fromWeb(data as never)) chunks.push(chunk as Uint8Array);
+      await fs.writeFile(target, Buffer.concat(chunks));
+    } else if (data instanceof Blob) {
+      await fs.writeFile(target, Buffer.from(await data.arrayBuffer()));
+    } else {
+      await fs.writeFile(target, typeof data === 'string' ? data : Buffer.from(data));
+    }
+  }
+
+  readonly files = {
+    read: async (path: string, opts?: { format?: 'text' | 'bytes' | 'stream' }) => {
+      await this.stat(path);
+      const content = new Uint8Array(await fs.readFile(this.hostPath(path)));
+      if (opts?.format === 'bytes') return content;
+      if (opts?.format === 'stream') {
+        return new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(content.slice(0, 10));
+            controller.enqueue(content.slice(10));
+            controller.close();
+          }
+        });
+      }
+      return new TextDecoder().decode(content);
+    },
+    write: async (
+      pathOrFiles: string | Array<{ path: string; data: FakeWriteData }>,
+      data?: FakeWriteData
+    ) => {
+      const entries =
+        typeof pathOrFiles === 'string' ? [{ path: pathOrFiles, data: data! }] : pathOrFiles;
+      for (const entry of entries) await this.writeOne(entry.path, entry.data);
+    },
+    getInfo: async (path: string) => {
+      const stat = await this.stat(path);
+      return {
+        name: path.split('/').pop(),
+        path,
+        type: stat.isDirectory()
+          ? FileType.DIR
+          : stat.isSymbolicLink()
+            ? FileType.SYMLINK
+            : FileType.FILE,
+        size: stat.size,
+        mode: stat.mode,
+        permissions: '',
+        owner: 'user',
+        group: 'user',
+        modifiedTime: stat.mtime
+      };
+    }
+  };
+
+  async getMetrics() {
+    return this.metrics;
+  }
+
+  private readonly exits = new Map<number, Promise<number>>();
+
+  /** Forward a child's output from now on to `opts` and return a command handle. */
+  private attach(pid: number, opts: FakeStartOpts) {
+    const child = this.children.get(pid)!;
+    let stdout = '';
+    let stderr = '';
+    let delivery = Promise.resolve();
+    child.stdout!.on('data', (data: string) => {
+      stdout += data;
+      delivery = delivery.then(() => opts.onStdout?.(data));
+    });
+    child.stderr!.on('data', (data: string) => {
+      stderr += data;
+      delivery = delivery.then(() => opts.onStderr?.(data));
+    });
+    const exited = this.exits.get(pid)!;
+    const timeoutMs = opts.timeoutMs ?? 60_000;
+
+    return {
+      pid,
+      disconnect: async () => undefined,
+      kill: () => this.commands.kill(pid),
+      sendStdin: async (data: string | Uint8Array) => {
+        child.stdin!.write(data);
+      },
+      closeStdin: async () => {
+        child.stdin!.end();
+      },
+      wait: async () => {
+        const exitCode = await new Promise<number>((resolve, reject) => {
+          const timer =
+            timeoutMs > 0
+              ? setTimeout(() => reject(new E2BTimeoutError('command timed out')), timeoutMs)
+              : undefined;
+          exited.then((code) => {
+            clearTimeout(timer);
+            resolve(code);
+          });
+        });
+        await delivery;
+        if (exitCode !== 0) {
+          throw new CommandExitError({ exitCode, stdout, stderr, error: 'exit status' });
+        }
+        return { exitCode, stdout, stderr };
+      }
+    };
+  }
+
+  readonly commands = {
+    run: async (command: string, opts: FakeStartOpts) => {
+      const cwd = opts.cwd && this.hostPath(opts.cwd);
+      const child = spawn('sh', ['-c', this.hostPath(command)], {
+        cwd: cwd && existsSync(cwd) ? cwd : this.root,
+        env: { ...process.env, ...opts.envs },
+        detached: true
+      });
+      const pid = child.pid!;
+      this.children.set(pid, child);
+      this.started.push({ command, opts, pid });
+      child.stdout!.setEncoding('utf8');
+      child.stderr!.setEncoding('utf8');
+      if (!opts.stdin) child.stdin!.end();
+
+      this.exits.set(
+        pid,
+        new Promise<number>((resolve) => {
+          child.on('close', (code) => {
+            this.children.delete(pid);
+            resolve(code ?? -1);
+          });
+        })
+      );
+      return this.attach(pid, opts);
+    },
+    connect: async (pid: number, opts: FakeStartOpts) => {
+      if (!this.children.has(pid)) throw new NotFoundError(`process with pid ${pid} not found`);
+      return this.attach(pid, opts);
+    },
+    kill: async (pid: number) => {
+      if (!this.children.has(pid)) return false;
+      process.kill(-pid, 'SIGKILL');
+      return true;
+    },
+    list: async () =>
+      this.started
+        .filter((s) => this.children.has(s.pid))
+        .map((s) => ({ pid: s.pid, cmd: '/bin/bash', args: ['-l', '-c', s.command], envs: {} }))
+  };
+
+  readonly ptyResizes: Array<{ pid: number; cols: number; rows: number }> = [];
+
+  /** Terminals run `sh` under util-linux script, which allocates the terminal. */
+  readonly pty = {
+    create: async (opts: FakePtyOpts) => {
+      const child = spawn(
+        'script',
+        ['-qefc', `stty cols ${opts.cols} rows ${opts.rows}; exec sh`, '/dev/null'],
+        {
+          cwd: this.hostPath(opts.cwd ?? '/home/user'),
+          env: { ...process.env, ...opts.envs },
+          detached: true
+        }
+      );
+      const pid = child.pid!;
+      this.children.set(pid, child);
+      child.stdout!.on('data', (data: Buffer) => void opts.onData(new Uint8Array(data)));
+      const exited = new Promise<number>((resolve) => {
+        child.on('close', (code) => {
+          this.children.delete(pid);
+          resolve(code ?? -1);
+        });
+      });
+      return {
+        pid,
+        wait: async () => {
+          const exitCode = await exited;
+          if (exitCode !== 0) {
+            throw new CommandExitError({ exitCode, stdout: '', stderr: '', error: 'exit status' });
+          }
+          return { exitCode, stdout: '', stderr: '' };
+        }
+      };
+    },
+    sendInput: async (pid: number, data: Uint8Array) => {
+      const child = this.children.get(pid);
+      if (!child) throw new NotFoundError(`process with pid ${pid} not found`);
+      child.stdin!.write(data);
+    },
+    resize: async (pid: number, size: { cols: number; rows: number }) => {
+      if (!this.children.has(pid)) throw new NotFoundError(`process with pid ${pid} not found`);
+      this.ptyResizes.push({ pid, ...size });
+    },
+    kill: (pid: number) => this.commands.kill(pid)
+  };
+
+  readonly codeRuns: Array<{ code: string; opts: Record<string, unknown> }> = [];
+  readonly codeContexts = new Map<string, { language: string; cwd: string }>();
+
+  /** Runs no code: `sleep` times out, `boom` raises and anything else returns a DataFrame. */
+  async runCode(code: string, opts: { context?: { id: string } } & Record<string, unknown>) {
+    this.codeRuns.push({ code, opts });
+    if (opts.context && !this.codeContexts.has(opts.context.id)) {
+      throw new NotFoundError(`context ${opts.context.id} not found`);
+    }
+    if (code === 'sleep') throw new E2BTimeoutError('execution timed out');
+    if (code === 'boom') {
+      return {
+        results: [],
+        logs: { stdout: [], stderr: [] },
+        error: { name: 'ValueError', value: 'bad', traceback: 'Traceback\nValueError: bad' },
+        executionCount: 2
+      };
+    }
+    return {
+      results: [
+        { isMainResult: false, png: 'iVBORw0KGgo=', text: '<Figure>' },
+        { isMainResult: true, text: '   a\n0  1', data: { a: [1] }, html: undefined }
+      ],
+      logs: { stdout: ['line 1\n', 'line 2\n'], stderr: ['warn\n'] },
+      error: undefined,
+      executionCount: 1
+    };
+  }
+
+  async createCodeContext(opts: { language?: string; cwd?: string }) {
+    const context = {
+      id: `ctx-${this.codeContexts.size}`,
+      language: opts.language ?? 'python',
+      cwd: opts.cwd ?? '/home/user'
+    };
+    this.codeContexts.set(context.id, context);
+    return context;
+  }
+
+  async removeCodeContext(id: string) {
+    if (!this.codeContexts.delete(id)) throw new NotFoundError(`context ${id} not found`);
+  }
+
+  async isRunning(): Promise<boolean> {
+    return true;
+  }
+
+  async createSnapshot(opts?: { name?: string }) {
+    return { snapshotId: `${opts?.name ?? 'snapshot'}:default`, names: [] };
+  }
+
+  get runningCount(): number {
+    return this.children.size;
+  }
+
+  isAlive(pid: number): boolean {
+    return this.children.has(pid);
+  }
+
+  dispose(): void {
+    for (const pid of this.children.keys()) process.kill(-pid, 'SIGKILL');
+    rmSync(this.root, { recursive: true, force: true });
+  }
+}
 
 /**
  * Unit tests for E2BAdapter.
@@ -240,4 +569,667 @@ describe('E2BAdapter', () => {
       }
     });
   });
+
+  describe('Command Execution', () => {
+    let fake: FakeE2BSandbox;
+    let adapter: E2BAdapter;
+
+    beforeAll(() => {
+      fake = new FakeE2BSandbox();
+      adapter = new E2BAdapter({ apiKey: 'test-api-key', sandboxId: 'exec-sandbox' });
+      adapter['sandbox'] = fake as never;
+    });
+
+    afterAll(() => {
+      fake.dispose();
+    });
+
+    it('should return non-zero exit codes as results', async () => {
+      const result = await adapter.execute('echo out; echo err >&2; exit 3');
+
+      expect(result).toMatchObject({ stdout: 'out\n', stderr: 'err\n', exitCode: 3 });
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should pass working directory and environment to the SDK', async () => {
+      const result = await adapter.execute('echo "$GREETING"', {
+        workingDirectory: 'project',
+        env: { GREETING: 'hello' }
+      });
+
+      expect(result.stdout).toBe('hello\n');
+      expect(fake.started.at(-1)?.opts).toMatchObject({
+        cwd: '/home/user/project',
+        envs: { GREETING: 'hello' }
+      });
+    });
+
+    it('should write stdin to the command', async () => {
+      const fromString = await adapter.execute('tr a-z A-Z', { stdin: 'hello' });
+      const fromStream = await adapter.execute('wc -c', {
+        stdin: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(70_000));
+            controller.enqueue(new Uint8Array(30_000));
+            controller.close();
+          }
+        })
+      });
+
+      expect(fromString.stdout).toBe('HELLO');
+      expect(fromStream.stdout.trim()).toBe('100000');
+    });
+
+    it('should truncate output beyond maxOutputBytes', async () => {
+      const result = await adapter.execute('head -c 5000 /dev/zero | tr "\\0" a', {
+        maxOutputBytes: 100
+      });
+
+      expect(result.truncated).toBe(true);
+      expect(result.stdout.length).toBeLessThanOrEqual(100);
+    });
+
+    it('should throw TimeoutError and kill the command when it exceeds timeoutMs', async () => {
+      await expect(adapter.execute('sleep 5', { timeoutMs: 100 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+      await wait(50);
+
+      expect(fake.runningCount).toBe(0);
+    });
+
+    it('should abort the command when the signal fires', async () => {
+      const controller = new AbortController();
+      const promise = adapter.execute('sleep 5', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(promise).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should stream chunks before the command completes', async () => {
+      const chunks: string[] = [];
+      let completedAfterChunks = false;
+
+      await adapter.executeStream('echo first; sleep 0.2; echo second >&2', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onStderr: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          completedAfterChunks = chunks.length === 2 && result.exitCode === 0;
+        }
+      });
+
+      expect(chunks.map((c) => c.trim())).toEqual(['first', 'second']);
+      expect(completedAfterChunks).toBe(true);
+    });
+
+    it('should join output chunks without inserting separators', async () => {
+      const result = await adapter.execute('printf a; sleep 0.1; printf b');
+
+      expect(result.stdout).toBe('ab');
+    });
+
+    it('should run background commands without a timeout and kill them', async () => {
+      const handle = await adapter.executeBackground('sleep 30');
+      const pid = Number(handle.sessionId);
+
+      expect(fake.started.at(-1)?.opts).toMatchObject({ background: true, timeoutMs: 0 });
+      expect(fake.isAlive(pid)).toBe(true);
+
+      await handle.kill();
+      await wait(100);
+      expect(fake.isAlive(pid)).toBe(false);
+    });
+
+    it('should reject interrupting unknown sessions', async () => {
+      await expect(adapter.interrupt('999999')).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should list running processes and signal them', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 30');
+      const pid = Number(sessionId);
+
+      expect(await adapter.getProcess(sessionId)).toMatchObject({
+        pid,
+        command: 'sleep 30',
+        status: 'running'
+      });
+
+      await adapter.signal(sessionId, 'SIGTERM');
+      await wait(100);
+      expect(fake.isAlive(pid)).toBe(false);
+      expect(await adapter.getProcess(sessionId)).toBeNull();
+      await expect(adapter.signal(sessionId)).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should reconnect to background commands and wait for them', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 0.3; echo later; exit 4');
+
+      const chunks: string[] = [];
+      let exitCode: number | null | undefined;
+      await adapter.attachBackground(sessionId, {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          exitCode = result.exitCode;
+        }
+      });
+
+      expect(chunks).toEqual(['later\n']);
+      expect(exitCode).toBe(4);
+      await expect(adapter.waitForBackground(sessionId)).rejects.toThrow('not found');
+    });
+
+    it('should time out waiting and leave the command running', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 30');
+
+      await expect(adapter.waitForBackground(sessionId, 100)).rejects.toBeInstanceOf(TimeoutError);
+      expect(fake.isAlive(Number(sessionId))).toBe(true);
+      await adapter.interrupt(sessionId);
+    });
+
+    it('should open a native terminal', async () => {
+      await fake.files.write('/home/user/term/.keep', '');
+      const pty = await adapter.openPty({ cols: 100, rows: 30, cwd: 'term', env: { A: 'b' } });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('stty size; echo "A=$A $TERM"; ls -a\n');
+      await vi.waitFor(() => expect(output).toContain('.keep'));
+      expect(output).toContain('30 100');
+      expect(output).toContain('A=b xterm-256color');
+
+      await pty.resize(120, 40);
+      expect(fake.ptyResizes).toContainEqual({ pid: Number(pty.id), cols: 120, rows: 40 });
+      await pty.write('exit 4\n');
+      expect(await pty.wait()).toBe(4);
+      await expect(pty.resize(80, 24)).rejects.toThrow(`PTY ${pty.id} not found`);
+    });
+
+    it('should kill the terminal on close', async () => {
+      const pty = await adapter.openPty();
+      await pty.close();
+
+      await pty.wait();
+      expect(fake.isAlive(Number(pty.id))).toBe(false);
+    });
+  });
+
+  describe('Code Interpreter', () => {
+    let fake: FakeE2BSandbox;
+    let adapter: E2BAdapter;
+
+    beforeAll(() => {
+      fake = new FakeE2BSandbox();
+      adapter = new E2BAdapter({ apiKey: 'test-api-key', sandboxId: 'code-sandbox' });
+      adapter['sandbox'] = fake as never;
+    });
+
+    afterAll(() => {
+      fake.dispose();
+    });
+
+    it('should map native executions to code results', async () => {
+      const execution = await adapter.runCode('df', { language: 'python', timeoutMs: 5000 });
+
+      expect(execution).toEqual({
+        results: [
+          { isMainResult: false, png: 'iVBORw0KGgo=', text: '<Figure>' },
+          { isMainResult: true, text: '   a\n0  1', data: { a: [1] } }
+        ],
+        stdout: 'line 1\nline 2\n',
+        stderr: 'warn\n',
+        error: undefined,
+        executionCount: 1
+      });
+      expect(fake.codeRuns.at(-1)?.opts).toMatchObject({ language: 'python', timeoutMs: 5000 });
+
+      expect((await adapter.runCode('boom')).error).toEqual({
+        name: 'ValueError',
+        value: 'bad',
+        traceback: 'Traceback\nValueError: bad'
+      });
+      await expect(adapter.runCode('sleep', { timeoutMs: 10 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+    });
+
+    it('should run code in native contexts', async () => {
+      const context = await adapter.createCodeContext({ language: 'r', cwd: 'analysis' });
+      expect(context).toEqual({ id: 'ctx-0', language: 'r', cwd: '/home/user/analysis' });
+
+      await adapter.runCode('df', { contextId: context.id });
+      expect(fake.codeRuns.at(-1)?.opts.context).toMatchObject({ id: context.id });
+
+      await adapter.removeCodeContext(context.id);
+      await expect(adapter.runCode('df', { contextId: context.id })).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+      await expect(adapter.removeCodeContext(context.id)).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+    });
+  });
+
+  describe('File System', () => {
+    let fake: FakeE2BSandbox;
+    let adapter: E2BAdapter;
+
+    beforeAll(() => {
+      fake = new FakeE2BSandbox();
+      adapter = new E2BAdapter({ apiKey: 'test-api-key', sandboxId: 'fs-sandbox' });
+      adapter['sandbox'] = fake as never;
+    });
+
+    afterAll(() => {
+      fake.dispose();
+    });
+
+    it('should round-trip binary content and apply modes', async () => {
+      const data = new Uint8Array(256).map((_, i) => i);
+      const [written] = await adapter.writeFiles([{ path: 'bin/data.bin', data, mode: 0o600 }]);
+      const [read] = await adapter.readFiles(['bin/data.bin']);
+      const info = await adapter.getFileInfo(['bin/data.bin']);
+
+      expect(written).toMatchObject({ bytesWritten: 256, error: null });
+      expect(read.content).toEqual(data);
+      expect(info.get('/home/user/bin/data.bin')).toMatchObject({
+        size: 256,
+        mode: 0o600,
+        isFile: true,
+        isDirectory: false
+      });
+    });
+
+    it('should count bytes written from streams', async () => {
+      const [written] = await adapter.writeFiles([
+        {
+          path: 'stream.txt',
+          data: new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('hello '));
+              controller.enqueue(new TextEncoder().encode('world'));
+              controller.close();
+            }
+          })
+        }
+      ]);
+      const [read] = await adapter.readFiles(['stream.txt']);
+
+      expect(written.bytesWritten).toBe(11);
+      expect(new TextDecoder().decode(read.content)).toBe('hello world');
+    });
+
+    it('should read byte ranges through the polyfill', async () => {
+      await adapter.writeFiles([{ path: 'range.txt', data: '0123456789' }]);
+      const [result] = await adapter.readFiles(['range.txt'], { range: '2-5' });
+
+      expect(new TextDecoder().decode(result.content)).toBe('234');
+    });
+
+    it('should map missing files to FILE_NOT_FOUND and skip them in getFileInfo', async () => {
+      const [result] = await adapter.readFiles(['missing.txt']);
+      const info = await adapter.getFileInfo(['missing.txt']);
+
+      expect(result.error).toBeInstanceOf(FileOperationError);
+      expect((result.error as FileOperationError).fileErrorCode).toBe('FILE_NOT_FOUND');
+      expect(info.size).toBe(0);
+    });
+
+    it('should replace content literally', async () => {
+      await adapter.writeFiles([{ path: 'replace.txt', data: 'a.b a.b axb' }]);
+      await adapter.replaceContent([{ path: 'replace.txt', oldContent: 'a.b', newContent: 'c' }]);
+      const [result] = await adapter.readFiles(['replace.txt']);
+
+      expect(new TextDecoder().decode(result.content)).toBe('c c axb');
+    });
+
+    it('should round-trip file streams', async () => {
+      const data = new TextEncoder().encode('streamed content over several chunks');
+      await adapter.writeFileStream(
+        'streams/out.txt',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(data);
+            controller.close();
+          }
+        })
+      );
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of adapter.readFileStream('streams/out.txt')) {
+        chunks.push(chunk);
+      }
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(new Uint8Array(Buffer.concat(chunks))).toEqual(data);
+    });
+
+    it('should search and set permissions through the polyfill', async () => {
+      await adapter.writeFiles([
+        { path: 'search/one.log', data: '' },
+        { path: 'search/two.txt', data: '' }
+      ]);
+      await adapter.setPermissions([{ path: 'search/two.txt', mode: 0o640 }]);
+      const results = await adapter.search('*.log', 'search');
+      const info = await adapter.getFileInfo(['search/two.txt']);
+
+      expect(results.map((r) => r.path)).toEqual([`${fake.root}/search/one.log`]);
+      expect(info.get('/home/user/search/two.txt')?.mode).toBe(0o640);
+    });
+
+    it('should report the latest native metrics', async () => {
+      fake.metrics = [
+        { timestamp: new Date(1000), cpuCount: 2, cpuUsedPct: 10, memUsed: 0, memTotal: 0 },
+        {
+          timestamp: new Date(2000),
+          cpuCount: 2,
+          cpuUsedPct: 42.5,
+          memUsed: 256 * 1024 * 1024,
+          memTotal: 1024 * 1024 * 1024
+        }
+      ];
+
+      expect(await adapter.getMetrics()).toEqual({
+        cpuCount: 2,
+        cpuUsedPercentage: 42.5,
+        memoryTotalMiB: 1024,
+        memoryUsedMiB: 256,
+        timestamp: 2000
+      });
+    });
+
+    it('should fall back to the polyfill when no metrics were collected yet', async () => {
+      fake.metrics = [];
+      const metrics = await adapter.getMetrics();
+
+      expect(metrics.cpuCount).toBeGreaterThan(0);
+      expect(metrics.memoryTotalMiB).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Provider-wide Management', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should list sandboxes across pages by upstream ID', async () => {
+      const pages = [
+        [
+          {
+            sandboxId: 'e2b-1',
+            templateId: 'base',
+            state: 'running',
+            startedAt: new Date('2026-01-01T00:00:00Z'),
+            endAt: new Date('2026-01-01T01:00:00Z'),
+            metadata: { upstreamId: 'upstream-1', app: 'fastgpt' },
+            cpuCount: 2,
+            memoryMB: 512
+          }
+        ],
+        [
+          {
+            sandboxId: 'e2b-2',
+            templateId: 'base',
+            state: 'paused',
+            startedAt: new Date('2026-01-02T00:00:00Z'),
+            endAt: new Date('2026-01-02T01:00:00Z'),
+            metadata: { app: 'fastgpt' },
+            cpuCount: 2,
+            memoryMB: 512
+          }
+        ]
+      ];
+      const list = vi.spyOn(Sandbox, 'list').mockReturnValue({
+        get hasNext() {
+          return pages.length > 0;
+        },
+        nextItems: async () => pages.shift()
+      } as never);
+
+      const sandboxes = await E2BAdapter.listSandboxes(
+        { apiKey: 'key' },
+        { metadata: { app: 'fastgpt' }, createdBefore: new Date('2026-01-03T00:00:00Z') }
+      );
+
+      expect(list.mock.calls[0][0]?.query).toEqual({
+        metadata: { app: 'fastgpt' },
+        state: ['running', 'paused']
+      });
+      expect(sandboxes.map((s) => [s.id, s.status.state])).toEqual([
+        ['upstream-1', 'Running'],
+        ['e2b-2', 'Stopped']
+      ]);
+      expect(sandboxes[0]).toMatchObject({
+        image: { repository: 'base' },
+        resourceLimits: { cpuCount: 2, memoryMiB: 512 }
+      });
+    });
+
+    it('should kill sandboxes by upstream ID, falling back to the E2B ID', async () => {
+      vi.spyOn(Sandbox, 'list')
+        .mockReturnValueOnce({ nextItems: async () => [{ sandboxId: 'e2b-1' }] } as never)
+        .mockReturnValueOnce({ nextItems: async () => [] } as never);
+      const kill = vi.spyOn(Sandbox, 'kill').mockResolvedValue(true);
+
+      await E2BAdapter.deleteSandbox({ apiKey: 'key' }, 'upstream-1');
+      await E2BAdapter.deleteSandbox({ apiKey: 'key' }, 'e2b-2');
+
+      expect(kill.mock.calls).toEqual([
+        ['e2b-1', { apiKey: 'key' }],
+        ['e2b-2', { apiKey: 'key' }]
+      ]);
+    });
+
+    it('should wrap listing failures in ConnectionError', async () => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({
+        hasNext: true,
+        nextItems: async () => {
+          throw new Error('unauthorized');
+        }
+      } as never);
+
+      await expect(E2BAdapter.listSandboxes({ apiKey: 'bad' })).rejects.toBeInstanceOf(
+        ConnectionError
+      );
+    });
+  });
+
+  describe('Pause, Resume and Expiration', () => {
+    const listed = (state: 'running' | 'paused', endAt = new Date(Date.now() + 60_000)) => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({
+        nextItems: async () => [
+          {
+            sandboxId: 'e2b-123',
+            state,
+            startedAt: new Date(0),
+            endAt,
+            metadata: { upstreamId: 'paused-sandbox' }
+          }
+        ]
+      } as never);
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should pause with a memory snapshot without resuming first', async () => {
+      listed('running');
+      const pause = vi.spyOn(Sandbox, 'pause').mockResolvedValue(true);
+      const connect = vi.spyOn(Sandbox, 'connect');
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox' });
+
+      await adapter.stop();
+
+      expect(pause).toHaveBeenCalledWith('e2b-123', { apiKey: 'key', keepMemory: true });
+      expect(connect).not.toHaveBeenCalled();
+      expect(adapter.status.state).toBe('Stopped');
+      expect(vi.mocked(Sandbox.list).mock.calls[0][0]?.query).toEqual({
+        metadata: { upstreamId: 'paused-sandbox' },
+        state: ['running', 'paused']
+      });
+    });
+
+    it('should treat stopping an already paused sandbox as a no-op', async () => {
+      listed('paused');
+      const pause = vi.spyOn(Sandbox, 'pause').mockResolvedValue(false);
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox' });
+
+      await adapter.stop();
+
+      expect(pause).not.toHaveBeenCalled();
+      expect(adapter.status.state).toBe('Stopped');
+    });
+
+    it('should report paused sandboxes as stopped without resuming them', async () => {
+      const endAt = new Date(Date.now() + 30_000);
+      listed('paused', endAt);
+      const connect = vi.spyOn(Sandbox, 'connect');
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox' });
+
+      const info = await adapter.getInfo();
+
+      expect(info?.status.state).toBe('Stopped');
+      expect(info?.expiresAt).toEqual(endAt);
+      expect(connect).not.toHaveBeenCalled();
+    });
+
+    it('should resume the sandbox found by upstreamId on start', async () => {
+      listed('paused');
+      const fake = new FakeE2BSandbox();
+      const connect = vi.spyOn(Sandbox, 'connect').mockResolvedValue(fake as never);
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox', timeout: 300 });
+
+      try {
+        await adapter.start();
+        const result = await adapter.execute('echo resumed');
+
+        expect(connect).toHaveBeenCalledWith('e2b-123', { apiKey: 'key', timeoutMs: 300_000 });
+        expect(adapter.status.state).toBe('Running');
+        expect(result.stdout).toBe('resumed\n');
+      } finally {
+        fake.dispose();
+      }
+    });
+
+    it('should extend the remaining timeout on renewExpiration', async () => {
+      listed('running', new Date(Date.now() + 60_000));
+      const setTimeoutSpy = vi.spyOn(Sandbox, 'setTimeout').mockResolvedValue();
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox' });
+
+      await adapter.renewExpiration(120);
+
+      const [sandboxId, timeoutMs] = setTimeoutSpy.mock.calls[0];
+      expect(sandboxId).toBe('e2b-123');
+      expect(timeoutMs).toBeGreaterThan(175_000);
+      expect(timeoutMs).toBeLessThanOrEqual(180_000);
+    });
+
+    it('should fail renewExpiration when the sandbox does not exist', async () => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({ nextItems: async () => [] } as never);
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'missing-sandbox' });
+
+      await expect(adapter.renewExpiration(60)).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should attach to a paused sandbox without resuming it', async () => {
+      listed('paused');
+      const connect = vi.spyOn(Sandbox, 'connect');
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'paused-sandbox' });
+
+      await adapter.connect();
+
+      expect(adapter.status.state).toBe('Stopped');
+      expect(connect).not.toHaveBeenCalled();
+    });
+
+    it('should fail to attach to a missing sandbox with SANDBOX_NOT_FOUND', async () => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({ nextItems: async () => [] } as never);
+      const create = vi.spyOn(Sandbox, 'create');
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'missing-sandbox' });
+
+      await expect(adapter.connect('missing-sandbox')).rejects.toBeInstanceOf(SandboxNotFoundError);
+      await expect(adapter.connect()).rejects.toMatchObject({ code: 'SANDBOX_NOT_FOUND' });
+      expect(adapter.status.state).toBe('UnExist');
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Snapshots', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should take native snapshots of the connected sandbox', async () => {
+      const fake = new FakeE2BSandbox();
+      vi.spyOn(Sandbox, 'create').mockResolvedValue(fake as never);
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'snap-sandbox' });
+
+      try {
+        await adapter.create();
+        const snapshot = await adapter.createSnapshot({ name: 'before-step' });
+
+        expect(snapshot).toMatchObject({
+          id: 'before-step:default',
+          sandboxId: 'snap-sandbox',
+          name: 'before-step'
+        });
+      } finally {
+        fake.dispose();
+      }
+    });
+
+    it('should restore by recreating the sandbox from the snapshot under the same upstream ID', async () => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({
+        nextItems: async () => [{ sandboxId: 'e2b-old', state: 'running' }]
+      } as never);
+      const kill = vi.spyOn(Sandbox, 'kill').mockResolvedValue(true);
+      const fake = new FakeE2BSandbox();
+      const create = vi.spyOn(Sandbox, 'create').mockResolvedValue(fake as never);
+      const adapter = new E2BAdapter({
+        apiKey: 'key',
+        sandboxId: 'snap-sandbox',
+        template: 'base'
+      });
+
+      try {
+        await adapter.restoreSnapshot('before-step:default');
+
+        expect(kill).toHaveBeenCalledWith('e2b-old', { apiKey: 'key' });
+        expect(create.mock.invocationCallOrder[0]).toBeLessThan(kill.mock.invocationCallOrder[0]);
+        expect(create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            template: 'before-step:default',
+            metadata: { upstreamId: 'snap-sandbox' }
+          })
+        );
+        expect(adapter.status.state).toBe('Running');
+      } finally {
+        fake.dispose();
+      }
+    });
+
+    it('should keep the sandbox when the snapshot does not exist', async () => {
+      vi.spyOn(Sandbox, 'list').mockReturnValue({
+        nextItems: async () => [{ sandboxId: 'e2b-old', state: 'running' }]
+      } as never);
+      const kill = vi.spyOn(Sandbox, 'kill').mockResolvedValue(true);
+      vi.spyOn(Sandbox, 'create').mockRejectedValue(
+        Object.assign(new SandboxError('404: template gone:default not found'), { statusCode: 404 })
+      );
+      const adapter = new E2BAdapter({ apiKey: 'key', sandboxId: 'snap-sandbox' });
+
+      await expect(adapter.restoreSnapshot('gone:default')).rejects.toMatchObject({
+        code: 'SNAPSHOT_NOT_FOUND'
+      });
+      expect(kill).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,8 +1,32 @@
-import { describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { OpenSandboxAdapter } from '@/adapters/OpenSandboxAdapter';
-import { createSandbox, type SandboxProviderType } from '@/index';
+import { DockerAdapter } from '@/adapters/DockerAdapter';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import { KubernetesAdapter } from '@/adapters/KubernetesAdapter';
+import { AliyunFCAdapter } from '@/adapters/AliyunFCAdapter';
+import { HttpAgentAdapter } from '@/adapters/HttpAgentAdapter';
+import {
+  createSandbox,
+  createSandboxManager,
+  listSandboxProviders,
+  registerSandboxProvider,
+  unregisterSandboxProvider,
+  type SandboxProviderType
+} from '@/index';
 import type { OpenSandboxConfigType } from '@/adapters/OpenSandboxAdapter/type';
 
+declare module '@/adapters' {
+  interface SandboxConnectionConfig {
+    custom: { name: string };
+  }
+  interface SandboxConfigMap {
+    custom: { env: Record<string, string> };
+  }
+}
+
 describe('createSandbox', () => {
   it('should create OpenSandbox adapter', () => {
     const sandbox = createSandbox(
@@ -23,6 +47,60 @@ describe('createSandbox', () => {
     expect(sandbox.provider).toBe('opensandbox');
   });
 
+  it('should create Docker adapter', () => {
+    const sandbox = createSandbox(
+      'docker',
+      { sandboxId: 'docker-sandbox' },
+      { image: { repository: 'ubuntu', tag: '22.04' } }
+    );
+
+    expect(sandbox).toBeInstanceOf(DockerAdapter);
+    expect(sandbox.provider).toBe('docker');
+    expect(sandbox.id).toBe('docker-sandbox');
+  });
+
+  it('should create LocalProcess adapter', () => {
+    const sandbox = createSandbox('local', { sandboxId: 'local-sandbox' });
+
+    expect(sandbox).toBeInstanceOf(LocalProcessAdapter);
+    expect(sandbox.provider).toBe('local');
+    expect(sandbox.id).toBe('local-sandbox');
+  });
+
+  it('should create Kubernetes adapter', () => {
+    const sandbox = createSandbox(
+      'kubernetes',
+      { sandboxId: 'k8s-sandbox', server: 'https://127.0.0.1:6443', token: 'test-token' },
+      { image: { repository: 'ubuntu', tag: '22.04' } }
+    );
+
+    expect(sandbox).toBeInstanceOf(KubernetesAdapter);
+    expect(sandbox.provider).toBe('kubernetes');
+    expect(sandbox.id).toBe('k8s-sandbox');
+  });
+
+  it('should create Aliyun FC adapter', () => {
+    const sandbox = createSandbox('aliyunfc', {
+      endpoint: 'https://sandbox.cn-hangzhou.fcapp.run',
+      sandboxId: 'fc-sandbox'
+    });
+
+    expect(sandbox).toBeInstanceOf(AliyunFCAdapter);
+    expect(sandbox.provider).toBe('aliyunfc');
+    expect(sandbox.id).toBe('fc-sandbox');
+  });
+
+  it('should create HTTP agent adapter', () => {
+    const sandbox = createSandbox('httpagent', {
+      endpoint: 'http://10.0.0.5:8080',
+      sandboxId: 'agent-sandbox'
+    });
+
+    expect(sandbox).toBeInstanceOf(HttpAgentAdapter);
+    expect(sandbox.provider).toBe('httpagent');
+    expect(sandbox.id).toBe('agent-sandbox');
+  });
+
   it('should throw error for unknown provider', () => {
     expect(() =>
       createSandbox('unknown' as SandboxProviderType, {}, {
@@ -30,4 +108,74 @@ describe('createSandbox', () => {
       } as unknown as OpenSandboxConfigType)
     ).toThrow('Unknown provider');
   });
+
+  describe('provider registry', () => {
+    afterEach(() => {
+      unregisterSandboxProvider('custom');
+    });
+
+    it('should list the built-in providers', () => {
+      expect(listSandboxProviders()).toEqual(
+        expect.arrayContaining(['opensandbox', 'docker', 'local', 'httpagent'])
+      );
+    });
+
+    it('should create sandboxes from a registered provider', () => {
+      const factory = vi.fn(
+        (config: { name: string }, createConfig?: { env: Record<string, string> }) =>
+          new LocalProcessAdapter({ sandboxId: config.name, env: createConfig?.env })
+      );
+      registerSandboxProvider('custom', factory);
+
+      const sandbox = createSandbox('custom', { name: 'plugin-1' }, { env: { A: '1' } });
+
+      expect(sandbox).toBeInstanceOf(LocalProcessAdapter);
+      expect(sandbox.id).toBe('plugin-1');
+      expect(factory).toHaveBeenCalledWith({ name: 'plugin-1' }, { env: { A: '1' } });
+      expect(listSandboxProviders()).toContain('custom');
+    });
+
+    it('should reject duplicate registrations', () => {
+      const factory = () => new LocalProcessAdapter({ sandboxId: 'duplicate' });
+      registerSandboxProvider('custom', factory);
+
+      expect(() => registerSandboxProvider('custom', factory)).toThrow(
+        'Provider already registered: custom'
+      );
+      expect(() => registerSandboxProvider('docker', factory)).toThrow(
+        'Provider already registered: docker'
+      );
+    });
+
+    it('should forget unregistered providers', () => {
+      registerSandboxProvider('custom', () => new LocalProcessAdapter({ sandboxId: 'gone' }));
+
+      expect(unregisterSandboxProvider('custom')).toBe(true);
+      expect(unregisterSandboxProvider('custom')).toBe(false);
+      expect(() => createSandbox('custom', { name: 'gone' })).toThrow('Unknown provider: custom');
+    });
+  });
+
+  describe('createSandboxManager', () => {
+    it('should list and delete through the provider', async () => {
+      const baseDir = mkdtempSync(join(tmpdir(), 'factory-manager-'));
+      try {
+        await new LocalProcessAdapter({ sandboxId: 'managed', baseDir }).create();
+        const manager = createSandboxManager('local', { baseDir });
+
+        expect(manager.provider).toBe('local');
+        expect((await manager.listSandboxes()).map((s) => s.id)).toEqual(['managed']);
+        await manager.deleteSandbox('managed');
+        expect(await manager.listSandboxes()).toEqual([]);
+      } finally {
+        rmSync(baseDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject providers without listing support', () => {
+      expect(() => createSandboxManager('sealosdevbox' as never, {} as never)).toThrow(
+        'Provider does not support sandbox listing: sealosdevbox'
+      );
+    });
+  });
 });
@@ -0,0 +1,399 @@
+import { existsSync, mkdtempSync, readFileSync, realpathSync, rmSync, statSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { HttpAgentAdapter } from '@/adapters/HttpAgentAdapter';
+import { createSandboxAgent } from '@/agent';
+import {
+  CommandExecutionError,
+  FileOperationError,
+  SandboxException,
+  TimeoutError
+} from '@/errors';
+
+const TOKEN = 'agent-token';
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('HttpAgentAdapter', () => {
+  const rootDir = realpathSync(mkdtempSync(join(tmpdir(), 'http-agent-adapter-')));
+  let server: Server;
+  let endpoint: string;
+
+  const makeAdapter = (token = TOKEN) =>
+    new HttpAgentAdapter({ sandboxId: 'agent-1', endpoint, token, rootPath: rootDir });
+
+  beforeAll(async () => {
+    server = createSandboxAgent({ token: TOKEN, rootDir });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('Lifecycle Methods', () => {
+    it('should initialize with correct default values', () => {
+      const adapter = new HttpAgentAdapter({
+        sandboxId: 'defaults',
+        endpoint: 'http://127.0.0.1:1'
+      });
+
+      expect(adapter.provider).toBe('httpagent');
+      expect(adapter.id).toBe('defaults');
+      expect(adapter.rootPath).toBe('/workspace');
+    });
+
+    it('should be running while the agent answers', async () => {
+      const adapter = makeAdapter();
+
+      await adapter.ensureRunning();
+
+      expect(adapter.status.state).toBe('Running');
+      const info = await adapter.getInfo();
+      expect(info).toMatchObject({ id: 'agent-1', status: { state: 'Running' } });
+      expect(info?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should report an unreachable agent as not existing', async () => {
+      const adapter = new HttpAgentAdapter({ sandboxId: 'gone', endpoint: 'http://127.0.0.1:1' });
+
+      expect(await adapter.getInfo()).toBeNull();
+      expect(adapter.status.state).toBe('UnExist');
+      expect(await adapter.ping()).toBe(false);
+    });
+
+    it('should call the lifecycle hooks', async () => {
+      const calls: string[] = [];
+      const hook = (name: string) => async (id: string) => {
+        calls.push(`${name}:${id}`);
+      };
+      const adapter = new HttpAgentAdapter({
+        sandboxId: 'hooked',
+        endpoint,
+        token: TOKEN,
+        lifecycle: {
+          create: hook('create'),
+          start: hook('start'),
+          stop: hook('stop'),
+          delete: hook('delete')
+        }
+      });
+
+      await adapter.create();
+      await adapter.stop();
+      expect(adapter.status.state).toBe('Stopped');
+      await adapter.ensureRunning();
+      expect(adapter.status.state).toBe('Running');
+      await adapter.delete();
+
+      expect(adapter.status.state).toBe('UnExist');
+      expect(calls).toEqual(['create:hooked', 'stop:hooked', 'start:hooked', 'delete:hooked']);
+    });
+
+    it('should reject requests with an invalid token', async () => {
+      const adapter = makeAdapter('wrong');
+
+      expect(await adapter.ping()).toBe(false);
+      await expect(adapter.getInfo()).rejects.toBeInstanceOf(CommandExecutionError);
+      await expect(adapter.execute('true')).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should return metrics from the agent', async () => {
+      const metrics = await makeAdapter().getMetrics();
+
+      expect(metrics.cpuCount).toBeGreaterThan(0);
+      expect(metrics.memoryTotalMiB).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Command Execution', () => {
+    let adapter: HttpAgentAdapter;
+
+    beforeAll(() => {
+      adapter = makeAdapter();
+    });
+
+    it('should return stdout, stderr and exit code', async () => {
+      const result = await adapter.execute('echo out; echo err >&2; exit 3');
+
+      expect(result.stdout).toBe('out\n');
+      expect(result.stderr).toBe('err\n');
+      expect(result.exitCode).toBe(3);
+    });
+
+    it('should run in the root with extra env and stdin', async () => {
+      const result = await adapter.execute('pwd; echo $GREETING; cat', {
+        env: { GREETING: 'hi' },
+        stdin: 'from stdin'
+      });
+      const inTmp = await adapter.execute('pwd', { workingDirectory: '/tmp' });
+
+      expect(result.stdout).toBe(`${rootDir}\nhi\nfrom stdin`);
+      expect(inTmp.stdout).toBe('/tmp\n');
+    });
+
+    it('should stream output as it is produced', async () => {
+      const chunks: string[] = [];
+      let completed = false;
+
+      await adapter.executeStream('echo one; sleep 0.2; echo two', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          completed = result.exitCode === 0;
+        }
+      });
+
+      expect(chunks).toEqual(['one\n', 'two\n']);
+      expect(completed).toBe(true);
+    });
+
+    it('should truncate output beyond maxOutputBytes', async () => {
+      const result = await adapter.execute('head -c 5000 /dev/zero | tr "\\0" a', {
+        maxOutputBytes: 100
+      });
+
+      expect(result.truncated).toBe(true);
+      expect(result.stdout.length).toBe(100);
+    });
+
+    it('should throw TimeoutError when the agent times the command out', async () => {
+      await expect(adapter.execute('sleep 5', { timeoutMs: 100 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+    });
+
+    it('should kill the command when the signal fires', async () => {
+      const controller = new AbortController();
+      const promise = adapter.execute('sleep 0.5 && touch aborted.txt', {
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(promise).rejects.toThrow('Command aborted');
+      await wait(700);
+      expect(existsSync(join(rootDir, 'aborted.txt'))).toBe(false);
+    });
+
+    it('should run and interrupt background commands', async () => {
+      const { sessionId, kill } = await adapter.executeBackground(
+        'sleep 0.5 && touch background.txt'
+      );
+      expect(sessionId).toBeTruthy();
+
+      await kill();
+      await wait(700);
+      expect(existsSync(join(rootDir, 'background.txt'))).toBe(false);
+      await expect(adapter.interrupt('unknown')).rejects.toThrow('Session unknown not found');
+    });
+
+    it('should list, inspect and signal background processes', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 30');
+
+      expect(await adapter.listProcesses()).toContainEqual(
+        expect.objectContaining({ sessionId, command: 'sleep 30', status: 'running' })
+      );
+
+      await adapter.signal(sessionId, 'SIGKILL');
+      await wait(200);
+
+      const process = await adapter.getProcess(sessionId);
+      expect(process?.status).toBe('exited');
+      expect(process?.startedAt).toBeInstanceOf(Date);
+      expect(await adapter.getProcess('unknown')).toBeNull();
+      await expect(adapter.signal('unknown')).rejects.toThrow('Session unknown not found');
+    });
+
+    it('should reattach to background output and wait for it', async () => {
+      const { sessionId } = await adapter.executeBackground(
+        'echo out; echo err >&2; sleep 0.3; echo done; exit 2'
+      );
+      await wait(100);
+
+      const stdout: string[] = [];
+      let stderr = '';
+      await adapter.attachBackground(sessionId, {
+        onStdout: (msg) => {
+          stdout.push(msg.text);
+        },
+        onStderr: (msg) => {
+          stderr += msg.text;
+        }
+      });
+
+      expect(stdout.join('')).toBe('out\ndone\n');
+      expect(stderr).toBe('err\n');
+      expect(await adapter.waitForBackground(sessionId)).toMatchObject({
+        stdout: 'out\ndone\n',
+        exitCode: 2
+      });
+
+      const running = await adapter.executeBackground('sleep 30');
+      await expect(adapter.waitForBackground(running.sessionId, 100)).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+      await running.kill();
+      await expect(adapter.waitForBackground('unknown')).rejects.toThrow(
+        'Session unknown not found'
+      );
+    });
+
+    it('should run an interactive terminal under script', async () => {
+      const pty = await adapter.openPty({ cols: 100, rows: 30, shell: 'sh', env: { A: 'b' } });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('tty; stty size; echo "A=$A"\n');
+      await vi.waitFor(() => expect(output).toContain('A=b'));
+      expect(output).toMatch(/\/dev\/pts\/\d+/);
+      expect(output).toContain('30 100');
+
+      await pty.resize(120, 40);
+      await pty.write('stty size; exit 4\n');
+      expect(await pty.wait()).toBe(4);
+      expect(output).toContain('40 120');
+    });
+
+    it('should close an interactive terminal', async () => {
+      const pty = await adapter.openPty({ shell: 'sh' });
+      await pty.close();
+
+      await expect(pty.resize(80, 24)).rejects.toThrow(`PTY ${pty.id} not found`);
+    });
+  });
+
+  describe('File System', () => {
+    let adapter: HttpAgentAdapter;
+
+    beforeAll(() => {
+      adapter = makeAdapter();
+    });
+
+    it('should round-trip files through the agent', async () => {
+      const binary = new Uint8Array([0, 1, 2, 253, 254, 255]);
+      const results = await adapter.writeFiles([
+        { path: 'hello.txt', data: '你好 agent' },
+        { path: 'nested/data.bin', data: binary, mode: 0o600 }
+      ]);
+
+      expect(results.map((r) => r.error)).toEqual([null, null]);
+      expect(results[0]).toMatchObject({ path: `${rootDir}/hello.txt`, bytesWritten: 12 });
+      expect(statSync(join(rootDir, 'nested/data.bin')).mode & 0o777).toBe(0o600);
+
+      const [text, bytes] = await adapter.readFiles(['hello.txt', 'nested/data.bin']);
+      expect(new TextDecoder().decode(text.content)).toBe('你好 agent');
+      expect(bytes.content).toEqual(binary);
+    });
+
+    it('should read byte ranges natively', async () => {
+      await adapter.writeFiles([{ path: 'range.txt', data: '0123456789' }]);
+
+      const [bounded] = await adapter.readFiles(['range.txt'], { range: '2-5' });
+      const [open] = await adapter.readFiles(['range.txt'], { range: '7-' });
+
+      expect(new TextDecoder().decode(bounded.content)).toBe('234');
+      expect(new TextDecoder().decode(open.content)).toBe('789');
+    });
+
+    it('should stream files in both directions', async () => {
+      const data = new Uint8Array(256 * 1024).map((_, i) => i % 251);
+      await adapter.writeFileStream(
+        'streamed.bin',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(data.subarray(0, 1000));
+            controller.enqueue(data.subarray(1000));
+            controller.close();
+          }
+        })
+      );
+      expect(readFileSync(join(rootDir, 'streamed.bin')).equals(data)).toBe(true);
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of adapter.readFileStream('streamed.bin')) chunks.push(chunk);
+      expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    });
+
+    it('should stat and list files', async () => {
+      await adapter.writeFiles([{ path: 'listing/a.txt', data: new Uint8Array([1, 2, 3]) }]);
+      await adapter.createDirectories(['listing/sub']);
+
+      const info = await adapter.getFileInfo(['listing/a.txt', 'listing/missing.txt']);
+      expect([...info.keys()]).toEqual([`${rootDir}/listing/a.txt`]);
+      expect(info.get(`${rootDir}/listing/a.txt`)).toMatchObject({ size: 3, isFile: true });
+      expect(info.get(`${rootDir}/listing/a.txt`)?.modifiedAt).toBeInstanceOf(Date);
+
+      const entries = await adapter.listDirectory('listing');
+      expect(entries.map((e) => [e.name, e.isDirectory]).sort()).toEqual([
+        ['a.txt', false],
+        ['sub', true]
+      ]);
+    });
+
+    it('should map agent file errors to FileOperationError', async () => {
+      const [result] = await adapter.readFiles(['missing.txt']);
+
+      expect(result.error).toBeInstanceOf(FileOperationError);
+      expect((result.error as FileOperationError).fileErrorCode).toBe('FILE_NOT_FOUND');
+      await expect(adapter.listDirectory('hello.txt')).rejects.toMatchObject({
+        fileErrorCode: 'PATH_NOT_DIRECTORY'
+      });
+    });
+  });
+
+  describe('Sandbox Agent', () => {
+    const request = (path: string, init?: RequestInit) =>
+      fetch(`${endpoint}/v1${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${TOKEN}`, ...init?.headers }
+      });
+
+    it('should refuse to start without a token unless explicitly unauthenticated', async () => {
+      expect(() => createSandboxAgent({ rootDir })).toThrow(SandboxException);
+
+      const open = createSandboxAgent({ rootDir, allowUnauthenticated: true });
+      await new Promise<void>((resolve) => open.listen(0, '127.0.0.1', resolve));
+      try {
+        const adapter = new HttpAgentAdapter({
+          sandboxId: 'open',
+          endpoint: `http://127.0.0.1:${(open.address() as AddressInfo).port}`,
+          rootPath: rootDir
+        });
+        expect((await adapter.execute('echo ok')).stdout).toBe('ok\n');
+      } finally {
+        await new Promise((resolve) => open.close(resolve));
+      }
+    });
+
+    it('should keep relative paths inside the root directory', async () => {
+      const res = await request(`/files?path=${encodeURIComponent('../outside.txt')}`, {
+        method: 'PUT',
+        body: 'x'
+      });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ code: 'INVALID_PATH' });
+      expect(existsSync(join(rootDir, '..', 'outside.txt'))).toBe(false);
+    });
+
+    it('should reject oversized JSON bodies', async () => {
+      const res = await request('/files/stat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paths: ['a'.repeat(2 * 1024 * 1024)] })
+      });
+
+      expect(res.status).toBe(413);
+      expect(await res.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    });
+  });
+});
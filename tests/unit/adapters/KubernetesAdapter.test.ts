@@ -0,0 +1,577 @@
+import { spawn } from 'node:child_process';
+import { existsSync, mkdtempSync, mkdirSync, rmSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Duplex } from 'node:stream';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { KubernetesAdapter } from '@/adapters/KubernetesAdapter';
+import type {
+  KubernetesNetworkPolicy,
+  KubernetesPod,
+  KubernetesStatefulSet
+} from '@/adapters/KubernetesAdapter/type';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FeatureNotSupportedError,
+  TimeoutError
+} from '@/errors';
+import { acceptWebSocket } from '@/utils/websocket';
+
+const TOKEN = 'test-token';
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const quote = (arg: string) => `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Minimal stand-in for the Kubernetes API server.
+ *
+ * StatefulSets with one replica immediately get a ready pod; scaling to zero
+ * removes it. Exec runs the requested command on the host and speaks the
+ * channel.k8s.io WebSocket protocol.
+ */
+class FakeKubernetesApi {
+  readonly statefulSets = new Map<string, KubernetesStatefulSet>();
+  readonly pods = new Map<string, KubernetesPod>();
+  readonly networkPolicies = new Map<string, KubernetesNetworkPolicy>();
+  /** Exec subprotocols the server accepts */
+  execProtocols = ['v5.channel.k8s.io', 'v4.channel.k8s.io'];
+  /** Query strings of exec requests, most recent last */
+  readonly execQueries: URLSearchParams[] = [];
+  /** Terminal sizes received on the resize channel */
+  readonly resizes: Array<{ Width: number; Height: number }> = [];
+  private server: Server;
+  private sockets = new Set<Duplex>();
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server.on('upgrade', (req, socket, head) => this.handleExec(req, socket, head));
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    for (const socket of this.sockets) socket.destroy();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private json(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private notFound(res: ServerResponse, kind: string, name: string): void {
+    this.json(res, 404, {
+      kind: 'Status',
+      status: 'Failure',
+      message: `${kind} "${name}" not found`,
+      reason: 'NotFound',
+      code: 404
+    });
+  }
+
+  private syncPod(statefulSet: KubernetesStatefulSet): void {
+    const name = `${statefulSet.metadata.name}-0`;
+    if (statefulSet.spec.replicas === 0) {
+      this.pods.delete(name);
+    } else if (!this.pods.has(name)) {
+      this.pods.set(name, {
+        metadata: { name, labels: statefulSet.spec.template.metadata.labels },
+        spec: statefulSet.spec.template.spec,
+        status: {
+          phase: 'Running',
+          conditions: [{ type: 'Ready', status: 'True' }],
+          containerStatuses: [{ name: 'sandbox', ready: true, state: {} }]
+        }
+      });
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return this.json(res, 401, { kind: 'Status', message: 'Unauthorized', code: 401 });
+    }
+
+    const url = new URL(req.url ?? '/', 'http://kubernetes');
+    let match: RegExpMatchArray | null;
+
+    if (
+      (match = url.pathname.match(/^\/apis\/apps\/v1\/namespaces\/test\/statefulsets(?:\/(.+))?$/))
+    ) {
+      const name = match[1];
+      const existing = name ? this.statefulSets.get(name) : undefined;
+      if (name && !existing) return this.notFound(res, 'statefulsets.apps', name);
+
+      switch (req.method) {
+        case 'POST': {
+          const statefulSet = body as KubernetesStatefulSet;
+          statefulSet.metadata.creationTimestamp = new Date().toISOString();
+          this.statefulSets.set(statefulSet.metadata.name, statefulSet);
+          this.syncPod(statefulSet);
+          return this.json(res, 201, statefulSet);
+        }
+        case 'GET': {
+          if (name) return this.json(res, 200, existing);
+          const selector = url.searchParams.get('labelSelector')!;
+          const items = [...this.statefulSets.values()].filter(
+            (s) => s.metadata.labels && selector in s.metadata.labels
+          );
+          return this.json(res, 200, { kind: 'StatefulSetList', items });
+        }
+        case 'PATCH':
+          expect(req.headers['content-type']).toBe('application/merge-patch+json');
+          existing!.spec.replicas = body.spec.replicas;
+          this.syncPod(existing!);
+          return this.json(res, 200, existing);
+        case 'DELETE':
+          existing!.spec.replicas = 0;
+          this.syncPod(existing!);
+          this.statefulSets.delete(name!);
+          return this.json(res, 200, { kind: 'Status', status: 'Success' });
+      }
+    }
+    if ((match = url.pathname.match(/^\/api\/v1\/namespaces\/test\/pods\/([^/]+)$/))) {
+      const pod = this.pods.get(match[1]);
+      return pod ? this.json(res, 200, pod) : this.notFound(res, 'pods', match[1]);
+    }
+    if (
+      (match = url.pathname.match(
+        /^\/apis\/networking\.k8s\.io\/v1\/namespaces\/test\/networkpolicies(?:\/(.+))?$/
+      ))
+    ) {
+      if (req.method === 'POST') {
+        const policy = body as KubernetesNetworkPolicy;
+        this.networkPolicies.set(policy.metadata.name, policy);
+        return this.json(res, 201, policy);
+      }
+      if (!this.networkPolicies.delete(match[1])) {
+        return this.notFound(res, 'networkpolicies', match[1]);
+      }
+      return this.json(res, 200, { kind: 'Status', status: 'Success' });
+    }
+    this.json(res, 404, { kind: 'Status', message: `unhandled ${req.method} ${url.pathname}` });
+  }
+
+  private async handleExec(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://kubernetes');
+    const match = url.pathname.match(/^\/api\/v1\/namespaces\/test\/pods\/([^/]+)\/exec$/);
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+    if (!match || !this.pods.has(match[1])) {
+      const body = JSON.stringify({ kind: 'Status', message: 'pods not found', code: 404 });
+      socket.end(`HTTP/1.1 404 Not Found\r\nContent-Length: ${body.length}\r\n\r\n${body}`);
+      return;
+    }
+
+    const ws = acceptWebSocket(req, socket, head, this.execProtocols);
+    if (!ws) return;
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    this.execQueries.push(url.searchParams);
+    const [cmd, ...args] = url.searchParams.getAll('command');
+    // util-linux script stands in for the terminal of the container runtime.
+    const child =
+      url.searchParams.get('tty') === 'true'
+        ? spawn('script', ['-qefc', [cmd, ...args].map(quote).join(' '), '/dev/null'])
+        : spawn(cmd, args);
+    if (url.searchParams.get('stdin') !== 'true') child.stdin.end();
+    child.stdin.on('error', () => {});
+
+    const send = (channel: number, data: Buffer) => {
+      if (!ws.closed) ws.send(Buffer.concat([Buffer.from([channel]), data])).catch(() => {});
+    };
+    child.stdout.on('data', (data: Buffer) => send(1, data));
+    child.stderr.on('data', (data: Buffer) => send(2, data));
+    child.on('close', (code) => {
+      const status =
+        code === 0
+          ? { status: 'Success' }
+          : {
+              status: 'Failure',
+              reason: 'NonZeroExitCode',
+              message: `command terminated with non-zero exit code`,
+              details: { causes: [{ reason: 'ExitCode', message: String(code) }] }
+            };
+      send(3, Buffer.from(JSON.stringify(status)));
+      ws.close();
+    });
+
+    try {
+      for await (const message of ws) {
+        if (message.data[0] === 0) child.stdin.write(message.data.subarray(1));
+        if (message.data[0] === 255 && message.data[1] === 0) child.stdin.end();
+        if (message.data[0] === 4) {
+          this.resizes.push(JSON.parse(Buffer.from(message.data.subarray(1)).toString('utf8')));
+        }
+      }
+    } catch {
+      // Client went away without a close frame
+    }
+  }
+}
+
+describe('KubernetesAdapter', () => {
+  const workDir = mkdtempSync(join(tmpdir(), 'kubernetes-adapter-'));
+  const rootPath = join(workDir, 'root');
+  mkdirSync(rootPath);
+  const api = new FakeKubernetesApi();
+
+  const makeAdapter = (sandboxId = 'sandbox-1', overrides: { token?: string } = {}) =>
+    new KubernetesAdapter(
+      { sandboxId, server: api.url, token: overrides.token ?? TOKEN, namespace: 'test' },
+      {
+        image: { repository: 'registry.local:5000/sandbox', tag: '1.0' },
+        metadata: { teamId: 'team-1' },
+        resourceLimits: { cpuCount: 0.5, memoryMiB: 512, diskGiB: 2 },
+        workingDir: rootPath
+      }
+    );
+
+  beforeAll(async () => {
+    await api.listen();
+  });
+
+  afterAll(async () => {
+    await api.close();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('Lifecycle Methods', () => {
+    it('should initialize with correct default values', () => {
+      const adapter = new KubernetesAdapter({ sandboxId: 'defaults', server: api.url });
+
+      expect(adapter.provider).toBe('kubernetes');
+      expect(adapter.id).toBe('defaults');
+      expect(adapter.rootPath).toBe('/workspace');
+      expect(adapter.status.state).toBe('Creating');
+    });
+
+    it('should require createConfig to create a workload', async () => {
+      const adapter = new KubernetesAdapter({ sandboxId: 'no-config', server: api.url });
+
+      await expect(adapter.create()).rejects.toThrow(ConnectionError);
+    });
+
+    it('should create a StatefulSet with mapped resources on ensureRunning', async () => {
+      const adapter = makeAdapter();
+
+      await adapter.ensureRunning();
+
+      expect(adapter.status.state).toBe('Running');
+      const spec = api.statefulSets.get('sandbox-1')!.spec;
+      const resources = { cpu: '500m', memory: '512Mi', 'ephemeral-storage': '2Gi' };
+      expect(spec.replicas).toBe(1);
+      expect(spec.template.spec.automountServiceAccountToken).toBe(false);
+      expect(spec.template.spec.containers[0]).toMatchObject({
+        name: 'sandbox',
+        image: 'registry.local:5000/sandbox:1.0',
+        command: ['tail', '-f', '/dev/null'],
+        workingDir: rootPath,
+        resources: { requests: resources, limits: resources }
+      });
+      expect(api.networkPolicies.size).toBe(0);
+    });
+
+    it('should map the workload into SandboxInfo', async () => {
+      const info = await makeAdapter().getInfo();
+
+      expect(info).toMatchObject({
+        id: 'sandbox-1',
+        image: { repository: 'registry.local:5000/sandbox', tag: '1.0' },
+        metadata: { teamId: 'team-1' },
+        status: { state: 'Running' },
+        resourceLimits: { cpuCount: 0.5, memoryMiB: 512, diskGiB: 2 }
+      });
+    });
+
+    it('should report waiting containers as starting', async () => {
+      const pod = api.pods.get('sandbox-1-0')!;
+      const original = pod.status;
+      pod.status = {
+        phase: 'Pending',
+        containerStatuses: [
+          {
+            name: 'sandbox',
+            ready: false,
+            state: { waiting: { reason: 'ImagePullBackOff', message: 'pull failed' } }
+          }
+        ]
+      };
+      try {
+        const info = await makeAdapter().getInfo();
+
+        expect(info?.status).toEqual({
+          state: 'Starting',
+          reason: 'ImagePullBackOff',
+          message: 'pull failed'
+        });
+      } finally {
+        pod.status = original;
+      }
+    });
+
+    it('should scale to zero on stop and back up on ensureRunning', async () => {
+      const adapter = makeAdapter();
+
+      await adapter.stop();
+      expect(adapter.status.state).toBe('Stopped');
+      expect(api.statefulSets.get('sandbox-1')?.spec.replicas).toBe(0);
+      expect(await adapter.ping()).toBe(false);
+      expect((await adapter.getInfo())?.status.state).toBe('Stopped');
+
+      await adapter.ensureRunning();
+      expect(adapter.status.state).toBe('Running');
+      expect(await adapter.ping()).toBe(true);
+    });
+
+    it('should delete the workload and its network policy', async () => {
+      const adapter = new KubernetesAdapter(
+        { sandboxId: 'sandbox-delete', server: api.url, token: TOKEN, namespace: 'test' },
+        { image: { repository: 'alpine' }, networkPolicy: { allowEgress: false } }
+      );
+      await adapter.create();
+      expect(api.networkPolicies.has('sandbox-delete-egress')).toBe(true);
+
+      await adapter.delete();
+
+      expect(adapter.status.state).toBe('UnExist');
+      expect(api.networkPolicies.has('sandbox-delete-egress')).toBe(false);
+      expect(await adapter.getInfo()).toBeNull();
+    });
+
+    it('should list and delete sandbox workloads provider-wide', async () => {
+      const config = { server: api.url, token: TOKEN, namespace: 'test' };
+
+      const all = await KubernetesAdapter.listSandboxes(config);
+      const none = await KubernetesAdapter.listSandboxes(config, { metadata: { teamId: 'x' } });
+
+      expect(all).toMatchObject([{ id: 'sandbox-1', metadata: { teamId: 'team-1' } }]);
+      expect(none).toEqual([]);
+      await expect(
+        KubernetesAdapter.listSandboxes({ ...config, token: 'wrong' })
+      ).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should reject requests with an invalid token', async () => {
+      await expect(makeAdapter('sandbox-1', { token: 'wrong' }).getInfo()).rejects.toThrow(
+        CommandExecutionError
+      );
+    });
+  });
+
+  describe('Network Policy', () => {
+    const createWithPolicy = async (sandboxId: string, allowedHosts?: string[]) => {
+      const adapter = new KubernetesAdapter(
+        { sandboxId, server: api.url, token: TOKEN, namespace: 'test' },
+        {
+          image: { repository: 'alpine' },
+          networkPolicy: allowedHosts ? { allowedHosts } : { allowEgress: false }
+        }
+      );
+      await adapter.create();
+      return api.networkPolicies.get(`${sandboxId}-egress`)!;
+    };
+
+    it('should deny all egress when egress is disabled', async () => {
+      const policy = await createWithPolicy('policy-deny');
+
+      expect(policy.spec).toEqual({
+        podSelector: { matchLabels: { 'fastgpt.sandbox/id': 'policy-deny' } },
+        policyTypes: ['Egress'],
+        egress: []
+      });
+    });
+
+    it('should allow DNS and the listed hosts as IP blocks', async () => {
+      const policy = await createWithPolicy('policy-hosts', ['10.1.2.3', '192.168.0.0/16', '::1']);
+
+      expect(policy.spec.egress).toEqual([
+        {
+          ports: [
+            { protocol: 'UDP', port: 53 },
+            { protocol: 'TCP', port: 53 }
+          ]
+        },
+        {
+          to: [
+            { ipBlock: { cidr: '10.1.2.3/32' } },
+            { ipBlock: { cidr: '192.168.0.0/16' } },
+            { ipBlock: { cidr: '::1/128' } }
+          ]
+        }
+      ]);
+    });
+  });
+
+  describe('Command Execution', () => {
+    let adapter: KubernetesAdapter;
+
+    beforeAll(() => {
+      adapter = makeAdapter();
+    });
+
+    it('should split stdout, stderr and exit code by channel', async () => {
+      const result = await adapter.execute('echo out; echo err >&2; exit 3');
+
+      expect(result.stdout.trim()).toBe('out');
+      expect(result.stderr.trim()).toBe('err');
+      expect(result.exitCode).toBe(3);
+    });
+
+    it('should run in the working directory with extra env', async () => {
+      const result = await adapter.execute('pwd; echo $GREETING', {
+        workingDirectory: '/tmp',
+        env: { GREETING: "it's me" }
+      });
+
+      expect(result.stdout.split('\n')).toEqual(['/tmp', "it's me", '']);
+      expect((await adapter.execute('pwd')).stdout.trim()).toBe(rootPath);
+    });
+
+    it('should write stdin and close it', async () => {
+      const fromString = await adapter.execute('tr a-z A-Z', { stdin: 'hello' });
+      const fromStream = await adapter.execute('wc -c', {
+        stdin: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(70_000));
+            controller.enqueue(new Uint8Array(30_000));
+            controller.close();
+          }
+        })
+      });
+
+      expect(fromString.stdout).toBe('HELLO');
+      expect(fromStream.stdout.trim()).toBe('100000');
+    });
+
+    it('should stream output chunks before completion', async () => {
+      const chunks: string[] = [];
+      let exitCode: number | null | undefined;
+
+      await adapter.executeStream('echo one; sleep 0.1; echo two', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          exitCode = result.exitCode;
+        }
+      });
+
+      expect(chunks.length).toBeGreaterThanOrEqual(2);
+      expect(chunks.join('')).toBe('one\ntwo\n');
+      expect(exitCode).toBe(0);
+    });
+
+    it('should time out and kill long-running commands', async () => {
+      const marker = join(workDir, 'timeout-marker');
+
+      await expect(
+        adapter.execute(`sleep 0.5 && touch ${marker}`, { timeoutMs: 100 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      await wait(700);
+
+      expect(existsSync(marker)).toBe(false);
+    });
+
+    it('should abort commands when the signal fires', async () => {
+      const controller = new AbortController();
+      const promise = adapter.execute('sleep 5', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(promise).rejects.toThrow('Command aborted');
+    });
+
+    it('should interrupt background sessions', async () => {
+      const marker = join(workDir, 'bg-marker');
+      const handle = await adapter.executeBackground(`sleep 0.5 && touch ${marker}`);
+
+      await handle.kill();
+      await wait(700);
+
+      expect(existsSync(marker)).toBe(false);
+    });
+
+    it('should fail when the pod does not exist', async () => {
+      await expect(makeAdapter('missing').execute('true')).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+    });
+
+    it('should reject stdin when only the v4 protocol is available', async () => {
+      api.execProtocols = ['v4.channel.k8s.io'];
+      try {
+        expect((await adapter.execute('echo v4')).stdout).toBe('v4\n');
+        await expect(adapter.execute('cat', { stdin: 'x' })).rejects.toBeInstanceOf(
+          FeatureNotSupportedError
+        );
+      } finally {
+        api.execProtocols = ['v5.channel.k8s.io', 'v4.channel.k8s.io'];
+      }
+    });
+
+    it('should open a terminal with tty exec and resize it', async () => {
+      const pty = await adapter.openPty({ cols: 100, rows: 30, shell: 'sh', env: { A: 'b' } });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('tty; echo "A=$A $TERM"\n');
+      await vi.waitFor(() => expect(output).toContain('A=b xterm-256color'));
+      expect(output).toMatch(/\/dev\/pts\/\d+/);
+      const query = api.execQueries.at(-1)!;
+      expect(query.get('tty')).toBe('true');
+      expect(query.get('stderr')).toBeNull();
+
+      await pty.resize(120, 40);
+      await pty.write('exit 4\n');
+      expect(await pty.wait()).toBe(4);
+      expect(api.resizes.slice(-2)).toEqual([
+        { Width: 100, Height: 30 },
+        { Width: 120, Height: 40 }
+      ]);
+    });
+
+    it('should kill the shell when the terminal is closed', async () => {
+      const pty = await adapter.openPty({ shell: 'sh' });
+      await pty.close();
+
+      expect(await pty.wait()).not.toBe(0);
+    });
+  });
+
+  describe('File System', () => {
+    let adapter: KubernetesAdapter;
+
+    beforeAll(() => {
+      adapter = makeAdapter();
+    });
+
+    it('should read and write files through the polyfill', async () => {
+      const data = new TextEncoder().encode('hello kubernetes');
+      await adapter.writeFiles([{ path: 'nested/hello.txt', data }]);
+      const [result] = await adapter.readFiles(['nested/hello.txt']);
+
+      expect(result.path).toBe(`${rootPath}/nested/hello.txt`);
+      expect(new TextDecoder().decode(result.content)).toBe('hello kubernetes');
+    });
+  });
+});
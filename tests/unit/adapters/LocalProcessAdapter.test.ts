@@ -0,0 +1,486 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import {
+  CommandExecutionError,
+  FeatureNotSupportedError,
+  FileOperationError,
+  SandboxException,
+  SandboxNotFoundError,
+  TimeoutError
+} from '@/errors';
+import { MemorySnapshotStore } from '@/snapshot';
+import { bufferToReadableStream, dataToBytes, stringToReadableStream } from '@/utils/streams';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('LocalProcessAdapter', () => {
+  let baseDir: string;
+  let adapter: LocalProcessAdapter;
+
+  beforeAll(async () => {
+    baseDir = mkdtempSync(join(tmpdir(), 'local-adapter-'));
+    adapter = new LocalProcessAdapter({
+      sandboxId: 'unit',
+      baseDir,
+      env: { SANDBOX_GREETING: 'hello' }
+    });
+    await adapter.ensureRunning();
+  });
+
+  afterAll(async () => {
+    await adapter.delete();
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  describe('lifecycle', () => {
+    it('should create the sandbox directory under baseDir', async () => {
+      expect(adapter.rootPath).toBe(join(baseDir, 'sandbox-unit'));
+      expect(existsSync(adapter.rootPath)).toBe(true);
+      expect(adapter.status.state).toBe('Running');
+    });
+
+    it('should return null info and remove the directory after delete', async () => {
+      const other = new LocalProcessAdapter({ sandboxId: 'temp', baseDir });
+      await other.create();
+      await other.delete();
+
+      expect(existsSync(other.rootPath)).toBe(false);
+      expect(await other.getInfo()).toBeNull();
+      expect(other.status.state).toBe('UnExist');
+    });
+
+    it('should report a leftover directory as running', async () => {
+      const other = new LocalProcessAdapter({ sandboxId: 'unit', baseDir });
+      const info = await other.getInfo();
+
+      expect(info?.status.state).toBe('Running');
+    });
+
+    it('should attach to an existing directory without creating missing ones', async () => {
+      const existing = new LocalProcessAdapter({ sandboxId: 'unit', baseDir });
+      const missing = new LocalProcessAdapter({ sandboxId: 'missing', baseDir });
+
+      await existing.connect();
+      await expect(missing.connect()).rejects.toBeInstanceOf(SandboxNotFoundError);
+
+      expect(existing.status.state).toBe('Running');
+      expect(missing.status.state).toBe('UnExist');
+      expect(existsSync(missing.rootPath)).toBe(false);
+    });
+
+    it('should reject sandbox IDs that escape the base directory', () => {
+      for (const sandboxId of ['../../..', 'a/b', 'a\\b', '..']) {
+        expect(() => new LocalProcessAdapter({ sandboxId, baseDir })).toThrow(SandboxException);
+      }
+    });
+
+    it('should list and delete sandbox directories provider-wide', async () => {
+      await new LocalProcessAdapter({ sandboxId: 'listed', baseDir }).create();
+
+      const all = await LocalProcessAdapter.listSandboxes({ baseDir });
+      const future = await LocalProcessAdapter.listSandboxes(
+        { baseDir },
+        { createdAfter: new Date(Date.now() + 60_000) }
+      );
+      const tagged = await LocalProcessAdapter.listSandboxes({ baseDir }, { metadata: { a: 'b' } });
+      await LocalProcessAdapter.deleteSandbox({ baseDir }, 'listed');
+
+      expect(all.map((s) => s.id).sort()).toEqual(['listed', 'unit']);
+      expect(future).toEqual([]);
+      expect(tagged).toEqual([]);
+      expect(existsSync(join(baseDir, 'sandbox-listed'))).toBe(false);
+    });
+  });
+
+  describe('execute()', () => {
+    it('should run commands in the sandbox directory', async () => {
+      const result = await adapter.execute('pwd');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim()).toBe(adapter.rootPath);
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should merge config and per-command environment', async () => {
+      const result = await adapter.execute('echo "$SANDBOX_GREETING $NAME"', {
+        env: { NAME: 'world' }
+      });
+
+      expect(result.stdout.trim()).toBe('hello world');
+    });
+
+    it('should not inherit the host environment when disabled', async () => {
+      process.env.LOCAL_ADAPTER_LEAK = 'leak';
+      try {
+        const isolated = new LocalProcessAdapter({ sandboxId: 'unit', baseDir, inheritEnv: false });
+        const result = await isolated.execute('echo "[$LOCAL_ADAPTER_LEAK]"');
+
+        expect(result.stdout.trim()).toBe('[]');
+      } finally {
+        delete process.env.LOCAL_ADAPTER_LEAK;
+      }
+    });
+
+    it('should write stdin to the command', async () => {
+      const fromString = await adapter.execute('tr a-z A-Z', { stdin: 'hello' });
+      const fromStream = await adapter.execute('wc -c', {
+        stdin: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(70_000));
+            controller.enqueue(new Uint8Array(30_000));
+            controller.close();
+          }
+        })
+      });
+
+      expect(fromString.stdout).toBe('HELLO');
+      expect(fromStream.stdout.trim()).toBe('100000');
+    });
+
+    it('should truncate output beyond maxOutputBytes', async () => {
+      const result = await adapter.execute('head -c 5000 /dev/zero | tr "\\0" a', {
+        maxOutputBytes: 100
+      });
+
+      expect(result.truncated).toBe(true);
+      expect(result.stdout.length).toBeLessThanOrEqual(100);
+    });
+
+    it('should throw TimeoutError when the command exceeds timeoutMs', async () => {
+      await expect(adapter.execute('sleep 5', { timeoutMs: 100 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+    });
+
+    it('should abort the command when the signal fires', async () => {
+      const controller = new AbortController();
+      const promise = adapter.execute('sleep 5', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(promise).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should not start the command when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        adapter.execute('touch pre-aborted.txt', { signal: controller.signal })
+      ).rejects.toThrow('Command aborted');
+      await wait(100);
+      expect(existsSync(join(adapter.rootPath, 'pre-aborted.txt'))).toBe(false);
+    });
+  });
+
+  describe('executeStream()', () => {
+    it('should deliver chunks before the command completes', async () => {
+      const chunks: string[] = [];
+      let completedAfterChunks = false;
+
+      await adapter.executeStream('echo first; sleep 0.2; echo second >&2', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onStderr: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          completedAfterChunks = chunks.length === 2 && result.exitCode === 0;
+        }
+      });
+
+      expect(chunks.map((c) => c.trim())).toEqual(['first', 'second']);
+      expect(completedAfterChunks).toBe(true);
+    });
+  });
+
+  describe('executeBackground() and interrupt()', () => {
+    it('should run in the background and be killable with its children', async () => {
+      const handle = await adapter.executeBackground('sleep 30 & echo $! > child.pid; wait');
+      await wait(200);
+      const childPid = Number((await adapter.execute('cat child.pid')).stdout.trim());
+
+      await handle.kill();
+      await wait(200);
+
+      // Orphans may linger as zombies until reaped, which still counts as gone.
+      const check = await adapter.execute(`ps -o stat= -p ${childPid} || true`);
+      expect(check.stdout.trim()).toMatch(/^(Z.*)?$/);
+    });
+
+    it('should keep a session that ignores SIGTERM killable', async () => {
+      const handle = await adapter.executeBackground("trap '' TERM; sleep 30");
+      await wait(200);
+
+      await handle.kill();
+      await wait(200);
+      expect(await adapter.getProcess(handle.sessionId)).toMatchObject({ status: 'running' });
+
+      await adapter.signal(handle.sessionId, 'SIGKILL');
+      await wait(200);
+      expect(await adapter.getProcess(handle.sessionId)).toMatchObject({
+        status: 'exited',
+        exitCode: 137
+      });
+    });
+
+    it('should forget the oldest exited sessions beyond the limit', async () => {
+      const { sessionId: first } = await adapter.executeBackground('true');
+      await adapter.waitForBackground(first);
+      for (let i = 0; i < 32; i++) {
+        await adapter.waitForBackground((await adapter.executeBackground('true')).sessionId);
+      }
+
+      expect(await adapter.getProcess(first)).toBeNull();
+      const exited = (await adapter.listProcesses()).filter((p) => p.status === 'exited');
+      expect(exited).toHaveLength(32);
+    });
+
+    it('should reject unknown sessions', async () => {
+      await expect(adapter.interrupt('999999')).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should list, inspect and signal background processes', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 30');
+
+      expect(await adapter.listProcesses()).toContainEqual(
+        expect.objectContaining({ sessionId, command: 'sleep 30', status: 'running' })
+      );
+
+      await adapter.signal(sessionId, 'SIGKILL');
+      await wait(200);
+
+      expect(await adapter.getProcess(sessionId)).toMatchObject({
+        status: 'exited',
+        exitCode: 137
+      });
+      expect(await adapter.getProcess('999999')).toBeNull();
+      await expect(adapter.signal('999999')).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should replay and follow background output', async () => {
+      const { sessionId } = await adapter.executeBackground('echo first; sleep 0.3; echo second');
+      await wait(100);
+
+      const chunks: string[] = [];
+      let exitCode: number | null | undefined;
+      await adapter.attachBackground(sessionId, {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        },
+        onComplete: (result) => {
+          exitCode = result.exitCode;
+        }
+      });
+
+      expect(chunks.join('')).toBe('first\nsecond\n');
+      expect(exitCode).toBe(0);
+      expect(await adapter.waitForBackground(sessionId)).toMatchObject({
+        stdout: 'first\nsecond\n',
+        exitCode: 0
+      });
+    });
+
+    it('should time out waiting for a background process', async () => {
+      const { sessionId } = await adapter.executeBackground('sleep 30');
+
+      await expect(adapter.waitForBackground(sessionId, 100)).rejects.toBeInstanceOf(TimeoutError);
+      expect(await adapter.getProcess(sessionId)).toMatchObject({ status: 'running' });
+      await adapter.signal(sessionId, 'SIGKILL');
+      await expect(adapter.waitForBackground('999999')).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+    });
+  });
+
+  describe('openPty()', () => {
+    it('should run an interactive shell on a terminal', async () => {
+      const pty = await adapter.openPty({ cols: 100, rows: 30, shell: 'sh', cwd: '/tmp' });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('stty size; pwd; echo "$SANDBOX_GREETING $TERM"\n');
+      await vi.waitFor(() => expect(output).toContain('hello xterm-256color'));
+      expect(output).toContain('30 100');
+      expect(output).toContain('/tmp');
+
+      await pty.resize(120, 40);
+      await pty.write('stty size; exit 4\n');
+      expect(await pty.wait()).toBe(4);
+      expect(output).toContain('40 120');
+    });
+
+    it('should end the shell on close', async () => {
+      const pty = await adapter.openPty();
+      await pty.close();
+
+      expect(await pty.wait()).not.toBeNull();
+      await expect(pty.resize(80, 24)).rejects.toThrow(`PTY ${pty.id} not found`);
+    });
+  });
+
+  describe('file operations', () => {
+    it('should resolve relative paths against the sandbox directory', async () => {
+      await adapter.writeFiles([{ path: 'nested/dir/a.txt', data: 'content', mode: 0o600 }]);
+      const result = await adapter.execute('cat nested/dir/a.txt');
+      const info = await adapter.getFileInfo(['nested/dir/a.txt']);
+
+      expect(result.stdout).toBe('content');
+      expect(info.get(join(adapter.rootPath, 'nested/dir/a.txt'))?.mode).toBe(0o600);
+    });
+
+    it('should read byte ranges', async () => {
+      await adapter.writeFiles([{ path: 'range.txt', data: '0123456789' }]);
+      const [result] = await adapter.readFiles(['range.txt'], { range: '2-5' });
+
+      expect(new TextDecoder().decode(result.content)).toBe('234');
+    });
+
+    it('should map missing files to FILE_NOT_FOUND', async () => {
+      const [result] = await adapter.readFiles(['missing.txt']);
+
+      expect(result.error).toBeInstanceOf(FileOperationError);
+      expect((result.error as FileOperationError).fileErrorCode).toBe('FILE_NOT_FOUND');
+      await expect(adapter.listDirectory('missing-dir')).rejects.toMatchObject({
+        fileErrorCode: 'FILE_NOT_FOUND'
+      });
+    });
+
+    it('should round-trip streams', async () => {
+      const data = new Uint8Array(200_000).map((_, i) => i % 256);
+      await adapter.writeFileStream(
+        'stream.bin',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(data.slice(0, 100_000));
+            controller.enqueue(data.slice(100_000));
+            controller.close();
+          }
+        })
+      );
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of adapter.readFileStream('stream.bin')) {
+        chunks.push(chunk);
+      }
+      expect(new Uint8Array(Buffer.concat(chunks))).toEqual(data);
+    });
+
+    it('should hash files natively', async () => {
+      await adapter.writeFiles([{ path: 'hash.txt', data: 'hello' }]);
+      const [sha256, missing] = await adapter.hashFiles(['hash.txt', 'nope.txt']);
+      const [md5] = await adapter.hashFiles(['hash.txt'], { algorithm: 'md5' });
+
+      expect(sha256.hash).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+      expect(md5.hash).toBe('5d41402abc4b2a76b9719d911017c592');
+      expect(missing.error).toMatchObject({ fileErrorCode: 'FILE_NOT_FOUND' });
+    });
+
+    it('should replace content literally', async () => {
+      await adapter.writeFiles([{ path: 'replace.txt', data: 'a.b a.b axb' }]);
+      await adapter.replaceContent([{ path: 'replace.txt', oldContent: 'a.b', newContent: 'c' }]);
+      const [result] = await adapter.readFiles(['replace.txt']);
+
+      expect(new TextDecoder().decode(result.content)).toBe('c c axb');
+    });
+
+    it('should search recursively with glob patterns', async () => {
+      await adapter.writeFiles([
+        { path: 'search/one.log', data: '' },
+        { path: 'search/deep/two.log', data: '' },
+        { path: 'search/three.txt', data: '' }
+      ]);
+      const results = await adapter.search('*.log', 'search');
+
+      expect(results.map((r) => r.path.slice(adapter.rootPath.length)).sort()).toEqual([
+        '/search/deep/two.log',
+        '/search/one.log'
+      ]);
+    });
+  });
+
+  describe('archives', () => {
+    it.each(['tar', 'tar.gz', 'zip'] as const)(
+      'should round-trip a directory as %s',
+      async (format) => {
+        await adapter.writeFiles([
+          { path: 'archive-src/a.txt', data: 'alpha' },
+          { path: 'archive-src/nested/b.txt', data: 'beta' }
+        ]);
+
+        const archive = await dataToBytes(adapter.exportDirectory('archive-src', { format }));
+        await adapter.importArchive(`archive-dst-${format}`, bufferToReadableStream(archive), {
+          format
+        });
+
+        const [a, b] = await adapter.readFiles([
+          `archive-dst-${format}/a.txt`,
+          `archive-dst-${format}/nested/b.txt`
+        ]);
+        expect(new TextDecoder().decode(a.content)).toBe('alpha');
+        expect(new TextDecoder().decode(b.content)).toBe('beta');
+      }
+    );
+
+    it('should reject missing directories and corrupt archives', async () => {
+      await expect(dataToBytes(adapter.exportDirectory('no-such-dir'))).rejects.toBeInstanceOf(
+        FileOperationError
+      );
+      await expect(
+        adapter.importArchive('corrupt', stringToReadableStream('not a tarball'))
+      ).rejects.toBeInstanceOf(FileOperationError);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should archive the workspace into a store and roll back to it', async () => {
+      const store = new MemorySnapshotStore();
+      await adapter.writeFiles([
+        { path: 'snap/state.json', data: '{"step":1}' },
+        { path: 'snap/.hidden', data: 'keep' }
+      ]);
+
+      const snapshot = await adapter.createSnapshot({ store, name: 'step-1' });
+      await adapter.writeFiles([
+        { path: 'snap/state.json', data: '{"step":2}' },
+        { path: 'snap/extra.txt', data: 'new' }
+      ]);
+      await adapter.restoreSnapshot(snapshot.id, { store });
+
+      expect(snapshot).toMatchObject({ sandboxId: 'unit', name: 'step-1' });
+      expect(snapshot.sizeBytes).toBeGreaterThan(0);
+      const [state, hidden] = await adapter.readFiles(['snap/state.json', 'snap/.hidden']);
+      expect(new TextDecoder().decode(state.content)).toBe('{"step":1}');
+      expect(new TextDecoder().decode(hidden.content)).toBe('keep');
+      expect(existsSync(join(adapter.rootPath, 'snap/extra.txt'))).toBe(false);
+    });
+
+    it('should require a store and a known snapshot ID', async () => {
+      await expect(adapter.createSnapshot()).rejects.toBeInstanceOf(FeatureNotSupportedError);
+      await expect(
+        adapter.restoreSnapshot('missing', { store: new MemorySnapshotStore() })
+      ).rejects.toMatchObject({ code: 'SNAPSHOT_NOT_FOUND' });
+    });
+
+    it('should leave the workspace untouched when the archive cannot be extracted', async () => {
+      const store = new MemorySnapshotStore();
+      await store.put('corrupt', new TextEncoder().encode('not a tarball'));
+      await adapter.writeFiles([{ path: 'snap/current.txt', data: 'current' }]);
+
+      await expect(adapter.restoreSnapshot('corrupt', { store })).rejects.toBeInstanceOf(
+        CommandExecutionError
+      );
+
+      const [current] = await adapter.readFiles(['snap/current.txt']);
+      expect(new TextDecoder().decode(current.content)).toBe('current');
+      const siblings = readdirSync(dirname(adapter.rootPath));
+      expect(siblings.filter((name) => name.includes('.restore-'))).toEqual([]);
+    });
+  });
+});
@@ -1,7 +1,14 @@
-import { describe, expect, it } from 'vitest';
+import { SandboxApiException } from '@alibaba-group/opensandbox';
+import { describe, expect, it, vi } from 'vitest';
 import { OpenSandboxAdapter } from '@/adapters/OpenSandboxAdapter';
 import type { OpenSandboxConnectionConfig } from '@/adapters/OpenSandboxAdapter';
-import { ConnectionError, SandboxStateError } from '@/errors';
+import {
+  CommandExecutionError,
+  ConnectionError,
+  FeatureNotSupportedError,
+  SandboxStateError,
+  TimeoutError
+} from '@/errors';
 import type { ImageSpec, ResourceLimits } from '@/types';
 import type { OpenSandboxConfigType } from '@/adapters/OpenSandboxAdapter/type';
 
@@ -286,4 +293,85 @@ describe('OpenSandboxAdapter', () => {
       expect(info).toBeNull();
     });
   });
+
+  describe('Process Management', () => {
+    function makeProcessAdapter() {
+      const statuses = new Map([
+        ['cmd-1', { id: 'cmd-1', content: 'npm run dev', running: true, exitCode: null }],
+        ['cmd-2', { id: 'cmd-2', content: 'make', running: false, exitCode: 2 }]
+      ]);
+      const logs = new Map([['cmd-2', ['cc -c main.c\n', 'main.c:3: error\n']]]);
+      const interrupted: string[] = [];
+      const sandbox = {
+        commands: {
+          getBackgroundCommandLogs: async (id: string, cursor = 0) => {
+            const lines = logs.get(id) ?? [];
+            return { content: lines.slice(cursor).join(''), cursor: lines.length };
+          },
+          getCommandStatus: async (id: string) => {
+            const status = statuses.get(id);
+            if (!status) throw new SandboxApiException({ message: 'not found', statusCode: 404 });
+            return status;
+          },
+          interrupt: async (id: string) => {
+            interrupted.push(id);
+          }
+        }
+      };
+      const adapter = makeAdapter();
+      (adapter as unknown as { _sandbox: unknown })._sandbox = sandbox;
+      vi.spyOn(adapter, 'listDirectory').mockResolvedValue(
+        ['cmd-1.opensandbox', 'cmd-2.opensandbox', 'bg-x.cmd'].map((name) => ({
+          name,
+          path: `/tmp/.sandbox-sessions/${name}`,
+          isDirectory: false,
+          isFile: true
+        }))
+      );
+      return { adapter, interrupted };
+    }
+
+    it('should list recorded sessions with their native status', async () => {
+      const { adapter } = makeProcessAdapter();
+
+      expect(await adapter.listProcesses()).toEqual([
+        expect.objectContaining({ sessionId: 'cmd-1', command: 'npm run dev', status: 'running' }),
+        expect.objectContaining({ sessionId: 'cmd-2', status: 'exited', exitCode: 2 })
+      ]);
+      expect(await adapter.getProcess('missing')).toBeNull();
+    });
+
+    it('should map terminating signals to an interrupt', async () => {
+      const { adapter, interrupted } = makeProcessAdapter();
+
+      await adapter.signal('cmd-1', 'SIGKILL');
+      await adapter.signal('cmd-2');
+
+      expect(interrupted).toEqual(['cmd-1']);
+      await expect(adapter.signal('cmd-1', 'SIGUSR1')).rejects.toBeInstanceOf(
+        FeatureNotSupportedError
+      );
+      await expect(adapter.signal('missing')).rejects.toBeInstanceOf(CommandExecutionError);
+    });
+
+    it('should read background output from the command logs', async () => {
+      const { adapter } = makeProcessAdapter();
+      const chunks: string[] = [];
+
+      await adapter.attachBackground('cmd-2', {
+        onStdout: (msg) => {
+          chunks.push(msg.text);
+        }
+      });
+
+      expect(chunks).toEqual(['cc -c main.c\nmain.c:3: error\n']);
+      expect(await adapter.waitForBackground('cmd-2')).toMatchObject({
+        stdout: 'cc -c main.c\nmain.c:3: error\n',
+        stderr: '',
+        exitCode: 2
+      });
+      await expect(adapter.waitForBackground('cmd-1', 50)).rejects.toBeInstanceOf(TimeoutError);
+      await expect(adapter.waitForBackground('missing')).rejects.toThrow('not found');
+    });
+  });
 });
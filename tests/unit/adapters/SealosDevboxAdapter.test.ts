@@ -0,0 +1,601 @@
+import { spawn, spawnSync } from 'node:child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync
+} from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SealosDevboxAdapter } from '@/adapters/SealosDevboxAdapter';
+import {
+  CommandExecutionError,
+  FeatureNotSupportedError,
+  FileOperationError,
+  TimeoutError
+} from '@/errors';
+import type { ExecRequest } from '@/adapters/SealosDevboxAdapter/type';
+import type { ExecuteResult } from '@/types';
+
+const WORKSPACE = '/home/devbox/workspace';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Matches the process itself, not shells whose command line mentions it. */
+const isRunning = (args: string) =>
+  spawnSync('ps', ['-eo', 'args'], { encoding: 'utf8' })
+    .stdout.split('\n')
+    .some((line) => line.trim() === args);
+
+/**
+ * Minimal stand-in for the Devbox server file and exec endpoints.
+ *
+ * The devbox workspace maps to a host temp directory: exec commands run on
+ * the host with workspace paths rewritten, and file transfers read and
+ * write the mapped host paths.
+ */
+class FakeDevboxServer {
+  readonly modes = new Map<string, string>();
+  readonly execs: ExecRequest[] = [];
+  readonly uploads: string[] = [];
+  readonly hostDir = mkdtempSync(join(tmpdir(), 'devbox-'));
+  private server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  hostPath(path: string): string {
+    return path.split(WORKSPACE).join(this.hostDir);
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    rmSync(this.hostDir, { recursive: true, force: true });
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  private json(res: ServerResponse, status: number, code: number, message: string, data?: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ code, message, data }));
+  }
+
+  private run(command: string[], stdin?: string): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      const [file, ...args] = command.map((part) => this.hostPath(part));
+      const child = spawn(file, args);
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (chunk) => (stdout += chunk));
+      child.stderr.on('data', (chunk) => (stderr += chunk));
+      child.on('close', (exitCode) => resolve({ exitCode, stdout, stderr }));
+      // The command may exit without reading its input; ignore EPIPE.
+      child.stdin.on('error', () => {});
+      child.stdin.end(stdin ?? '');
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.searchParams.get('path') ?? '';
+
+    if (url.pathname.endsWith('/files/upload')) {
+      const body = await this.readBody(req);
+      this.uploads.push(path);
+      try {
+        writeFileSync(this.hostPath(path), body);
+      } catch (error) {
+        this.json(res, 500, 500, String(error));
+        return;
+      }
+      this.modes.set(path, url.searchParams.get('mode') ?? '');
+      this.json(res, 200, 200, 'success', { path, sizeBytes: body.length });
+      return;
+    }
+
+    if (url.pathname.endsWith('/files/download')) {
+      if (!existsSync(this.hostPath(path))) {
+        this.json(res, 404, 404, 'file not found');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      res.end(readFileSync(this.hostPath(path)));
+      return;
+    }
+
+    if (url.pathname.endsWith('/exec')) {
+      const request = JSON.parse((await this.readBody(req)).toString()) as ExecRequest;
+      this.execs.push(request);
+      this.json(res, 200, 200, 'success', await this.run(request.command, request.stdin));
+      return;
+    }
+
+    if (req.method === 'GET' && /^\/api\/v1\/devbox\/[^/]+$/.test(url.pathname)) {
+      this.json(res, 200, 200, 'success', {
+        name: 'devbox-test',
+        state: { phase: 'Running' },
+        ssh: {
+          user: 'devbox',
+          host: 'devbox.example.com',
+          port: 2222,
+          privateKeyEncoding: 'base64',
+          privateKeyBase64: Buffer.from('fake-private-key').toString('base64')
+        }
+      });
+      return;
+    }
+
+    this.json(res, 404, 404, 'not found');
+  }
+}
+
+/**
+ * Stand-in for the OpenSSH client: logs its arguments and the key it was
+ * given, then runs the remote command locally with workspace paths mapped
+ * to the fake server's host directory.
+ */
+const FAKE_SSH = `#!/bin/sh
+echo "$*" >> "$FAKE_SSH_LOG"
+while [ $# -gt 1 ]; do
+  case "$1" in
+    -i) cat "$2" >> "$FAKE_SSH_LOG"; echo >> "$FAKE_SSH_LOG"; shift 2 ;;
+    -p|-o) shift 2 ;;
+    -tt) tty=1; shift ;;
+    *) shift ;;
+  esac
+done
+command="$(printf '%s' "$1" | sed "s#${WORKSPACE}#$FAKE_SSH_ROOT#g")"
+# Stand in for the remote terminal that sshd allocates for -tt.
+[ -n "$tty" ] && exec script -qefc "$command" /dev/null
+exec sh -c "$command"
+`;
+
+/**
+ * Stand-in for the OpenSSH sftp client: logs its arguments and runs the
+ * batch read from stdin against the fake server's host directory. Like
+ * sftp, it stops at the first failing command not prefixed with `-`.
+ */
+const FAKE_SFTP = `#!/bin/sh
+echo "sftp $*" >> "$FAKE_SSH_LOG"
+unquote() { printf '%s' "$1" | tr -d '"\\' | sed "s#^${WORKSPACE}#$FAKE_SSH_ROOT#"; }
+while read -r cmd a b; do
+  optional=; case "$cmd" in -*) optional=1; cmd=\${cmd#-} ;; esac
+  a=$(unquote "$a"); b=$(unquote "$b")
+  case "$cmd" in
+    mkdir) case "$a" in "$FAKE_SSH_ROOT"*) mkdir "$a" 2>/dev/null ;; esac ;;
+    put) cp "$a" "$b" ;;
+    get) [ -f "$a" ] && cp "$a" "$b" || { echo "File \\"$a\\" not found." >&2; false; } ;;
+    chmod) chmod "$a" "$b" ;;
+    rename) mv "$a" "$b" ;;
+    rm) rm "$a" ;;
+  esac || [ -n "$optional" ] || exit 1
+done
+`;
+
+describe('SealosDevboxAdapter', () => {
+  const server = new FakeDevboxServer();
+  let adapter: SealosDevboxAdapter;
+
+  beforeAll(async () => {
+    await server.listen();
+    adapter = new SealosDevboxAdapter({
+      baseUrl: server.baseUrl,
+      token: 'test-token',
+      sandboxId: 'devbox-test'
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.execs.length = 0;
+    server.uploads.length = 0;
+  });
+
+  describe('file transfer', () => {
+    it('should upload files in a single request without exec calls', async () => {
+      const data = new Uint8Array(256 * 1024).map((_, i) => i % 256);
+      const [result] = await adapter.writeFiles([{ path: 'large.bin', data, mode: 0o755 }]);
+
+      expect(result.error).toBeNull();
+      expect(result.bytesWritten).toBe(data.length);
+      expect(server.execs).toHaveLength(0);
+      expect(server.uploads).toEqual(['/home/devbox/workspace/large.bin']);
+      expect(server.modes.get('/home/devbox/workspace/large.bin')).toBe('0755');
+    });
+
+    it('should create the parent directory and retry when the upload fails', async () => {
+      const [result] = await adapter.writeFiles([{ path: 'nested/dir/a.txt', data: 'hello' }]);
+
+      expect(result.error).toBeNull();
+      expect(server.execs).toHaveLength(1);
+      expect(server.uploads).toHaveLength(2);
+      expect(readFileSync(server.hostPath(`${WORKSPACE}/nested/dir/a.txt`), 'utf8')).toBe('hello');
+    });
+
+    it('should not retry uploads that fail for other reasons', async () => {
+      mkdirSync(server.hostPath(`${WORKSPACE}/occupied`));
+
+      const [result] = await adapter.writeFiles([{ path: 'occupied', data: 'hello' }]);
+
+      expect(result.error).toMatchObject({ fileErrorCode: 'TRANSFER_ERROR' });
+      expect(server.execs).toHaveLength(0);
+      expect(server.uploads).toHaveLength(1);
+    });
+
+    it('should download files in a single request', async () => {
+      await adapter.writeFiles([{ path: 'read.txt', data: 'content' }]);
+      const [result] = await adapter.readFiles(['read.txt']);
+
+      expect(result.error).toBeNull();
+      expect(new TextDecoder().decode(result.content)).toBe('content');
+      expect(server.execs).toHaveLength(0);
+    });
+
+    it('should report missing files as FILE_NOT_FOUND', async () => {
+      const [result] = await adapter.readFiles(['missing.txt']);
+
+      expect(result.error).toBeInstanceOf(FileOperationError);
+      expect((result.error as FileOperationError).fileErrorCode).toBe('FILE_NOT_FOUND');
+      expect(result.error?.message).toContain('file not found');
+    });
+
+    it('should stream uploads and downloads', async () => {
+      const data = new Uint8Array(300_000).map((_, i) => (i * 7) % 256);
+      await adapter.writeFileStream(
+        'stream/out.bin',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(data.slice(0, 150_000));
+            controller.enqueue(data.slice(150_000));
+            controller.close();
+          }
+        })
+      );
+
+      expect(server.uploads).toEqual(['/home/devbox/workspace/stream/out.bin']);
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of adapter.readFileStream('stream/out.bin')) {
+        chunks.push(chunk);
+      }
+      expect(new Uint8Array(Buffer.concat(chunks))).toEqual(data);
+    });
+
+    it('should reject streamed reads of missing files', async () => {
+      const consume = async () => {
+        for await (const _chunk of adapter.readFileStream('missing.bin')) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({ fileErrorCode: 'FILE_NOT_FOUND' });
+    });
+  });
+
+  describe('execute()', () => {
+    it('should pass string stdin through the exec request', async () => {
+      const result = await adapter.execute('tr a-z A-Z', { stdin: 'hello' });
+
+      expect(result.stdout).toBe('HELLO');
+      expect(server.execs).toHaveLength(1);
+    });
+
+    it('should base64-encode stdin that is not valid UTF-8', async () => {
+      const data = new Uint8Array([0xff, 0x00, 0xfe, 0x01]);
+      const result = await adapter.execute('od -An -tx1 | tr -d " \\n"', { stdin: data });
+
+      expect(result.stdout).toBe('ff00fe01');
+    });
+  });
+
+  describe('execute() options', () => {
+    it('should inject env values without shell expansion', async () => {
+      const result = await adapter.execute('printf %s "$GREETING"', {
+        env: { GREETING: "it's $HOME `id`" }
+      });
+
+      expect(result.stdout).toBe("it's $HOME `id`");
+    });
+
+    it('should reject invalid env names', async () => {
+      await expect(adapter.execute('true', { env: { 'BAD NAME; rm -rf /': 'x' } })).rejects.toThrow(
+        'Invalid environment variable name'
+      );
+      expect(server.execs).toHaveLength(0);
+    });
+
+    it('should map timeoutMs onto the exec request', async () => {
+      await adapter.execute('true', { timeoutMs: 1500 });
+      await adapter.execute('true');
+
+      expect(server.execs.map((r) => r.timeoutSeconds)).toEqual([2, 600]);
+    });
+
+    it('should run commands beyond the exec limit as polled jobs', async () => {
+      const result = await adapter.execute('echo long; exit 4', {
+        timeoutMs: 3_600_000,
+        env: { UNUSED: '1' }
+      });
+
+      expect(result).toMatchObject({ stdout: 'long\n', exitCode: 4 });
+      expect(server.execs.length).toBeGreaterThan(1);
+      expect(server.execs.every((r) => r.timeoutSeconds === undefined)).toBe(true);
+    });
+
+    it('should keep polled jobs running through a hangup', async () => {
+      const result = await adapter.execute('kill -HUP $$; echo survived', {
+        timeoutMs: 3_600_000
+      });
+
+      expect(result).toMatchObject({ stdout: 'survived\n', exitCode: 0 });
+    });
+
+    it('should time out polled jobs and kill the remote process', async () => {
+      await expect(
+        adapter.executeStream('sleep 31.5', {}, { timeoutMs: 800 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+
+      expect(isRunning('sleep 31.5')).toBe(false);
+    });
+
+    it('should abort in-flight execs and kill the remote process', async () => {
+      const controller = new AbortController();
+      const promise = adapter.execute('sleep 32.5', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 300);
+
+      await expect(promise).rejects.toBeInstanceOf(CommandExecutionError);
+      expect(isRunning('sleep 32.5')).toBe(false);
+    });
+
+    it('should abort polled jobs and kill the remote process', async () => {
+      const controller = new AbortController();
+      const promise = adapter.executeStream('sleep 33.5', {}, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 300);
+
+      await expect(promise).rejects.toThrow('Command aborted');
+      expect(isRunning('sleep 33.5')).toBe(false);
+    });
+  });
+
+  describe('SSH transport', () => {
+    let sshAdapter: SealosDevboxAdapter;
+    let sshDir: string;
+    let logPath: string;
+
+    beforeAll(() => {
+      sshDir = mkdtempSync(join(tmpdir(), 'fake-ssh-'));
+      logPath = join(sshDir, 'log');
+      writeFileSync(join(sshDir, 'ssh'), FAKE_SSH, { mode: 0o755 });
+      writeFileSync(join(sshDir, 'sftp'), FAKE_SFTP, { mode: 0o755 });
+      process.env.FAKE_SSH_LOG = logPath;
+      process.env.FAKE_SSH_ROOT = server.hostDir;
+      sshAdapter = new SealosDevboxAdapter({
+        baseUrl: server.baseUrl,
+        token: 'test-token',
+        sandboxId: 'devbox-test',
+        transport: 'ssh',
+        ssh: {
+          binaryPath: join(sshDir, 'ssh'),
+          sftpBinaryPath: join(sshDir, 'sftp'),
+          hostKey: 'ssh-ed25519 AAAAC3NzaFakeHostKey'
+        }
+      });
+    });
+
+    afterAll(() => {
+      delete process.env.FAKE_SSH_LOG;
+      delete process.env.FAKE_SSH_ROOT;
+      rmSync(sshDir, { recursive: true, force: true });
+    });
+
+    it('should connect with the credentials from the info endpoint', async () => {
+      const result = await sshAdapter.execute('echo "$GREETING"; exit 3', {
+        env: { GREETING: 'over ssh' }
+      });
+
+      expect(result).toMatchObject({ stdout: 'over ssh\n', exitCode: 3 });
+      expect(server.execs).toHaveLength(0);
+      const log = readFileSync(logPath, 'utf8');
+      expect(log).toContain('Port=2222');
+      expect(log).toContain('devbox@devbox.example.com');
+      expect(log).toContain('fake-private-key');
+    });
+
+    it('should only accept the pinned host key', async () => {
+      await sshAdapter.execute('true');
+
+      const log = readFileSync(logPath, 'utf8');
+      expect(log).toContain('StrictHostKeyChecking=yes');
+      expect(log).not.toContain('StrictHostKeyChecking=no');
+      const knownHosts = /UserKnownHostsFile=(\S+)/.exec(log)![1];
+      expect(readFileSync(knownHosts, 'utf8')).toBe('devbox ssh-ed25519 AAAAC3NzaFakeHostKey\n');
+    });
+
+    it('should stream output and stdin without the job files', async () => {
+      const chunks: string[] = [];
+
+      await sshAdapter.executeStream(
+        'cat; sleep 0.3; echo done >&2',
+        {
+          onStdout: (msg) => void chunks.push(msg.text),
+          onStderr: (msg) => void chunks.push(msg.text)
+        },
+        { stdin: 'input\n' }
+      );
+
+      expect(chunks).toEqual(['input\n', 'done\n']);
+      expect(server.execs).toHaveLength(0);
+    });
+
+    it('should time out and kill the remote process', async () => {
+      await expect(sshAdapter.execute('sleep 34.5', { timeoutMs: 500 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+      expect(isRunning('sleep 34.5')).toBe(false);
+    });
+
+    it('should run and interrupt background processes', async () => {
+      const handle = await sshAdapter.executeBackground('sleep 35.5');
+      await wait(300);
+      expect(isRunning('sleep 35.5')).toBe(true);
+
+      await handle.kill();
+      await wait(300);
+      expect(isRunning('sleep 35.5')).toBe(false);
+    });
+
+    it('should transfer files over the connection', async () => {
+      const data = new Uint8Array(200_000).map((_, i) => (i * 13) % 256);
+      const [written] = await sshAdapter.writeFiles([
+        { path: 'ssh/dir/data.bin', data, mode: 0o640 }
+      ]);
+      const [read] = await sshAdapter.readFiles(['ssh/dir/data.bin']);
+
+      expect(written).toMatchObject({ bytesWritten: data.length, error: null });
+      expect(read.content).toEqual(data);
+      expect(statSync(server.hostPath(`${WORKSPACE}/ssh/dir/data.bin`)).mode & 0o777).toBe(0o640);
+      expect(server.uploads).toHaveLength(0);
+      expect(readFileSync(logPath, 'utf8')).toMatch(/^sftp .*-b - devbox@devbox\.example\.com$/m);
+    });
+
+    it('should not mix up concurrent writes to the same file', async () => {
+      const payloads = ['a', 'b', 'c', 'd'].map((c) => c.repeat(50_000));
+      const results = await Promise.all(
+        payloads.map((data) => sshAdapter.writeFiles([{ path: 'ssh/race.txt', data }]))
+      );
+
+      expect(results.flat().every((result) => result.error === null)).toBe(true);
+      const [read] = await sshAdapter.readFiles(['ssh/race.txt']);
+      expect(payloads).toContain(new TextDecoder().decode(read.content));
+      expect(readdirSync(server.hostPath(`${WORKSPACE}/ssh`))).not.toContainEqual(
+        expect.stringContaining('.tmp.')
+      );
+    });
+
+    it('should stream files and report missing ones', async () => {
+      await sshAdapter.writeFileStream(
+        'ssh/stream.txt',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('streamed '));
+            controller.enqueue(new TextEncoder().encode('content'));
+            controller.close();
+          }
+        })
+      );
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of sshAdapter.readFileStream('ssh/stream.txt')) {
+        chunks.push(chunk);
+      }
+      expect(Buffer.concat(chunks).toString()).toBe('streamed content');
+
+      const [missing] = await sshAdapter.readFiles(['ssh/missing.txt']);
+      expect(missing.error).toMatchObject({ fileErrorCode: 'FILE_NOT_FOUND' });
+    });
+
+    it('should open a terminal with ssh -tt', async () => {
+      const pty = await sshAdapter.openPty({ cols: 100, rows: 30, shell: 'sh' });
+      const decoder = new TextDecoder();
+      let output = '';
+      pty.onData((data) => {
+        output += decoder.decode(data, { stream: true });
+      });
+
+      await pty.write('stty size\n');
+      await vi.waitFor(() => expect(output).toContain('30 100'));
+      await pty.resize(120, 40);
+      await pty.write('stty size; exit 4\n');
+
+      expect(await pty.wait()).toBe(4);
+      expect(output).toContain('40 120');
+      expect(readFileSync(logPath, 'utf8')).toContain('-tt');
+    });
+
+    it('should not open terminals over the exec API', async () => {
+      await expect(adapter.openPty()).rejects.toBeInstanceOf(FeatureNotSupportedError);
+    });
+  });
+
+  describe('executeStream()', () => {
+    it('should deliver output before the command completes', async () => {
+      const chunks: { text: string; at: number }[] = [];
+      let completedAt = 0;
+
+      await adapter.executeStream('echo first; sleep 1.5; echo second >&2; exit 3', {
+        onStdout: (msg) => {
+          chunks.push({ text: msg.text, at: Date.now() });
+        },
+        onStderr: (msg) => {
+          chunks.push({ text: msg.text, at: Date.now() });
+        },
+        onComplete: (result) => {
+          completedAt = Date.now();
+          expect(result.exitCode).toBe(3);
+          expect(result.stdout).toBe('first\n');
+          expect(result.stderr).toBe('second\n');
+        }
+      });
+
+      expect(chunks.map((c) => c.text)).toEqual(['first\n', 'second\n']);
+      expect(completedAt - chunks[0].at).toBeGreaterThanOrEqual(1000);
+    });
+
+    it('should feed stdin and run in the working directory', async () => {
+      const stdout: string[] = [];
+
+      await adapter.executeStream(
+        'pwd; cat',
+        { onStdout: (msg) => void stdout.push(msg.text) },
+        { stdin: new TextEncoder().encode('from stdin'), workingDirectory: '.' }
+      );
+
+      expect(stdout.join('')).toBe(`${server.hostDir}\nfrom stdin`);
+    });
+
+    it('should page through output larger than one poll', async () => {
+      let result: ExecuteResult | undefined;
+
+      await adapter.executeStream(
+        'head -c 600000 /dev/zero | tr "\\0" x',
+        { onComplete: (r) => void (result = r) },
+        { maxOutputBytes: 1024 * 1024 }
+      );
+
+      expect(result?.stdout).toHaveLength(600000);
+    });
+
+    it('should remove the job directory afterwards', async () => {
+      const before = existsSync('/tmp/.sandbox-jobs') ? readdirSync('/tmp/.sandbox-jobs') : [];
+      await adapter.executeStream('true', {});
+      const after = readdirSync('/tmp/.sandbox-jobs');
+
+      expect(after).toEqual(before);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import { SandboxException, TimeoutError } from '@/errors';
+import { SandboxPool, type SandboxPoolOptions } from '@/management';
+
+describe('SandboxPool', () => {
+  const baseDir = mkdtempSync(join(tmpdir(), 'sandbox-pool-'));
+  let counter = 0;
+
+  const makePool = (options: Partial<SandboxPoolOptions> = {}) => {
+    const factory = vi.fn(
+      () => new LocalProcessAdapter({ sandboxId: `pooled-${++counter}`, baseDir })
+    );
+    return { pool: new SandboxPool({ factory, ...options }), factory };
+  };
+
+  afterAll(() => {
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should reject minIdle above maxSize', () => {
+    expect(() => makePool({ minIdle: 3, maxSize: 2 })).toThrow(SandboxException);
+  });
+
+  it('should pre-create minIdle ready sandboxes on start', async () => {
+    const { pool, factory } = makePool({ minIdle: 2 });
+
+    await pool.start();
+
+    expect(factory).toHaveBeenCalledTimes(2);
+    expect(pool.getMetrics()).toMatchObject({ size: 2, idle: 2, leased: 0, created: 2 });
+    await pool.close();
+    expect(pool.getMetrics()).toMatchObject({ size: 0, destroyed: 2 });
+  });
+
+  it('should hand out idle sandboxes and refill in the background', async () => {
+    const { pool } = makePool({ minIdle: 1 });
+    await pool.start();
+
+    const sandbox = await pool.acquire();
+    expect(sandbox.status.state).toBe('Running');
+    await vi.waitFor(() => expect(pool.getMetrics().idle).toBe(1));
+
+    expect(pool.getMetrics()).toMatchObject({ leased: 1, acquired: 1, created: 2 });
+    await pool.release(sandbox);
+    expect(pool.getMetrics()).toMatchObject({ idle: 2, leased: 0, released: 1 });
+    expect(await pool.acquire()).toBe(sandbox);
+    await pool.close();
+  });
+
+  it('should destroy sandboxes released with destroy or failing recycle', async () => {
+    const recycle = vi.fn(async () => {
+      throw new Error('dirty');
+    });
+    const onError = vi.fn();
+    const { pool } = makePool({ minIdle: 0, recycle, onError });
+
+    const first = (await pool.acquire()) as LocalProcessAdapter;
+    const second = (await pool.acquire()) as LocalProcessAdapter;
+    await pool.release(first, { destroy: true });
+    await pool.release(second);
+
+    expect(recycle).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(new Error('dirty'));
+    expect(existsSync(first.rootPath)).toBe(false);
+    expect(existsSync(second.rootPath)).toBe(false);
+    expect(pool.getMetrics()).toMatchObject({ size: 0, destroyed: 2 });
+    await expect(pool.release(first)).rejects.toThrow('Sandbox is not leased from this pool');
+    await pool.close();
+  });
+
+  it('should replace sandboxes that fail the health check on acquire', async () => {
+    const { pool } = makePool({ minIdle: 1 });
+    await pool.start();
+    const stale = (await pool.acquire()) as LocalProcessAdapter;
+    await pool.release(stale);
+    vi.spyOn(stale, 'ping').mockResolvedValue(false);
+
+    const fresh = await pool.acquire();
+
+    expect(fresh).not.toBe(stale);
+    expect(pool.getMetrics().healthCheckFailures).toBe(1);
+    await pool.close();
+  });
+
+  it('should wait at maxSize and time out', async () => {
+    const { pool } = makePool({ minIdle: 0, maxSize: 1, acquireTimeoutMs: 50 });
+    const sandbox = await pool.acquire();
+
+    await expect(pool.acquire()).rejects.toBeInstanceOf(TimeoutError);
+
+    const waiting = pool.acquire();
+    expect(pool.getMetrics().waiting).toBe(1);
+    await pool.release(sandbox);
+    expect(await waiting).toBe(sandbox);
+    await pool.close();
+  });
+
+  it('should evict sandboxes idle past maxIdleMs and refill', async () => {
+    const { pool } = makePool({ minIdle: 1, maxIdleMs: 10 });
+    await pool.start();
+    const original = (await pool.acquire()) as LocalProcessAdapter;
+    await pool.release(original);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await pool.maintain();
+
+    expect(pool.getMetrics()).toMatchObject({ idle: 1, evicted: 2 });
+    expect(existsSync(original.rootPath)).toBe(false);
+    await pool.close();
+  });
+
+  it('should reject acquire calls once closed', async () => {
+    const { pool } = makePool({ minIdle: 0, maxSize: 1 });
+    const sandbox = (await pool.acquire()) as LocalProcessAdapter;
+    const waiting = pool.acquire();
+
+    await pool.close();
+
+    await expect(waiting).rejects.toThrow('Sandbox pool is closed');
+    await expect(pool.acquire()).rejects.toThrow('Sandbox pool is closed');
+    await pool.release(sandbox);
+    expect(existsSync(sandbox.rootPath)).toBe(false);
+  });
+});
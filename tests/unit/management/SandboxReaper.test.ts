@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SandboxException } from '@/errors';
+import type { ISandboxManager } from '@/interfaces';
+import { SandboxReaper } from '@/management';
+import type { SandboxInfo, SandboxState } from '@/types';
+
+const NOW = new Date('2026-01-02T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const sandbox = (id: string, ageHours: number, state: SandboxState = 'Running'): SandboxInfo => ({
+  id,
+  image: { repository: 'node' },
+  entrypoint: [],
+  metadata: { owner: id },
+  status: { state },
+  createdAt: new Date(NOW.getTime() - ageHours * HOUR)
+});
+
+class FakeManager implements ISandboxManager {
+  readonly provider = 'fake';
+  readonly deleted: string[] = [];
+
+  constructor(
+    public sandboxes: SandboxInfo[],
+    private failing = new Set<string>()
+  ) {}
+
+  listSandboxes = vi.fn(async () => this.sandboxes);
+
+  async deleteSandbox(sandboxId: string): Promise<void> {
+    if (this.failing.has(sandboxId)) throw new Error(`cannot delete ${sandboxId}`);
+    this.deleted.push(sandboxId);
+  }
+}
+
+describe('SandboxReaper', () => {
+  it('should require maxAgeMs or maxIdleMs', () => {
+    expect(() => new SandboxReaper(new FakeManager([]), {})).toThrow(SandboxException);
+  });
+
+  it('should delete sandboxes older than maxAgeMs', async () => {
+    const manager = new FakeManager([sandbox('old', 30), sandbox('new', 1)]);
+    const reaper = new SandboxReaper(manager, { maxAgeMs: 24 * HOUR });
+
+    const results = await reaper.run(NOW);
+
+    expect(results).toEqual([
+      expect.objectContaining({ reason: 'maxAge', deleted: true, sandbox: manager.sandboxes[0] })
+    ]);
+    expect(manager.deleted).toEqual(['old']);
+  });
+
+  it('should delete idle sandboxes using lastActiveAt', async () => {
+    const activity: Record<string, Date> = {
+      idle: new Date(NOW.getTime() - 2 * HOUR),
+      busy: new Date(NOW.getTime() - 60 * 1000)
+    };
+    const manager = new FakeManager([
+      sandbox('idle', 3),
+      sandbox('busy', 3),
+      sandbox('unknown', 3)
+    ]);
+    const reaper = new SandboxReaper(manager, {
+      maxIdleMs: HOUR,
+      lastActiveAt: (info) => activity[info.id]
+    });
+
+    const results = await reaper.run(NOW);
+
+    expect(results.map((r) => [r.sandbox.id, r.reason])).toEqual([['idle', 'maxIdle']]);
+    expect(manager.deleted).toEqual(['idle']);
+  });
+
+  it('should only report in dry-run mode', async () => {
+    const manager = new FakeManager([sandbox('old', 30)]);
+    const onReap = vi.fn();
+    const reaper = new SandboxReaper(manager, { maxAgeMs: HOUR, dryRun: true, onReap });
+
+    const results = await reaper.run(NOW);
+
+    expect(results).toMatchObject([{ reason: 'maxAge', deleted: false }]);
+    expect(onReap).toHaveBeenCalledWith(results[0]);
+    expect(manager.deleted).toEqual([]);
+  });
+
+  it('should pass the filter and skip sandboxes already being deleted', async () => {
+    const manager = new FakeManager([
+      sandbox('old', 30, 'Deleting'),
+      sandbox('stopped', 30, 'Stopped')
+    ]);
+    const filter = { metadata: { app: 'fastgpt' } };
+    const reaper = new SandboxReaper(manager, { maxAgeMs: HOUR, filter });
+
+    await reaper.run(NOW);
+
+    expect(manager.listSandboxes).toHaveBeenCalledWith(filter);
+    expect(manager.deleted).toEqual(['stopped']);
+  });
+
+  it('should report failed deletions and continue', async () => {
+    const manager = new FakeManager([sandbox('a', 30), sandbox('b', 30)], new Set(['a']));
+    const reaper = new SandboxReaper(manager, { maxAgeMs: HOUR });
+
+    const results = await reaper.run(NOW);
+
+    expect(results[0]).toMatchObject({ deleted: false, error: expect.any(Error) });
+    expect(results[1]).toMatchObject({ deleted: true });
+    expect(manager.deleted).toEqual(['b']);
+  });
+
+  it('should run on an interval until stopped', async () => {
+    vi.useFakeTimers();
+    try {
+      const manager = new FakeManager([]);
+      const onError = vi.fn();
+      manager.listSandboxes.mockRejectedValueOnce(new Error('offline'));
+      const reaper = new SandboxReaper(manager, { maxAgeMs: HOUR, onError });
+
+      reaper.start(1000);
+      await vi.advanceTimersByTimeAsync(2500);
+      reaper.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(manager.listSandboxes).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(new Error('offline'));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it } from 'vitest';
-import { FileOperationError } from '@/errors';
+import { CommandExecutionError, FileOperationError } from '@/errors';
 import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import type { HashAlgorithm } from '@/types';
 import { bytesToBase64 } from '@/utils/base64';
 import { MockCommandExecution } from '../../mocks/MockCommandExecution';
 
@@ -175,6 +176,38 @@ describe('CommandPolyfillService', () => {
     });
   });
 
+  describe('archives', () => {
+    it('should pack directories with tar or zip', async () => {
+      await polyfill.createArchive('/work', '/tmp/a.tar.gz', 'tar.gz');
+      await polyfill.createArchive('/work', '/tmp/a.zip', 'zip');
+
+      const commands = mockExecutor.getExecutedCommands().map((c) => c.command);
+      expect(commands).toEqual([
+        'tar -czf "/tmp/a.tar.gz" -C "/work" .',
+        'rm -f "/tmp/a.zip" && cd "/work" && zip -qry "/tmp/a.zip" .'
+      ]);
+    });
+
+    it('should extract archives into a created directory', async () => {
+      await polyfill.extractArchive('/tmp/a.tar', '/restore');
+
+      const commands = mockExecutor.getExecutedCommands();
+      expect(commands[0].command).toBe('mkdir -p "/restore" && tar -xf "/tmp/a.tar" -C "/restore"');
+    });
+
+    it('should throw FileOperationError when the archiver fails', async () => {
+      mockExecutor.mockCommand('tar -cf "/tmp/a.tar" -C "/missing" .', {
+        stdout: '',
+        stderr: 'tar: /missing: Cannot open: No such file or directory',
+        exitCode: 2
+      });
+
+      await expect(polyfill.createArchive('/missing', '/tmp/a.tar')).rejects.toMatchObject({
+        fileErrorCode: 'FILE_NOT_FOUND'
+      });
+    });
+  });
+
   describe('listDirectory', () => {
     it('should parse ls -la output', async () => {
       const lsOutput = `total 12
@@ -241,6 +274,200 @@ drwxr-xr-x 2 user group 4096 2024-01-15T10:45:00 subdir`;
     });
   });
 
+  describe('hashFile', () => {
+    it('should parse sha256sum and md5sum output', async () => {
+      const sha256 = 'a'.repeat(64);
+      mockExecutor.mockCommand('sha256sum "/test/file.txt"', {
+        stdout: `${sha256}  /test/file.txt\n`,
+        stderr: '',
+        exitCode: 0
+      });
+      mockExecutor.mockCommand('md5sum "/test/file.txt"', {
+        stdout: `${'b'.repeat(32)}  /test/file.txt\n`,
+        stderr: '',
+        exitCode: 0
+      });
+
+      expect(await polyfill.hashFile('/test/file.txt')).toBe(sha256);
+      expect(await polyfill.hashFile('/test/file.txt', 'md5')).toBe('b'.repeat(32));
+    });
+
+    it('should throw FileOperationError for non-existent file', async () => {
+      mockExecutor.mockCommand('sha256sum "/missing"', {
+        stdout: '',
+        stderr: 'sha256sum: /missing: No such file or directory',
+        exitCode: 1
+      });
+
+      await expect(polyfill.hashFile('/missing')).rejects.toMatchObject({
+        fileErrorCode: 'FILE_NOT_FOUND'
+      });
+    });
+
+    it('should reject unknown algorithms', async () => {
+      await expect(
+        polyfill.hashFile('/test/file.txt', 'sha1; rm -rf /' as HashAlgorithm)
+      ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+      expect(mockExecutor.getExecutedCommands()).toHaveLength(0);
+    });
+  });
+
+  describe('hashFiles', () => {
+    it('should hash all files with a single command', async () => {
+      mockExecutor.mockCommand("sha256sum -- '/a.txt' '/missing' '/it'\\''s.txt'", {
+        stdout: `${'a'.repeat(64)}  /a.txt\n${'c'.repeat(64)}  /it's.txt\n`,
+        stderr: 'sha256sum: /missing: No such file or directory\n',
+        exitCode: 1
+      });
+
+      const [a, missing, quoted] = await polyfill.hashFiles(['/a.txt', '/missing', "/it's.txt"]);
+
+      expect(a).toBe('a'.repeat(64));
+      expect(missing).toMatchObject({ path: '/missing', fileErrorCode: 'FILE_NOT_FOUND' });
+      expect(quoted).toBe('c'.repeat(64));
+      expect(mockExecutor.getExecutedCommands()).toHaveLength(1);
+    });
+
+    it('should reject unknown algorithms', async () => {
+      await expect(polyfill.hashFiles(['/a.txt'], 'sha1' as HashAlgorithm)).rejects.toMatchObject({
+        code: 'INVALID_ARGUMENT'
+      });
+    });
+  });
+
+  describe('processes', () => {
+    it('should record background sessions under the session directory', () => {
+      const script = polyfill.backgroundScript('bg-1', 'sleep 5', "sh -lc 'sleep 5'");
+
+      expect(script).toContain(`echo ${bytesToBase64(new TextEncoder().encode('sleep 5'))} >`);
+      expect(script).toContain(
+        "setsid sh -lc 'sleep 5' > /tmp/.sandbox-sessions/bg-1.out 2> /tmp/.sandbox-sessions/bg-1.err &"
+      );
+      expect(script).toContain('echo $? > /tmp/.sandbox-sessions/bg-1.exit');
+    });
+
+    it('should parse recorded sessions', async () => {
+      const command = bytesToBase64(new TextEncoder().encode('npm run dev'));
+      mockExecutor.mockCommand('for f in /tmp/.sandbox-sessions/*.cmd', {
+        stdout: `bg-1|42|1705312200||1|${command}\nbg-2|43|1705312300|137|0|${command}\n`,
+        stderr: '',
+        exitCode: 0
+      });
+
+      const processes = await polyfill.listProcesses();
+
+      expect(processes).toEqual([
+        {
+          sessionId: 'bg-1',
+          pid: 42,
+          command: 'npm run dev',
+          status: 'running',
+          exitCode: null,
+          startedAt: new Date(1705312200 * 1000)
+        },
+        expect.objectContaining({ sessionId: 'bg-2', status: 'exited', exitCode: 137 })
+      ]);
+    });
+
+    it('should reject unknown and malformed session IDs', async () => {
+      mockExecutor.mockCommand('[ -f /tmp/.sandbox-sessions/missing.cmd ] || exit 3', {
+        stdout: '',
+        stderr: '',
+        exitCode: 3
+      });
+
+      await expect(polyfill.signalProcess('missing')).rejects.toThrow('not found');
+      await expect(polyfill.signalProcess('../etc')).rejects.toThrow('not found');
+      expect(await polyfill.getProcess('../etc')).toBeNull();
+    });
+
+    it('should read session output from byte offsets', async () => {
+      const stdout = bytesToBase64(new TextEncoder().encode('world\n'));
+      mockExecutor.mockCommand('tail -c +7 /tmp/.sandbox-sessions/bg-1.out', {
+        stdout: `0|0\n${stdout}\n\n`,
+        stderr: '',
+        exitCode: 0
+      });
+
+      const output = await polyfill.readBackgroundOutput('bg-1', 6, 0);
+
+      expect(new TextDecoder().decode(output.stdout)).toBe('world\n');
+      expect(output).toMatchObject({ stdoutOffset: 12, stderrOffset: 0, done: true, exitCode: 0 });
+    });
+
+    it('should not report output of a running session as done', async () => {
+      mockExecutor.mockCommand('bg-1.out', { stdout: '1|\n\n\n', stderr: '', exitCode: 0 });
+
+      const output = await polyfill.readBackgroundOutput('bg-1');
+
+      expect(output).toMatchObject({ stdoutOffset: 0, done: false, exitCode: null });
+      await expect(polyfill.readBackgroundOutput('../etc')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('terminals', () => {
+    it('should record the terminal and apply size, env and cwd before the shell', () => {
+      const script = polyfill.ptyScript('pty-1', {
+        cols: 120,
+        rows: 40,
+        env: { A: "it's" },
+        cwd: '/work'
+      });
+
+      expect(script).toBe(
+        'mkdir -p /tmp/.sandbox-sessions && tty > /tmp/.sandbox-sessions/pty-1.tty && ' +
+          'echo $$ > /tmp/.sandbox-sessions/pty-1.pid; stty cols 120 rows 40; ' +
+          "export TERM='xterm-256color'; export A='it'\\''s'; cd '/work' || exit 1; " +
+          'exec "$(command -v bash || echo /bin/sh)"'
+      );
+      expect(polyfill.ptyScript('pty-1', { shell: 'zsh' })).toContain('stty cols 80 rows 24');
+    });
+
+    it('should reject environment variable names that are not identifiers', () => {
+      for (const key of ['A;rm -rf /', '1A', 'A B', '']) {
+        expect(() => polyfill.ptyScript('pty-1', { env: { [key]: 'x' } })).toThrow(
+          CommandExecutionError
+        );
+      }
+    });
+
+    it('should run the script under script for pipe-only transports', () => {
+      const command = polyfill.ptyCommand('pty-1', { shell: 'sh' });
+
+      expect(command).toMatch(/^flags=-qfc; script -V .* && flags=-qefc; exec script \$flags '/);
+      expect(command).toContain("exec sh' /dev/null");
+    });
+
+    it('should resize through the recorded terminal device', async () => {
+      mockExecutor.mockCommand('[ -f /tmp/.sandbox-sessions/pty-1.tty ] || exit 3', {
+        stdout: '',
+        stderr: '',
+        exitCode: 0
+      });
+
+      await polyfill.resizePty('pty-1', 100, 30);
+
+      expect(mockExecutor.getExecutedCommands().at(-1)?.command).toContain(
+        'stty -F "$(cat /tmp/.sandbox-sessions/pty-1.tty)" cols 100 rows 30'
+      );
+      await expect(polyfill.resizePty('../etc', 1, 1)).rejects.toThrow('PTY ../etc not found');
+    });
+
+    it('should report resizing a closed terminal as not found', async () => {
+      mockExecutor.mockCommand('pty-2.tty', { stdout: '', stderr: '', exitCode: 3 });
+
+      await expect(polyfill.resizePty('pty-2', 100, 30)).rejects.toThrow('PTY pty-2 not found');
+    });
+
+    it('should hang up the recorded shell', async () => {
+      await polyfill.hangUpPty('pty-1');
+
+      expect(mockExecutor.getExecutedCommands().at(-1)?.command).toBe(
+        '[ -f /tmp/.sandbox-sessions/pty-1.pid ] && kill -HUP "$(cat /tmp/.sandbox-sessions/pty-1.pid)"'
+      );
+    });
+  });
+
   describe('search', () => {
     it('should use find command for search', async () => {
       mockExecutor.mockCommand(
@@ -0,0 +1,244 @@
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import { CommandExecutionError, FeatureNotSupportedError, TimeoutError } from '@/errors';
+import { JupyterGatewayService } from '@/polyfill/JupyterGatewayService';
+import { acceptWebSocket, type WebSocketConnection } from '@/utils/websocket';
+
+interface FakeKernel {
+  name: string;
+  count: number;
+  codes: string[];
+}
+
+/**
+ * Stand-in for Jupyter Kernel Gateway. Its kernels understand three programs:
+ * `sleep` never finishes, `boom` raises, and anything else prints the
+ * execution count, displays a figure and returns a DataFrame.
+ */
+class FakeKernelGateway {
+  readonly token = randomUUID();
+  readonly kernels = new Map<string, FakeKernel>();
+  readonly interrupts: string[] = [];
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async listen(): Promise<number> {
+    this.server.on('upgrade', (req: IncomingMessage, socket, head) => {
+      const id = /^\/api\/kernels\/([^/]+)\/channels$/.exec(req.url ?? '')?.[1];
+      if (!this.authorized(req) || !id || !this.kernels.has(id)) {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      const ws = acceptWebSocket(req, socket, head);
+      // Clients may hang up while a kernel is still busy.
+      if (ws) this.serve(ws, this.kernels.get(id)!).catch(() => undefined);
+    });
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  close(): void {
+    this.server.closeAllConnections();
+    this.server.close();
+  }
+
+  private authorized(req: IncomingMessage): boolean {
+    return req.headers.authorization === `token ${this.token}`;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const reply = (status: number, json?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(json === undefined ? '' : JSON.stringify(json));
+    };
+
+    if (!this.authorized(req)) return reply(403, { message: 'Forbidden' });
+    const [, id, action] = /^\/api\/kernels(?:\/([^/]+))?(?:\/(\w+))?$/.exec(req.url ?? '') ?? [];
+    if (req.url === '/api') return reply(200, { version: 'fake' });
+    if (req.url === '/api/kernels' && req.method === 'POST') {
+      const kernel = randomUUID();
+      this.kernels.set(kernel, { name: JSON.parse(body).name, count: 0, codes: [] });
+      return reply(201, { id: kernel, name: JSON.parse(body).name });
+    }
+    if (!id || !this.kernels.has(id)) return reply(404, { message: 'Kernel does not exist' });
+    if (action === 'interrupt') {
+      this.interrupts.push(id);
+      return reply(204);
+    }
+    if (req.method === 'DELETE') {
+      this.kernels.delete(id);
+      return reply(204);
+    }
+    return reply(200, { id, name: this.kernels.get(id)!.name });
+  }
+
+  private async serve(ws: WebSocketConnection, kernel: FakeKernel): Promise<void> {
+    for await (const message of ws) {
+      const request = JSON.parse(new TextDecoder().decode(message.data));
+      const code: string = request.content.code;
+      kernel.codes.push(code);
+      const send = (type: string, content: unknown, msgId = request.header.msg_id) =>
+        ws.send(
+          JSON.stringify({
+            header: { msg_id: randomUUID(), msg_type: type },
+            parent_header: { msg_id: msgId },
+            content
+          })
+        );
+
+      await send('status', { execution_state: 'busy' });
+      if (code === 'sleep') continue;
+      if (request.content.store_history) kernel.count++;
+      await send('stream', { name: 'stdout', text: 'not ours\n' }, 'other-request');
+      if (code === 'boom') {
+        await send('error', {
+          ename: 'ZeroDivisionError',
+          evalue: 'division by zero',
+          traceback: ['Traceback (most recent call last):', 'ZeroDivisionError: division by zero']
+        });
+      } else {
+        await send('stream', { name: 'stdout', text: `count=${kernel.count}\n` });
+        await send('stream', { name: 'stderr', text: 'warning\n' });
+        await send('display_data', {
+          data: { 'text/plain': '<Figure>', 'image/png': 'iVBORw0KGgo=\n' }
+        });
+        await send('execute_result', {
+          execution_count: kernel.count,
+          data: {
+            'text/plain': '   a\n0  1',
+            'text/html': '<table></table>',
+            'application/vnd.dataresource+json': { schema: { fields: [] }, data: [{ a: 1 }] }
+          }
+        });
+      }
+      await send('execute_reply', { execution_count: kernel.count });
+      await send('status', { execution_state: 'idle' });
+    }
+  }
+}
+
+describe('JupyterGatewayService', () => {
+  const dir = JupyterGatewayService.DIR;
+  let baseDir: string;
+  let sandbox: LocalProcessAdapter;
+  let gateway: FakeKernelGateway;
+  let service: JupyterGatewayService;
+
+  beforeAll(async () => {
+    baseDir = mkdtempSync(join(tmpdir(), 'jupyter-'));
+    sandbox = new LocalProcessAdapter({ sandboxId: 'jupyter', baseDir });
+    await sandbox.ensureRunning();
+  });
+
+  afterAll(async () => {
+    await sandbox.delete();
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    gateway = new FakeKernelGateway();
+    const port = await gateway.listen();
+    // A gateway that is already running, as if started by an earlier client.
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'gateway.pid'), String(process.pid));
+    writeFileSync(join(dir, 'token'), gateway.token);
+    service = new JupyterGatewayService(sandbox, 'local', port);
+  });
+
+  afterEach(() => {
+    gateway.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run code in a shared default kernel per language', async () => {
+    const first = await service.runCode('df');
+    const second = await new JupyterGatewayService(sandbox, 'local', service['port']).runCode('df');
+
+    expect(first).toEqual({
+      results: [
+        { isMainResult: false, text: '<Figure>', png: 'iVBORw0KGgo=' },
+        {
+          isMainResult: true,
+          text: '   a\n0  1',
+          html: '<table></table>',
+          data: { schema: { fields: [] }, data: [{ a: 1 }] }
+        }
+      ],
+      stdout: 'count=1\n',
+      stderr: 'warning\n',
+      error: undefined,
+      executionCount: 1
+    });
+    expect(second.executionCount).toBe(2);
+
+    const [kernel] = [...gateway.kernels.values()];
+    expect(gateway.kernels.size).toBe(1);
+    expect(kernel.name).toBe('python3');
+    expect(kernel.codes[0]).toContain("pandas.set_option('display.html.table_schema', True)");
+  });
+
+  it('should hand over code larger than a command-line argument', async () => {
+    const code = `# ${'x'.repeat(512 * 1024)}`;
+
+    const execution = await service.runCode(code);
+
+    expect(execution.executionCount).toBe(1);
+    expect([...gateway.kernels.values()][0].codes.at(-1)).toBe(code);
+    expect(readdirSync(dir).filter((name) => name.startsWith('request-'))).toEqual([]);
+  });
+
+  it('should return errors raised by the code with their traceback', async () => {
+    const execution = await service.runCode('boom');
+
+    expect(execution.results).toEqual([]);
+    expect(execution.error).toEqual({
+      name: 'ZeroDivisionError',
+      value: 'division by zero',
+      traceback: 'Traceback (most recent call last):\nZeroDivisionError: division by zero'
+    });
+  });
+
+  it('should run code in created contexts until they are removed', async () => {
+    const context = await service.createCodeContext({ language: 'javascript', cwd: '/work' });
+    expect(context).toMatchObject({ language: 'javascript', cwd: '/work' });
+    expect(gateway.kernels.get(context.id)).toMatchObject({
+      name: 'javascript',
+      codes: ['process.chdir("/work")']
+    });
+
+    const execution = await service.runCode('x', { contextId: context.id });
+    expect(execution.stdout).toBe('count=1\n');
+
+    await service.removeCodeContext(context.id);
+    await expect(service.runCode('x', { contextId: context.id })).rejects.toThrow(
+      `Context not found: ${context.id}`
+    );
+    await expect(service.removeCodeContext(context.id)).rejects.toBeInstanceOf(
+      CommandExecutionError
+    );
+  });
+
+  it('should interrupt the kernel when the timeout elapses', async () => {
+    await expect(service.runCode('sleep', { timeoutMs: 200 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(gateway.interrupts).toEqual([...gateway.kernels.keys()]);
+  });
+
+  it('should reject languages that cannot name a kernel', async () => {
+    await expect(service.runCode('1', { language: '../python' })).rejects.toThrow(
+      'Invalid code language'
+    );
+  });
+
+  it('should fail when the sandbox has no kernel gateway', async () => {
+    rmSync(join(dir, 'gateway.pid'));
+
+    await expect(service.runCode('1')).rejects.toBeInstanceOf(FeatureNotSupportedError);
+  });
+});
@@ -0,0 +1,95 @@
+import { existsSync, mkdtempSync, realpathSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import { CommandExecutionError, TimeoutError } from '@/errors';
+import { CommandPolyfillService } from '@/polyfill/CommandPolyfillService';
+import { ShellSession } from '@/session';
+
+describe('ShellSession', () => {
+  let baseDir: string;
+  let sandbox: LocalProcessAdapter;
+  let shell: ShellSession;
+
+  beforeAll(async () => {
+    baseDir = realpathSync(mkdtempSync(join(tmpdir(), 'shell-session-')));
+    sandbox = new LocalProcessAdapter({ sandboxId: 'shell', baseDir: join(baseDir, 'sandboxes') });
+    await sandbox.ensureRunning();
+  });
+
+  afterAll(async () => {
+    await sandbox.delete();
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    shell = new ShellSession(sandbox, { cwd: baseDir, env: { GREETING: 'hello' } });
+  });
+
+  afterEach(async () => {
+    await shell.close();
+  });
+
+  it('should keep the working directory and environment between commands', async () => {
+    await shell.run('mkdir -p nested && cd nested && export NAME=world');
+    const result = await shell.run('echo "$GREETING $NAME from $(pwd)"');
+
+    expect(result).toMatchObject({
+      stdout: `hello world from ${join(baseDir, 'nested')}\n`,
+      stderr: '',
+      exitCode: 0
+    });
+    expect(shell.cwd).toBe(join(baseDir, 'nested'));
+  });
+
+  it('should separate output and exit codes of consecutive commands', async () => {
+    const [first, second, third] = await Promise.all([
+      shell.run('printf partial'),
+      shell.run('echo oops >&2; false'),
+      shell.run('f() { return 7; }; f')
+    ]);
+
+    expect(first).toMatchObject({ stdout: 'partial', stderr: '', exitCode: 0 });
+    expect(second).toMatchObject({ stdout: '', stderr: 'oops\n', exitCode: 1 });
+    expect(third.exitCode).toBe(7);
+  });
+
+  it('should not read later commands as stdin', async () => {
+    const result = await shell.run('cat');
+    expect(result).toMatchObject({ stdout: '', exitCode: 0 });
+    expect((await shell.run('echo after')).stdout).toBe('after\n');
+  });
+
+  it('should survive syntax errors', async () => {
+    await shell.run('export KEPT=1');
+    const result = await shell.run('if then');
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).not.toBe('');
+    expect((await shell.run('echo $KEPT')).stdout).toBe('1\n');
+  });
+
+  it('should restart with the saved state after the shell exits', async () => {
+    await shell.run('cd / && export KEPT=yes && LOCAL=gone');
+    expect(await shell.run('echo bye; exit 3')).toMatchObject({ stdout: 'bye\n', exitCode: 3 });
+
+    const result = await shell.run('echo "$(pwd) $KEPT ${LOCAL:-unset}"');
+    expect(result).toMatchObject({ stdout: '/ yes unset\n', exitCode: 0 });
+  });
+
+  it('should kill a command that times out and keep going', async () => {
+    await shell.run('cd / && export KEPT=yes');
+
+    await expect(shell.run('sleep 30', { timeoutMs: 300 })).rejects.toBeInstanceOf(TimeoutError);
+    expect((await shell.run('echo "$(pwd) $KEPT"')).stdout).toBe('/ yes\n');
+  });
+
+  it('should remove its files on close', async () => {
+    await shell.run('true');
+    await shell.close();
+
+    expect(existsSync(`${CommandPolyfillService.SESSION_DIR}/${shell.id}`)).toBe(false);
+    await expect(shell.run('true')).rejects.toBeInstanceOf(CommandExecutionError);
+  });
+});
@@ -0,0 +1,44 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { SandboxException } from '@/errors';
+import { FileSnapshotStore } from '@/snapshot';
+
+describe('FileSnapshotStore', () => {
+  const baseDir = mkdtempSync(join(tmpdir(), 'snapshot-store-'));
+  const directory = join(baseDir, 'snapshots');
+  const store = new FileSnapshotStore(directory);
+
+  afterAll(() => {
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip archives as files, creating the directory', async () => {
+    await store.put('sandbox-1', new Uint8Array([1, 2, 3]));
+
+    expect(existsSync(join(directory, 'sandbox-1.tar.gz'))).toBe(true);
+    expect(await store.get('sandbox-1')).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should return null for unknown keys and ignore deleting them', async () => {
+    await store.put('sandbox-2', new Uint8Array([4]));
+    await store.delete('sandbox-2');
+
+    expect(await store.get('sandbox-2')).toBeNull();
+    await expect(store.delete('sandbox-2')).resolves.toBeUndefined();
+  });
+
+  it('should not interleave concurrent writes to the same key', async () => {
+    const archives = Array.from({ length: 5 }, (_, i) => new Uint8Array(64 * 1024).fill(i));
+    await Promise.all(archives.map((data) => store.put('sandbox-3', data)));
+
+    expect(archives).toContainEqual(await store.get('sandbox-3'));
+    expect(readdirSync(directory).filter((name) => name.includes('.tmp.'))).toEqual([]);
+  });
+
+  it('should reject keys that would escape the directory', async () => {
+    await expect(store.put('../escape', new Uint8Array())).rejects.toBeInstanceOf(SandboxException);
+    await expect(store.get('a/b')).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+});
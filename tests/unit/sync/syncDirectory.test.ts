@@ -0,0 +1,164 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalProcessAdapter } from '@/adapters/LocalProcessAdapter';
+import { FileOperationError } from '@/errors';
+import { syncFromSandbox, syncToSandbox } from '@/sync';
+
+describe('syncDirectory', () => {
+  let baseDir: string;
+  let localDir: string;
+  let sandbox: LocalProcessAdapter;
+
+  const writeLocal = (path: string, content: string) => {
+    mkdirSync(dirname(join(localDir, path)), { recursive: true });
+    writeFileSync(join(localDir, path), content);
+  };
+  const readRemote = async (path: string) => {
+    const [result] = await sandbox.readFiles([path]);
+    return result.error ? undefined : new TextDecoder().decode(result.content);
+  };
+
+  beforeAll(async () => {
+    baseDir = mkdtempSync(join(tmpdir(), 'sync-'));
+    sandbox = new LocalProcessAdapter({ sandboxId: 'sync', baseDir: join(baseDir, 'sandboxes') });
+    await sandbox.ensureRunning();
+  });
+
+  afterAll(async () => {
+    await sandbox.delete();
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    localDir = mkdtempSync(join(baseDir, 'local-'));
+    await sandbox.execute('rm -rf repo out');
+  });
+
+  describe('syncToSandbox', () => {
+    it('should upload new files and skip unchanged ones on the next run', async () => {
+      writeLocal('a.txt', 'alpha');
+      writeLocal('src/b.ts', 'beta');
+
+      const first = await syncToSandbox(sandbox, localDir, 'repo');
+      expect(first.transferred).toEqual(['a.txt', 'src/b.ts']);
+      expect(await readRemote('repo/src/b.ts')).toBe('beta');
+
+      writeLocal('a.txt', 'alpha, longer');
+      const second = await syncToSandbox(sandbox, localDir, 'repo');
+      expect(second).toEqual({ transferred: ['a.txt'], deleted: [], unchanged: ['src/b.ts'] });
+      expect(await readRemote('repo/a.txt')).toBe('alpha, longer');
+    });
+
+    it('should apply include and exclude globs', async () => {
+      writeLocal('src/index.ts', 'code');
+      writeLocal('src/index.test.ts', 'test');
+      writeLocal('node_modules/pkg/index.ts', 'dep');
+      writeLocal('README.md', 'docs');
+
+      const result = await syncToSandbox(sandbox, localDir, 'repo', {
+        include: ['**/*.ts'],
+        exclude: ['node_modules', '*.test.ts']
+      });
+
+      expect(result.transferred).toEqual(['src/index.ts']);
+      expect(await readRemote('repo/README.md')).toBeUndefined();
+    });
+
+    it('should delete extraneous files only when asked to', async () => {
+      writeLocal('keep.txt', 'keep');
+      await sandbox.writeFiles([
+        { path: 'repo/stale.txt', data: 'stale' },
+        { path: 'repo/cache/ignored.bin', data: 'cache' }
+      ]);
+
+      const dry = await syncToSandbox(sandbox, localDir, 'repo', {
+        delete: true,
+        exclude: ['cache'],
+        dryRun: true
+      });
+      expect(dry.deleted).toEqual(['stale.txt']);
+      expect(await readRemote('repo/stale.txt')).toBe('stale');
+
+      await syncToSandbox(sandbox, localDir, 'repo', { delete: true, exclude: ['cache'] });
+      expect(await readRemote('repo/stale.txt')).toBeUndefined();
+      expect(await readRemote('repo/cache/ignored.bin')).toBe('cache');
+      expect(await readRemote('repo/keep.txt')).toBe('keep');
+    });
+
+    it('should compare same-sized files by checksum', async () => {
+      writeLocal('same.txt', 'abc');
+      writeLocal('changed.txt', 'xyz');
+      await sandbox.writeFiles([
+        { path: 'repo/same.txt', data: 'abc' },
+        { path: 'repo/changed.txt', data: 'xyw' }
+      ]);
+
+      const result = await syncToSandbox(sandbox, localDir, 'repo', { compare: 'checksum' });
+
+      expect(result.transferred).toEqual(['changed.txt']);
+      expect(result.unchanged).toEqual(['same.txt']);
+      expect(await readRemote('repo/changed.txt')).toBe('xyz');
+    });
+
+    it('should fail when the local directory does not exist', async () => {
+      await expect(syncToSandbox(sandbox, join(localDir, 'missing'), 'repo')).rejects.toMatchObject(
+        { fileErrorCode: 'FILE_NOT_FOUND' }
+      );
+    });
+  });
+
+  describe('syncFromSandbox', () => {
+    it('should download changed files into a new local directory', async () => {
+      await sandbox.writeFiles([
+        { path: 'out/result.json', data: '{"ok":true}' },
+        { path: 'out/logs/run.log', data: 'done' }
+      ]);
+      const target = join(localDir, 'results');
+
+      const first = await syncFromSandbox(sandbox, 'out', target);
+      expect(first.transferred).toEqual(['logs/run.log', 'result.json']);
+      expect(readFileSync(join(target, 'result.json'), 'utf8')).toBe('{"ok":true}');
+
+      const second = await syncFromSandbox(sandbox, 'out', target, { compare: 'checksum' });
+      expect(second.transferred).toEqual([]);
+      expect(second.unchanged).toEqual(['logs/run.log', 'result.json']);
+    });
+
+    it('should delete local files missing from the sandbox', async () => {
+      await sandbox.writeFiles([{ path: 'out/new.txt', data: 'new' }]);
+      writeLocal('old.txt', 'old');
+
+      const result = await syncFromSandbox(sandbox, 'out', localDir, { delete: true });
+
+      expect(result).toMatchObject({ transferred: ['new.txt'], deleted: ['old.txt'] });
+      expect(existsSync(join(localDir, 'old.txt'))).toBe(false);
+    });
+
+    it('should fail when the sandbox directory does not exist', async () => {
+      await expect(syncFromSandbox(sandbox, 'missing', localDir)).rejects.toBeInstanceOf(
+        FileOperationError
+      );
+    });
+
+    it('should refuse file names that leave the local directory', async () => {
+      await sandbox.writeFiles([{ path: 'out/escape', data: 'payload' }]);
+      const target = join(localDir, 'results');
+      const listDirectory = vi
+        .spyOn(sandbox, 'listDirectory')
+        .mockResolvedValue([
+          { name: '../escape', path: 'out/../escape', isFile: true, isDirectory: false, size: 7 }
+        ]);
+
+      try {
+        await expect(syncFromSandbox(sandbox, 'out', target)).rejects.toMatchObject({
+          fileErrorCode: 'INVALID_PATH'
+        });
+        expect(existsSync(join(localDir, 'escape'))).toBe(false);
+      } finally {
+        listDirectory.mockRestore();
+      }
+    });
+  });
+});
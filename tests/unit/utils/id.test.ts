@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { randomSuffix } from '@/utils/id';
+
+describe('randomSuffix', () => {
+  it('should return a lowercase alphanumeric suffix', () => {
+    expect(randomSuffix()).toMatch(/^[0-9a-z]+$/);
+  });
+
+  it('should not repeat across calls', () => {
+    const suffixes = new Set(Array.from({ length: 100 }, () => randomSuffix()));
+    expect(suffixes.size).toBe(100);
+  });
+});
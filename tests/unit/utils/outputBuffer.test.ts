@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { BoundedOutputBuffer } from '@/utils/outputBuffer';
+import { BoundedOutputBuffer, OutputLog } from '@/utils/outputBuffer';
 
 describe('BoundedOutputBuffer', () => {
   it('retains all output below the limit and reports not truncated', () => {
@@ -126,3 +126,43 @@ describe('BoundedOutputBuffer', () => {
     });
   });
 });
+
+describe('OutputLog', () => {
+  it('returns what was appended since an offset', () => {
+    const log = new OutputLog(1024);
+    log.append(Buffer.from('hello '));
+    const first = log.read(0);
+    log.append(Buffer.from('world'));
+    const second = log.read(first.offset);
+
+    expect(first).toEqual({ data: Buffer.from('hello '), offset: 6 });
+    expect(second).toEqual({ data: Buffer.from('world'), offset: 11 });
+    expect(log.read(second.offset).data.length).toBe(0);
+  });
+
+  it('reads dropped offsets from the oldest retained byte', () => {
+    const log = new OutputLog(4);
+    log.append(Buffer.from('012345'));
+
+    expect(log.read(0)).toEqual({ data: Buffer.from('2345'), offset: 6 });
+    expect(log.read(5).data.toString()).toBe('5');
+  });
+
+  it('keeps the tail across many small appends', () => {
+    const log = new OutputLog(5);
+    for (const chunk of ['ab', 'cd', 'ef', 'gh']) log.append(Buffer.from(chunk));
+
+    expect(log.read(0)).toEqual({ data: Buffer.from('defgh'), offset: 8 });
+    expect(log.read(4).data.toString()).toBe('efgh');
+    expect(log.read(7).data.toString()).toBe('h');
+  });
+
+  it('does not alias appended chunks', () => {
+    const log = new OutputLog(16);
+    const chunk = Buffer.from('abc');
+    log.append(chunk);
+    chunk.fill(0);
+
+    expect(log.read(0).data.toString()).toBe('abc');
+  });
+});
@@ -0,0 +1,18 @@
+import { execFileSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+import { shellQuote } from '@/utils/shell';
+
+describe('shellQuote', () => {
+  it('should wrap values in single quotes', () => {
+    expect(shellQuote('hello world')).toBe("'hello world'");
+    expect(shellQuote('')).toBe("''");
+  });
+
+  it('should pass values through sh unchanged', () => {
+    const value = `it's $HOME "quoted" \`cmd\` \\ *`;
+    const output = execFileSync('sh', ['-c', `printf '%s' ${shellQuote(value)}`], {
+      encoding: 'utf8'
+    });
+    expect(output).toBe(value);
+  });
+});
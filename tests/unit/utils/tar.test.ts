@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createTarArchive, parseTarArchive } from '@/utils/tar';
+
+describe('tar utilities', () => {
+  it('should round-trip files, directories and symlinks', () => {
+    const mtime = new Date('2024-01-15T10:30:00Z');
+    const archive = createTarArchive([
+      { name: 'dir', type: 'directory', mtime },
+      { name: 'dir/hello.txt', type: 'file', data: new TextEncoder().encode('hello'), mtime },
+      { name: 'dir/link', type: 'symlink', linkName: 'hello.txt', mtime }
+    ]);
+
+    expect(archive.length % 512).toBe(0);
+
+    const entries = parseTarArchive(archive);
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatchObject({ name: 'dir', type: 'directory', mode: 0o755 });
+    expect(entries[1]).toMatchObject({ name: 'dir/hello.txt', type: 'file', mode: 0o644 });
+    expect(new TextDecoder().decode(entries[1].data)).toBe('hello');
+    expect(entries[1].mtime?.getTime()).toBe(mtime.getTime());
+    expect(entries[2]).toMatchObject({ name: 'dir/link', type: 'symlink', linkName: 'hello.txt' });
+  });
+
+  it('should preserve binary content and custom modes', () => {
+    const data = new Uint8Array(1500).map((_, i) => i % 256);
+    const [entry] = parseTarArchive(
+      createTarArchive([{ name: 'bin.dat', type: 'file', data, mode: 0o755 }])
+    );
+
+    expect(entry.mode).toBe(0o755);
+    expect(entry.data).toEqual(data);
+  });
+
+  it('should handle empty files', () => {
+    const [entry] = parseTarArchive(createTarArchive([{ name: 'empty', type: 'file' }]));
+
+    expect(entry.type).toBe('file');
+    expect(entry.data).toHaveLength(0);
+  });
+
+  it('should use the ustar prefix field for long nested paths', () => {
+    const name = `${'a'.repeat(80)}/${'b'.repeat(80)}/file.txt`;
+    const [entry] = parseTarArchive(createTarArchive([{ name, type: 'file' }]));
+
+    expect(entry.name).toBe(name);
+  });
+
+  it('should fall back to PAX headers for names ustar cannot hold', () => {
+    const name = `${'x'.repeat(200)}.txt`;
+    const entries = parseTarArchive(
+      createTarArchive([{ name, type: 'file', data: new TextEncoder().encode('pax') }])
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].name).toBe(name);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('pax');
+  });
+
+  it('should return no entries for an empty archive', () => {
+    expect(parseTarArchive(createTarArchive([]))).toEqual([]);
+    expect(parseTarArchive(new Uint8Array())).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  acceptWebSocket,
+  connectWebSocket,
+  WebSocketHandshakeError,
+  type WebSocketConnection
+} from '@/utils/websocket';
+
+describe('websocket utilities', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createServer();
+    // Echo every message back, then close once the client says "bye".
+    server.on('upgrade', async (req, socket, head) => {
+      if (req.url === '/forbidden') {
+        socket.end('HTTP/1.1 403 Forbidden\r\nContent-Length: 9\r\n\r\nforbidden');
+        return;
+      }
+      const ws = acceptWebSocket(req, socket, head, ['echo.v2', 'echo.v1'], {
+        maxMessageBytes: req.url === '/small' ? 1024 : undefined
+      });
+      if (!ws) return;
+      try {
+        for await (const message of ws) {
+          if (!message.binary && Buffer.from(message.data).toString() === 'bye') {
+            ws.close(4000, 'done');
+            break;
+          }
+          await ws.send(message.binary ? message.data : Buffer.from(message.data).toString());
+        }
+      } catch {
+        // Refused messages end the connection with an error.
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/echo`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const next = async (ws: WebSocketConnection) => {
+    const iterator = ws[Symbol.asyncIterator]();
+    const { value } = await iterator.next();
+    return value;
+  };
+
+  it('should negotiate the first supported subprotocol', async () => {
+    const ws = await connectWebSocket(url, { protocols: ['echo.v1', 'echo.v2'] });
+
+    expect(ws.protocol).toBe('echo.v1');
+    ws.close();
+  });
+
+  it('should round-trip text and large binary messages', async () => {
+    const ws = await connectWebSocket(url);
+    const large = new Uint8Array(200_000).map((_, i) => i % 251);
+
+    await ws.send('hello');
+    expect(await next(ws)).toEqual({ data: new TextEncoder().encode('hello'), binary: false });
+
+    await ws.send(large);
+    const echoed = await next(ws);
+    expect(echoed?.binary).toBe(true);
+    expect(echoed?.data).toEqual(large);
+    ws.close();
+  });
+
+  it('should end iteration with the peer close code', async () => {
+    const ws = await connectWebSocket(url);
+    await ws.send('bye');
+
+    const messages = [];
+    for await (const message of ws) messages.push(message);
+
+    expect(messages).toEqual([]);
+    expect(ws.closeCode).toBe(4000);
+    expect(ws.closeReason).toBe('done');
+  });
+
+  it('should close with 1009 when the peer sends an oversized message', async () => {
+    const ws = await connectWebSocket(url.replace('/echo', '/small'));
+    await ws.send(new Uint8Array(2048));
+
+    const messages = [];
+    for await (const message of ws) messages.push(message);
+
+    expect(messages).toEqual([]);
+    expect(ws.closeCode).toBe(1009);
+  });
+
+  it('should refuse oversized incoming messages', async () => {
+    const ws = await connectWebSocket(url, { maxMessageBytes: 16 });
+    await ws.send('x'.repeat(64));
+
+    await expect(next(ws)).rejects.toThrow('exceeds 16 bytes');
+    expect(ws.closeCode).toBe(1009);
+  });
+
+  it('should reject non-upgrade responses with the HTTP status', async () => {
+    const error = await connectWebSocket(url.replace('/echo', '/forbidden')).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WebSocketHandshakeError);
+    expect(error.statusCode).toBe(403);
+    expect(error.body).toBe('forbidden');
+  });
+});